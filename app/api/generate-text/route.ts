@@ -2,16 +2,24 @@ import "server-only";
 
 import { NextResponse } from "next/server";
 import { generateTextOnce } from "@/lib/ai/generate-text";
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { LlmBudgetExhaustedError } from "@/lib/services/llmBudget";
 
 export const runtime = "nodejs";
 
 type GenerateTextRequest = {
   prompt?: string;
   system?: string;
-  model?: string;
 };
 
+// The model comes from the `ad_hoc` stage configuration, and the call is
+// charged to the signed-in manager's team budget and ledger entry.
 export async function POST(req: Request) {
+  const authorization = await authorizeApiRequest({ role: "manager" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   let body: GenerateTextRequest;
 
   try {
@@ -32,9 +40,21 @@ export async function POST(req: Request) {
     result = await generateTextOnce({
       prompt: body.prompt,
       system: typeof body.system === "string" ? body.system : undefined,
-      model: typeof body.model === "string" ? body.model : undefined,
+      stage: "ad_hoc",
+      employeeEmail: authorization.session.email,
     });
   } catch (error) {
+    if (error instanceof LlmBudgetExhaustedError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          errorCode: "budget_exhausted",
+          budget: error.status,
+        },
+        { status: 429 }
+      );
+    }
+
     console.error(error);
     return NextResponse.json(
       { error: `Text generation failed. ${error}` },
@@ -0,0 +1,84 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { isCronRequestAuthorized } from "@/lib/auth/cronSecret";
+import { isValidWeekStart } from "@/lib/services/activityWindow";
+import {
+  enqueuePendingIngestionWeeks,
+  runScheduledIngestion,
+  type IngestionRunSummary,
+} from "@/lib/services/ingestionScheduler";
+
+export const runtime = "nodejs";
+
+type WeeklyIngestionRequest = {
+  weekStart?: string;
+};
+
+function toResponse(summaries: IngestionRunSummary[]) {
+  const hasFailedRun = summaries.some((summary) => summary.status === "failed");
+  return NextResponse.json(
+    {
+      status: hasFailedRun ? "failed" : "success",
+      runs: summaries,
+    },
+    { status: hasFailedRun ? 502 : 200 }
+  );
+}
+
+// One explicit week is ingested inline. A backfill can span many weeks, each
+// with its collection and evaluation passes, which would outlast the request
+// timeout, so its weeks are queued for the job worker instead.
+async function handleIngestion(weekStart?: string) {
+  try {
+    if (!weekStart) {
+      const weeks = await enqueuePendingIngestionWeeks({ trigger: "cron" });
+      return NextResponse.json({ status: "queued", weeks }, { status: 202 });
+    }
+
+    const summaries = await runScheduledIngestion({ weekStart, trigger: "manual" });
+    return toResponse(summaries);
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Weekly ingestion failed for an unknown reason.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Cron platforms call this with a bare GET; missed weeks are queued.
+export async function GET(req: Request) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  return handleIngestion();
+}
+
+export async function POST(req: Request) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  let body: WeeklyIngestionRequest = {};
+  const rawBody = await req.text();
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody) as WeeklyIngestionRequest;
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+    }
+  }
+
+  if (body.weekStart !== undefined) {
+    if (typeof body.weekStart !== "string" || !isValidWeekStart(body.weekStart)) {
+      return NextResponse.json(
+        { error: "`weekStart` must be a Monday in YYYY-MM-DD format." },
+        { status: 400 }
+      );
+    }
+  }
+
+  return handleIngestion(body.weekStart);
+}
@@ -0,0 +1,107 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  respondToEmployeePrompt,
+  type EmployeePromptAction,
+} from "@/lib/services/employeePromptInbox";
+
+export const runtime = "nodejs";
+
+const MAX_RESPONSE_LENGTH = 2000;
+
+type RouteContext = {
+  params: Promise<{
+    promptId: string;
+  }>;
+};
+
+type PromptActionRequest = {
+  action?: unknown;
+  text?: unknown;
+  snoozeDays?: unknown;
+};
+
+function parseAction(
+  body: PromptActionRequest
+): { ok: true; action: EmployeePromptAction } | { ok: false; error: string } {
+  if (body.text !== undefined && typeof body.text !== "string") {
+    return { ok: false, error: "`text` must be a string." };
+  }
+  const text = body.text?.trim() ?? "";
+  if (text.length > MAX_RESPONSE_LENGTH) {
+    return {
+      ok: false,
+      error: `\`text\` must be at most ${MAX_RESPONSE_LENGTH} characters.`,
+    };
+  }
+
+  switch (body.action) {
+    case "reply":
+      if (!text) {
+        return { ok: false, error: "Missing `text` for a reply." };
+      }
+      return { ok: true, action: { type: "reply", text } };
+    case "not_relevant":
+      return { ok: true, action: { type: "not_relevant", text: text || undefined } };
+    case "snooze":
+      if (body.snoozeDays !== undefined && typeof body.snoozeDays !== "number") {
+        return { ok: false, error: "`snoozeDays` must be a number." };
+      }
+      return { ok: true, action: { type: "snooze", days: body.snoozeDays } };
+    default:
+      return {
+        ok: false,
+        error: "`action` must be one of `reply`, `snooze` or `not_relevant`.",
+      };
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { promptId: rawPromptId } = await params;
+  const promptId = Number(rawPromptId);
+
+  if (!Number.isInteger(promptId) || promptId < 1) {
+    return NextResponse.json(
+      { error: "`promptId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  // Only the employee the prompt was written for can answer it.
+  const authorization = await authorizeApiRequest({ role: "engineer" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  let body: PromptActionRequest;
+  try {
+    body = (await req.json()) as PromptActionRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseAction(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await respondToEmployeePrompt({
+    promptId,
+    employeeEmail: authorization.session.email,
+    action: parsed.action,
+  });
+
+  if (!result.ok) {
+    return result.reason === "not_found"
+      ? NextResponse.json({ error: "Check-in prompt not found." }, { status: 404 })
+      : NextResponse.json(
+          { error: "`snoozeDays` must be a whole number from 1 to 30." },
+          { status: 400 }
+        );
+  }
+
+  return NextResponse.json({ prompt: result.prompt });
+}
@@ -0,0 +1,37 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { getPromptInbox } from "@/lib/services/employeePromptInbox";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    return NextResponse.json(await getPromptInbox(employeeEmail));
+  } catch (error) {
+    console.error("[employee-prompts] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load check-in prompts." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import "server-only";
 
 import { NextResponse } from "next/server";
 
+import { authorizeApiRequest } from "@/lib/auth/access";
 import { getExistingMonthlyReportByEmployeeEmail } from "@/lib/services/engineerMonthlyReportLookup";
 
 export const runtime = "nodejs";
@@ -19,6 +20,11 @@ export async function GET(req: Request) {
     );
   }
 
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   try {
     const status = await getExistingMonthlyReportByEmployeeEmail(employeeEmail);
     return NextResponse.json(status);
@@ -2,8 +2,14 @@ import "server-only";
 
 import { NextResponse } from "next/server";
 
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { enqueueJob } from "@/lib/services/jobQueue";
 import {
-  generateManagerAnalysisOrchestration,
+  findExhaustedEmployeeBudget,
+  LlmBudgetExhaustedError,
+} from "@/lib/services/llmBudget";
+import {
+  validateManagerAnalysisRequest,
   type GenerateManagerAnalysisRequest,
 } from "@/lib/services/managerAnalysisOrchestrator";
 
@@ -34,11 +40,55 @@ export async function POST(req: Request) {
     ? body.monthKeys.map((item) => String(item))
     : [];
 
-  const result = await generateManagerAnalysisOrchestration({
+  // An empty email falls through to the orchestrator's own input validation.
+  const authorization = await authorizeApiRequest({
+    employeeEmail: employeeEmail.trim().toLowerCase() || undefined,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const validation = validateManagerAnalysisRequest({
     employeeEmail,
     quarter,
     monthKeys: monthKeys as [string, string, string],
   });
+  if (!validation.ok) {
+    return NextResponse.json(validation.body, { status: validation.httpStatus });
+  }
+
+  const exhaustedBudget = await findExhaustedEmployeeBudget(
+    validation.request.employeeEmail
+  );
+  if (exhaustedBudget) {
+    return NextResponse.json(
+      {
+        status: "failed",
+        runId: null,
+        failedStage: "input_validation",
+        errorCode: "budget_exhausted",
+        message: new LlmBudgetExhaustedError(exhaustedBudget).message,
+        budget: exhaustedBudget,
+      },
+      { status: 429 }
+    );
+  }
+
+  const { jobId } = await enqueueJob({
+    kind: "manager_analysis",
+    payload: validation.request,
+    employeeEmail: validation.request.employeeEmail,
+    requestedBy: authorization.session.email,
+  });
 
-  return NextResponse.json(result.body, { status: result.httpStatus });
+  return NextResponse.json(
+    {
+      status: "queued",
+      jobId,
+      statusUrl: `/api/insights/jobs/${jobId}`,
+      streamUrl: `/api/insights/manager-analysis/stream?employeeEmail=${encodeURIComponent(validation.request.employeeEmail)}&jobId=${jobId}`,
+    },
+    { status: 202 }
+  );
 }
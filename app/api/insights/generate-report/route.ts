@@ -1,23 +1,17 @@
 import "server-only";
 
 import { NextResponse } from "next/server";
-import { and, asc, eq, gte, lte } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 
+import { authorizeApiRequest } from "@/lib/auth/access";
 import { db } from "@/lib/db/config";
+import { employees } from "@/lib/db/schema";
+import { enqueueJob } from "@/lib/services/jobQueue";
 import {
-  employeeMonthlyInsights,
-  employeeQuarterlyInsights,
-  employees,
-  githubWeeklyActivity,
-  slackWeeklyActivity,
-} from "@/lib/db/schema";
-import {
-  generateMonthlyInsightsSinglePass,
-  generateQuarterlyInsightsSinglePass,
-  type PeriodType,
-  type WeeklyGithubActivity,
-  type WeeklySlackActivity,
-} from "@/lib/ai/insightGenerator";
+  findExhaustedEmployeeBudget,
+  LlmBudgetExhaustedError,
+} from "@/lib/services/llmBudget";
+import type { GenerateReportInput } from "@/lib/services/reportGeneration";
 
 export const runtime = "nodejs";
 
@@ -27,12 +21,6 @@ type GenerateReportRequest = {
   endDate?: string;
 };
 
-type PeriodBucket = {
-  githubWeekly: WeeklyGithubActivity[];
-  slackWeekly: WeeklySlackActivity[];
-};
-
-const LOOKBACK_WEEKS = 12;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 function isValidDate(value: string): boolean {
@@ -48,66 +36,6 @@ function isValidDate(value: string): boolean {
   return parsed.toISOString().slice(0, 10) === value;
 }
 
-function toISODate(value: string | Date): string {
-  if (typeof value === "string") {
-    return value.slice(0, 10);
-  }
-  return value.toISOString().slice(0, 10);
-}
-
-function monthKey(dateStr: string): string {
-  const [year, month] = dateStr.split("-");
-  return `${year}-${month}`;
-}
-
-function quarterKey(dateStr: string): string {
-  const [year, monthStr] = dateStr.split("-");
-  const month = Number(monthStr);
-  const quarter = Math.floor((month - 1) / 3) + 1;
-  return `${year}-Q${quarter}`;
-}
-
-function groupByPeriod(
-  githubWeekly: WeeklyGithubActivity[],
-  slackWeekly: WeeklySlackActivity[],
-  periodType: PeriodType
-): Map<string, PeriodBucket> {
-  const buckets = new Map<string, PeriodBucket>();
-
-  const addToBucket = (
-    key: string,
-    type: "githubWeekly" | "slackWeekly",
-    record: WeeklyGithubActivity | WeeklySlackActivity
-  ) => {
-    const existing = buckets.get(key) ?? {
-      githubWeekly: [],
-      slackWeekly: [],
-    };
-    if (type === "githubWeekly") {
-      existing.githubWeekly.push(record as WeeklyGithubActivity);
-    } else {
-      existing.slackWeekly.push(record as WeeklySlackActivity);
-    }
-    buckets.set(key, existing);
-  };
-
-  githubWeekly.forEach((week) => {
-    const weekStart = toISODate(week.weekStart);
-    const key =
-      periodType === "month" ? monthKey(weekStart) : quarterKey(weekStart);
-    addToBucket(key, "githubWeekly", week);
-  });
-
-  slackWeekly.forEach((week) => {
-    const weekStart = toISODate(week.weekStart);
-    const key =
-      periodType === "month" ? monthKey(weekStart) : quarterKey(weekStart);
-    addToBucket(key, "slackWeekly", week);
-  });
-
-  return buckets;
-}
-
 export async function POST(req: Request) {
   let body: GenerateReportRequest;
 
@@ -125,6 +53,12 @@ export async function POST(req: Request) {
   }
 
   const employeeEmail = body.employeeEmail.trim().toLowerCase();
+
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   const hasStartDate = typeof body.startDate === "string";
   const hasEndDate = typeof body.endDate === "string";
 
@@ -173,120 +107,33 @@ export async function POST(req: Request) {
     );
   }
 
-  const effectiveStartDate =
-    startDate ??
-    (() => {
-      const lookbackStart = new Date();
-      lookbackStart.setDate(lookbackStart.getDate() - LOOKBACK_WEEKS * 7);
-      return lookbackStart.toISOString().slice(0, 10);
-    })();
-
-  const githubWhereClause = endDate
-    ? and(
-        eq(githubWeeklyActivity.employeeEmail, employeeEmail),
-        gte(githubWeeklyActivity.weekStart, effectiveStartDate),
-        lte(githubWeeklyActivity.weekStart, endDate)
-      )
-    : and(
-        eq(githubWeeklyActivity.employeeEmail, employeeEmail),
-        gte(githubWeeklyActivity.weekStart, effectiveStartDate)
-      );
-
-  const slackWhereClause = endDate
-    ? and(
-        eq(slackWeeklyActivity.employeeEmail, employeeEmail),
-        gte(slackWeeklyActivity.weekStart, effectiveStartDate),
-        lte(slackWeeklyActivity.weekStart, endDate)
-      )
-    : and(
-        eq(slackWeeklyActivity.employeeEmail, employeeEmail),
-        gte(slackWeeklyActivity.weekStart, effectiveStartDate)
-      );
-
-  const githubWeekly = await db
-    .select()
-    .from(githubWeeklyActivity)
-    .where(githubWhereClause)
-    .orderBy(asc(githubWeeklyActivity.weekStart));
-
-  const slackWeekly = await db
-    .select()
-    .from(slackWeeklyActivity)
-    .where(slackWhereClause)
-    .orderBy(asc(slackWeeklyActivity.weekStart));
-
-  const monthlyBuckets = groupByPeriod(githubWeekly, slackWeekly, "month");
-  const quarterlyBuckets = groupByPeriod(githubWeekly, slackWeekly, "quarter");
-
-  let monthlyGenerated = 0;
-  let quarterlyGenerated = 0;
-
-  const monthlyKeys = Array.from(monthlyBuckets.keys()).sort();
-  for (const key of monthlyKeys) {
-    const bucket = monthlyBuckets.get(key);
-    if (!bucket) continue;
-
-    // Single LLM pass for monthly signals, dimensions, and synthesis.
-    const monthlyBundle = await generateMonthlyInsightsSinglePass({
-      periodKey: key,
-      githubWeekly: bucket.githubWeekly,
-      slackWeekly: bucket.slackWeekly,
-    });
-
-    await db.insert(employeeMonthlyInsights).values({
-      employeeEmail,
-      month: key,
-      executionInsight: monthlyBundle.dimensionInsights.Execution.insight,
-      engagementInsight: monthlyBundle.dimensionInsights.Engagement.insight,
-      collaborationInsight: monthlyBundle.dimensionInsights.Collaboration.insight,
-      growthInsight: monthlyBundle.dimensionInsights.Growth.insight,
-      overallSummary: monthlyBundle.synthesis.overallSummary,
-      identifiedRisks: monthlyBundle.synthesis.identifiedRisks,
-      identifiedOpportunities: monthlyBundle.synthesis.identifiedOpportunities,
-      supportingSignals: monthlyBundle.allSignals,
-      dataSufficiency: monthlyBundle.dataSufficiency,
-      confidenceLevel: monthlyBundle.synthesis.confidence,
-      generatedByModel: monthlyBundle.synthesis.model,
-      modelVersion: monthlyBundle.synthesis.modelVersion,
-    });
-    monthlyGenerated += 1;
-  }
-
-  const quarterlyKeys = Array.from(quarterlyBuckets.keys()).sort();
-  for (const key of quarterlyKeys) {
-    const bucket = quarterlyBuckets.get(key);
-    if (!bucket) continue;
-
-    // Single LLM pass for quarterly signals, dimensions, and synthesis.
-    const quarterlyBundle = await generateQuarterlyInsightsSinglePass({
-      periodKey: key,
-      githubWeekly: bucket.githubWeekly,
-      slackWeekly: bucket.slackWeekly,
-    });
-
-    await db.insert(employeeQuarterlyInsights).values({
-      employeeEmail,
-      quarter: key,
-      trajectorySummary: quarterlyBundle.synthesis.trajectorySummary,
-      keyStrengths: quarterlyBundle.synthesis.keyStrengths,
-      keyConcerns: quarterlyBundle.synthesis.keyConcerns,
-      burnoutAssessment: quarterlyBundle.synthesis.burnoutAssessment,
-      growthAssessment: quarterlyBundle.synthesis.growthAssessment,
-      retentionAssessment: quarterlyBundle.synthesis.retentionAssessment,
-      recommendedActions: quarterlyBundle.synthesis.recommendedActions,
-      evidenceSnapshots: quarterlyBundle.synthesis.evidenceSnapshots,
-      dataSufficiency: quarterlyBundle.dataSufficiency,
-      confidenceLevel: quarterlyBundle.synthesis.confidence,
-      generatedByModel: quarterlyBundle.synthesis.model,
-      modelVersion: quarterlyBundle.synthesis.modelVersion,
-    });
-
-    quarterlyGenerated += 1;
+  const exhaustedBudget = await findExhaustedEmployeeBudget(employeeEmail);
+  if (exhaustedBudget) {
+    return NextResponse.json(
+      {
+        error: new LlmBudgetExhaustedError(exhaustedBudget).message,
+        errorCode: "budget_exhausted",
+        budget: exhaustedBudget,
+      },
+      { status: 429 }
+    );
   }
 
-  return NextResponse.json({
-    status: "success",
-    monthlyGenerated,
-    quarterlyGenerated,
+  const payload: GenerateReportInput = { employeeEmail, startDate, endDate };
+  const { jobId } = await enqueueJob({
+    kind: "generate_report",
+    payload,
+    employeeEmail,
+    requestedBy: authorization.session.email,
   });
+
+  // Generation runs one LLM pass per period; the job worker picks it up.
+  return NextResponse.json(
+    {
+      status: "queued",
+      jobId,
+      statusUrl: `/api/insights/jobs/${jobId}`,
+    },
+    { status: 202 }
+  );
 }
@@ -0,0 +1,44 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { getJob, toJobStatusView } from "@/lib/services/jobQueue";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    jobId: string;
+  }>;
+};
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { jobId: rawJobId } = await params;
+  const jobId = Number(rawJobId);
+
+  if (!Number.isInteger(jobId) || jobId < 1) {
+    return NextResponse.json(
+      { error: "`jobId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail: job.employeeEmail ?? undefined,
+    role:
+      job.kind.startsWith("manager_analysis") || job.kind === "weekly_ingestion"
+        ? "manager"
+        : undefined,
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  return NextResponse.json(toJobStatusView(job));
+}
@@ -2,6 +2,7 @@ import "server-only";
 
 import { NextResponse } from "next/server";
 
+import { authorizeApiRequest } from "@/lib/auth/access";
 import { getLatestManagerDebateFeedByEmployeeEmail } from "@/lib/services/managerDebateFeed";
 
 export const runtime = "nodejs";
@@ -19,6 +20,14 @@ export async function GET(req: Request) {
     );
   }
 
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   try {
     const debateFeed = await getLatestManagerDebateFeedByEmployeeEmail(employeeEmail);
 
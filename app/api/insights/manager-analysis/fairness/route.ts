@@ -0,0 +1,53 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { listFairnessRules } from "@/lib/ai/fairnessPolicy";
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  findFairnessReport,
+  listFairnessReports,
+} from "@/lib/services/fairnessReports";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const authorization = await authorizeApiRequest({ role: "hr" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const url = new URL(req.url);
+  const rawRunId = url.searchParams.get("runId");
+
+  try {
+    const rules = listFairnessRules();
+
+    if (rawRunId !== null) {
+      const runId = Number(rawRunId);
+      if (!Number.isInteger(runId) || runId < 1) {
+        return NextResponse.json(
+          { error: "runId must be a positive integer." },
+          { status: 400 }
+        );
+      }
+      const report = await findFairnessReport(runId);
+      if (!report) {
+        return NextResponse.json(
+          { error: "Manager analysis run not found." },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ rules, report });
+    }
+
+    const reports = await listFairnessReports();
+    return NextResponse.json({ rules, reports });
+  } catch (error) {
+    console.error("[manager-analysis-fairness] failed to load fairness reports", error);
+    return NextResponse.json(
+      { error: "Failed to load fairness reports." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest, canAccessEmployee } from "@/lib/auth/access";
+import { enqueueJob } from "@/lib/services/jobQueue";
+import {
+  findExhaustedEmployeeBudget,
+  LlmBudgetExhaustedError,
+} from "@/lib/services/llmBudget";
+import { findAnalysisRun } from "@/lib/services/managerAnalysisOrchestrator";
+
+export const runtime = "nodejs";
+
+function failed(
+  runId: number | null,
+  errorCode: string,
+  message: string,
+  status: number
+) {
+  return NextResponse.json(
+    {
+      status: "failed",
+      runId,
+      failedStage: "input_validation",
+      errorCode,
+      message,
+    },
+    { status }
+  );
+}
+
+export async function POST(req: Request) {
+  const authorization = await authorizeApiRequest({ role: "manager" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  let body: { runId?: unknown };
+
+  try {
+    body = (await req.json()) as { runId?: unknown };
+  } catch {
+    return failed(null, "invalid_json", "Invalid JSON body.", 400);
+  }
+
+  const runId = Number(body.runId);
+  if (!Number.isInteger(runId) || runId < 1) {
+    return failed(null, "invalid_run_id", "runId must be a positive integer.", 400);
+  }
+
+  // Runs for employees outside the manager's chain look missing, so run ids
+  // cannot be probed.
+  const run = await findAnalysisRun(runId);
+  if (!run || !(await canAccessEmployee(authorization.session, run.employeeEmail))) {
+    return failed(runId, "run_not_found", "Manager analysis run not found.", 404);
+  }
+
+  if (run.status !== "failed" && !run.stale) {
+    return failed(
+      runId,
+      "run_not_resumable",
+      `Only failed runs can be resumed; this run is ${run.status}.`,
+      409
+    );
+  }
+
+  const exhaustedBudget = await findExhaustedEmployeeBudget(run.employeeEmail);
+  if (exhaustedBudget) {
+    return failed(
+      runId,
+      "budget_exhausted",
+      new LlmBudgetExhaustedError(exhaustedBudget).message,
+      429
+    );
+  }
+
+  const { jobId } = await enqueueJob({
+    kind: "manager_analysis_resume",
+    payload: { runId },
+    employeeEmail: run.employeeEmail,
+    requestedBy: authorization.session.email,
+  });
+
+  return NextResponse.json(
+    {
+      status: "queued",
+      jobId,
+      runId,
+      statusUrl: `/api/insights/jobs/${jobId}`,
+    },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,207 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  TERMINAL_RUN_EVENT_TYPES,
+  findStreamableRun,
+  getRunStatus,
+  listRunEventsAfter,
+  type StreamableRun,
+} from "@/lib/services/analysisRunEvents";
+import { getJob } from "@/lib/services/jobQueue";
+
+export const runtime = "nodejs";
+
+const POLL_INTERVAL_MS = 1_000;
+// Streams end before typical proxy timeouts; EventSource reconnects and
+// resumes from Last-Event-ID.
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseEventId(value: string | null): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function parseOptionalId(value: string | null): number | undefined {
+  return value === null ? undefined : Number(value);
+}
+
+function isInvalidId(value: number | undefined): boolean {
+  return value !== undefined && (!Number.isInteger(value) || value < 1);
+}
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+  const runId = parseOptionalId(url.searchParams.get("runId"));
+  const jobId = parseOptionalId(url.searchParams.get("jobId"));
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  if (isInvalidId(runId)) {
+    return NextResponse.json(
+      { error: "`runId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  if (isInvalidId(jobId)) {
+    return NextResponse.json(
+      { error: "`jobId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  if (runId !== undefined && jobId !== undefined) {
+    return NextResponse.json(
+      { error: "Pass either `runId` or `jobId`, not both." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  // A queued job creates its run only once a worker picks it up, so the
+  // stream waits for a run started after the job was queued.
+  const job = jobId === undefined ? null : await getJob(jobId);
+  if (
+    jobId !== undefined &&
+    (!job ||
+      job.kind !== "manager_analysis" ||
+      job.employeeEmail !== employeeEmail)
+  ) {
+    return NextResponse.json(
+      { error: "No manager analysis job found for this employee." },
+      { status: 404 }
+    );
+  }
+  const createdSince = job?.createdAt;
+
+  const initialRun = await findStreamableRun({
+    employeeEmail,
+    runId,
+    createdSince,
+  });
+  if (!initialRun && !job) {
+    return NextResponse.json(
+      { error: "No manager analysis run found for this employee." },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const initialEventId = parseEventId(req.headers.get("last-event-id"));
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: Record<string, unknown>, id?: number) => {
+        const idLine = id === undefined ? "" : `id: ${id}\n`;
+        controller.enqueue(
+          encoder.encode(`${idLine}data: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      let lastEventId = initialEventId;
+      const deadline = Date.now() + MAX_STREAM_MS;
+
+      try {
+        let run: StreamableRun | null = initialRun;
+        while (!run && job) {
+          const current = await getJob(job.id);
+          // Checked after the job status so a run created just before the
+          // job finished is still found.
+          run = await findStreamableRun({ employeeEmail, createdSince });
+          if (run) {
+            break;
+          }
+          if (!current || current.status === "completed" || current.status === "failed") {
+            // The job ended before starting a run, e.g. on invalid input.
+            send({
+              type: "end",
+              runId: null,
+              jobId: job.id,
+              status: current?.status ?? "failed",
+            });
+            return;
+          }
+          if (req.signal.aborted || Date.now() > deadline) {
+            return;
+          }
+          controller.enqueue(encoder.encode(": keep-alive\n\n"));
+          await sleep(POLL_INTERVAL_MS);
+        }
+        if (!run) {
+          return;
+        }
+
+        send({ type: "run", run });
+
+        while (!req.signal.aborted) {
+          const events = await listRunEventsAfter(run.id, lastEventId);
+          let terminalStatus: string | null = null;
+          for (const event of events) {
+            send(event, event.id);
+            lastEventId = event.id;
+            if (TERMINAL_RUN_EVENT_TYPES.has(event.type)) {
+              terminalStatus = event.type === "run_completed" ? "completed" : "failed";
+            } else if (event.type === "run_resumed") {
+              // A resumed run logs new events after its earlier failure.
+              terminalStatus = null;
+            }
+          }
+
+          // The status check also ends streams for runs recorded before
+          // progress events existed.
+          const status = terminalStatus ?? (await getRunStatus(run.id));
+          if (status !== "running") {
+            send({ type: "end", runId: run.id, status });
+            break;
+          }
+
+          if (Date.now() > deadline) {
+            break;
+          }
+
+          controller.enqueue(encoder.encode(": keep-alive\n\n"));
+          await sleep(POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        if (!req.signal.aborted) {
+          console.error("[manager-analysis-stream] failed", error);
+          send({ type: "stream_error", message: "Failed to read run progress." });
+        }
+      } finally {
+        if (!req.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
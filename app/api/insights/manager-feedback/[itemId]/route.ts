@@ -0,0 +1,111 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  findFeedbackItem,
+  updateFeedbackItem,
+  type ManagerFeedbackItemAction,
+} from "@/lib/services/managerFeedbackItems";
+
+export const runtime = "nodejs";
+
+const MAX_TEXT_LENGTH = 2000;
+
+type RouteContext = {
+  params: Promise<{
+    itemId: string;
+  }>;
+};
+
+type FeedbackItemActionRequest = {
+  action?: unknown;
+  text?: unknown;
+};
+
+function parseAction(
+  body: FeedbackItemActionRequest
+): { ok: true; action: ManagerFeedbackItemAction } | { ok: false; error: string } {
+  if (body.text !== undefined && typeof body.text !== "string") {
+    return { ok: false, error: "`text` must be a string." };
+  }
+  const text = body.text?.trim() ?? "";
+  if (text.length > MAX_TEXT_LENGTH) {
+    return {
+      ok: false,
+      error: `\`text\` must be at most ${MAX_TEXT_LENGTH} characters.`,
+    };
+  }
+
+  switch (body.action) {
+    case "mark_asked":
+      return { ok: true, action: { type: "mark_asked", answer: text || undefined } };
+    case "mark_addressed":
+      return { ok: true, action: { type: "mark_addressed", note: text || undefined } };
+    case "reopen":
+      return { ok: true, action: { type: "reopen" } };
+    default:
+      return {
+        ok: false,
+        error: "`action` must be one of `mark_asked`, `mark_addressed` or `reopen`.",
+      };
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { itemId: rawItemId } = await params;
+  const itemId = Number(rawItemId);
+
+  if (!Number.isInteger(itemId) || itemId < 1) {
+    return NextResponse.json(
+      { error: "`itemId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  let body: FeedbackItemActionRequest;
+  try {
+    body = (await req.json()) as FeedbackItemActionRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseAction(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const item = await findFeedbackItem(itemId);
+  if (!item) {
+    return NextResponse.json({ error: "Feedback item not found." }, { status: 404 });
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail: item.employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const result = await updateFeedbackItem({
+    itemId,
+    updatedBy: authorization.session.email,
+    action: parsed.action,
+  });
+
+  if (!result.ok) {
+    return result.reason === "not_found"
+      ? NextResponse.json({ error: "Feedback item not found." }, { status: 404 })
+      : NextResponse.json(
+          {
+            error:
+              "Questions can only be marked asked and focus areas only addressed.",
+          },
+          { status: 400 }
+        );
+  }
+
+  return NextResponse.json({ item: result.item });
+}
@@ -0,0 +1,40 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { getFeedbackWorkspace } from "@/lib/services/managerFeedbackItems";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    return NextResponse.json(await getFeedbackWorkspace(employeeEmail));
+  } catch (error) {
+    console.error("[manager-feedback] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load manager feedback." },
+      { status: 500 }
+    );
+  }
+}
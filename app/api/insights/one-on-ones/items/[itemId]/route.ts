@@ -0,0 +1,73 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { findOneOnOneItem, saveOneOnOneNote } from "@/lib/services/oneOnOnes";
+
+export const runtime = "nodejs";
+
+const MAX_NOTES_LENGTH = 4000;
+
+type RouteContext = {
+  params: Promise<{
+    itemId: string;
+  }>;
+};
+
+type SaveNoteRequest = {
+  notes?: unknown;
+};
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { itemId: rawItemId } = await params;
+  const itemId = Number(rawItemId);
+
+  if (!Number.isInteger(itemId) || itemId < 1) {
+    return NextResponse.json(
+      { error: "`itemId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  let body: SaveNoteRequest;
+  try {
+    body = (await req.json()) as SaveNoteRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (typeof body.notes !== "string") {
+    return NextResponse.json({ error: "Missing `notes` string." }, { status: 400 });
+  }
+  if (body.notes.length > MAX_NOTES_LENGTH) {
+    return NextResponse.json(
+      { error: `\`notes\` must be at most ${MAX_NOTES_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  const item = await findOneOnOneItem(itemId);
+  if (!item) {
+    return NextResponse.json({ error: "Agenda item not found." }, { status: 404 });
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail: item.employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const updated = await saveOneOnOneNote({
+    itemId,
+    notes: body.notes,
+    notedBy: authorization.session.email,
+  });
+  if (!updated) {
+    return NextResponse.json({ error: "Agenda item not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ item: updated });
+}
@@ -0,0 +1,113 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { createOneOnOne, listOneOnOnes } from "@/lib/services/oneOnOnes";
+
+export const runtime = "nodejs";
+
+type CreateOneOnOneRequest = {
+  employeeEmail?: unknown;
+  meetingDate?: unknown;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    return false;
+  }
+
+  return parsed.toISOString().slice(0, 10) === value;
+}
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    return NextResponse.json({
+      employeeEmail,
+      meetings: await listOneOnOnes(employeeEmail),
+    });
+  } catch (error) {
+    console.error("[one-on-ones] failed", error);
+    return NextResponse.json({ error: "Failed to load 1:1s." }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  let body: CreateOneOnOneRequest;
+  try {
+    body = (await req.json()) as CreateOneOnOneRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body.employeeEmail || typeof body.employeeEmail !== "string") {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` string." },
+      { status: 400 }
+    );
+  }
+
+  if (body.meetingDate !== undefined && typeof body.meetingDate !== "string") {
+    return NextResponse.json(
+      { error: "`meetingDate` must be a string." },
+      { status: 400 }
+    );
+  }
+
+  const employeeEmail = body.employeeEmail.trim().toLowerCase();
+  const meetingDate =
+    body.meetingDate?.trim() || new Date().toISOString().slice(0, 10);
+  if (!isValidDate(meetingDate)) {
+    return NextResponse.json(
+      { error: "`meetingDate` must be in YYYY-MM-DD format." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    const meeting = await createOneOnOne({
+      employeeEmail,
+      managerEmail: authorization.session.email,
+      meetingDate,
+    });
+    return NextResponse.json({ meeting }, { status: 201 });
+  } catch (error) {
+    console.error("[one-on-ones] failed", error);
+    return NextResponse.json({ error: "Failed to create the 1:1." }, { status: 500 });
+  }
+}
@@ -2,11 +2,17 @@ import "server-only";
 
 import { NextResponse } from "next/server";
 
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { createStatDispute } from "@/lib/services/statDisputes";
+
 export const runtime = "nodejs";
 
+const WEEK_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MAX_DETAIL_LABEL_LENGTH = 200;
+
 type RecheckStatsRequest = {
   employeeEmail?: string;
-  employeeName?: string;
   scope?: "weekly" | "monthly";
   periodKey?: string;
   detailLabel?: string;
@@ -38,11 +44,10 @@ export async function POST(req: Request) {
     );
   }
 
-  if (!isNonEmptyString(body.employeeName)) {
-    return NextResponse.json(
-      { error: "Missing `employeeName` string." },
-      { status: 400 }
-    );
+  const employeeEmail = body.employeeEmail.trim().toLowerCase();
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
   }
 
   if (!isScope(body.scope)) {
@@ -59,6 +64,19 @@ export async function POST(req: Request) {
     );
   }
 
+  const periodKey = body.periodKey.trim();
+  if (!(body.scope === "weekly" ? WEEK_PATTERN : MONTH_PATTERN).test(periodKey)) {
+    return NextResponse.json(
+      {
+        error:
+          body.scope === "weekly"
+            ? "`periodKey` must be a week start in YYYY-MM-DD format."
+            : "`periodKey` must be a month in YYYY-MM format.",
+      },
+      { status: 400 }
+    );
+  }
+
   if (!isNonEmptyString(body.detailLabel)) {
     return NextResponse.json(
       { error: "Missing `detailLabel` string." },
@@ -66,6 +84,15 @@ export async function POST(req: Request) {
     );
   }
 
+  if (body.detailLabel.trim().length > MAX_DETAIL_LABEL_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `\`detailLabel\` must be at most ${MAX_DETAIL_LABEL_LENGTH} characters.`,
+      },
+      { status: 400 }
+    );
+  }
+
   if (!isNonEmptyString(body.detailValue)) {
     return NextResponse.json(
       { error: "Missing `detailValue` string." },
@@ -80,23 +107,33 @@ export async function POST(req: Request) {
     );
   }
 
-  const requestId = crypto.randomUUID();
-
-  console.info("[assistant-recheck-stats]", {
-    requestId,
-    employeeEmail: body.employeeEmail,
-    employeeName: body.employeeName,
-    scope: body.scope,
-    periodKey: body.periodKey,
-    detailLabel: body.detailLabel,
-    detailValue: body.detailValue,
-    employeeNote: body.employeeNote,
-    receivedAt: new Date().toISOString(),
-  });
-
-  return NextResponse.json({
-    status: "queued",
-    requestId,
-    message: "Dummy assistant recheck request accepted.",
-  });
+  try {
+    const { dispute, jobId } = await createStatDispute({
+      employeeEmail,
+      raisedBy: authorization.session.email,
+      scope: body.scope,
+      periodKey,
+      detailLabel: body.detailLabel.trim(),
+      detailValue: body.detailValue.trim(),
+      note: body.employeeNote.trim(),
+    });
+
+    // The LLM recheck runs in the job worker; managers resolve the dispute
+    // once its verdict is stored.
+    return NextResponse.json(
+      {
+        status: "queued",
+        disputeId: dispute.id,
+        jobId,
+        statusUrl: `/api/insights/jobs/${jobId}`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("[recheck-stats] failed to record stat dispute", error);
+    return NextResponse.json(
+      { error: "Failed to record the recheck request." },
+      { status: 500 }
+    );
+  }
 }
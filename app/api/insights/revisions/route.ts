@@ -0,0 +1,76 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  listInsightRevisions,
+  type InsightScope,
+} from "@/lib/services/insightRevisions";
+
+export const runtime = "nodejs";
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const QUARTER_PATTERN = /^\d{4}-Q[1-4]$/;
+
+function isInsightScope(value: unknown): value is InsightScope {
+  return value === "monthly" || value === "quarterly";
+}
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+  const scope = url.searchParams.get("scope") ?? "monthly";
+  const periodKey = url.searchParams.get("periodKey")?.trim() || undefined;
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  if (!isInsightScope(scope)) {
+    return NextResponse.json(
+      { error: "`scope` must be either `monthly` or `quarterly`." },
+      { status: 400 }
+    );
+  }
+
+  if (
+    periodKey &&
+    !(scope === "monthly" ? MONTH_PATTERN : QUARTER_PATTERN).test(periodKey)
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          scope === "monthly"
+            ? "`periodKey` must be in YYYY-MM format."
+            : "`periodKey` must be in YYYY-QN format.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    const revisions = await listInsightRevisions({
+      employeeEmail,
+      scope,
+      periodKey,
+    });
+    return NextResponse.json({ employeeEmail, scope, revisions });
+  } catch (error) {
+    console.error("[insight-revisions] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load insight revisions." },
+      { status: 500 }
+    );
+  }
+}
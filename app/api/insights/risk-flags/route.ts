@@ -0,0 +1,45 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { listRiskFlagHistory } from "@/lib/services/riskFlags";
+import { listRiskRules } from "@/lib/services/riskRules";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    return NextResponse.json({
+      employeeEmail,
+      flags: await listRiskFlagHistory(employeeEmail),
+      rules: listRiskRules(),
+    });
+  } catch (error) {
+    console.error("[risk-flags] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load risk flags." },
+      { status: 500 }
+    );
+  }
+}
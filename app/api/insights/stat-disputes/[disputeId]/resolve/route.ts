@@ -0,0 +1,97 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  findStatDispute,
+  resolveStatDispute,
+} from "@/lib/services/statDisputes";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    disputeId: string;
+  }>;
+};
+
+type ResolveStatDisputeRequest = {
+  decision?: unknown;
+  note?: unknown;
+};
+
+const DECISIONS = {
+  uphold: "upheld",
+  reject: "rejected",
+} as const;
+
+function isDecision(value: unknown): value is keyof typeof DECISIONS {
+  return value === "uphold" || value === "reject";
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { disputeId: rawDisputeId } = await params;
+  const disputeId = Number(rawDisputeId);
+
+  if (!Number.isInteger(disputeId) || disputeId < 1) {
+    return NextResponse.json(
+      { error: "`disputeId` must be a positive integer." },
+      { status: 400 }
+    );
+  }
+
+  let body: ResolveStatDisputeRequest;
+  try {
+    body = (await req.json()) as ResolveStatDisputeRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!isDecision(body.decision)) {
+    return NextResponse.json(
+      { error: "`decision` must be either `uphold` or `reject`." },
+      { status: 400 }
+    );
+  }
+
+  if (body.note !== undefined && typeof body.note !== "string") {
+    return NextResponse.json({ error: "`note` must be a string." }, { status: 400 });
+  }
+
+  const dispute = await findStatDispute(disputeId);
+  if (!dispute) {
+    return NextResponse.json({ error: "Stat dispute not found." }, { status: 404 });
+  }
+
+  const authorization = await authorizeApiRequest({
+    employeeEmail: dispute.employeeEmail,
+    role: "manager",
+  });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const result = await resolveStatDispute({
+    disputeId,
+    resolvedBy: authorization.session.email,
+    decision: DECISIONS[body.decision],
+    note: body.note?.trim() || null,
+  });
+
+  if (!result.ok) {
+    return result.reason === "not_found"
+      ? NextResponse.json({ error: "Stat dispute not found." }, { status: 404 })
+      : NextResponse.json(
+          { error: "This stat dispute has already been resolved." },
+          { status: 409 }
+        );
+  }
+
+  return NextResponse.json({
+    dispute: result.dispute,
+    regenerationStatusUrl: result.dispute.regenerationJobId
+      ? `/api/insights/jobs/${result.dispute.regenerationJobId}`
+      : null,
+  });
+}
@@ -0,0 +1,58 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/auth/access";
+import {
+  listStatDisputes,
+  type StatDisputeStatus,
+} from "@/lib/services/statDisputes";
+
+export const runtime = "nodejs";
+
+const STATUSES: StatDisputeStatus[] = ["open", "rechecked", "upheld", "rejected"];
+
+function isStatus(value: string): value is StatDisputeStatus {
+  return (STATUSES as string[]).includes(value);
+}
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const employeeEmail = (url.searchParams.get("employeeEmail") ?? "")
+    .trim()
+    .toLowerCase();
+  const status = url.searchParams.get("status");
+
+  if (!employeeEmail) {
+    return NextResponse.json(
+      { error: "Missing `employeeEmail` query parameter." },
+      { status: 400 }
+    );
+  }
+
+  if (status !== null && !isStatus(status)) {
+    return NextResponse.json(
+      { error: `\`status\` must be one of ${STATUSES.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  const authorization = await authorizeApiRequest({ employeeEmail });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  try {
+    const disputes = await listStatDisputes({
+      employeeEmail,
+      status: status ?? undefined,
+    });
+    return NextResponse.json({ employeeEmail, disputes });
+  } catch (error) {
+    console.error("[stat-disputes] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load stat disputes." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { isCronRequestAuthorized } from "@/lib/auth/cronSecret";
+import { drainJobs } from "@/lib/services/jobWorker";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// Stop claiming once fewer than this many ms are left before maxDuration, so
+// a claimed job has room to finish instead of being cut off mid-run.
+const JOB_RESERVE_MS = 120_000;
+// Headroom for the response itself.
+const RESPONSE_HEADROOM_MS = 10_000;
+
+async function handleDrain() {
+  try {
+    const processed = await drainJobs({
+      workerId: `cron-${crypto.randomUUID().slice(0, 8)}`,
+      deadline: Date.now() + maxDuration * 1000 - RESPONSE_HEADROOM_MS,
+      reserveMs: JOB_RESERVE_MS,
+    });
+    return NextResponse.json({ status: "success", processed });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Job drain failed for an unknown reason.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Serverless deployments have no long-lived worker; a cron hits this instead.
+export async function GET(req: Request) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  return handleDrain();
+}
+
+export async function POST(req: Request) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  return handleDrain();
+}
@@ -0,0 +1,81 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { findPromptDefinition } from "@/lib/ai/prompts/registry";
+import { authorizeApiRequest } from "@/lib/auth/access";
+import { clearPromptPin, pinPromptVersion } from "@/lib/services/promptPins";
+
+export const runtime = "nodejs";
+
+type PinPromptRequest = {
+  promptId?: unknown;
+  version?: unknown;
+  reason?: unknown;
+};
+
+// Pins a prompt to a registered version; pinning an older one rolls it back.
+// Pins change output for every team, so only HR (HR_EMAILS) may set them.
+export async function POST(req: Request) {
+  const authorization = await authorizeApiRequest({ role: "hr" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  let body: PinPromptRequest;
+
+  try {
+    body = (await req.json()) as PinPromptRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const promptId = typeof body.promptId === "string" ? body.promptId.trim() : "";
+  const definition = findPromptDefinition(promptId);
+  if (!definition) {
+    return NextResponse.json(
+      { error: `Unknown prompt \`${promptId}\`.` },
+      { status: 404 }
+    );
+  }
+
+  const version = Number(body.version);
+  if (!definition.versions.some((entry) => entry.version === version)) {
+    return NextResponse.json(
+      {
+        error: `\`version\` must be one of ${definition.versions
+          .map((entry) => entry.version)
+          .join(", ")}.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const pin = await pinPromptVersion({
+    promptId,
+    version,
+    reason: typeof body.reason === "string" ? body.reason.trim() || null : null,
+    pinnedBy: authorization.session.email,
+  });
+
+  return NextResponse.json({ pin });
+}
+
+// Removes the pin so the prompt follows its latest version again.
+export async function DELETE(req: Request) {
+  const authorization = await authorizeApiRequest({ role: "hr" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const promptId = new URL(req.url).searchParams.get("promptId")?.trim() ?? "";
+  if (!findPromptDefinition(promptId)) {
+    return NextResponse.json(
+      { error: `Unknown prompt \`${promptId}\`.` },
+      { status: 404 }
+    );
+  }
+
+  const cleared = await clearPromptPin(promptId);
+  return NextResponse.json({ promptId, cleared });
+}
@@ -0,0 +1,33 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+import { listPromptSummaries } from "@/lib/ai/prompts/registry";
+import { authorizeApiRequest } from "@/lib/auth/access";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  // HR lists prompts to choose what to pin; managers may still review them.
+  const authorization = await authorizeApiRequest({ role: ["manager", "hr"] });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
+  const stage = new URL(req.url).searchParams.get("stage")?.trim() || undefined;
+
+  try {
+    const prompts = await listPromptSummaries();
+    return NextResponse.json({
+      prompts: stage
+        ? prompts.filter((prompt) => prompt.stage === stage)
+        : prompts,
+    });
+  } catch (error) {
+    console.error("[prompts] failed", error);
+    return NextResponse.json(
+      { error: "Failed to load prompts." },
+      { status: 500 }
+    );
+  }
+}
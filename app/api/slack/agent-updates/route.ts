@@ -3,6 +3,7 @@ import "server-only";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { authorizeApiRequest, authorizeEmployeeEmails } from "@/lib/auth/access";
 import { sendAgentSlackUpdates } from "@/lib/services/agentSlackUpdates";
 import { SlackApiError } from "@/lib/services/slackClient";
 
@@ -29,6 +30,11 @@ const requestSchema = z.object({
 });
 
 export async function POST(request: Request) {
+  const authorization = await authorizeApiRequest({ role: "manager" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   let rawBody: unknown;
 
   try {
@@ -48,6 +54,24 @@ export async function POST(request: Request) {
     );
   }
 
+  // Managers may only message their own reports, and only as themselves.
+  const forbidden = await authorizeEmployeeEmails(
+    authorization.session,
+    parsed.data.employeeUpdates.map((update) => update.employeeEmail)
+  );
+  if (forbidden) {
+    return forbidden;
+  }
+  if (
+    parsed.data.managerUpdate.managerEmail.toLowerCase() !==
+    authorization.session.email.toLowerCase()
+  ) {
+    return NextResponse.json(
+      { error: "`managerUpdate.managerEmail` must be your own email." },
+      { status: 403 }
+    );
+  }
+
   try {
     const result = await sendAgentSlackUpdates(parsed.data);
     return NextResponse.json({ ok: true, result });
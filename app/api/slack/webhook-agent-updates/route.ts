@@ -3,17 +3,19 @@ import "server-only";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { authorizeApiRequest, authorizeEmployeeEmails } from "@/lib/auth/access";
 import { sendAgentSlackWebhookUpdates } from "@/lib/services/agentSlackWebhookUpdates";
 
 export const runtime = "nodejs";
 
 const messageBlockSchema = z.record(z.string(), z.unknown());
 
+// Recipients are emails so they can be authorized, and webhooks come only
+// from the configured map so a caller cannot redirect a message elsewhere.
 const updateSchema = z.object({
-  recipient: z.string().min(1),
+  recipient: z.string().email(),
   message: z.string().min(1),
   blocks: z.array(messageBlockSchema).optional(),
-  webhookUrl: z.string().url().optional(),
 });
 
 const requestSchema = z.object({
@@ -22,6 +24,11 @@ const requestSchema = z.object({
 });
 
 export async function POST(request: Request) {
+  const authorization = await authorizeApiRequest({ role: "manager" });
+  if (!authorization.ok) {
+    return authorization.response;
+  }
+
   let rawBody: unknown;
 
   try {
@@ -41,6 +48,25 @@ export async function POST(request: Request) {
     );
   }
 
+  // Managers may only message their own reports, and only as themselves.
+  const forbidden = await authorizeEmployeeEmails(
+    authorization.session,
+    parsed.data.employeeUpdates.map((update) => update.recipient.toLowerCase())
+  );
+  if (forbidden) {
+    return forbidden;
+  }
+  if (
+    parsed.data.managerUpdate &&
+    parsed.data.managerUpdate.recipient.toLowerCase() !==
+      authorization.session.email.toLowerCase()
+  ) {
+    return NextResponse.json(
+      { error: "`managerUpdate.recipient` must be your own email." },
+      { status: 403 }
+    );
+  }
+
   try {
     const result = await sendAgentSlackWebhookUpdates(parsed.data);
     return NextResponse.json({ ok: true, result });
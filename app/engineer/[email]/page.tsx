@@ -1,15 +1,17 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import SignOutButton from "@/components/auth/sign-out-button";
 import EngineerActivityPanels from "@/components/engineer/engineer-activity-panels";
 import { Button } from "@/components/ui/button";
+import { requireEmployeePageAccess } from "@/lib/auth/access";
 import {
   getEngineerMonthlySummariesByEmail,
   getEngineerSnapshotByEmail,
   getEngineerWeeklyHistoryByEmail,
-  latestGithubWeekStart,
-  latestSlackWeekStart,
+  getLatestWeekStarts,
 } from "@/lib/data/dashboard";
+import { listActivityAnomalies } from "@/lib/services/activityAnomalies";
 
 const weekFormatter = new Intl.DateTimeFormat("en-US", {
   month: "short",
@@ -31,14 +33,23 @@ type PageProps = {
 export default async function EngineerDetailPage({ params }: PageProps) {
   const { email } = await params;
   const decodedEmail = decodeURIComponent(email);
-  const snapshot = getEngineerSnapshotByEmail(decodedEmail);
+  const session = await requireEmployeePageAccess({
+    employeeEmail: decodedEmail,
+    nextPath: `/engineer/${email}`,
+  });
+  const snapshot = await getEngineerSnapshotByEmail(decodedEmail);
 
   if (!snapshot) {
     return notFound();
   }
 
-  const weeklyHistory = getEngineerWeeklyHistoryByEmail(decodedEmail);
-  const monthlySummaries = getEngineerMonthlySummariesByEmail(decodedEmail);
+  const [weeklyHistory, monthlySummaries, latestWeekStarts, anomalies] =
+    await Promise.all([
+      getEngineerWeeklyHistoryByEmail(decodedEmail),
+      getEngineerMonthlySummariesByEmail(decodedEmail),
+      getLatestWeekStarts(),
+      listActivityAnomalies(decodedEmail),
+    ]);
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -55,13 +66,16 @@ export default async function EngineerDetailPage({ params }: PageProps) {
               Weekly activity cards with monthly reporting actions.
             </p>
             <div className="text-xs text-muted-foreground">
-              GitHub week: {formatWeek(latestGithubWeekStart)} · Slack week:{" "}
-              {formatWeek(latestSlackWeekStart)}
+              GitHub week: {formatWeek(latestWeekStarts.github)} · Slack week:{" "}
+              {formatWeek(latestWeekStarts.slack)}
             </div>
           </div>
-          <Button asChild variant="outline">
-            <Link href="/">Back to home</Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/">Back to home</Link>
+            </Button>
+            <SignOutButton />
+          </div>
         </header>
 
         <section className="mt-8">
@@ -69,6 +83,10 @@ export default async function EngineerDetailPage({ params }: PageProps) {
             snapshot={snapshot}
             weeklyHistory={weeklyHistory}
             monthlySummaries={monthlySummaries}
+            anomalies={anomalies}
+            canRespondToPrompts={
+              session.role === "engineer" && session.email === snapshot.employee.email
+            }
           />
         </section>
       </main>
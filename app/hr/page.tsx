@@ -0,0 +1,184 @@
+import SignOutButton from "@/components/auth/sign-out-button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { listFairnessRules } from "@/lib/ai/fairnessPolicy";
+import { requirePageSession } from "@/lib/auth/access";
+import {
+  listFairnessReports,
+  type AnalysisRunFairness,
+} from "@/lib/services/fairnessReports";
+
+export const dynamic = "force-dynamic";
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "UTC",
+});
+
+function toTitleCase(text: string) {
+  if (!text) return "";
+  return text
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+export default async function HrFairnessPage() {
+  await requirePageSession({ nextPath: "/hr", role: "hr" });
+  const rules = listFairnessRules();
+  const reports = await listFairnessReports();
+
+  const flaggedRuns = reports.filter((report) => report.violations.length > 0);
+  const blockedRuns = reports.filter((report) => report.blocked).length;
+  const totalViolations = reports.reduce(
+    (sum, report) => sum + report.violations.length,
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="mx-auto w-full max-w-6xl px-6 py-10">
+        <header className="flex flex-col gap-4 border-b border-border/60 pb-6 md:flex-row md:items-end md:justify-between">
+          <div className="space-y-2">
+            <div className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              HR Review
+            </div>
+            <h1 className="text-2xl font-semibold sm:text-3xl">Fairness reports</h1>
+            <p className="max-w-2xl text-sm text-muted-foreground">
+              Fairness policy matches in manager analysis outputs for the{" "}
+              {reports.length} most recent runs. Redacted text was replaced
+              before it was saved; blocked runs saved nothing for that stage.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <SignOutButton />
+          </div>
+        </header>
+
+        <section className="mt-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <KpiCard label="Runs checked" value={reports.length} />
+          <KpiCard label="Runs with matches" value={flaggedRuns.length} />
+          <KpiCard label="Blocked runs" value={blockedRuns} />
+          <KpiCard label="Matches" value={totalViolations} />
+        </section>
+
+        <section className="mt-10">
+          <Card className="border-border/60">
+            <CardHeader>
+              <CardTitle>Active policy</CardTitle>
+              <CardDescription>
+                Set per rule with FAIRNESS_POLICY. Employee-only rules apply to
+                employee pings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-3 text-xs"
+                >
+                  <div className="space-y-0.5">
+                    <div className="font-medium">{toTitleCase(rule.id)}</div>
+                    <div className="text-muted-foreground">{rule.description}</div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {rule.audiences.length === 1 ? (
+                      <Badge variant="outline">{rule.audiences[0]} only</Badge>
+                    ) : null}
+                    <Badge variant={rule.action === "block" ? "destructive" : "secondary"}>
+                      {rule.action}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </section>
+
+        <section className="mt-10 grid gap-4 lg:grid-cols-2">
+          {flaggedRuns.length === 0 ? (
+            <div className="text-xs text-muted-foreground">
+              No fairness policy matches recorded yet.
+            </div>
+          ) : (
+            flaggedRuns.map((report) => (
+              <RunReportCard key={report.runId} report={report} />
+            ))
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+type KpiCardProps = {
+  label: string;
+  value: React.ReactNode;
+};
+
+function KpiCard({ label, value }: KpiCardProps) {
+  return (
+    <Card className="border-border/60">
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function RunReportCard({ report }: { report: AnalysisRunFairness }) {
+  return (
+    <Card className="border-border/60">
+      <CardHeader>
+        <CardTitle>
+          Run #{report.runId} · {report.quarter}
+        </CardTitle>
+        <CardDescription>
+          {report.employeeEmail} · manager {report.managerEmail} ·{" "}
+          {dateFormatter.format(new Date(report.createdAt))} UTC
+        </CardDescription>
+        <CardAction>
+          {report.blocked ? (
+            <Badge variant="destructive">blocked</Badge>
+          ) : (
+            <Badge variant="secondary">{report.status}</Badge>
+          )}
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(report.violationsByRule).map(([ruleId, count]) => (
+            <Badge key={ruleId} variant="outline">
+              {toTitleCase(ruleId)}: {count}
+            </Badge>
+          ))}
+        </div>
+        <div className="space-y-1">
+          {report.violations.map((violation, index) => (
+            <div
+              key={`${violation.stage}-${violation.field}-${violation.ruleId}-${index}`}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              <span className="truncate font-medium">
+                {violation.stage} · {violation.field}
+              </span>
+              <span className="shrink-0 text-muted-foreground">
+                {toTitleCase(violation.ruleId)} · “{violation.match}” ·{" "}
+                {violation.action}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,11 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import ActivityAnomalyList from "@/components/engineer/activity-anomaly-list";
+import FeedbackWorkspace from "@/components/manager/feedback-workspace";
 import ManagerDebateChat from "@/components/manager/manager-debate-chat";
+import OneOnOneAgenda from "@/components/manager/one-on-one-agenda";
+import StatDisputeReview from "@/components/manager/stat-dispute-review";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,12 +15,17 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { requireEmployeePageAccess } from "@/lib/auth/access";
 import {
   getEngineerSnapshotByEmail,
-  latestGithubWeekStart,
-  latestSlackWeekStart,
+  getLatestWeekStarts,
 } from "@/lib/data/dashboard";
+import { listActivityAnomalies } from "@/lib/services/activityAnomalies";
+import { getFeedbackWorkspace } from "@/lib/services/managerFeedbackItems";
 import { getManagerProfileInsightsByEmployeeEmail } from "@/lib/services/managerProfileInsights";
+import { listOneOnOnes } from "@/lib/services/oneOnOnes";
+import { listRiskFlagHistory } from "@/lib/services/riskFlags";
+import { listStatDisputes } from "@/lib/services/statDisputes";
 
 const weekFormatter = new Intl.DateTimeFormat("en-US", {
   month: "short",
@@ -63,7 +72,28 @@ type PageProps = {
 export default async function ManagerEngineerDetailPage({ params }: PageProps) {
   const { email } = await params;
   const decodedEmail = decodeURIComponent(email);
-  const snapshot = getEngineerSnapshotByEmail(decodedEmail);
+  await requireEmployeePageAccess({
+    employeeEmail: decodedEmail,
+    nextPath: `/manager/${email}`,
+    role: "manager",
+  });
+  const [
+    snapshot,
+    latestWeekStarts,
+    disputes,
+    feedbackWorkspace,
+    oneOnOnes,
+    riskFlags,
+    anomalies,
+  ] = await Promise.all([
+    getEngineerSnapshotByEmail(decodedEmail),
+    getLatestWeekStarts(),
+    listStatDisputes({ employeeEmail: decodedEmail }),
+    getFeedbackWorkspace(decodedEmail),
+    listOneOnOnes(decodedEmail),
+    listRiskFlagHistory(decodedEmail),
+    listActivityAnomalies(decodedEmail),
+  ]);
 
   if (!snapshot) {
     return notFound();
@@ -80,8 +110,6 @@ export default async function ManagerEngineerDetailPage({ params }: PageProps) {
     bonusRecommendation: null,
     promotionRecommendation: null,
     unresolvedQuestions: [],
-    suggestedQuestions: [],
-    focusAreas: [],
   } as Awaited<ReturnType<typeof getManagerProfileInsightsByEmployeeEmail>>;
 
   try {
@@ -105,8 +133,8 @@ export default async function ManagerEngineerDetailPage({ params }: PageProps) {
               Compact profile, bonus suitability, and coaching prompts for the next 1:1.
             </p>
             <div className="text-xs text-muted-foreground">
-              GitHub week: {formatWeek(latestGithubWeekStart)} · Slack week:{" "}
-              {formatWeek(latestSlackWeekStart)}
+              GitHub week: {formatWeek(latestWeekStarts.github)} · Slack week:{" "}
+              {formatWeek(latestWeekStarts.slack)}
             </div>
           </div>
           <Button asChild variant="outline">
@@ -201,40 +229,22 @@ export default async function ManagerEngineerDetailPage({ params }: PageProps) {
                   label="Promotion recommendation"
                   value={formatDecision(profileInsights.promotionRecommendation)}
                 />
-                {profileInsights.focusAreas.length > 0 ? (
-                  <div className="space-y-1">
-                    <div className="text-xs uppercase tracking-[0.16em] text-muted-foreground">
-                      Focus areas
-                    </div>
-                    {profileInsights.focusAreas.slice(0, 3).map((item, index) => (
-                      <div key={`focus-${index}`} className="border border-border/60 px-3 py-2">
-                        {item}
-                      </div>
-                    ))}
-                  </div>
-                ) : null}
               </CardContent>
             </Card>
 
             <Card className="border-border/60">
               <CardHeader>
-                <CardTitle className="text-lg">Suggested manager prompts</CardTitle>
+                <CardTitle className="text-lg">Follow-ups</CardTitle>
                 <CardDescription>
-                  Questions you can ask the engineer in the next check-in.
+                  Mark questions as asked with the engineer&apos;s answer and focus areas
+                  as addressed. Open items carry into the next quarter&apos;s analysis.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-2 text-sm">
-                {profileInsights.suggestedQuestions.length > 0 ? (
-                  profileInsights.suggestedQuestions.slice(0, 6).map((question, index) => (
-                    <div key={`question-${index}`} className="border border-border/60 px-3 py-2">
-                      {question}
-                    </div>
-                  ))
-                ) : (
-                  <div className="text-muted-foreground">
-                    No stored suggested questions yet for this employee.
-                  </div>
-                )}
+                <FeedbackWorkspace
+                  items={feedbackWorkspace.items}
+                  carriedForward={feedbackWorkspace.carriedForward}
+                />
 
                 {profileInsights.unresolvedQuestions.length > 0 ? (
                   <>
@@ -327,6 +337,87 @@ export default async function ManagerEngineerDetailPage({ params }: PageProps) {
                 </section>
               </CardContent>
             </Card>
+
+            <Card className="border-border/60">
+              <CardHeader>
+                <CardTitle className="text-lg">Risk flags</CardTitle>
+                <CardDescription>
+                  When each workload rule started and stopped matching, by activity week.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {riskFlags.length === 0 ? (
+                  <div className="text-muted-foreground">No risk flags recorded.</div>
+                ) : (
+                  riskFlags.map((flag) => (
+                    <div
+                      key={flag.id}
+                      className="flex flex-wrap items-center justify-between gap-2 border border-border/60 px-3 py-2"
+                    >
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge
+                          variant={
+                            flag.status === "closed"
+                              ? "secondary"
+                              : flag.severity === "low"
+                                ? "outline"
+                                : "destructive"
+                          }
+                        >
+                          {flag.severity}
+                        </Badge>
+                        <span>{flag.label}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatWeek(flag.openedWeek)} –{" "}
+                        {flag.closedWeek ? formatWeek(flag.closedWeek) : "open"}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/60">
+              <CardHeader>
+                <CardTitle className="text-lg">Activity anomalies</CardTitle>
+                <CardDescription>
+                  Weekly counts far above or below this engineer&apos;s own median over
+                  the previous weeks.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ActivityAnomalyList anomalies={anomalies} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/60">
+              <CardHeader>
+                <CardTitle className="text-lg">1:1 agenda and notes</CardTitle>
+                <CardDescription>
+                  Agenda from open suggested questions, unresolved decision questions,
+                  and open risk flags. Notes feed the next analysis run.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OneOnOneAgenda
+                  employeeEmail={snapshot.employee.email}
+                  meetings={oneOnOnes}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/60">
+              <CardHeader>
+                <CardTitle className="text-lg">Disputed details</CardTitle>
+                <CardDescription>
+                  Activity details flagged for a recheck, with the recheck verdict.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StatDisputeReview disputes={disputes} />
+              </CardContent>
+            </Card>
           </div>
         </section>
       </main>
@@ -1,5 +1,6 @@
 import Link from "next/link";
 
+import SignOutButton from "@/components/auth/sign-out-button";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,11 +12,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  engineerSnapshots,
-  latestGithubWeekStart,
-  latestSlackWeekStart,
-} from "@/lib/data/dashboard";
+import { requirePageSession } from "@/lib/auth/access";
+import { getEngineerSnapshots, getLatestWeekStarts } from "@/lib/data/dashboard";
+import { buildTeamOverview } from "@/lib/data/teamOverview";
+import { listManagerRollups, listReports } from "@/lib/services/orgHierarchy";
+import { listOpenRiskFlags } from "@/lib/services/riskFlags";
+
+export const dynamic = "force-dynamic";
 
 const percentFormatter = new Intl.NumberFormat("en-US", {
   style: "percent",
@@ -38,83 +41,33 @@ function formatPercent(value?: number) {
   return percentFormatter.format(value);
 }
 
-const githubRows = engineerSnapshots.flatMap((snapshot) =>
-  snapshot.github ? [snapshot.github] : []
-);
-const slackRows = engineerSnapshots.flatMap((snapshot) =>
-  snapshot.slack ? [snapshot.slack] : []
-);
-
-const totals = {
-  prsMerged: githubRows.reduce((sum, row) => sum + row.prsMerged, 0),
-  prReviews: githubRows.reduce((sum, row) => sum + row.prReviewsGiven, 0),
-  messages: slackRows.reduce((sum, row) => sum + row.messageCount, 0),
-  replies: slackRows.reduce((sum, row) => sum + row.replyCount, 0),
-};
-
-const average = (values: number[]) =>
-  values.length === 0
-    ? 0
-    : values.reduce((sum, value) => sum + value, 0) / values.length;
-
-const avgGithubAfterHours = average(
-  githubRows.map((row) => row.afterHoursRatio)
-);
-const avgSlackWeekend = average(slackRows.map((row) => row.weekendRatio));
-
-const employeeLookup = new Map(
-  engineerSnapshots.map((snapshot) => [
-    snapshot.employee.email,
-    snapshot.employee.name,
-  ])
-);
-
-const corePrHighlights = githubRows
-  .flatMap((row) =>
-    row.pullRequestSummaries
-      .filter((summary) => summary.impact === "core")
-      .map((summary) => ({
-        summary,
-        employeeEmail: row.employeeEmail,
-      }))
-  )
-  .slice(0, 5);
-
-const blockingHighlights = slackRows
-  .flatMap((row) =>
-    row.messageSummaries
-      .filter((summary) => summary.intent === "blocking")
-      .map((summary) => ({
-        summary,
-        employeeEmail: row.employeeEmail,
-      }))
-  )
-  .slice(0, 5);
-
-function buildRiskFlags({
-  github,
-  slack,
-}: {
-  github?: (typeof githubRows)[number];
-  slack?: (typeof slackRows)[number];
-}) {
-  const flags: string[] = [];
-  if (github && github.afterHoursRatio >= 0.4) {
-    flags.push("High after-hours coding");
-  }
-  if (slack && slack.afterHoursRatio >= 0.4) {
-    flags.push("High after-hours messaging");
-  }
-  if (slack && slack.weekendRatio >= 0.3) {
-    flags.push("Weekend load");
-  }
-  if (slack && slack.messageSummaries.some((summary) => summary.intent === "blocking")) {
-    flags.push("Blocking threads");
-  }
-  return flags;
-}
+export default async function ManagerDashboardPage() {
+  const session = await requirePageSession({ nextPath: "/manager", role: "manager" });
+  const [allSnapshots, reports, managerRollups, latestWeekStarts] =
+    await Promise.all([
+      getEngineerSnapshots(),
+      listReports(session.email),
+      listManagerRollups(session.email),
+      getLatestWeekStarts(),
+    ]);
+  const reportDepthByEmail = new Map(
+    reports.map((report) => [report.email, report.depth])
+  );
+  const engineerSnapshots = allSnapshots.filter((snapshot) =>
+    reportDepthByEmail.has(snapshot.employee.email)
+  );
+  const {
+    totals,
+    avgGithubAfterHours,
+    avgSlackWeekend,
+    employeeLookup,
+    corePrHighlights,
+    blockingHighlights,
+  } = buildTeamOverview(engineerSnapshots);
+  const openRiskFlags = await listOpenRiskFlags(
+    engineerSnapshots.map((snapshot) => snapshot.employee.email)
+  );
 
-export default function ManagerDashboardPage() {
   return (
     <div className="min-h-screen bg-background text-foreground">
       <main className="mx-auto w-full max-w-6xl px-6 py-10">
@@ -131,13 +84,19 @@ export default function ManagerDashboardPage() {
               signals for fast weekly reviews.
             </p>
             <div className="text-xs text-muted-foreground">
-              GitHub week: {formatWeek(latestGithubWeekStart)} · Slack week:{" "}
-              {formatWeek(latestSlackWeekStart)}
+              GitHub week: {formatWeek(latestWeekStarts.github)} · Slack week:{" "}
+              {formatWeek(latestWeekStarts.slack)}
             </div>
           </div>
-          <Button asChild variant="outline">
-            <Link href="/">Back to role picker</Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/manager/usage">LLM usage</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/">Back to role picker</Link>
+            </Button>
+            <SignOutButton />
+          </div>
         </header>
 
         <section className="mt-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
@@ -155,12 +114,87 @@ export default function ManagerDashboardPage() {
           />
         </section>
 
+        {managerRollups.length > 0 ? (
+          <section className="mt-10">
+            <Card className="border-border/60">
+              <CardHeader>
+                <CardTitle>Manager rollups</CardTitle>
+                <CardDescription>
+                  Latest week per manager, across their direct and skip-level reports.
+                </CardDescription>
+                <CardAction>
+                  <Badge variant="secondary">{managerRollups.length} managers</Badge>
+                </CardAction>
+              </CardHeader>
+              <CardContent className="grid gap-3 md:grid-cols-2">
+                {managerRollups.map((rollup) => {
+                  const rollupEmails = new Set(
+                    rollup.reports.map((report) => report.email)
+                  );
+                  const rollupSnapshots = engineerSnapshots.filter((snapshot) =>
+                    rollupEmails.has(snapshot.employee.email)
+                  );
+                  const rollupOverview = buildTeamOverview(rollupSnapshots);
+                  const flaggedCount = rollupSnapshots.filter((snapshot) =>
+                    openRiskFlags.has(snapshot.employee.email)
+                  ).length;
+
+                  return (
+                    <div
+                      key={rollup.managerEmail}
+                      className="rounded-none border border-border/60 p-3"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <div className="text-sm font-semibold">
+                            {rollup.managerName ?? rollup.managerEmail}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {rollup.teamName ?? rollup.managerEmail}
+                          </div>
+                        </div>
+                        <Badge variant="outline">
+                          {rollupSnapshots.length} engineers
+                        </Badge>
+                      </div>
+                      <div className="mt-3 grid gap-2 text-xs sm:grid-cols-2">
+                        <div className="flex items-center justify-between border border-border/60 px-2 py-1">
+                          <span className="text-muted-foreground">PRs merged</span>
+                          <span className="font-semibold">
+                            {rollupOverview.totals.prsMerged}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between border border-border/60 px-2 py-1">
+                          <span className="text-muted-foreground">Reviews</span>
+                          <span className="font-semibold">
+                            {rollupOverview.totals.prReviews}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between border border-border/60 px-2 py-1">
+                          <span className="text-muted-foreground">Core PRs</span>
+                          <span className="font-semibold">
+                            {rollupOverview.totals.corePrs}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between border border-border/60 px-2 py-1">
+                          <span className="text-muted-foreground">Flagged</span>
+                          <span className="font-semibold">{flaggedCount}</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </section>
+        ) : null}
+
         <section className="mt-10 grid gap-4 lg:grid-cols-2">
           <Card className="border-border/60">
             <CardHeader>
               <CardTitle>Team breakdown</CardTitle>
               <CardDescription>
-                Latest weekly snapshot by engineer.
+                Latest weekly snapshot for direct and skip-level reports.
               </CardDescription>
               <CardAction>
                 <Badge variant="secondary">{engineerSnapshots.length} members</Badge>
@@ -170,7 +204,7 @@ export default function ManagerDashboardPage() {
               {engineerSnapshots.map((snapshot) => {
                 const github = snapshot.github;
                 const slack = snapshot.slack;
-                const flags = buildRiskFlags({ github, slack });
+                const flags = openRiskFlags.get(snapshot.employee.email) ?? [];
                 const encodedEmail = encodeURIComponent(snapshot.employee.email);
 
                 return (
@@ -188,6 +222,9 @@ export default function ManagerDashboardPage() {
                         </div>
                       </div>
                       <div className="flex flex-wrap items-center gap-2">
+                        {(reportDepthByEmail.get(snapshot.employee.email) ?? 1) > 1 ? (
+                          <Badge variant="secondary">Skip-level</Badge>
+                        ) : null}
                         <Badge variant="outline">
                           Week of{" "}
                           {formatWeek(github?.weekStart || slack?.weekStart)}
@@ -228,8 +265,13 @@ export default function ManagerDashboardPage() {
                         <Badge variant="secondary">Steady</Badge>
                       ) : (
                         flags.slice(0, 3).map((flag) => (
-                          <Badge key={flag} variant="destructive">
-                            {flag}
+                          <Badge
+                            key={flag.id}
+                            variant={flag.severity === "low" ? "outline" : "destructive"}
+                            title={`Open since week of ${formatWeek(flag.openedWeek)}`}
+                          >
+                            {flag.label}
+                            {flag.severity === "high" ? " · high" : null}
                           </Badge>
                         ))
                       )}
@@ -0,0 +1,210 @@
+import Link from "next/link";
+
+import SignOutButton from "@/components/auth/sign-out-button";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requirePageSession } from "@/lib/auth/access";
+import { getEngineerSnapshots } from "@/lib/data/dashboard";
+import {
+  summarizeLlmUsage,
+  type LlmUsageBucket,
+} from "@/lib/services/llmUsageLedger";
+import { listReports } from "@/lib/services/orgHierarchy";
+
+export const dynamic = "force-dynamic";
+
+const USAGE_MONTHS = 6;
+
+const costFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const tokenFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+const monthFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+function formatMonth(monthKey: string) {
+  return monthFormatter.format(new Date(`${monthKey}-01T00:00:00Z`));
+}
+
+function toTitleCase(text: string) {
+  if (!text) return "";
+  return text
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+export default async function ManagerUsagePage() {
+  const session = await requirePageSession({
+    nextPath: "/manager/usage",
+    role: "manager",
+  });
+  const [reports, snapshots] = await Promise.all([
+    listReports(session.email),
+    getEngineerSnapshots(),
+  ]);
+  const usage = await summarizeLlmUsage({
+    employeeEmails: reports.map((report) => report.email),
+    months: USAGE_MONTHS,
+  });
+  const nameByEmail = new Map(
+    snapshots.map((snapshot) => [snapshot.employee.email, snapshot.employee.name])
+  );
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="mx-auto w-full max-w-6xl px-6 py-10">
+        <header className="flex flex-col gap-4 border-b border-border/60 pb-6 md:flex-row md:items-end md:justify-between">
+          <div className="space-y-2">
+            <div className="text-xs font-medium uppercase tracking-[0.2em] text-muted-foreground">
+              Manager Dashboard
+            </div>
+            <h1 className="text-2xl font-semibold sm:text-3xl">LLM usage</h1>
+            <p className="max-w-2xl text-sm text-muted-foreground">
+              Token spend for insight generation, Slack classification and
+              manager analysis across your reports, since{" "}
+              {formatMonth(usage.since.slice(0, 7))}.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/manager">Back to dashboard</Link>
+            </Button>
+            <SignOutButton />
+          </div>
+        </header>
+
+        <section className="mt-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <KpiCard label="Spend" value={costFormatter.format(usage.totals.costUsd)} />
+          <KpiCard label="LLM calls" value={usage.totals.calls} />
+          <KpiCard
+            label="Tokens"
+            value={tokenFormatter.format(usage.totals.totalTokens)}
+          />
+          <KpiCard label="Unpriced calls" value={usage.totals.unpricedCalls} />
+        </section>
+
+        <section className="mt-10 grid gap-4 lg:grid-cols-2">
+          <UsageCard
+            title="Spend per month"
+            description="Calendar months in UTC."
+            buckets={usage.byMonth}
+            formatKey={formatMonth}
+          />
+          <UsageCard
+            title="Spend per stage"
+            description="Pipeline stage that made the call."
+            buckets={usage.byStage}
+            formatKey={toTitleCase}
+          />
+          <UsageCard
+            title="Spend per employee"
+            description="Direct and skip-level reports."
+            buckets={usage.byEmployee}
+            formatKey={(email) => nameByEmail.get(email) ?? email}
+          />
+          <UsageCard
+            title="Spend per model"
+            description="Models without a known price count as unpriced."
+            buckets={usage.byModel}
+            formatKey={(model) => model}
+          />
+        </section>
+      </main>
+    </div>
+  );
+}
+
+type KpiCardProps = {
+  label: string;
+  value: React.ReactNode;
+};
+
+function KpiCard({ label, value }: KpiCardProps) {
+  return (
+    <Card className="border-border/60">
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+type UsageCardProps = {
+  title: string;
+  description: string;
+  buckets: LlmUsageBucket[];
+  formatKey: (key: string) => string;
+};
+
+function UsageCard({ title, description, buckets, formatKey }: UsageCardProps) {
+  const maxCost = Math.max(0, ...buckets.map((bucket) => bucket.costUsd));
+  const unpriced = buckets.reduce((sum, bucket) => sum + bucket.unpricedCalls, 0);
+
+  return (
+    <Card className="border-border/60">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+        <CardAction>
+          <Badge variant="secondary">{buckets.length} rows</Badge>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {buckets.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No LLM calls recorded yet.
+          </div>
+        ) : (
+          buckets.map((bucket) => (
+            <div key={bucket.key} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate font-medium">{formatKey(bucket.key)}</span>
+                <span className="text-muted-foreground">
+                  {costFormatter.format(bucket.costUsd)} ·{" "}
+                  {tokenFormatter.format(bucket.totalTokens)} tokens ·{" "}
+                  {bucket.calls} calls
+                </span>
+              </div>
+              <div className="h-2 w-full bg-muted">
+                <div
+                  className="h-2 bg-primary"
+                  style={{
+                    width: `${maxCost > 0 ? (bucket.costUsd / maxCost) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+      {unpriced > 0 ? (
+        <CardFooter className="text-xs text-muted-foreground">
+          {unpriced} calls used a model without a price; set LLM_MODEL_PRICES to
+          include them.
+        </CardFooter>
+      ) : null}
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import Link from "next/link";
+import { redirect } from "next/navigation";
 
+import SignOutButton from "@/components/auth/sign-out-button";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -9,13 +11,28 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { engineerSnapshots } from "@/lib/data/dashboard";
+import { listAccessibleEmployeeEmails } from "@/lib/auth/access";
+import { getSession } from "@/lib/auth/session";
+import { getEmployees } from "@/lib/data/dashboard";
 
-const engineers = engineerSnapshots
-  .map((snapshot) => snapshot.employee)
-  .sort((a, b) => a.name.localeCompare(b.name));
+export const dynamic = "force-dynamic";
+
+export default async function Page() {
+  const session = await getSession();
+  if (!session) {
+    redirect("/signin");
+  }
+
+  const [employees, accessibleEmails] = await Promise.all([
+    getEmployees(),
+    listAccessibleEmployeeEmails(session),
+  ]);
+  const accessibleEmailSet = new Set(accessibleEmails);
+  const engineers = employees
+    .filter((employee) => accessibleEmailSet.has(employee.email))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const isManager = session.role === "manager";
 
-export default function Page() {
   return (
     <div className="min-h-screen bg-red-600 text-white">
       <main className="mx-auto flex min-h-screen w-full max-w-4xl items-center justify-center px-6 py-10">
@@ -67,13 +84,36 @@ export default function Page() {
               })}
             </DropdownMenuContent>
           </DropdownMenu>
-          <Button
-            asChild
-            size="lg"
-            className="h-40 border border-black bg-white text-3xl font-semibold text-black hover:bg-black! hover:text-white!"
-          >
-            <Link href="/manager">Manager</Link>
-          </Button>
+          {isManager ? (
+            <Button
+              asChild
+              size="lg"
+              className="h-40 border border-black bg-white text-3xl font-semibold text-black hover:bg-black! hover:text-white!"
+            >
+              <Link href="/manager">Manager</Link>
+            </Button>
+          ) : (
+            <Button
+              size="lg"
+              disabled
+              className="h-40 border border-black bg-white text-3xl font-semibold text-black"
+            >
+              Manager
+            </Button>
+          )}
+          {session.role === "hr" ? (
+            <Button
+              asChild
+              size="lg"
+              className="h-20 border border-black bg-white text-2xl font-semibold text-black hover:bg-black! hover:text-white! md:col-span-2"
+            >
+              <Link href="/hr">HR fairness review</Link>
+            </Button>
+          ) : null}
+          <div className="flex items-center justify-center gap-3 text-sm md:col-span-2">
+            <span>Signed in as {session.email}</span>
+            <SignOutButton />
+          </div>
         </section>
       </main>
     </div>
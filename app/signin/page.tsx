@@ -0,0 +1,79 @@
+import { redirect } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { signInAction } from "@/lib/auth/actions";
+import { getSession, resolveHomePath } from "@/lib/auth/session";
+
+type PageProps = {
+  searchParams: Promise<{
+    next?: string;
+    error?: string;
+  }>;
+};
+
+export default async function SignInPage({ searchParams }: PageProps) {
+  const { next, error } = await searchParams;
+  const session = await getSession();
+
+  if (session) {
+    redirect(resolveHomePath(session));
+  }
+
+  return (
+    <div className="min-h-screen bg-red-600 text-white">
+      <main className="mx-auto flex min-h-screen w-full max-w-md items-center justify-center px-6 py-10">
+        <Card className="w-full border-black bg-white text-black">
+          <CardHeader>
+            <CardTitle className="text-xl">Sign in to prfrd</CardTitle>
+            <CardDescription className="text-black/60">
+              Engineers see their own workspace; managers see their direct reports.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={signInAction} className="space-y-4">
+              <input type="hidden" name="next" value={next ?? ""} />
+              <div className="space-y-2">
+                <Label htmlFor="email">Work email</Label>
+                <Input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  placeholder="alice@company.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+              {error ? (
+                <div className="text-xs text-destructive">
+                  Invalid email or password.
+                </div>
+              ) : null}
+              <Button type="submit" className="w-full">
+                Sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Button } from "@/components/ui/button";
+import { signOutAction } from "@/lib/auth/actions";
+
+export default function SignOutButton() {
+  return (
+    <form action={signOutAction}>
+      <Button type="submit" variant="ghost">
+        Sign out
+      </Button>
+    </form>
+  );
+}
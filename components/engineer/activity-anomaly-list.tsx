@@ -0,0 +1,62 @@
+import { Badge } from "@/components/ui/badge";
+import type {
+  ActivityAnomalyView,
+  ActivityMetric,
+} from "@/lib/services/activityAnomalies";
+
+type ActivityAnomalyListProps = {
+  anomalies: ActivityAnomalyView[];
+};
+
+const METRIC_LABELS: Record<ActivityMetric, string> = {
+  prsMerged: "PRs merged",
+  prReviewsGiven: "PR reviews given",
+  messageCount: "Slack messages",
+  replyCount: "Slack replies",
+  reactionsReceived: "Reactions received",
+};
+
+const weekFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+});
+
+function formatWeek(weekStart: string) {
+  return weekFormatter.format(new Date(`${weekStart}T00:00:00Z`));
+}
+
+function formatMedian(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+export default function ActivityAnomalyList({ anomalies }: ActivityAnomalyListProps) {
+  if (anomalies.length === 0) {
+    return <div className="text-sm text-muted-foreground">No anomalies detected.</div>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {anomalies.map((anomaly) => (
+        <div
+          key={anomaly.id}
+          className="flex flex-wrap items-center justify-between gap-2 border border-border/60 px-3 py-2"
+        >
+          <div className="flex flex-wrap items-center gap-1">
+            <Badge variant={anomaly.direction === "drop" ? "destructive" : "outline"}>
+              {anomaly.direction}
+            </Badge>
+            <span>
+              {METRIC_LABELS[anomaly.metric]}: {anomaly.value} vs. median{" "}
+              {formatMedian(anomaly.baselineMedian)}
+            </span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {formatWeek(anomaly.weekStart)} · score {anomaly.score.toFixed(1)} over{" "}
+            {anomaly.baselineWeeks} weeks
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
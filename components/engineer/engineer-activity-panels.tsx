@@ -2,6 +2,8 @@
 
 import { useEffect, useMemo, useState } from "react";
 
+import ActivityAnomalyList from "@/components/engineer/activity-anomaly-list";
+import PromptInbox from "@/components/engineer/prompt-inbox";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -36,16 +38,18 @@ import type {
   EngineerSnapshot,
   EngineerWeeklyHistory,
 } from "@/lib/data/dashboard";
+import type { ActivityAnomalyView } from "@/lib/services/activityAnomalies";
 
 type EngineerActivityPanelsProps = {
   snapshot: EngineerSnapshot;
   weeklyHistory: EngineerWeeklyHistory[];
   monthlySummaries: EngineerMonthlySummary[];
+  anomalies: ActivityAnomalyView[];
+  canRespondToPrompts: boolean;
 };
 
 type RecheckStatsRequest = {
   employeeEmail: string;
-  employeeName: string;
   scope: "weekly" | "monthly";
   periodKey: string;
   detailLabel: string;
@@ -320,6 +324,8 @@ export default function EngineerActivityPanels({
   snapshot,
   weeklyHistory,
   monthlySummaries,
+  anomalies,
+  canRespondToPrompts,
 }: EngineerActivityPanelsProps) {
   const [activeView, setActiveView] = useState<"weekly" | "monthly">("weekly");
   const [selectedWeekKey, setSelectedWeekKey] = useState(weeklyHistory[0]?.weekStart ?? "");
@@ -453,7 +459,6 @@ export default function EngineerActivityPanels({
 
     const payload: RecheckStatsRequest = {
       employeeEmail: snapshot.employee.email,
-      employeeName: snapshot.employee.name,
       scope: activeFlagDetail.scope,
       periodKey: activeFlagDetail.periodKey,
       detailLabel: activeFlagDetail.label,
@@ -476,7 +481,7 @@ export default function EngineerActivityPanels({
         body: JSON.stringify(payload),
       });
 
-      const responseBody = (await response.json()) as { requestId?: string };
+      const responseBody = (await response.json()) as { disputeId?: number };
 
       if (!response.ok) {
         throw new Error(getErrorMessage(responseBody));
@@ -484,7 +489,7 @@ export default function EngineerActivityPanels({
 
       setFlagNotice({
         tone: "success",
-        message: `Recheck queued for ${payload.detailLabel} (${payload.periodKey})${responseBody.requestId ? ` · ${responseBody.requestId}` : ""}.`,
+        message: `Recheck queued for ${payload.detailLabel} (${payload.periodKey})${responseBody.disputeId ? ` · dispute #${responseBody.disputeId}` : ""}.`,
       });
       setIsFlagDialogOpen(false);
       setActiveFlagDetail(null);
@@ -835,6 +840,24 @@ export default function EngineerActivityPanels({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <Card className="border-border/60">
+        <CardHeader>
+          <CardTitle className="text-lg">Activity anomalies</CardTitle>
+          <CardDescription>
+            Weeks where a count was far above or below your own median over the
+            previous weeks.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ActivityAnomalyList anomalies={anomalies} />
+        </CardContent>
+      </Card>
+
+      <PromptInbox
+        employeeEmail={snapshot.employee.email}
+        canRespond={canRespondToPrompts}
+      />
     </div>
   );
 }
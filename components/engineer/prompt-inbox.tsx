@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+
+type PromptInboxProps = {
+  employeeEmail: string;
+  // Only the employee can answer; managers see the inbox read-only.
+  canRespond: boolean;
+};
+
+type InboxPrompt = {
+  id: number;
+  quarter: string;
+  theme: string;
+  message: string;
+  status: "pending" | "replied" | "snoozed" | "not_relevant";
+  responseText: string | null;
+  snoozedUntil: string | null;
+};
+
+type InboxQuarter = {
+  quarter: string;
+  prompts: InboxPrompt[];
+};
+
+type InboxView =
+  | { kind: "loading" }
+  | { kind: "error"; message: string }
+  | { kind: "ready"; quarters: InboxQuarter[] };
+
+type PromptAction =
+  | { action: "reply"; text: string }
+  | { action: "snooze"; snoozeDays: number }
+  | { action: "not_relevant"; text?: string };
+
+const SNOOZE_DAYS = 7;
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+});
+
+function getErrorMessage(payload: unknown, fallback: string): string {
+  if (
+    payload &&
+    typeof payload === "object" &&
+    "error" in payload &&
+    typeof payload.error === "string"
+  ) {
+    return payload.error;
+  }
+  return fallback;
+}
+
+function statusLabel(prompt: InboxPrompt): string {
+  if (prompt.status === "snoozed" && prompt.snoozedUntil) {
+    return `Snoozed until ${dateFormatter.format(new Date(prompt.snoozedUntil))}`;
+  }
+  if (prompt.status === "not_relevant") return "Not relevant";
+  if (prompt.status === "replied") return "Replied";
+  return "Awaiting reply";
+}
+
+export default function PromptInbox({ employeeEmail, canRespond }: PromptInboxProps) {
+  const [view, setView] = useState<InboxView>({ kind: "loading" });
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadInbox() {
+      try {
+        const response = await fetch(
+          `/api/insights/employee-prompts?employeeEmail=${encodeURIComponent(employeeEmail)}`,
+          { signal: controller.signal }
+        );
+        const payload = (await response.json()) as unknown;
+        if (!response.ok) {
+          throw new Error(getErrorMessage(payload, "Failed to load check-in prompts."));
+        }
+        setView({
+          kind: "ready",
+          quarters: (payload as { quarters: InboxQuarter[] }).quarters,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setView({
+          kind: "error",
+          message:
+            error instanceof Error ? error.message : "Failed to load check-in prompts.",
+        });
+      }
+    }
+
+    loadInbox();
+
+    return () => controller.abort();
+  }, [employeeEmail]);
+
+  async function submit(promptId: number, body: PromptAction) {
+    setPendingId(promptId);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/insights/employee-prompts/${promptId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const payload = (await response.json()) as unknown;
+      if (!response.ok) {
+        throw new Error(getErrorMessage(payload, "Unable to update this prompt."));
+      }
+
+      const updated = (payload as { prompt: InboxPrompt }).prompt;
+      setView((current) =>
+        current.kind === "ready"
+          ? {
+              kind: "ready",
+              quarters: current.quarters.map((quarter) => ({
+                ...quarter,
+                prompts: quarter.prompts.map((prompt) =>
+                  prompt.id === updated.id ? updated : prompt
+                ),
+              })),
+            }
+          : current
+      );
+      setDrafts((current) => ({ ...current, [promptId]: "" }));
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : "Unable to update this prompt."
+      );
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  const openCount =
+    view.kind === "ready"
+      ? view.quarters
+          .flatMap((quarter) => quarter.prompts)
+          .filter((prompt) => prompt.status === "pending").length
+      : 0;
+
+  return (
+    <Card className="border-border/60">
+      <CardHeader>
+        <CardTitle className="text-xl sm:text-2xl">Check-in inbox</CardTitle>
+        <CardDescription className="text-sm">
+          Prompts from your latest analysis runs. Replies are shared with your
+          manager and used as context in the next analysis.
+        </CardDescription>
+        <CardAction>
+          <Badge variant={openCount > 0 ? "default" : "secondary"}>
+            {openCount} open
+          </Badge>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {view.kind === "loading" ? (
+          <div className="text-muted-foreground">Loading check-in prompts...</div>
+        ) : view.kind === "error" ? (
+          <div className="text-destructive">{view.message}</div>
+        ) : view.quarters.length === 0 ? (
+          <div className="text-muted-foreground">No check-in prompts yet.</div>
+        ) : (
+          view.quarters.map((quarter) => (
+            <section key={quarter.quarter} className="space-y-2">
+              <div className="text-xs uppercase tracking-[0.18em] text-muted-foreground">
+                {quarter.quarter}
+              </div>
+              {quarter.prompts.map((prompt) => {
+                const draft = drafts[prompt.id] ?? "";
+                const isAnswered =
+                  prompt.status === "replied" || prompt.status === "not_relevant";
+                return (
+                  <div
+                    key={prompt.id}
+                    className="space-y-2 border border-border/60 px-3 py-3"
+                  >
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge variant="outline">{prompt.theme}</Badge>
+                      <Badge variant={isAnswered ? "secondary" : "outline"}>
+                        {statusLabel(prompt)}
+                      </Badge>
+                    </div>
+                    <div>{prompt.message}</div>
+                    {prompt.responseText ? (
+                      <div className="border-l-2 border-border pl-2 text-xs text-muted-foreground">
+                        {prompt.responseText}
+                      </div>
+                    ) : null}
+                    {canRespond && !isAnswered ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={draft}
+                          onChange={(event) =>
+                            setDrafts((current) => ({
+                              ...current,
+                              [prompt.id]: event.target.value,
+                            }))
+                          }
+                          placeholder="Reply with context your manager should know"
+                          className="min-h-16 text-xs"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            disabled={pendingId === prompt.id || draft.trim().length === 0}
+                            onClick={() =>
+                              submit(prompt.id, { action: "reply", text: draft })
+                            }
+                          >
+                            Reply
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={pendingId === prompt.id}
+                            onClick={() =>
+                              submit(prompt.id, {
+                                action: "snooze",
+                                snoozeDays: SNOOZE_DAYS,
+                              })
+                            }
+                          >
+                            Snooze {SNOOZE_DAYS} days
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={pendingId === prompt.id}
+                            onClick={() =>
+                              submit(prompt.id, {
+                                action: "not_relevant",
+                                text: draft.trim() || undefined,
+                              })
+                            }
+                          >
+                            Not relevant
+                          </Button>
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </section>
+          ))
+        )}
+        {actionError ? <div className="text-xs text-destructive">{actionError}</div> : null}
+      </CardContent>
+    </Card>
+  );
+}
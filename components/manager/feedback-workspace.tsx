@@ -0,0 +1,159 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export type FeedbackWorkspaceItem = {
+  id: number;
+  quarter: string;
+  kind: "question" | "focus_area";
+  text: string;
+  status: "open" | "asked" | "addressed";
+  responseText: string | null;
+  updatedBy: string | null;
+};
+
+type FeedbackWorkspaceProps = {
+  items: FeedbackWorkspaceItem[];
+  carriedForward: FeedbackWorkspaceItem[];
+};
+
+type FeedbackItemAction = "mark_asked" | "mark_addressed" | "reopen";
+
+function getErrorMessage(payload: unknown): string {
+  if (
+    payload &&
+    typeof payload === "object" &&
+    "error" in payload &&
+    typeof payload.error === "string"
+  ) {
+    return payload.error;
+  }
+  return "Unable to update this follow-up.";
+}
+
+export default function FeedbackWorkspace({
+  items,
+  carriedForward,
+}: FeedbackWorkspaceProps) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function update(itemId: number, action: FeedbackItemAction) {
+    setPendingId(itemId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/insights/manager-feedback/${itemId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action, text: drafts[itemId] ?? "" }),
+      });
+      if (!response.ok) {
+        throw new Error(getErrorMessage(await response.json()));
+      }
+      setDrafts((current) => ({ ...current, [itemId]: "" }));
+      router.refresh();
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error
+          ? updateError.message
+          : "Unable to update this follow-up."
+      );
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  function renderItem(item: FeedbackWorkspaceItem) {
+    const isQuestion = item.kind === "question";
+    return (
+      <div key={item.id} className="space-y-2 border border-border/60 px-3 py-3">
+        <div className="flex flex-wrap items-center gap-1">
+          <Badge variant="outline">{isQuestion ? "Question" : "Focus area"}</Badge>
+          <Badge variant={item.status === "open" ? "outline" : "secondary"}>
+            {item.status}
+          </Badge>
+        </div>
+        <div>{item.text}</div>
+        {item.status === "open" ? (
+          <div className="space-y-2">
+            <Textarea
+              value={drafts[item.id] ?? ""}
+              onChange={(event) =>
+                setDrafts((current) => ({
+                  ...current,
+                  [item.id]: event.target.value,
+                }))
+              }
+              placeholder={
+                isQuestion
+                  ? "Optional: what the engineer answered"
+                  : "Optional: how this was addressed"
+              }
+              className="min-h-16 text-xs"
+            />
+            <Button
+              size="sm"
+              disabled={pendingId === item.id}
+              onClick={() => update(item.id, isQuestion ? "mark_asked" : "mark_addressed")}
+            >
+              {isQuestion ? "Mark asked" : "Mark addressed"}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="border-l-2 border-border pl-2 text-xs text-muted-foreground">
+              {item.responseText ?? (isQuestion ? "No answer logged." : "No note logged.")}
+              {item.updatedBy ? ` · ${item.updatedBy}` : null}
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={pendingId === item.id}
+              onClick={() => update(item.id, "reopen")}
+            >
+              Reopen
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (items.length === 0 && carriedForward.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No stored suggested questions or focus areas yet for this employee.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+      {items.map(renderItem)}
+      {carriedForward.length > 0 ? (
+        <>
+          <div className="pt-2 text-xs uppercase tracking-[0.16em] text-muted-foreground">
+            Open from earlier quarters
+          </div>
+          {carriedForward.map((item) => (
+            <div key={`carried-${item.id}`} className="space-y-1">
+              <div className="text-xs text-muted-foreground">{item.quarter}</div>
+              {renderItem(item)}
+            </div>
+          ))}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -61,6 +61,51 @@ type DebateViewState =
   | { kind: "empty" }
   | { kind: "ready"; data: DebateApiSuccess };
 
+type AnalysisStage = "debate" | "arbiter" | "guidance";
+
+type StageUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+} | null;
+
+type LiveArgument = {
+  index: number;
+  claim: string;
+  evidenceRefs: string[];
+};
+
+type LiveRunState = {
+  run: {
+    id: number;
+    quarter: string;
+  };
+  currentStage: AnalysisStage | null;
+  completedStages: Partial<Record<AnalysisStage, StageUsage>>;
+  arguments: Record<"advocate" | "examiner", LiveArgument[]>;
+  failure: string | null;
+};
+
+type RunStreamEvent =
+  | { type: "run"; run: { id: number; quarter: string; status: string } }
+  | { type: "run_started"; quarter: string }
+  | { type: "run_resumed"; fromStage: AnalysisStage | "persistence" }
+  | { type: "stage_started"; stage: AnalysisStage }
+  | { type: "stage_completed"; stage: AnalysisStage; usage: StageUsage }
+  | {
+      type: "debate_argument";
+      agentRole: "advocate" | "examiner";
+      index: number;
+      claim: string;
+      evidenceRefs: string[];
+    }
+  | { type: "run_completed" }
+  | { type: "run_failed"; failedStage: string; message: string }
+  | { type: "end"; status: string }
+  | { type: "stream_error"; message: string };
+
+const ANALYSIS_STAGES: AnalysisStage[] = ["debate", "arbiter", "guidance"];
+
 function toTitleCase(text: string): string {
   if (!text) return "";
   return text
@@ -86,19 +131,74 @@ function pickLatestMessages(messages: DebateMessage[]) {
   return { advocate, examiner };
 }
 
+function applyRunEvent(state: LiveRunState, event: RunStreamEvent): LiveRunState {
+  switch (event.type) {
+    case "stage_started":
+      return { ...state, currentStage: event.stage };
+    case "stage_completed":
+      return {
+        ...state,
+        currentStage: state.currentStage === event.stage ? null : state.currentStage,
+        completedStages: { ...state.completedStages, [event.stage]: event.usage },
+      };
+    case "debate_argument": {
+      const existing = state.arguments[event.agentRole];
+      if (existing.some((argument) => argument.index === event.index)) {
+        return state;
+      }
+      return {
+        ...state,
+        arguments: {
+          ...state.arguments,
+          [event.agentRole]: [
+            ...existing,
+            { index: event.index, claim: event.claim, evidenceRefs: event.evidenceRefs },
+          ],
+        },
+      };
+    }
+    case "run_failed":
+      return { ...state, currentStage: null, failure: event.message };
+    case "run_resumed": {
+      // Stages before the resume point keep their persisted output; later
+      // ones run again and stream fresh events.
+      const kept =
+        event.fromStage === "persistence"
+          ? ANALYSIS_STAGES
+          : ANALYSIS_STAGES.slice(0, ANALYSIS_STAGES.indexOf(event.fromStage));
+      const completedStages: LiveRunState["completedStages"] = {};
+      for (const stage of kept) {
+        if (stage in state.completedStages) {
+          completedStages[stage] = state.completedStages[stage];
+        }
+      }
+      return {
+        ...state,
+        currentStage: null,
+        completedStages,
+        arguments:
+          event.fromStage === "debate" ? { advocate: [], examiner: [] } : state.arguments,
+        failure: null,
+      };
+    }
+    default:
+      return state;
+  }
+}
+
+function formatTokens(usage: StageUsage | undefined): string {
+  if (!usage || usage.totalTokens === undefined) return "";
+  return `${usage.totalTokens.toLocaleString()} tokens`;
+}
+
 export default function ManagerDebateChat({
   employeeEmail,
   employeeName,
 }: ManagerDebateChatProps) {
   const [open, setOpen] = useState(false);
   const [state, setState] = useState<DebateViewState>({ kind: "idle" });
-  const [visibleRoles, setVisibleRoles] = useState<{
-    advocate: boolean;
-    examiner: boolean;
-  }>({
-    advocate: false,
-    examiner: false,
-  });
+  const [live, setLive] = useState<LiveRunState | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     if (!open) {
@@ -161,70 +261,81 @@ export default function ManagerDebateChat({
     loadDebate();
 
     return () => controller.abort();
-  }, [employeeEmail, open]);
+  }, [employeeEmail, open, reloadKey]);
 
-  const latestMessages = useMemo(() => {
-    if (state.kind !== "ready") {
-      return { advocate: null, examiner: null };
+  useEffect(() => {
+    if (!open) {
+      return;
     }
 
-    return pickLatestMessages(state.data.messages);
-  }, [state]);
-
-  useEffect(() => {
-    if (!open || state.kind !== "ready") {
-      const resetTimer = window.setTimeout(() => {
-        setVisibleRoles({
-          advocate: false,
-          examiner: false,
-        });
-      }, 0);
+    const source = new EventSource(
+      `/api/insights/manager-analysis/stream?employeeEmail=${encodeURIComponent(employeeEmail)}`
+    );
+    let following = false;
 
-      return () => {
-        window.clearTimeout(resetTimer);
-      };
-    }
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as RunStreamEvent;
 
-    const timers: number[] = [];
-    const hasAdvocate = Boolean(latestMessages.advocate);
-    const hasExaminer = Boolean(latestMessages.examiner);
+      if (event.type === "run") {
+        // Only in-flight runs are followed; finished ones are loaded above.
+        if (event.run.status !== "running") {
+          source.close();
+          return;
+        }
+        following = true;
+        // Reconnects resend the run header but resume after the last event,
+        // so keep what has already been streamed.
+        setLive((current) =>
+          current?.run.id === event.run.id
+            ? current
+            : {
+                run: { id: event.run.id, quarter: event.run.quarter },
+                currentStage: null,
+                completedStages: {},
+                arguments: { advocate: [], examiner: [] },
+                failure: null,
+              }
+        );
+        return;
+      }
 
-    timers.push(
-      window.setTimeout(() => {
-        setVisibleRoles({
-          advocate: false,
-          examiner: false,
-        });
-      }, 0)
-    );
+      if (event.type === "end" || event.type === "stream_error") {
+        source.close();
+        // Completed runs swap to the persisted feed; failed ones stay visible
+        // with their failure reason.
+        if (following && event.type === "end" && event.status === "completed") {
+          setLive(null);
+          setReloadKey((current) => current + 1);
+        }
+        return;
+      }
 
-    if (hasAdvocate) {
-      timers.push(
-        window.setTimeout(() => {
-          setVisibleRoles((current) => ({ ...current, advocate: true }));
-        }, 120)
-      );
-    }
+      if (following) {
+        setLive((current) => (current ? applyRunEvent(current, event) : current));
+      }
+    };
 
-    if (hasExaminer) {
-      timers.push(
-        window.setTimeout(() => {
-          setVisibleRoles((current) => ({ ...current, examiner: true }));
-        }, hasAdvocate ? 700 : 120)
-      );
-    }
+    // A failed initial request (e.g. no run yet) closes the source; transient
+    // drops reconnect on their own and resume from the last event id.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED && following) {
+        setLive(null);
+      }
+    };
 
     return () => {
-      for (const timer of timers) {
-        window.clearTimeout(timer);
-      }
+      source.close();
+      setLive(null);
     };
-  }, [
-    latestMessages.advocate,
-    latestMessages.examiner,
-    open,
-    state.kind,
-  ]);
+  }, [employeeEmail, open]);
+
+  const latestMessages = useMemo(() => {
+    if (state.kind !== "ready") {
+      return { advocate: null, examiner: null };
+    }
+
+    return pickLatestMessages(state.data.messages);
+  }, [state]);
 
   return (
     <Sheet open={open} onOpenChange={setOpen}>
@@ -238,26 +349,30 @@ export default function ManagerDebateChat({
         <SheetHeader>
           <SheetTitle>Analysis debate conversation</SheetTitle>
           <SheetDescription>
-            Latest advocate and examiner comments for {employeeName}.
+            {live
+              ? `Live analysis run for ${employeeName}.`
+              : `Latest advocate and examiner comments for ${employeeName}.`}
           </SheetDescription>
         </SheetHeader>
 
         <div className="flex-1 space-y-4 overflow-y-auto px-4 py-4">
-          {state.kind === "idle" || state.kind === "loading" ? (
+          {live ? <LiveRunPanel live={live} /> : null}
+
+          {live ? null : state.kind === "idle" || state.kind === "loading" ? (
             <div className="text-xs text-muted-foreground">Loading debate responses...</div>
           ) : null}
 
-          {state.kind === "error" ? (
+          {!live && state.kind === "error" ? (
             <div className="text-xs text-destructive">{state.message}</div>
           ) : null}
 
-          {state.kind === "empty" ? (
+          {!live && state.kind === "empty" ? (
             <div className="text-xs text-muted-foreground">
               No `analysis_debate_response` rows were found for this engineer yet.
             </div>
           ) : null}
 
-          {state.kind === "ready" ? (
+          {!live && state.kind === "ready" ? (
             <>
               <div className="flex flex-wrap items-center gap-2">
                 <Badge variant="outline">Run #{state.data.run.id}</Badge>
@@ -269,11 +384,7 @@ export default function ManagerDebateChat({
 
               <div className="space-y-3">
                 {latestMessages.advocate ? (
-                  visibleRoles.advocate ? (
-                    <DebateBubble role="advocate" message={latestMessages.advocate} />
-                  ) : (
-                    <StreamingPlaceholder label="Advocate is responding..." />
-                  )
+                  <DebateBubble role="advocate" message={latestMessages.advocate} />
                 ) : (
                   <div className="text-xs text-muted-foreground">
                     No advocate response was persisted for this run.
@@ -281,11 +392,7 @@ export default function ManagerDebateChat({
                 )}
 
                 {latestMessages.examiner ? (
-                  visibleRoles.examiner ? (
-                    <DebateBubble role="examiner" message={latestMessages.examiner} />
-                  ) : visibleRoles.advocate || !latestMessages.advocate ? (
-                    <StreamingPlaceholder label="Examiner is responding..." />
-                  ) : null
+                  <DebateBubble role="examiner" message={latestMessages.examiner} />
                 ) : (
                   <div className="text-xs text-muted-foreground">
                     No examiner response was persisted for this run.
@@ -395,6 +502,124 @@ function DebateBubble({ role, message }: DebateBubbleProps) {
   );
 }
 
+type LiveRunPanelProps = {
+  live: LiveRunState;
+};
+
+function LiveRunPanel({ live }: LiveRunPanelProps) {
+  const debateInProgress = live.currentStage === "debate";
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">Run #{live.run.id}</Badge>
+        <Badge variant="outline">Quarter {live.run.quarter}</Badge>
+        <Badge variant={live.failure ? "destructive" : "outline"}>
+          {live.failure ? "Failed" : "Running"}
+        </Badge>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        {ANALYSIS_STAGES.map((stage) => {
+          const done = stage in live.completedStages;
+          const active = live.currentStage === stage;
+          return (
+            <div
+              key={stage}
+              className={cn(
+                "border px-3 py-2 text-xs",
+                active ? "border-primary/60" : "border-border/60"
+              )}
+            >
+              <div className="font-medium">{toTitleCase(stage)}</div>
+              <div className={cn("text-muted-foreground", active && "animate-pulse")}>
+                {done
+                  ? formatTokens(live.completedStages[stage]) || "Done"
+                  : active
+                    ? "In progress..."
+                    : "Pending"}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {live.failure ? (
+        <div className="text-xs text-destructive">{live.failure}</div>
+      ) : null}
+
+      <div className="space-y-3">
+        {(["advocate", "examiner"] as const).map((role) =>
+          live.arguments[role].length > 0 ? (
+            <LiveArgumentsBubble
+              key={role}
+              role={role}
+              arguments={live.arguments[role]}
+              streaming={debateInProgress}
+            />
+          ) : debateInProgress ? (
+            <StreamingPlaceholder
+              key={role}
+              label={`${role === "advocate" ? "Advocate" : "Examiner"} is responding...`}
+            />
+          ) : null
+        )}
+      </div>
+    </>
+  );
+}
+
+type LiveArgumentsBubbleProps = {
+  role: "advocate" | "examiner";
+  arguments: LiveArgument[];
+  streaming: boolean;
+};
+
+function LiveArgumentsBubble({
+  role,
+  arguments: liveArguments,
+  streaming,
+}: LiveArgumentsBubbleProps) {
+  const isAdvocate = role === "advocate";
+
+  return (
+    <div className={cn("flex", isAdvocate ? "justify-start" : "justify-end")}>
+      <article
+        className={cn(
+          "w-full max-w-[40rem] border px-4 py-3",
+          isAdvocate
+            ? "border-border/60 bg-muted/15"
+            : "border-destructive/40 bg-destructive/10"
+        )}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={isAdvocate ? "secondary" : "destructive"}>
+            {isAdvocate ? "Advocate" : "Examiner"}
+          </Badge>
+          {streaming ? (
+            <span className="animate-pulse text-xs text-muted-foreground">streaming</span>
+          ) : null}
+        </div>
+        <div className="mt-3 space-y-2 text-sm">
+          {liveArguments.map((argument) => (
+            <div
+              key={`${role}-live-${argument.index}`}
+              className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300 border border-border/50 px-3 py-2"
+            >
+              <div>{argument.claim}</div>
+              {argument.evidenceRefs.length > 0 ? (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  Evidence: {argument.evidenceRefs.join(", ")}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      </article>
+    </div>
+  );
+}
+
 type StreamingPlaceholderProps = {
   label: string;
 };
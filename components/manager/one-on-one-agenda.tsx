@@ -0,0 +1,199 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export type OneOnOneAgendaItem = {
+  id: number;
+  source: "suggested_question" | "unresolved_question" | "risk_flag";
+  text: string;
+  notes: string | null;
+};
+
+export type OneOnOneMeeting = {
+  id: number;
+  meetingDate: string;
+  items: OneOnOneAgendaItem[];
+};
+
+type OneOnOneAgendaProps = {
+  employeeEmail: string;
+  meetings: OneOnOneMeeting[];
+};
+
+const SOURCE_LABELS: Record<OneOnOneAgendaItem["source"], string> = {
+  suggested_question: "Suggested question",
+  unresolved_question: "Open decision question",
+  risk_flag: "Risk flag",
+};
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+});
+
+function formatDate(date: string) {
+  return dateFormatter.format(new Date(`${date}T00:00:00Z`));
+}
+
+function getErrorMessage(payload: unknown, fallback: string): string {
+  if (
+    payload &&
+    typeof payload === "object" &&
+    "error" in payload &&
+    typeof payload.error === "string"
+  ) {
+    return payload.error;
+  }
+  return fallback;
+}
+
+export default function OneOnOneAgenda({ employeeEmail, meetings }: OneOnOneAgendaProps) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [current, ...earlier] = meetings;
+
+  async function startMeeting() {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/insights/one-on-ones", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ employeeEmail }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          getErrorMessage(await response.json(), "Unable to start a 1:1.")
+        );
+      }
+      router.refresh();
+    } catch (createError) {
+      setError(
+        createError instanceof Error ? createError.message : "Unable to start a 1:1."
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function saveNote(item: OneOnOneAgendaItem) {
+    setPendingId(item.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/insights/one-on-ones/items/${item.id}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notes: drafts[item.id] ?? item.notes ?? "" }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          getErrorMessage(await response.json(), "Unable to save this note.")
+        );
+      }
+      setDrafts((currentDrafts) => {
+        const next = { ...currentDrafts };
+        delete next[item.id];
+        return next;
+      });
+      router.refresh();
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error ? saveError.message : "Unable to save this note."
+      );
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          {current
+            ? `Latest 1:1 on ${formatDate(current.meetingDate)}`
+            : "No 1:1s recorded yet."}
+        </div>
+        <Button size="sm" variant="outline" disabled={isCreating} onClick={startMeeting}>
+          {isCreating ? "Building agenda..." : "Start a 1:1"}
+        </Button>
+      </div>
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+
+      {current && current.items.length === 0 ? (
+        <div className="text-muted-foreground">
+          Nothing to put on the agenda: no open questions or risk flags.
+        </div>
+      ) : null}
+      {current?.items.map((item) => {
+        const draft = drafts[item.id] ?? item.notes ?? "";
+        return (
+          <div key={item.id} className="space-y-2 border border-border/60 px-3 py-3">
+            <Badge variant={item.source === "risk_flag" ? "destructive" : "outline"}>
+              {SOURCE_LABELS[item.source]}
+            </Badge>
+            <div>{item.text}</div>
+            <Textarea
+              value={draft}
+              onChange={(event) =>
+                setDrafts((currentDrafts) => ({
+                  ...currentDrafts,
+                  [item.id]: event.target.value,
+                }))
+              }
+              placeholder="Notes from the conversation"
+              className="min-h-16 text-xs"
+            />
+            <Button
+              size="sm"
+              disabled={pendingId === item.id || draft === (item.notes ?? "")}
+              onClick={() => saveNote(item)}
+            >
+              Save note
+            </Button>
+          </div>
+        );
+      })}
+
+      {earlier.length > 0 ? (
+        <>
+          <div className="pt-2 text-xs uppercase tracking-[0.16em] text-muted-foreground">
+            Earlier 1:1s
+          </div>
+          {earlier.map((meeting) => {
+            const noted = meeting.items.filter((item) => item.notes);
+            return (
+              <div key={meeting.id} className="space-y-1 border border-border/60 px-3 py-2">
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(meeting.meetingDate)} · {noted.length} of{" "}
+                  {meeting.items.length} items noted
+                </div>
+                {noted.map((item) => (
+                  <div key={item.id} className="text-xs">
+                    <span className="font-medium">{item.text}</span>
+                    <span className="text-muted-foreground"> · {item.notes}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </>
+      ) : null}
+    </div>
+  );
+}
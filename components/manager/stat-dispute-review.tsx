@@ -0,0 +1,177 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export type StatDisputeItem = {
+  id: number;
+  scope: "weekly" | "monthly";
+  periodKey: string;
+  detailLabel: string;
+  detailValue: string;
+  note: string;
+  raisedBy: string;
+  status: "open" | "rechecked" | "upheld" | "rejected";
+  recheck: {
+    verdict: string;
+    explanation: string;
+  } | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+};
+
+type StatDisputeReviewProps = {
+  disputes: StatDisputeItem[];
+};
+
+function getErrorMessage(payload: unknown): string {
+  if (
+    payload &&
+    typeof payload === "object" &&
+    "error" in payload &&
+    typeof payload.error === "string"
+  ) {
+    return payload.error;
+  }
+  return "Unable to resolve this dispute.";
+}
+
+export default function StatDisputeReview({ disputes }: StatDisputeReviewProps) {
+  const router = useRouter();
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function resolve(disputeId: number, decision: "uphold" | "reject") {
+    setPendingId(disputeId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/insights/stat-disputes/${disputeId}/resolve`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision, note: notes[disputeId] ?? "" }),
+      });
+      if (!response.ok) {
+        throw new Error(getErrorMessage(await response.json()));
+      }
+      router.refresh();
+    } catch (resolveError) {
+      setError(
+        resolveError instanceof Error
+          ? resolveError.message
+          : "Unable to resolve this dispute."
+      );
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  if (disputes.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No disputed details for this employee.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+      {disputes.map((dispute) => {
+        const isResolved = dispute.status === "upheld" || dispute.status === "rejected";
+        return (
+          <div key={dispute.id} className="space-y-2 border border-border/60 px-3 py-3">
+            <div className="flex flex-wrap items-center gap-1">
+              <Badge variant="outline">
+                {dispute.scope} · {dispute.periodKey}
+              </Badge>
+              <Badge
+                variant={
+                  dispute.status === "upheld"
+                    ? "destructive"
+                    : dispute.status === "rejected"
+                      ? "secondary"
+                      : "outline"
+                }
+              >
+                {dispute.status}
+              </Badge>
+              {dispute.recheck ? (
+                <Badge
+                  variant={
+                    dispute.recheck.verdict === "inaccurate" ? "destructive" : "secondary"
+                  }
+                >
+                  recheck: {dispute.recheck.verdict}
+                </Badge>
+              ) : null}
+            </div>
+            <div className="font-medium">{dispute.detailLabel}</div>
+            <div className="text-muted-foreground">{dispute.detailValue}</div>
+            <div className="border-l-2 border-border pl-2 text-xs">
+              {dispute.note}
+              <span className="text-muted-foreground"> · {dispute.raisedBy}</span>
+            </div>
+            {dispute.recheck ? (
+              <div className="bg-muted/20 px-2 py-2 text-xs">
+                {dispute.recheck.explanation}
+              </div>
+            ) : (
+              <div className="text-xs text-muted-foreground">
+                Recheck pending in the job worker.
+              </div>
+            )}
+            {isResolved ? (
+              <div className="text-xs text-muted-foreground">
+                {dispute.status === "upheld" ? "Upheld" : "Rejected"} by{" "}
+                {dispute.resolvedBy}
+                {dispute.resolutionNote ? `: ${dispute.resolutionNote}` : "."}
+                {dispute.status === "upheld"
+                  ? " The monthly insight is being regenerated."
+                  : null}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Textarea
+                  value={notes[dispute.id] ?? ""}
+                  onChange={(event) =>
+                    setNotes((current) => ({
+                      ...current,
+                      [dispute.id]: event.target.value,
+                    }))
+                  }
+                  placeholder="Optional resolution note"
+                  className="min-h-16 text-xs"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={pendingId === dispute.id}
+                    onClick={() => resolve(dispute.id, "uphold")}
+                  >
+                    Uphold and regenerate
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={pendingId === dispute.id}
+                    onClick={() => resolve(dispute.id, "reject")}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
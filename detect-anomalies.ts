@@ -0,0 +1,34 @@
+// Loads .env.local before the database client is created.
+import "./lib/db/config";
+import { detectActivityAnomalies } from "./lib/services/activityAnomalies";
+import { isValidWeekStart } from "./lib/services/activityWindow";
+import { listActivityWeeks } from "./lib/services/riskFlags";
+
+function readFromWeekArg(): string | undefined {
+  const arg = process.argv.find((value) => value.startsWith("--from="));
+  if (!arg) return undefined;
+
+  const fromWeek = arg.slice("--from=".length);
+  if (!isValidWeekStart(fromWeek)) {
+    throw new Error(`--from must be a Monday in YYYY-MM-DD format (got ${fromWeek}).`);
+  }
+  return fromWeek;
+}
+
+async function detectAnomalyHistory() {
+  const fromWeek = readFromWeekArg();
+  const weeks = await listActivityWeeks({ fromWeek });
+  console.log(
+    `📈 Detecting activity anomalies for ${weeks.length} week(s)${fromWeek ? ` from ${fromWeek}` : ""}...`
+  );
+
+  for (const weekStart of weeks) {
+    const summary = await detectActivityAnomalies({ weekStart });
+    console.log(`✅ ${weekStart}: ${summary.detected} anomalies`);
+  }
+}
+
+detectAnomalyHistory().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
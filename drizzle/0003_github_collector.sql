@@ -0,0 +1 @@
+ALTER TABLE "employees" ADD COLUMN "github_login" varchar(64);
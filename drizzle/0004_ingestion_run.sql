@@ -0,0 +1,19 @@
+CREATE TABLE "ingestion_run" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "week_start" date NOT NULL,
+  "trigger" varchar(16) NOT NULL,
+  "status" varchar(16) DEFAULT 'running' NOT NULL,
+  "github_rows_upserted" integer DEFAULT 0 NOT NULL,
+  "slack_rows_upserted" integer DEFAULT 0 NOT NULL,
+  "failures" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "completed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ingestion_run_week_created_idx"
+ON "ingestion_run" USING btree ("week_start","created_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "ingestion_run_active_week_idx"
+ON "ingestion_run" USING btree ("week_start")
+WHERE "status" = 'running';
@@ -0,0 +1,43 @@
+CREATE TABLE "team" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "slug" varchar(64) NOT NULL,
+  "name" varchar(100) NOT NULL,
+  "parent_team_id" integer,
+  "lead_email" varchar(100),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "team"
+ADD CONSTRAINT "team_parent_team_id_team_id_fk"
+FOREIGN KEY ("parent_team_id")
+REFERENCES "public"."team"("id")
+ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "team_slug_idx" ON "team" USING btree ("slug");
+--> statement-breakpoint
+
+CREATE TABLE "org_reporting_line" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "manager_email" varchar(100) NOT NULL,
+  "team_id" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "org_reporting_line"
+ADD CONSTRAINT "org_reporting_line_team_id_team_id_fk"
+FOREIGN KEY ("team_id")
+REFERENCES "public"."team"("id")
+ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "org_reporting_line_employee_idx"
+ON "org_reporting_line" USING btree ("employee_email");
+--> statement-breakpoint
+CREATE INDEX "org_reporting_line_manager_idx"
+ON "org_reporting_line" USING btree ("manager_email");
+--> statement-breakpoint
+INSERT INTO "org_reporting_line" ("employee_email", "manager_email")
+SELECT "employee_email", "manager_email"
+FROM "employee_analysis_context"
+ON CONFLICT ("employee_email") DO NOTHING;
@@ -0,0 +1,67 @@
+-- Existing duplicates become revisions ordered by created_at; the newest row
+-- per (employee, period) stays current.
+ALTER TABLE "employee_monthly_insights" ADD COLUMN "id" serial PRIMARY KEY NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_monthly_insights" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_monthly_insights" ADD COLUMN "is_current" boolean DEFAULT true NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_monthly_insights" ADD COLUMN "superseded_at" timestamp;
+--> statement-breakpoint
+UPDATE "employee_monthly_insights" AS target
+SET
+  "revision" = ranked.revision,
+  "is_current" = ranked.next_created_at IS NULL,
+  "superseded_at" = ranked.next_created_at
+FROM (
+  SELECT
+    "id",
+    row_number() OVER period_rows AS revision,
+    lead("created_at") OVER period_rows AS next_created_at
+  FROM "employee_monthly_insights"
+  WINDOW period_rows AS (
+    PARTITION BY "employee_email", "month"
+    ORDER BY "created_at", "id"
+  )
+) AS ranked
+WHERE target."id" = ranked."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX "employee_monthly_insights_revision_idx"
+ON "employee_monthly_insights" USING btree ("employee_email","month","revision");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "employee_monthly_insights_current_idx"
+ON "employee_monthly_insights" USING btree ("employee_email","month")
+WHERE "is_current" = true;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights" ADD COLUMN "id" serial PRIMARY KEY NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights" ADD COLUMN "is_current" boolean DEFAULT true NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights" ADD COLUMN "superseded_at" timestamp;
+--> statement-breakpoint
+UPDATE "employee_quarterly_insights" AS target
+SET
+  "revision" = ranked.revision,
+  "is_current" = ranked.next_created_at IS NULL,
+  "superseded_at" = ranked.next_created_at
+FROM (
+  SELECT
+    "id",
+    row_number() OVER period_rows AS revision,
+    lead("created_at") OVER period_rows AS next_created_at
+  FROM "employee_quarterly_insights"
+  WINDOW period_rows AS (
+    PARTITION BY "employee_email", "quarter"
+    ORDER BY "created_at", "id"
+  )
+) AS ranked
+WHERE target."id" = ranked."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX "employee_quarterly_insights_revision_idx"
+ON "employee_quarterly_insights" USING btree ("employee_email","quarter","revision");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "employee_quarterly_insights_current_idx"
+ON "employee_quarterly_insights" USING btree ("employee_email","quarter")
+WHERE "is_current" = true;
@@ -0,0 +1,24 @@
+CREATE TABLE "background_job" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "kind" varchar(48) NOT NULL,
+  "payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "employee_email" varchar(100),
+  "requested_by" varchar(100),
+  "status" varchar(16) DEFAULT 'queued' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer DEFAULT 3 NOT NULL,
+  "run_after" timestamp DEFAULT now() NOT NULL,
+  "locked_by" varchar(64),
+  "locked_at" timestamp,
+  "result" jsonb,
+  "last_error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  "completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "background_job_claim_idx"
+ON "background_job" USING btree ("status","run_after");
+--> statement-breakpoint
+CREATE INDEX "background_job_employee_idx"
+ON "background_job" USING btree ("employee_email","created_at");
@@ -0,0 +1,15 @@
+CREATE TABLE "analysis_run_event" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "run_id" integer NOT NULL,
+  "event_type" varchar(32) NOT NULL,
+  "payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_run_event"
+ADD CONSTRAINT "analysis_run_event_run_id_analysis_run_id_fk"
+FOREIGN KEY ("run_id") REFERENCES "public"."analysis_run"("id")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "analysis_run_event_run_idx"
+ON "analysis_run_event" USING btree ("run_id","id");
@@ -0,0 +1,2 @@
+ALTER TABLE "analysis_run"
+ADD COLUMN "resume_count" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,39 @@
+CREATE TABLE "llm_rate_window" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "provider_key" varchar(64) NOT NULL,
+  "window_start" timestamp NOT NULL,
+  "request_count" integer DEFAULT 0 NOT NULL,
+  "token_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "llm_rate_window_key_start_idx"
+ON "llm_rate_window" USING btree ("provider_key","window_start");
+--> statement-breakpoint
+CREATE TABLE "team_llm_budget" (
+  "team_id" integer PRIMARY KEY NOT NULL,
+  "daily_token_limit" integer,
+  "monthly_token_limit" integer,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "team_llm_budget"
+ADD CONSTRAINT "team_llm_budget_team_id_team_id_fk"
+FOREIGN KEY ("team_id") REFERENCES "public"."team"("id")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE TABLE "team_llm_usage" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "team_id" integer NOT NULL,
+  "period" varchar(8) NOT NULL,
+  "period_start" date NOT NULL,
+  "tokens_used" integer DEFAULT 0 NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "team_llm_usage"
+ADD CONSTRAINT "team_llm_usage_team_id_team_id_fk"
+FOREIGN KEY ("team_id") REFERENCES "public"."team"("id")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "team_llm_usage_period_idx"
+ON "team_llm_usage" USING btree ("team_id","period","period_start");
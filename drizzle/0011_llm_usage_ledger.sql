@@ -0,0 +1,19 @@
+CREATE TABLE "llm_usage_ledger" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "provider" varchar(32) NOT NULL,
+  "model" varchar(128) NOT NULL,
+  "stage" varchar(32) NOT NULL,
+  "employee_email" varchar(100),
+  "period_key" varchar(16),
+  "input_tokens" integer DEFAULT 0 NOT NULL,
+  "output_tokens" integer DEFAULT 0 NOT NULL,
+  "total_tokens" integer DEFAULT 0 NOT NULL,
+  "cost_usd" numeric(12, 6),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "llm_usage_ledger_created_idx"
+ON "llm_usage_ledger" USING btree ("created_at");
+--> statement-breakpoint
+CREATE INDEX "llm_usage_ledger_employee_idx"
+ON "llm_usage_ledger" USING btree ("employee_email","created_at");
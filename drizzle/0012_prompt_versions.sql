@@ -0,0 +1,43 @@
+CREATE TABLE "prompt_pin" (
+  "prompt_id" varchar(96) PRIMARY KEY NOT NULL,
+  "version" integer NOT NULL,
+  "reason" text,
+  "pinned_by" varchar(100),
+  "pinned_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "employee_monthly_insights"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "employee_monthly_insights"
+ADD COLUMN "prompt_version" integer;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights"
+ADD COLUMN "prompt_version" integer;
+--> statement-breakpoint
+ALTER TABLE "analysis_debate_response"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "analysis_debate_response"
+ADD COLUMN "prompt_version" integer;
+--> statement-breakpoint
+ALTER TABLE "analysis_arbiter_decision"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "analysis_arbiter_decision"
+ADD COLUMN "prompt_version" integer;
+--> statement-breakpoint
+ALTER TABLE "employee_prompt"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "employee_prompt"
+ADD COLUMN "prompt_version" integer;
+--> statement-breakpoint
+ALTER TABLE "manager_feedback"
+ADD COLUMN "prompt_id" varchar(96);
+--> statement-breakpoint
+ALTER TABLE "manager_feedback"
+ADD COLUMN "prompt_version" integer;
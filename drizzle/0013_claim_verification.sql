@@ -0,0 +1,5 @@
+ALTER TABLE "employee_monthly_insights"
+ADD COLUMN "claim_violations" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_quarterly_insights"
+ADD COLUMN "claim_violations" jsonb DEFAULT '[]'::jsonb NOT NULL;
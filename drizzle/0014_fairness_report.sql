@@ -0,0 +1,2 @@
+ALTER TABLE "analysis_run"
+ADD COLUMN "fairness_report" jsonb DEFAULT '{}'::jsonb NOT NULL;
@@ -0,0 +1,35 @@
+CREATE TABLE "stat_dispute" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "raised_by" varchar(100) NOT NULL,
+  "scope" varchar(16) NOT NULL,
+  "period_key" varchar(10) NOT NULL,
+  "detail_label" varchar(200) NOT NULL,
+  "detail_value" text NOT NULL,
+  "note" text NOT NULL,
+  "status" varchar(16) DEFAULT 'open' NOT NULL,
+  "recheck_job_id" integer,
+  "recheck_verdict" varchar(16),
+  "recheck_explanation" text,
+  "recheck_evidence_weeks" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "rechecked_by_model" varchar(64),
+  "prompt_id" varchar(96),
+  "prompt_version" integer,
+  "rechecked_at" timestamp,
+  "resolved_by" varchar(100),
+  "resolution_note" text,
+  "resolved_at" timestamp,
+  "regeneration_job_id" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "stat_dispute"
+ADD CONSTRAINT "stat_dispute_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "stat_dispute_employee_created_idx"
+ON "stat_dispute" USING btree ("employee_email","created_at");
+--> statement-breakpoint
+CREATE INDEX "stat_dispute_status_idx"
+ON "stat_dispute" USING btree ("status","created_at");
@@ -0,0 +1,14 @@
+ALTER TABLE "employee_prompt"
+ADD COLUMN "status" varchar(16) DEFAULT 'pending' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee_prompt"
+ADD COLUMN "response_text" text;
+--> statement-breakpoint
+ALTER TABLE "employee_prompt"
+ADD COLUMN "responded_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "employee_prompt"
+ADD COLUMN "snoozed_until" timestamp;
+--> statement-breakpoint
+CREATE INDEX "employee_prompt_employee_quarter_idx"
+ON "employee_prompt" USING btree ("employee_email","quarter");
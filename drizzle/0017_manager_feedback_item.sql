@@ -0,0 +1,47 @@
+CREATE TABLE "manager_feedback_item" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "run_id" integer NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "quarter" varchar(7) NOT NULL,
+  "kind" varchar(16) NOT NULL,
+  "position" integer NOT NULL,
+  "text" text NOT NULL,
+  "status" varchar(16) DEFAULT 'open' NOT NULL,
+  "response_text" text,
+  "updated_by" varchar(100),
+  "resolved_at" timestamp,
+  "updated_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "manager_feedback_item"
+ADD CONSTRAINT "manager_feedback_item_run_id_analysis_run_id_fk"
+FOREIGN KEY ("run_id") REFERENCES "public"."analysis_run"("id")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "manager_feedback_item"
+ADD CONSTRAINT "manager_feedback_item_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "manager_feedback_item_run_kind_position_idx"
+ON "manager_feedback_item" USING btree ("run_id","kind","position");
+--> statement-breakpoint
+CREATE INDEX "manager_feedback_item_employee_quarter_idx"
+ON "manager_feedback_item" USING btree ("employee_email","quarter");
+--> statement-breakpoint
+INSERT INTO "manager_feedback_item" ("run_id", "employee_email", "quarter", "kind", "position", "text")
+SELECT "manager_feedback"."run_id", "analysis_run"."employee_email", "analysis_run"."quarter",
+  'question', "item"."ordinality" - 1, "item"."value"
+FROM "manager_feedback"
+INNER JOIN "analysis_run" ON "analysis_run"."id" = "manager_feedback"."run_id"
+CROSS JOIN LATERAL jsonb_array_elements_text("manager_feedback"."suggested_questions")
+  WITH ORDINALITY AS "item"("value", "ordinality");
+--> statement-breakpoint
+INSERT INTO "manager_feedback_item" ("run_id", "employee_email", "quarter", "kind", "position", "text")
+SELECT "manager_feedback"."run_id", "analysis_run"."employee_email", "analysis_run"."quarter",
+  'focus_area', "item"."ordinality" - 1, "item"."value"
+FROM "manager_feedback"
+INNER JOIN "analysis_run" ON "analysis_run"."id" = "manager_feedback"."run_id"
+CROSS JOIN LATERAL jsonb_array_elements_text("manager_feedback"."focus_areas")
+  WITH ORDINALITY AS "item"("value", "ordinality");
@@ -0,0 +1,44 @@
+CREATE TABLE "one_on_one" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "manager_email" varchar(100) NOT NULL,
+  "meeting_date" date NOT NULL,
+  "quarter" varchar(7) NOT NULL,
+  "run_id" integer,
+  "risk_week_start" date,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "one_on_one_item" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "meeting_id" integer NOT NULL,
+  "position" integer NOT NULL,
+  "source" varchar(24) NOT NULL,
+  "feedback_item_id" integer,
+  "text" text NOT NULL,
+  "notes" text,
+  "noted_by" varchar(100),
+  "noted_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "one_on_one"
+ADD CONSTRAINT "one_on_one_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "one_on_one"
+ADD CONSTRAINT "one_on_one_run_id_analysis_run_id_fk"
+FOREIGN KEY ("run_id") REFERENCES "public"."analysis_run"("id")
+ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "one_on_one_item"
+ADD CONSTRAINT "one_on_one_item_meeting_id_one_on_one_id_fk"
+FOREIGN KEY ("meeting_id") REFERENCES "public"."one_on_one"("id")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "one_on_one_employee_date_idx"
+ON "one_on_one" USING btree ("employee_email","meeting_date");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "one_on_one_item_meeting_position_idx"
+ON "one_on_one_item" USING btree ("meeting_id","position");
@@ -0,0 +1,27 @@
+CREATE TABLE "risk_flag" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "rule_id" varchar(48) NOT NULL,
+  "label" varchar(120) NOT NULL,
+  "severity" varchar(8) NOT NULL,
+  "status" varchar(8) DEFAULT 'open' NOT NULL,
+  "opened_week" date NOT NULL,
+  "last_matched_week" date NOT NULL,
+  "closed_week" date,
+  "evidence" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "opened_at" timestamp DEFAULT now() NOT NULL,
+  "closed_at" timestamp,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "risk_flag"
+ADD CONSTRAINT "risk_flag_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "risk_flag_employee_opened_idx"
+ON "risk_flag" USING btree ("employee_email","opened_week");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "risk_flag_open_rule_idx"
+ON "risk_flag" USING btree ("employee_email","rule_id")
+WHERE "status" = 'open';
@@ -0,0 +1,30 @@
+CREATE TABLE "burnout_alert" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "manager_email" varchar(100),
+  "status" varchar(8) DEFAULT 'open' NOT NULL,
+  "opened_week" date NOT NULL,
+  "last_matched_week" date NOT NULL,
+  "cleared_week" date,
+  "evidence" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "slack_channel_id" varchar(32),
+  "slack_ts" varchar(32),
+  "notified_at" timestamp,
+  "delivery_attempts" integer DEFAULT 0 NOT NULL,
+  "delivery_error" text,
+  "opened_at" timestamp DEFAULT now() NOT NULL,
+  "cleared_at" timestamp,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "burnout_alert"
+ADD CONSTRAINT "burnout_alert_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "burnout_alert_employee_opened_idx"
+ON "burnout_alert" USING btree ("employee_email","opened_week");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "burnout_alert_open_employee_idx"
+ON "burnout_alert" USING btree ("employee_email")
+WHERE "status" = 'open';
@@ -0,0 +1,26 @@
+CREATE TABLE "activity_anomaly" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "employee_email" varchar(100) NOT NULL,
+  "week_start" date NOT NULL,
+  "source" varchar(32) NOT NULL,
+  "metric" varchar(32) NOT NULL,
+  "direction" varchar(8) NOT NULL,
+  "value" integer NOT NULL,
+  "baseline_median" numeric(8, 2) NOT NULL,
+  "baseline_mad" numeric(8, 2) NOT NULL,
+  "baseline_weeks" integer NOT NULL,
+  "score" numeric(8, 2) NOT NULL,
+  "relative_change" numeric(8, 2),
+  "detected_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "activity_anomaly"
+ADD CONSTRAINT "activity_anomaly_employee_email_employees_email_fk"
+FOREIGN KEY ("employee_email") REFERENCES "public"."employees"("email")
+ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "activity_anomaly_employee_week_metric_idx"
+ON "activity_anomaly" USING btree ("employee_email","week_start","metric");
+--> statement-breakpoint
+CREATE INDEX "activity_anomaly_week_idx"
+ON "activity_anomaly" USING btree ("week_start");
@@ -0,0 +1,7 @@
+ALTER TABLE "burnout_alert" ADD COLUMN "last_evaluated_week" date;
+--> statement-breakpoint
+UPDATE "burnout_alert" SET "last_evaluated_week" = COALESCE("cleared_week", "last_matched_week");
+--> statement-breakpoint
+ALTER TABLE "burnout_alert" ALTER COLUMN "last_evaluated_week" SET NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "burnout_alert" ADD COLUMN "quiet_weeks" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE "analysis_run" ADD COLUMN "heartbeat_at" timestamp DEFAULT now() NOT NULL;
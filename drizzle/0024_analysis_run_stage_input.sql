@@ -0,0 +1,3 @@
+ALTER TABLE "analysis_run" ADD COLUMN "core_input" jsonb;
+--> statement-breakpoint
+ALTER TABLE "analysis_run" ADD COLUMN "guidance_output" jsonb;
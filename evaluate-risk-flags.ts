@@ -0,0 +1,35 @@
+// Loads .env.local before the rules read RISK_RULES.
+import "./lib/db/config";
+import { isValidWeekStart } from "./lib/services/activityWindow";
+import { evaluateRiskFlags, listActivityWeeks } from "./lib/services/riskFlags";
+
+function readFromWeekArg(): string | undefined {
+  const arg = process.argv.find((value) => value.startsWith("--from="));
+  if (!arg) return undefined;
+
+  const fromWeek = arg.slice("--from=".length);
+  if (!isValidWeekStart(fromWeek)) {
+    throw new Error(`--from must be a Monday in YYYY-MM-DD format (got ${fromWeek}).`);
+  }
+  return fromWeek;
+}
+
+async function evaluateRiskFlagHistory() {
+  const fromWeek = readFromWeekArg();
+  const weeks = await listActivityWeeks({ fromWeek });
+  console.log(
+    `🚩 Evaluating risk rules for ${weeks.length} week(s)${fromWeek ? ` from ${fromWeek}` : ""}...`
+  );
+
+  for (const weekStart of weeks) {
+    const summary = await evaluateRiskFlags({ weekStart });
+    console.log(
+      `✅ ${weekStart}: ${summary.opened} opened, ${summary.updated} still open, ${summary.closed} closed`
+    );
+  }
+}
+
+evaluateRiskFlagHistory().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
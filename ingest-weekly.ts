@@ -0,0 +1,66 @@
+// Loads .env.local before the collectors read their credentials.
+import "./lib/db/config";
+import { isValidWeekStart } from "./lib/services/activityWindow";
+import { runScheduledIngestion } from "./lib/services/ingestionScheduler";
+
+function readWeekStartArg(): string | undefined {
+  const arg = process.argv.find((value) => value.startsWith("--week="));
+  if (!arg) return undefined;
+
+  const weekStart = arg.slice("--week=".length);
+  if (!isValidWeekStart(weekStart)) {
+    throw new Error(`--week must be a Monday in YYYY-MM-DD format (got ${weekStart}).`);
+  }
+  return weekStart;
+}
+
+async function ingestWeekly() {
+  const weekStart = readWeekStartArg();
+  console.log(
+    weekStart
+      ? `📥 Ingesting GitHub + Slack activity for week ${weekStart}...`
+      : "📥 Ingesting GitHub + Slack activity (with backfill of missed weeks)..."
+  );
+
+  const summaries = await runScheduledIngestion({
+    weekStart,
+    trigger: weekStart ? "manual" : "cron",
+  });
+
+  if (summaries.length === 0) {
+    console.log("✅ Nothing to ingest; all weeks are up to date");
+  }
+
+  for (const summary of summaries) {
+    console.log(
+      `${summary.status === "failed" ? "❌" : "✅"} ${summary.weekStart} [${summary.trigger}] ${summary.status}: ${summary.githubRowsUpserted} GitHub rows, ${summary.slackRowsUpserted} Slack rows`
+    );
+    if (summary.riskFlags) {
+      console.log(
+        `   🚩 Risk flags: ${summary.riskFlags.opened} opened, ${summary.riskFlags.updated} still open, ${summary.riskFlags.closed} closed`
+      );
+    }
+    if (summary.burnoutAlerts) {
+      console.log(
+        `   🔥 Burnout alerts: ${summary.burnoutAlerts.opened} opened, ${summary.burnoutAlerts.notified} sent, ${summary.burnoutAlerts.failed} undelivered, ${summary.burnoutAlerts.cleared} cleared`
+      );
+    }
+    if (summary.anomalies) {
+      console.log(`   📈 Activity anomalies: ${summary.anomalies.detected} detected`);
+    }
+    for (const failure of summary.failures) {
+      console.log(
+        `   ⚠️  ${failure.source}${failure.employeeEmail ? ` (${failure.employeeEmail})` : ""}: ${failure.message}`
+      );
+    }
+  }
+
+  if (summaries.some((summary) => summary.status === "failed")) {
+    process.exitCode = 1;
+  }
+}
+
+ingestWeekly().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,404 @@
+import "server-only";
+
+import type {
+  ConfidenceLevel,
+  MonthlySinglePassOutput,
+  QuarterlySinglePassOutput,
+  SignalEvidence,
+  WeeklyGithubActivity,
+  WeeklySlackActivity,
+} from "@/lib/ai/insightGenerator";
+
+const DEFAULT_BLOCK_AT = 3;
+// Area names this short ("API", "UI") are too generic to attribute.
+const MIN_AREA_LENGTH = 4;
+const PERCENT_TOLERANCE = 1;
+
+export type ClaimViolation = {
+  kind: "metric" | "area" | "evidence_week";
+  path: string;
+  claim: string;
+  message: string;
+};
+
+export type ClaimVerificationOutcome = {
+  violations: ClaimViolation[];
+  confidence: ConfidenceLevel;
+  // Too many violations to store the insight at all.
+  blocked: boolean;
+};
+
+type Metric =
+  | "prsMerged"
+  | "pullRequests"
+  | "prReviewsGiven"
+  | "issues"
+  | "messageCount"
+  | "replyCount"
+  | "reactionsReceived"
+  | "afterHoursRatio"
+  | "weekendRatio";
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const PERCENT = "(\\d+(?:\\.\\d+)?)\\s*(?:%|percent)";
+const PRS = "(?:PRs?|pull requests?)";
+
+// Checked in order; a span matched by an earlier claim is not re-read by a
+// later one, so "merged 9 PRs" is only checked against prsMerged.
+const METRIC_CLAIMS: Array<{ metrics: Metric[]; pattern: RegExp }> = [
+  {
+    metrics: ["prsMerged"],
+    pattern: new RegExp(`\\bmerged\\s+${COUNT}\\s+(?:\\w+\\s+)?${PRS}`, "gi"),
+  },
+  {
+    metrics: ["prsMerged"],
+    pattern: new RegExp(`\\b${COUNT}\\s+(?:merged\\s+${PRS}|${PRS}\\s+(?:were\\s+)?merged)`, "gi"),
+  },
+  {
+    metrics: ["prsMerged", "pullRequests"],
+    pattern: new RegExp(`\\b${COUNT}\\s+(?:\\w+\\s+)?${PRS}`, "gi"),
+  },
+  {
+    metrics: ["prReviewsGiven"],
+    pattern: new RegExp(`\\b(?:reviewed\\s+${COUNT}|${COUNT}\\s+(?:PR\\s+|code\\s+)?reviews?)\\b`, "gi"),
+  },
+  {
+    metrics: ["issues"],
+    pattern: new RegExp(`\\b${COUNT}\\s+(?:\\w+\\s+)?issues?\\b`, "gi"),
+  },
+  {
+    metrics: ["messageCount"],
+    pattern: new RegExp(`\\b${COUNT}\\s+(?:Slack\\s+)?messages?\\b`, "gi"),
+  },
+  {
+    metrics: ["replyCount"],
+    pattern: new RegExp(`\\b${COUNT}\\s+(?:thread\\s+)?replies\\b`, "gi"),
+  },
+  {
+    metrics: ["reactionsReceived"],
+    pattern: new RegExp(`\\b${COUNT}\\s+reactions?\\b`, "gi"),
+  },
+  {
+    metrics: ["afterHoursRatio"],
+    pattern: new RegExp(
+      `${PERCENT}[^.%]{0,40}?after[- ]hours|after[- ]hours[^.%]{0,40}?${PERCENT}`,
+      "gi"
+    ),
+  },
+  {
+    metrics: ["weekendRatio"],
+    pattern: new RegExp(
+      `${PERCENT}[^.%]{0,40}?weekends?|weekends?[^.%]{0,40}?${PERCENT}`,
+      "gi"
+    ),
+  },
+];
+
+const RATIO_METRICS = new Set<Metric>(["afterHoursRatio", "weekendRatio"]);
+
+type ClaimText = {
+  path: string;
+  text: string;
+};
+
+type PeriodSource = {
+  periodKey: string;
+  githubWeekly: WeeklyGithubActivity[];
+  slackWeekly: WeeklySlackActivity[];
+};
+
+function toISODate(value: string | Date): string {
+  if (typeof value === "string") {
+    return value.slice(0, 10);
+  }
+  return value.toISOString().slice(0, 10);
+}
+
+function asRecords(value: unknown): Array<Record<string, unknown>> {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is Record<string, unknown> => Boolean(item) && typeof item === "object"
+  );
+}
+
+function parseCount(raw: string): number {
+  return NUMBER_WORDS[raw.toLowerCase()] ?? Number(raw);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/** Weekly values, the period total, and the rounded weekly average. */
+function supportedCounts(values: number[]): Set<number> {
+  const supported = new Set(values);
+  if (values.length > 0) {
+    const total = sum(values);
+    const average = total / values.length;
+    supported.add(total);
+    supported.add(Math.floor(average));
+    supported.add(Math.ceil(average));
+  }
+  return supported;
+}
+
+function metricSeries(metric: Metric, source: PeriodSource): number[] {
+  const github = source.githubWeekly;
+  const slack = source.slackWeekly;
+  switch (metric) {
+    case "prsMerged":
+      return github.map((week) => week.prsMerged ?? 0);
+    case "pullRequests":
+      return github.map((week) => asRecords(week.pullRequestSummaries).length);
+    case "prReviewsGiven":
+      return github.map((week) => week.prReviewsGiven ?? 0);
+    case "issues":
+      return github.map((week) => asRecords(week.issueSummaries).length);
+    case "messageCount":
+      return slack.map((week) => week.messageCount ?? 0);
+    case "replyCount":
+      return slack.map((week) => week.replyCount ?? 0);
+    case "reactionsReceived":
+      return slack.map((week) => week.reactionsReceived ?? 0);
+    case "afterHoursRatio":
+      return [
+        ...github.map((week) => week.afterHoursRatio ?? 0),
+        ...slack.map((week) => week.afterHoursRatio ?? 0),
+      ];
+    case "weekendRatio":
+      return [
+        ...github.map((week) => week.weekendRatio ?? 0),
+        ...slack.map((week) => week.weekendRatio ?? 0),
+      ];
+  }
+}
+
+function isSupportedMetricValue(
+  metrics: Metric[],
+  value: number,
+  source: PeriodSource
+): boolean {
+  return metrics.some((metric) => {
+    const series = metricSeries(metric, source);
+    if (RATIO_METRICS.has(metric)) {
+      const candidates = series.length > 0 ? [...series, sum(series) / series.length] : [];
+      return candidates.some(
+        (ratio) => Math.abs(ratio * 100 - value) <= PERCENT_TOLERANCE
+      );
+    }
+    return supportedCounts(series).has(value);
+  });
+}
+
+function checkMetricClaims(claim: ClaimText, source: PeriodSource): ClaimViolation[] {
+  const violations: ClaimViolation[] = [];
+  const consumed: Array<[number, number]> = [];
+
+  for (const { metrics, pattern } of METRIC_CLAIMS) {
+    for (const match of claim.text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (consumed.some(([from, to]) => start < to && end > from)) continue;
+      consumed.push([start, end]);
+
+      const raw = match.slice(1).find((group) => group !== undefined);
+      if (raw === undefined) continue;
+      const value = parseCount(raw);
+      if (isSupportedMetricValue(metrics, value, source)) continue;
+
+      violations.push({
+        kind: "metric",
+        path: claim.path,
+        claim: match[0],
+        message: `"${match[0]}" does not match ${metrics.join(" or ")} in the ${source.periodKey} weekly data.`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function periodAreas(source: PeriodSource): string[] {
+  return source.githubWeekly.flatMap((week) =>
+    asRecords(week.pullRequestSummaries).flatMap((summary) => [
+      ...(typeof summary.area === "string" ? [summary.area] : []),
+      ...(Array.isArray(summary.teamsAffected)
+        ? summary.teamsAffected.filter(
+            (team): team is string => typeof team === "string"
+          )
+        : []),
+    ])
+  );
+}
+
+function checkAreaClaims(
+  claim: ClaimText,
+  source: PeriodSource,
+  knownAreas: string[]
+): ClaimViolation[] {
+  const supported = periodAreas(source).map((area) => area.toLowerCase());
+  const violations: ClaimViolation[] = [];
+
+  for (const area of knownAreas) {
+    const normalized = area.trim().toLowerCase();
+    if (normalized.length < MIN_AREA_LENGTH) continue;
+    if (supported.some((entry) => entry.includes(normalized))) continue;
+    if (!new RegExp(`\\b${escapeRegExp(normalized)}\\b`, "i").test(claim.text)) continue;
+
+    violations.push({
+      kind: "area",
+      path: claim.path,
+      claim: area,
+      message: `Mentions "${area}", but no ${source.periodKey} pull request touched it.`,
+    });
+  }
+
+  return violations;
+}
+
+function checkEvidenceWeeks(
+  evidence: SignalEvidence[],
+  path: string,
+  source: PeriodSource
+): ClaimViolation[] {
+  const githubWeeks = new Set(source.githubWeekly.map((week) => toISODate(week.weekStart)));
+  const slackWeeks = new Set(source.slackWeekly.map((week) => toISODate(week.weekStart)));
+
+  return evidence.flatMap((entry, index) => {
+    const weeks = entry.source === "github_weekly_activity" ? githubWeeks : slackWeeks;
+    if (weeks.has(entry.weekStart)) return [];
+    return [
+      {
+        kind: "evidence_week" as const,
+        path: `${path}[${index}]`,
+        claim: entry.summary,
+        message: `Cites ${entry.source} for ${entry.weekStart}, which has no row in ${source.periodKey}.`,
+      },
+    ];
+  });
+}
+
+function collectClaims(
+  output: MonthlySinglePassOutput | QuarterlySinglePassOutput
+): ClaimText[] {
+  const claims: ClaimText[] = [];
+  const add = (path: string, text: string) => claims.push({ path, text });
+  const addAll = (path: string, texts: string[]) =>
+    texts.forEach((text, index) => add(`${path}[${index}]`, text));
+
+  for (const signal of output.allSignals) {
+    add(`signals.${signal.id}.statement`, signal.statement);
+    signal.evidence.forEach((entry, index) =>
+      add(`signals.${signal.id}.evidence[${index}].summary`, entry.summary)
+    );
+  }
+  for (const [dimension, insight] of Object.entries(output.dimensionInsights)) {
+    add(`dimensionInsights.${dimension}`, insight.insight);
+  }
+
+  const synthesis = output.synthesis;
+  if ("overallSummary" in synthesis) {
+    add("overallSummary", synthesis.overallSummary);
+    addAll("identifiedRisks", synthesis.identifiedRisks);
+    addAll("identifiedOpportunities", synthesis.identifiedOpportunities);
+  } else {
+    add("trajectorySummary", synthesis.trajectorySummary);
+    addAll("keyStrengths", synthesis.keyStrengths);
+    addAll("keyConcerns", synthesis.keyConcerns);
+    add("burnoutAssessment", synthesis.burnoutAssessment);
+    add("growthAssessment", synthesis.growthAssessment);
+    add("retentionAssessment", synthesis.retentionAssessment);
+    addAll("recommendedActions", synthesis.recommendedActions);
+  }
+
+  return claims;
+}
+
+/**
+ * Cross-checks a generated insight against the weekly rows it was generated
+ * from: counts and after-hours/weekend percentages must match a weekly value,
+ * the period total or the weekly average; work areas from `knownAreas` may
+ * only be named when a pull request in the period touched them; and signal
+ * evidence must cite weeks that have a row.
+ */
+export function verifyInsightClaims(input: {
+  output: MonthlySinglePassOutput | QuarterlySinglePassOutput;
+  githubWeekly: WeeklyGithubActivity[];
+  slackWeekly: WeeklySlackActivity[];
+  knownAreas: string[];
+}): ClaimVerificationOutcome {
+  const source: PeriodSource = {
+    periodKey: input.output.periodKey,
+    githubWeekly: input.githubWeekly,
+    slackWeekly: input.slackWeekly,
+  };
+
+  const violations = collectClaims(input.output).flatMap((claim) => [
+    ...checkMetricClaims(claim, source),
+    ...checkAreaClaims(claim, source, input.knownAreas),
+  ]);
+  for (const signal of input.output.allSignals) {
+    violations.push(
+      ...checkEvidenceWeeks(signal.evidence, `signals.${signal.id}.evidence`, source)
+    );
+  }
+  if ("evidenceSnapshots" in input.output.synthesis) {
+    for (const snapshot of input.output.synthesis.evidenceSnapshots) {
+      violations.push(
+        ...checkEvidenceWeeks(
+          snapshot.evidence,
+          `evidenceSnapshots.${snapshot.signalId}.evidence`,
+          source
+        )
+      );
+    }
+  }
+
+  return applyClaimPolicy(input.output.synthesis.confidence, violations);
+}
+
+function readBlockThreshold(): number {
+  const raw = process.env.CLAIM_VERIFICATION_BLOCK_AT?.trim();
+  if (!raw) return DEFAULT_BLOCK_AT;
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_BLOCK_AT;
+}
+
+/**
+ * Any violation lowers confidence one level; `CLAIM_VERIFICATION_BLOCK_AT`
+ * violations (default 3, 0 never blocks) keep the insight from being stored.
+ */
+function applyClaimPolicy(
+  confidence: ConfidenceLevel,
+  violations: ClaimViolation[]
+): ClaimVerificationOutcome {
+  if (violations.length === 0) {
+    return { violations, confidence, blocked: false };
+  }
+
+  const blockAt = readBlockThreshold();
+  return {
+    violations,
+    confidence: confidence === "high" ? "medium" : "low",
+    blocked: blockAt > 0 && violations.length >= blockAt,
+  };
+}
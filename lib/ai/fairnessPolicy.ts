@@ -0,0 +1,248 @@
+import "server-only";
+
+export type FairnessRuleId =
+  | "peer_comparison"
+  | "employee_compensation"
+  | "protected_attribute"
+  | "gendered_language"
+  | "health_personal_inference"
+  | "employee_ping_tone";
+
+// flag: record only. redact: record and replace the text with the caller's
+// fallback. block: record and fail the stage.
+export type FairnessAction = "flag" | "redact" | "block";
+
+// Who reads the text: managers and HR, or the employee (`employeePings`).
+export type FairnessAudience = "manager" | "employee";
+
+export type FairnessStage = "debate" | "arbiter" | "guidance";
+
+export type FairnessViolation = {
+  ruleId: FairnessRuleId;
+  action: FairnessAction;
+  stage: FairnessStage;
+  field: string;
+  match: string;
+};
+
+export type FairnessStageReport = {
+  blocked: boolean;
+  violationsByRule: Partial<Record<FairnessRuleId, number>>;
+  violations: FairnessViolation[];
+};
+
+type FairnessRule = {
+  id: FairnessRuleId;
+  description: string;
+  pattern: RegExp;
+  audiences: readonly FairnessAudience[];
+  defaultAction: FairnessAction;
+};
+
+export const PEER_COMPARISON_PATTERN =
+  /\b(peer|peers|compared to|relative to|team average|other employees)\b/i;
+export const EMPLOYEE_COMPENSATION_PATTERN =
+  /\b(bonus|promotion|promote|compensation|salary|raise)\b/i;
+
+const BOTH: readonly FairnessAudience[] = ["manager", "employee"];
+
+const FAIRNESS_RULES: readonly FairnessRule[] = [
+  {
+    id: "peer_comparison",
+    description: "Ranks the employee against colleagues instead of role expectations.",
+    pattern: PEER_COMPARISON_PATTERN,
+    audiences: BOTH,
+    defaultAction: "redact",
+  },
+  {
+    id: "employee_compensation",
+    description: "Mentions pay or promotion in text the employee reads.",
+    pattern: EMPLOYEE_COMPENSATION_PATTERN,
+    audiences: ["employee"],
+    defaultAction: "block",
+  },
+  {
+    id: "protected_attribute",
+    description: "Mentions a protected attribute such as age, ethnicity or religion.",
+    pattern:
+      /\b(age|aged|race|racial|ethnic|ethnicity|religion|religious|nationality|national origin|immigrant|immigration|visa status|pregnant|pregnancy|maternity|paternity|disabled|disability|sexual orientation|gay|lesbian|transgender|marital status|married|single parent|veteran|caste)\b/i,
+    audiences: BOTH,
+    defaultAction: "redact",
+  },
+  {
+    id: "gendered_language",
+    description: "Uses gendered pronouns or gender-coded descriptors.",
+    pattern:
+      /\b(he|she|him|her|his|hers|himself|herself|guys|gal|ladies|gentlemen|manpower|chairman|bossy|abrasive|shrill|hysterical|emotional)\b/i,
+    audiences: BOTH,
+    defaultAction: "flag",
+  },
+  {
+    id: "health_personal_inference",
+    description: "Speculates about health or personal life from work activity.",
+    pattern:
+      /\b(burned out|burnt out|depressed|depression|anxious|anxiety|mental health|illness|sick|medical|diagnosis|therapy|medication|family (?:issues|problems|situation)|divorce|personal (?:life|problems|issues)|relationship (?:issues|problems)|childcare|caregiving)\b/i,
+    audiences: BOTH,
+    defaultAction: "redact",
+  },
+  {
+    id: "employee_ping_tone",
+    description: "Uses a blaming, absolute or shouting tone towards the employee.",
+    pattern:
+      /\b(you failed|you must|you should have|unacceptable|disappointing|disappointed|poor performance|lazy|sloppy|careless|always late)\b|!{2,}/i,
+    audiences: ["employee"],
+    defaultAction: "redact",
+  },
+];
+
+const ACTIONS: readonly string[] = ["flag", "redact", "block", "off"];
+
+export class FairnessPolicyViolationError extends Error {
+  constructor(
+    readonly stage: FairnessStage,
+    readonly violations: FairnessViolation[]
+  ) {
+    const blocking = violations.filter((violation) => violation.action === "block");
+    super(
+      `${stage} output violates the fairness policy (${[
+        ...new Set(blocking.map((violation) => violation.ruleId)),
+      ].join(", ")}) at ${blocking[0]?.field ?? "unknown field"}.`
+    );
+    this.name = "FairnessPolicyViolationError";
+  }
+}
+
+/**
+ * `FAIRNESS_POLICY` is a JSON object of rule id to "flag", "redact", "block"
+ * or "off", merged over each rule's default action.
+ */
+function readPolicyOverrides(): Partial<Record<FairnessRuleId, FairnessAction | "off">> {
+  const raw = process.env.FAIRNESS_POLICY;
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("FAIRNESS_POLICY must be a JSON object.");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("FAIRNESS_POLICY must be a JSON object.");
+  }
+
+  const overrides: Partial<Record<FairnessRuleId, FairnessAction | "off">> = {};
+  for (const [ruleId, action] of Object.entries(parsed)) {
+    if (!FAIRNESS_RULES.some((rule) => rule.id === ruleId)) {
+      throw new Error(
+        `FAIRNESS_POLICY has unknown rule "${ruleId}"; expected one of ${FAIRNESS_RULES.map((rule) => rule.id).join(", ")}.`
+      );
+    }
+    if (typeof action !== "string" || !ACTIONS.includes(action)) {
+      throw new Error(
+        `FAIRNESS_POLICY["${ruleId}"] must be one of ${ACTIONS.join(", ")}.`
+      );
+    }
+    overrides[ruleId as FairnessRuleId] = action as FairnessAction | "off";
+  }
+  return overrides;
+}
+
+type ActiveRule = FairnessRule & { action: FairnessAction };
+
+function activeRules(): ActiveRule[] {
+  const overrides = readPolicyOverrides();
+  return FAIRNESS_RULES.flatMap((rule) => {
+    const action = overrides[rule.id] ?? rule.defaultAction;
+    return action === "off" ? [] : [{ ...rule, action }];
+  });
+}
+
+export type FairnessRuleSummary = {
+  id: FairnessRuleId;
+  description: string;
+  audiences: readonly FairnessAudience[];
+  action: FairnessAction | "off";
+};
+
+/** The effective policy, for display next to a violation report. */
+export function listFairnessRules(): FairnessRuleSummary[] {
+  const overrides = readPolicyOverrides();
+  return FAIRNESS_RULES.map((rule) => ({
+    id: rule.id,
+    description: rule.description,
+    audiences: rule.audiences,
+    action: overrides[rule.id] ?? rule.defaultAction,
+  }));
+}
+
+/**
+ * Collects violations for one stage. `check` returns the text to keep: the
+ * original, or `fallback` when a redacting rule matched. A blocking rule
+ * throws `FairnessPolicyViolationError` carrying every violation so far.
+ */
+export function createFairnessChecker(stage: FairnessStage) {
+  const rules = activeRules();
+  const violations: FairnessViolation[] = [];
+
+  return {
+    check(
+      text: string,
+      input: { field: string; audience: FairnessAudience; fallback: string }
+    ): string {
+      let redact = false;
+      let block = false;
+      for (const rule of rules) {
+        if (!rule.audiences.includes(input.audience)) continue;
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+        violations.push({
+          ruleId: rule.id,
+          action: rule.action,
+          stage,
+          field: input.field,
+          match: match[0],
+        });
+        redact ||= rule.action === "redact";
+        block ||= rule.action === "block";
+      }
+      if (block) {
+        throw new FairnessPolicyViolationError(stage, [...violations]);
+      }
+      return redact ? input.fallback : text;
+    },
+    get violations(): FairnessViolation[] {
+      return [...violations];
+    },
+  };
+}
+
+/**
+ * Redacts streamed previews with the active policy without recording
+ * anything; the validated output is checked again with `createFairnessChecker`.
+ */
+export function previewFairnessText(
+  text: string,
+  input: { audience: FairnessAudience; fallback: string }
+): string {
+  const hidden = activeRules().some(
+    (rule) =>
+      rule.action !== "flag" &&
+      rule.audiences.includes(input.audience) &&
+      rule.pattern.test(text)
+  );
+  return hidden ? input.fallback : text;
+}
+
+export function summarizeFairnessViolations(
+  violations: FairnessViolation[]
+): FairnessStageReport {
+  const violationsByRule: Partial<Record<FairnessRuleId, number>> = {};
+  for (const violation of violations) {
+    violationsByRule[violation.ruleId] = (violationsByRule[violation.ruleId] ?? 0) + 1;
+  }
+  return {
+    blocked: violations.some((violation) => violation.action === "block"),
+    violationsByRule,
+    violations,
+  };
+}
@@ -0,0 +1,100 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { LlmStage } from "@/lib/ai/providers";
+
+const DEFAULT_FIXTURE_DIR = "fixtures/llm";
+
+type FixturePrompt = {
+  prompt: string;
+  system?: string;
+};
+
+export type LlmFixture = {
+  stage: LlmStage;
+  key: string;
+  model: string;
+  text: string;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+  };
+  recordedAt: string;
+};
+
+export class LlmFixtureNotFoundError extends Error {
+  constructor(
+    readonly stage: LlmStage,
+    readonly key: string,
+    readonly filePath: string
+  ) {
+    super(
+      `No recorded LLM response for stage "${stage}" (${filePath}). Record one with LLM_RECORD_FIXTURES=true against a live provider.`
+    );
+    this.name = "LlmFixtureNotFoundError";
+  }
+}
+
+function fixtureDir(): string {
+  return path.resolve(process.env.LLM_FIXTURE_DIR?.trim() || DEFAULT_FIXTURE_DIR);
+}
+
+/** Fixtures are keyed by the exact system + user prompt, so replay is deterministic. */
+export function fixtureKey(input: FixturePrompt): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ system: input.system ?? "", prompt: input.prompt }))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function fixturePath(stage: LlmStage, key: string): string {
+  return path.join(fixtureDir(), stage, `${key}.json`);
+}
+
+export function isFixtureRecordingEnabled(): boolean {
+  return process.env.LLM_RECORD_FIXTURES === "true";
+}
+
+export async function readFixture(
+  stage: LlmStage,
+  input: FixturePrompt
+): Promise<LlmFixture> {
+  const key = fixtureKey(input);
+  const filePath = fixturePath(stage, key);
+
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new LlmFixtureNotFoundError(stage, key, filePath);
+    }
+    throw error;
+  }
+
+  return JSON.parse(raw) as LlmFixture;
+}
+
+export async function recordFixture(
+  stage: LlmStage,
+  input: FixturePrompt,
+  output: Pick<LlmFixture, "model" | "text" | "usage">
+): Promise<void> {
+  const key = fixtureKey(input);
+  const filePath = fixturePath(stage, key);
+  const fixture: LlmFixture = {
+    stage,
+    key,
+    model: output.model,
+    text: output.text,
+    usage: output.usage,
+    recordedAt: new Date().toISOString(),
+  };
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
@@ -0,0 +1,198 @@
+import "server-only";
+
+import type { z } from "zod";
+
+import {
+  generateTextOnce,
+  streamTextOnce,
+  type GenerateTextInput,
+  type GenerateTextOutput,
+} from "@/lib/ai/generate-text";
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPORTED_ISSUES = 10;
+
+export type StructuredOutputIssue = {
+  path: string;
+  message: string;
+};
+
+export type GenerateStructuredInput<T> = Omit<GenerateTextInput, "responseSchema"> & {
+  schema: z.ZodType<T>;
+  schemaName: string;
+  maxRepairAttempts?: number;
+  // Streams the first attempt only; repair attempts are not streamed.
+  onTextDelta?: (accumulatedText: string) => void | Promise<void>;
+};
+
+export type GenerateStructuredOutput<T> = GenerateTextOutput & {
+  object: T;
+  attempts: number;
+};
+
+/**
+ * Raised when the model's output still fails its schema after every repair
+ * attempt. `issues` lists the failing schema paths from the last attempt.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly schemaName: string,
+    readonly issues: StructuredOutputIssue[],
+    readonly attempts: number,
+    readonly rawText: string
+  ) {
+    const first = issues[0];
+    super(
+      `${schemaName} output failed validation after ${attempts} attempt(s) at ${first.path}: ${first.message}`
+    );
+    this.name = "StructuredOutputError";
+  }
+
+  get failedPath(): string {
+    return this.issues[0].path;
+  }
+}
+
+function readMaxRepairAttempts(): number {
+  const parsed = Number(process.env.STRUCTURED_OUTPUT_MAX_REPAIRS);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return DEFAULT_MAX_REPAIR_ATTEMPTS;
+  }
+  return parsed;
+}
+
+function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : `${index === 0 ? "" : "."}${String(segment)}`
+    )
+    .join("");
+}
+
+function parseJsonText(raw: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch {
+    // Models without native structured output sometimes wrap the JSON in prose
+    // or code fences.
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return { ok: false };
+    try {
+      return { ok: true, value: JSON.parse(match[0]) };
+    } catch {
+      return { ok: false };
+    }
+  }
+}
+
+function validateStructuredText<T>(
+  raw: string,
+  schema: z.ZodType<T>
+): { ok: true; value: T } | { ok: false; issues: StructuredOutputIssue[] } {
+  const parsed = parseJsonText(raw);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      issues: [{ path: "(root)", message: "Response is not valid JSON." }],
+    };
+  }
+
+  const validated = schema.safeParse(parsed.value);
+  if (validated.success) {
+    return { ok: true, value: validated.data };
+  }
+
+  return {
+    ok: false,
+    issues: validated.error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    })),
+  };
+}
+
+function buildRepairPrompt(
+  prompt: string,
+  previousText: string,
+  issues: StructuredOutputIssue[]
+): string {
+  return `${prompt}
+
+Your previous response did not match the required JSON schema.
+
+Validation errors:
+${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n")}
+
+Previous response:
+${previousText}
+
+Return the corrected JSON only.`;
+}
+
+function addUsage(
+  total: GenerateTextOutput["usage"],
+  next: GenerateTextOutput["usage"]
+): GenerateTextOutput["usage"] {
+  if (!total) return next;
+  if (!next) return total;
+  const sum = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  return {
+    inputTokens: sum(total.inputTokens, next.inputTokens),
+    outputTokens: sum(total.outputTokens, next.outputTokens),
+    totalTokens: sum(total.totalTokens, next.totalTokens),
+  };
+}
+
+/**
+ * Generates an object that matches `schema`. The schema is passed to the
+ * provider as a structured-output format, and the response is validated
+ * again locally. When validation fails, the model is shown the failing
+ * paths and asked to repair its previous response. Usage covers every
+ * attempt.
+ */
+export async function generateStructuredOnce<T>(
+  input: GenerateStructuredInput<T>
+): Promise<GenerateStructuredOutput<T>> {
+  const { schema, schemaName, onTextDelta, maxRepairAttempts, ...textInput } =
+    input;
+  const maxAttempts = 1 + (maxRepairAttempts ?? readMaxRepairAttempts());
+  const responseSchema = { name: schemaName, schema };
+
+  let prompt = textInput.prompt;
+  let usage: GenerateTextOutput["usage"];
+
+  for (let attempt = 1; ; attempt += 1) {
+    const request = { ...textInput, prompt, responseSchema };
+    const result =
+      attempt === 1 && onTextDelta
+        ? await streamTextOnce({ ...request, onTextDelta })
+        : await generateTextOnce(request);
+    usage = addUsage(usage, result.usage);
+
+    const validation = validateStructuredText(result.text, schema);
+    if (validation.ok) {
+      return {
+        text: result.text,
+        model: result.model,
+        usage,
+        object: validation.value,
+        attempts: attempt,
+      };
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new StructuredOutputError(
+        schemaName,
+        validation.issues,
+        attempt,
+        result.text
+      );
+    }
+
+    prompt = buildRepairPrompt(textInput.prompt, result.text, validation.issues);
+  }
+}
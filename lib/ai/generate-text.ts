@@ -1,12 +1,39 @@
 import "server-only";
 
-import { generateText } from "ai";
-import { DEFAULT_OPENAI_MODEL, openai } from "@/lib/ai/openai";
+import { generateText, NoObjectGeneratedError, Output, streamText } from "ai";
+import type { z } from "zod";
+
+import {
+  isFixtureRecordingEnabled,
+  readFixture,
+  recordFixture,
+} from "@/lib/ai/fixtureReplay";
+import { runWithLlmRateLimit } from "@/lib/ai/llmRateLimiter";
+import {
+  getLanguageModel,
+  resolveLlmTarget,
+  type LlmStage,
+  type LlmTarget,
+} from "@/lib/ai/providers";
+import { recordLlmUsage } from "@/lib/services/llmUsageLedger";
 
 export type GenerateTextInput = {
   prompt: string;
   system?: string;
   model?: string;
+  // Selects the provider/model configuration; defaults to "ad_hoc".
+  stage?: LlmStage;
+  // Charges the call against this employee's team token budget and
+  // attributes it in the usage ledger.
+  employeeEmail?: string;
+  // Month or quarter the call was made for, recorded in the usage ledger.
+  periodKey?: string;
+  // Sent to the provider as its structured-output response format. The raw
+  // text is still returned; `generateStructuredOnce` validates it.
+  responseSchema?: {
+    name: string;
+    schema: z.ZodType;
+  };
 };
 
 export type GenerateTextOutput = {
@@ -19,26 +46,163 @@ export type GenerateTextOutput = {
   };
 };
 
+// Replayed streams are cut into chunks so partial-output consumers still see
+// incremental text.
+const FIXTURE_STREAM_CHUNK_SIZE = 64;
+
+function resolveTarget(input: GenerateTextInput): LlmTarget {
+  return resolveLlmTarget(input.stage ?? "ad_hoc", input.model);
+}
+
+function toOutputSpec(input: GenerateTextInput) {
+  return input.responseSchema
+    ? Output.object({
+        schema: input.responseSchema.schema,
+        name: input.responseSchema.name,
+      })
+    : undefined;
+}
+
+async function replayFixture(
+  target: LlmTarget,
+  input: GenerateTextInput
+): Promise<GenerateTextOutput> {
+  const fixture = await readFixture(target.stage, input);
+  return { text: fixture.text, model: fixture.model, usage: fixture.usage };
+}
+
+function toUsage(
+  usage: Awaited<ReturnType<typeof generateText>>["usage"] | undefined
+): GenerateTextOutput["usage"] {
+  return usage
+    ? {
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        totalTokens: usage.totalTokens,
+      }
+    : undefined;
+}
+
+async function finishLiveCall(
+  target: LlmTarget,
+  input: GenerateTextInput,
+  output: GenerateTextOutput
+): Promise<GenerateTextOutput> {
+  await recordLlmUsage({
+    provider: target.provider,
+    model: target.modelId,
+    stage: target.stage,
+    employeeEmail: input.employeeEmail,
+    periodKey: input.periodKey,
+    usage: output.usage,
+  });
+  if (isFixtureRecordingEnabled()) {
+    await recordFixture(target.stage, input, output);
+  }
+  return output;
+}
+
 export async function generateTextOnce(
   input: GenerateTextInput
 ): Promise<GenerateTextOutput> {
-  const modelId = input.model?.trim() || DEFAULT_OPENAI_MODEL;
+  const target = resolveTarget(input);
+  if (target.provider === "fixture") {
+    return replayFixture(target, input);
+  }
 
-  const result = await generateText({
-    model: openai(modelId),
-    system: input.system,
-    prompt: input.prompt,
+  const output = await runWithLlmRateLimit({
+    providerKey: target.provider,
+    stage: target.stage,
+    employeeEmail: input.employeeEmail,
+    fn: async (): Promise<GenerateTextOutput> => {
+      try {
+        const result = await generateText({
+          model: getLanguageModel(target),
+          system: input.system,
+          prompt: input.prompt,
+          output: toOutputSpec(input),
+        });
+        return {
+          text: result.text,
+          model: target.modelId,
+          usage: toUsage(result.usage),
+        };
+      } catch (error) {
+        // A response that misses the schema is returned as text so the caller
+        // can ask the model to repair it.
+        if (
+          !NoObjectGeneratedError.isInstance(error) ||
+          error.text === undefined
+        ) {
+          throw error;
+        }
+        return {
+          text: error.text,
+          model: target.modelId,
+          usage: toUsage(error.usage),
+        };
+      }
+    },
   });
 
-  return {
-    text: result.text,
-    model: modelId,
-    usage: result.usage
-      ? {
-          inputTokens: result.usage.inputTokens,
-          outputTokens: result.usage.outputTokens,
-          totalTokens: result.usage.totalTokens,
+  return finishLiveCall(target, input, output);
+}
+
+/**
+ * Same contract as `generateTextOnce`, but streams the completion and hands
+ * the accumulated text to `onTextDelta` after every chunk so callers can
+ * surface partial output.
+ */
+export async function streamTextOnce(
+  input: GenerateTextInput & {
+    onTextDelta: (accumulatedText: string) => void | Promise<void>;
+  }
+): Promise<GenerateTextOutput> {
+  const target = resolveTarget(input);
+  if (target.provider === "fixture") {
+    const output = await replayFixture(target, input);
+    for (
+      let end = FIXTURE_STREAM_CHUNK_SIZE;
+      end < output.text.length + FIXTURE_STREAM_CHUNK_SIZE;
+      end += FIXTURE_STREAM_CHUNK_SIZE
+    ) {
+      await input.onTextDelta(output.text.slice(0, end));
+    }
+    return output;
+  }
+
+  const output = await runWithLlmRateLimit({
+    providerKey: target.provider,
+    stage: target.stage,
+    employeeEmail: input.employeeEmail,
+    fn: async (): Promise<GenerateTextOutput> => {
+      const result = streamText({
+        model: getLanguageModel(target),
+        system: input.system,
+        prompt: input.prompt,
+        output: toOutputSpec(input),
+      });
+
+      let text = "";
+      for await (const part of result.fullStream) {
+        if (part.type === "error") {
+          throw part.error instanceof Error
+            ? part.error
+            : new Error("Streaming text generation failed.");
         }
-      : undefined,
-  };
+        if (part.type === "text-delta") {
+          text += part.text;
+          await input.onTextDelta(text);
+        }
+      }
+
+      return {
+        text,
+        model: target.modelId,
+        usage: toUsage(await result.usage),
+      };
+    },
+  });
+
+  return finishLiveCall(target, input, output);
 }
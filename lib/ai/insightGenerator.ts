@@ -1,8 +1,15 @@
 import "server-only";
 
-import { generateTextOnce } from "@/lib/ai/generate-text";
-import { runWithLlmRateLimit as runWithSharedLlmRateLimit } from "@/lib/ai/llmRateLimiter";
-import { DEFAULT_OPENAI_MODEL } from "@/lib/ai/openai";
+import { z } from "zod";
+
+import { generateStructuredOnce } from "@/lib/ai/generate-structured";
+import {
+  renderPrompt,
+  resolvePrompt,
+  toPromptStamp,
+  type PromptStamp,
+} from "@/lib/ai/prompts/registry";
+import { resolveLlmTarget } from "@/lib/ai/providers";
 
 export type Dimension = "Execution" | "Engagement" | "Collaboration" | "Growth";
 export type ConfidenceLevel = "low" | "medium" | "high";
@@ -35,6 +42,7 @@ export type DataSufficiency = {
 
 export type ExtractSignalsInput = {
   periodKey: string;
+  employeeEmail?: string;
   periodType: PeriodType;
   githubWeekly: WeeklyGithubActivity[];
   slackWeekly: WeeklySlackActivity[];
@@ -48,6 +56,7 @@ export type ExtractSignalsOutput = {
   dataSufficiency: DataSufficiency;
   model: string;
   modelVersion: string;
+  prompt: PromptStamp;
 };
 
 export type DimensionInsight = {
@@ -62,6 +71,7 @@ export type ReasonByDimensionOutput = {
   dimensions: Record<Dimension, DimensionInsight>;
   model: string;
   modelVersion: string;
+  prompt: PromptStamp;
 };
 
 export type MonthlySynthesisOutput = {
@@ -100,6 +110,7 @@ export type MonthlySinglePassOutput = {
   dataSufficiency: DataSufficiency;
   model: string;
   modelVersion: string;
+  prompt: PromptStamp;
 };
 
 export type QuarterlySinglePassOutput = {
@@ -111,6 +122,7 @@ export type QuarterlySinglePassOutput = {
   dataSufficiency: DataSufficiency;
   model: string;
   modelVersion: string;
+  prompt: PromptStamp;
 };
 
 export type WeeklyGithubActivity = {
@@ -133,280 +145,29 @@ export type WeeklySlackActivity = {
   weekendRatio: number;
 };
 
-export const INSIGHT_SYSTEM_PROMPT = `You are an insight generation engine for HR-facing performance intelligence. Use only the provided data. Do not invent facts. If data is insufficient, state uncertainty and set confidence to low. Output JSON only with the requested schema.`;
-
-export const EXTRACT_SIGNALS_PROMPT_TEMPLATE = `Task: Extract atomic signals with evidence from weekly activity data. Signals must be grouped into the dimensions: Execution, Engagement, Collaboration, Growth.
-
-Rules:
-- Use only the provided data.
-- Each signal is a single, observable statement grounded in the data.
-- Each signal must include evidence that cites weekStart, source, and relevant fields.
-- If data is insufficient, return empty arrays for all dimensions.
-- Do NOT include numeric scores or rankings.
-
-Return JSON only with this exact shape:
-{
-  "dimensions": {
-    "Execution": [
-      {
-        "statement": "string",
-        "evidence": [
-          {
-            "source": "github_weekly_activity | slack_weekly_activity",
-            "weekStart": "YYYY-MM-DD",
-            "fields": ["string"],
-            "summary": "string"
-          }
-        ]
-      }
-    ],
-    "Engagement": [ ... ],
-    "Collaboration": [ ... ],
-    "Growth": [ ... ]
-  }
-}
-
-Input JSON:
-{{INPUT_JSON}}`;
-
-export const REASON_DIMENSION_PROMPT_TEMPLATE = `Task: For each dimension, write a 2-3 sentence insight using only the signals provided. Provide supporting signal IDs and a confidence level.
-
-Rules:
-- Use only the provided signals for that dimension.
-- If no signals exist for a dimension, say so explicitly and set confidence to low.
-- If dataSufficiency is partial or insufficient, bias confidence toward low.
-- Do NOT add facts that are not present in the signals.
-- Do NOT include numeric scores.
-
-Return JSON only with this exact shape:
-{
-  "dimensions": {
-    "Execution": {
-      "insight": "string",
-      "supportingSignalIds": ["S1"],
-      "confidence": "low | medium | high"
-    },
-    "Engagement": { ... },
-    "Collaboration": { ... },
-    "Growth": { ... }
-  }
-}
-
-Input JSON:
-{{INPUT_JSON}}`;
-
-export const SYNTHESIZE_MONTHLY_PROMPT_TEMPLATE = `Task: Synthesize monthly insights into an overall summary, risks, and opportunities. Explicitly reconcile conflicting signals if present.
-
-Rules:
-- Use only the provided dimension insights and signals.
-- If data is insufficient, state uncertainty explicitly and set confidence to low.
-- Risks and opportunities must be grounded in the signals.
-- Do NOT include numeric scores.
-
-Return JSON only with this exact shape:
-{
-  "overallSummary": "string",
-  "identifiedRisks": ["string"],
-  "identifiedOpportunities": ["string"],
-  "confidence": "low | medium | high"
-}
-
-Input JSON:
-{{INPUT_JSON}}`;
-
-export const SYNTHESIZE_QUARTERLY_PROMPT_TEMPLATE = `Task: Synthesize quarterly insights into trajectory, strengths, concerns, and assessments. Explicitly reconcile conflicting signals if present.
-
-Rules:
-- Use only the provided dimension insights and signals.
-- If data is insufficient, state uncertainty explicitly and set confidence to low.
-- Evidence snapshots must reference signal IDs and include their evidence.
-- Do NOT include numeric scores.
-
-Return JSON only with this exact shape:
-{
-  "trajectorySummary": "string",
-  "keyStrengths": ["string"],
-  "keyConcerns": ["string"],
-  "burnoutAssessment": "string",
-  "growthAssessment": "string",
-  "retentionAssessment": "string",
-  "recommendedActions": ["string"],
-  "evidenceSnapshots": [
-    {
-      "signalId": "S1",
-      "dimension": "Execution | Engagement | Collaboration | Growth",
-      "evidence": [
-        {
-          "source": "github_weekly_activity | slack_weekly_activity",
-          "weekStart": "YYYY-MM-DD",
-          "fields": ["string"],
-          "summary": "string"
-        }
-      ]
-    }
-  ],
-  "confidence": "low | medium | high"
-}
-
-Input JSON:
-{{INPUT_JSON}}`;
-
-export const MONTHLY_SINGLE_PASS_PROMPT_TEMPLATE = `Task: Execute this full workflow in one pass for the given month:
-1) Signal Extraction
-- Extract atomic signals with evidence from weekly GitHub + Slack data
-- Group signals into Execution, Engagement, Collaboration, Growth
-2) Dimension Reasoning
-- For each dimension, write a short 2-3 sentence insight
-- Include supporting signal IDs and dimension confidence
-3) Insight Synthesis
-- Produce overall summary, identified risks, identified opportunities, and overall confidence
-- Explicitly reconcile conflicting signals if present
-
-Rules:
-- Use only provided data. Do not invent facts.
-- Do not generate numeric scores.
-- Every claim must be grounded in observed signals.
-- If data is insufficient, keep confidence low and state uncertainty.
-
-Return JSON only with this exact shape:
-{
-  "signalsByDimension": {
-    "Execution": [
-      {
-        "signalId": "S1",
-        "statement": "string",
-        "evidence": [
-          {
-            "source": "github_weekly_activity | slack_weekly_activity",
-            "weekStart": "YYYY-MM-DD",
-            "fields": ["string"],
-            "summary": "string"
-          }
-        ]
-      }
-    ],
-    "Engagement": [],
-    "Collaboration": [],
-    "Growth": []
-  },
-  "dimensionInsights": {
-    "Execution": {
-      "insight": "string",
-      "supportingSignalIds": ["S1"],
-      "confidence": "low | medium | high"
-    },
-    "Engagement": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    },
-    "Collaboration": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    },
-    "Growth": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    }
-  },
-  "overallSummary": "string",
-  "identifiedRisks": ["string"],
-  "identifiedOpportunities": ["string"],
-  "confidence": "low | medium | high"
-}
-
-Input JSON:
-{{INPUT_JSON}}`;
-
-export const QUARTERLY_SINGLE_PASS_PROMPT_TEMPLATE = `Task: Execute this full workflow in one pass for the given quarter:
-1) Signal Extraction
-- Extract atomic signals with evidence from weekly GitHub + Slack data
-- Group signals into Execution, Engagement, Collaboration, Growth
-2) Dimension Reasoning
-- For each dimension, write a short 2-3 sentence insight
-- Include supporting signal IDs and dimension confidence
-3) Insight Synthesis
-- Produce trajectory summary, strengths, concerns, burnout/growth/retention assessments, and recommended actions
-- Include evidence snapshots
-- Explicitly reconcile conflicting signals if present
-
-Rules:
-- Use only provided data. Do not invent facts.
-- Do not generate numeric scores.
-- Every claim must be grounded in observed signals.
-- If data is insufficient, keep confidence low and state uncertainty.
-
-Return JSON only with this exact shape:
-{
-  "signalsByDimension": {
-    "Execution": [
-      {
-        "signalId": "S1",
-        "statement": "string",
-        "evidence": [
-          {
-            "source": "github_weekly_activity | slack_weekly_activity",
-            "weekStart": "YYYY-MM-DD",
-            "fields": ["string"],
-            "summary": "string"
-          }
-        ]
-      }
-    ],
-    "Engagement": [],
-    "Collaboration": [],
-    "Growth": []
-  },
-  "dimensionInsights": {
-    "Execution": {
-      "insight": "string",
-      "supportingSignalIds": ["S1"],
-      "confidence": "low | medium | high"
-    },
-    "Engagement": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    },
-    "Collaboration": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    },
-    "Growth": {
-      "insight": "string",
-      "supportingSignalIds": [],
-      "confidence": "low | medium | high"
-    }
-  },
-  "trajectorySummary": "string",
-  "keyStrengths": ["string"],
-  "keyConcerns": ["string"],
-  "burnoutAssessment": "string",
-  "growthAssessment": "string",
-  "retentionAssessment": "string",
-  "recommendedActions": ["string"],
-  "evidenceSnapshots": [
-    {
-      "signalId": "S1",
-      "dimension": "Execution | Engagement | Collaboration | Growth",
-      "evidence": [
-        {
-          "source": "github_weekly_activity | slack_weekly_activity",
-          "weekStart": "YYYY-MM-DD",
-          "fields": ["string"],
-          "summary": "string"
-        }
-      ]
-    }
-  ],
-  "confidence": "low | medium | high"
-}
+// A weekly count far outside the employee's own baseline, from
+// lib/services/activityAnomalies.ts.
+export type WeeklyActivityAnomaly = {
+  weekStart: string;
+  source: SignalEvidence["source"];
+  metric: string;
+  direction: "spike" | "drop";
+  value: number;
+  baselineMedian: number;
+  baselineWeeks: number;
+};
 
-Input JSON:
-{{INPUT_JSON}}`;
+// A detail from an earlier insight that a manager upheld as wrong, from
+// lib/services/statDisputes.ts.
+export type StatCorrection = {
+  scope: "weekly" | "monthly";
+  periodKey: string;
+  detailLabel: string;
+  disputedValue: string;
+  employeeNote: string;
+  recheckExplanation: string | null;
+  resolutionNote: string | null;
+};
 
 const DIMENSIONS: Dimension[] = [
   "Execution",
@@ -415,40 +176,136 @@ const DIMENSIONS: Dimension[] = [
   "Growth",
 ];
 
-const MODEL_NAME = process.env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL;
 const MODEL_VERSION = process.env.OPENAI_MODEL_VERSION ?? "unspecified";
-const MIN_LLM_CALL_INTERVAL_MS = Number(
-  process.env.INSIGHT_LLM_MIN_INTERVAL_MS ?? "30000"
-);
 
-function asDimension(value: unknown): Dimension | null {
-  if (
-    value === "Execution" ||
-    value === "Engagement" ||
-    value === "Collaboration" ||
-    value === "Growth"
-  ) {
-    return value;
-  }
-  return null;
+const confidenceSchema = z.enum(["low", "medium", "high"]);
+const dimensionSchema = z.enum(["Execution", "Engagement", "Collaboration", "Growth"]);
+
+const signalEvidenceSchema = z
+  .object({
+    source: z.enum(["github_weekly_activity", "slack_weekly_activity"]),
+    weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}/),
+    fields: z.array(z.string()),
+    summary: z.string().min(1),
+  })
+  .strict();
+
+const extractedSignalSchema = z
+  .object({
+    statement: z.string().min(1),
+    evidence: z.array(signalEvidenceSchema).min(1),
+  })
+  .strict();
+
+const identifiedSignalSchema = z
+  .object({
+    signalId: z.string().min(1),
+    statement: z.string().min(1),
+    evidence: z.array(signalEvidenceSchema).min(1),
+  })
+  .strict();
+
+const dimensionInsightSchema = z
+  .object({
+    insight: z.string(),
+    supportingSignalIds: z.array(z.string()),
+    confidence: confidenceSchema,
+  })
+  .strict();
+
+function byDimension<T extends z.ZodType>(schema: T) {
+  return z
+    .object({
+      Execution: schema,
+      Engagement: schema,
+      Collaboration: schema,
+      Growth: schema,
+    })
+    .strict();
 }
 
-async function runInsightWithLlmRateLimit<T>(fn: () => Promise<T>): Promise<T> {
-  return runWithSharedLlmRateLimit({
-    key: "insight-generator",
-    minIntervalMs: MIN_LLM_CALL_INTERVAL_MS,
-    fn,
-  });
+const monthlySynthesisSchema = z
+  .object({
+    overallSummary: z.string(),
+    identifiedRisks: z.array(z.string().min(1)),
+    identifiedOpportunities: z.array(z.string().min(1)),
+    confidence: confidenceSchema,
+  })
+  .strict();
+
+const quarterlySynthesisSchema = z
+  .object({
+    trajectorySummary: z.string(),
+    keyStrengths: z.array(z.string().min(1)),
+    keyConcerns: z.array(z.string().min(1)),
+    burnoutAssessment: z.string(),
+    growthAssessment: z.string(),
+    retentionAssessment: z.string(),
+    recommendedActions: z.array(z.string().min(1)),
+    evidenceSnapshots: z.array(
+      z
+        .object({
+          signalId: z.string().min(1),
+          dimension: dimensionSchema,
+          evidence: z.array(signalEvidenceSchema),
+        })
+        .strict()
+    ),
+    confidence: confidenceSchema,
+  })
+  .strict();
+
+const extractSignalsSchema = z
+  .object({ dimensions: byDimension(z.array(extractedSignalSchema)) })
+  .strict();
+
+const reasonDimensionSchema = z
+  .object({ dimensions: byDimension(dimensionInsightSchema) })
+  .strict();
+
+const monthlySinglePassSchema = monthlySynthesisSchema.extend({
+  signalsByDimension: byDimension(z.array(identifiedSignalSchema)),
+  dimensionInsights: byDimension(dimensionInsightSchema),
+});
+
+const quarterlySinglePassSchema = quarterlySynthesisSchema.extend({
+  signalsByDimension: byDimension(z.array(identifiedSignalSchema)),
+  dimensionInsights: byDimension(dimensionInsightSchema),
+});
+
+type RawSignal = {
+  signalId?: string;
+  statement: string;
+  evidence: SignalEvidence[];
+};
+type RawMonthlySynthesis = z.infer<typeof monthlySynthesisSchema>;
+type RawQuarterlySynthesis = z.infer<typeof quarterlySynthesisSchema>;
+
+// Resolved per call so importing this module never depends on LLM config.
+function insightModelName(): string {
+  return resolveLlmTarget("insights").modelId;
 }
 
-async function generateInsightText(prompt: string) {
-  return runInsightWithLlmRateLimit(() =>
-    generateTextOnce({
-      prompt,
-      system: INSIGHT_SYSTEM_PROMPT,
-      model: MODEL_NAME,
-    })
-  );
+async function generateInsightObject<T>(
+  promptId: string,
+  payload: unknown,
+  schema: z.ZodType<T>,
+  schemaName: string,
+  context: { periodKey: string; employeeEmail?: string }
+): Promise<{ object: T; prompt: PromptStamp }> {
+  const prompt = await resolvePrompt(promptId);
+  const result = await generateStructuredOnce({
+    prompt: renderPrompt(prompt, {
+      INPUT_JSON: JSON.stringify(payload, null, 2),
+    }),
+    system: prompt.system,
+    stage: "insights",
+    employeeEmail: context.employeeEmail,
+    periodKey: context.periodKey,
+    schema,
+    schemaName,
+  });
+  return { object: result.object, prompt: toPromptStamp(prompt) };
 }
 
 function toISODate(value: string | Date): string {
@@ -549,84 +406,23 @@ function assessDataSufficiency(
   };
 }
 
-function sanitizeEvidence(evidence: unknown): SignalEvidence[] {
-  if (!Array.isArray(evidence)) return [];
-
-  return evidence
-    .map((entry) => {
-      if (!entry || typeof entry !== "object") return null;
-      const record = entry as Record<string, unknown>;
-      const source =
-        record.source === "github_weekly_activity" ||
-        record.source === "slack_weekly_activity"
-          ? record.source
-          : null;
-      const weekStartRaw =
-        typeof record.weekStart === "string" ? record.weekStart : "";
-      const fields = Array.isArray(record.fields)
-        ? record.fields.map((field) => String(field))
-        : [];
-      const summary =
-        typeof record.summary === "string" ? record.summary : "";
-
-      if (!source || !weekStartRaw || !summary) return null;
-
-      return {
-        source,
-        weekStart: weekStartRaw.slice(0, 10),
-        fields,
-        summary,
-      } as SignalEvidence;
-    })
-    .filter((entry): entry is SignalEvidence => Boolean(entry));
-}
-
 function normalizeConfidence(
-  value: unknown,
+  value: ConfidenceLevel,
   dataSufficiency: DataSufficiency,
   hasSignals: boolean
 ): ConfidenceLevel {
-  if (value === "low" || value === "medium" || value === "high") {
-    if (dataSufficiency.level === "insufficient" && value !== "low") {
-      return "low";
-    }
-    if (!hasSignals && value !== "low") {
-      return "low";
-    }
-    if (dataSufficiency.level === "partial" && value === "high") {
-      return "medium";
-    }
-    return value;
-  }
-
   if (!hasSignals || dataSufficiency.level === "insufficient") {
     return "low";
   }
-
-  if (dataSufficiency.level === "partial") {
+  if (dataSufficiency.level === "partial" && value === "high") {
     return "medium";
   }
-
-  return "medium";
-}
-
-function parseJson<T>(raw: string, context: string): T {
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    const match = raw.match(/\{[\s\S]*\}/);
-    if (!match) {
-      throw new Error(`Failed to parse JSON for ${context}.`);
-    }
-    return JSON.parse(match[0]) as T;
-  }
+  return value;
 }
 
-function sanitizeSignalStatement(value: unknown): string {
-  if (typeof value === "string" && value.trim().length > 0) {
-    return value.trim();
-  }
-  return "Insufficient data to derive a specific signal.";
+function textOrFallback(value: string, fallback: string): string {
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : fallback;
 }
 
 function buildInsufficientInsight(dimension: Dimension): string {
@@ -681,7 +477,7 @@ function normalizeWeeklySlack(
   }));
 }
 
-function normalizeSignalsByDimension(raw: unknown): {
+function normalizeSignalsByDimension(raw: Record<Dimension, RawSignal[]>): {
   signalsByDimension: Record<Dimension, Signal[]>;
   allSignals: Signal[];
 } {
@@ -690,33 +486,12 @@ function normalizeSignalsByDimension(raw: unknown): {
     return acc;
   }, {} as Record<Dimension, Signal[]>);
 
-  const record =
-    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
   const seenIds = new Set<string>();
   let counter = 1;
 
   for (const dimension of DIMENSIONS) {
-    const rawSignals = record[dimension];
-    if (!Array.isArray(rawSignals)) {
-      continue;
-    }
-
-    for (const rawSignal of rawSignals) {
-      if (!rawSignal || typeof rawSignal !== "object") {
-        continue;
-      }
-
-      const signalRecord = rawSignal as Record<string, unknown>;
-      const statement = sanitizeSignalStatement(signalRecord.statement);
-      const evidence = sanitizeEvidence(signalRecord.evidence);
-      if (evidence.length === 0) {
-        continue;
-      }
-
-      let candidateId =
-        typeof signalRecord.signalId === "string"
-          ? signalRecord.signalId.trim()
-          : "";
+    for (const rawSignal of raw[dimension]) {
+      let candidateId = rawSignal.signalId?.trim() ?? "";
       if (!candidateId || seenIds.has(candidateId)) {
         do {
           candidateId = `S${counter}`;
@@ -728,8 +503,11 @@ function normalizeSignalsByDimension(raw: unknown): {
       signalsByDimension[dimension].push({
         id: candidateId,
         dimension,
-        statement,
-        evidence,
+        statement: rawSignal.statement.trim(),
+        evidence: rawSignal.evidence.map((entry) => ({
+          ...entry,
+          weekStart: entry.weekStart.slice(0, 10),
+        })),
       });
     }
   }
@@ -738,63 +516,49 @@ function normalizeSignalsByDimension(raw: unknown): {
   return { signalsByDimension, allSignals };
 }
 
-function normalizeDimensionInsightsFromRaw(input: {
-  rawDimensionInsights: unknown;
+function normalizeDimensionInsights(input: {
+  raw: Record<Dimension, DimensionInsight>;
   signalsByDimension: Record<Dimension, Signal[]>;
   dataSufficiency: DataSufficiency;
 }): Record<Dimension, DimensionInsight> {
-  const record =
-    input.rawDimensionInsights && typeof input.rawDimensionInsights === "object"
-      ? (input.rawDimensionInsights as Record<string, unknown>)
-      : {};
-
   return DIMENSIONS.reduce((acc, dimension) => {
     const signals = input.signalsByDimension[dimension] ?? [];
     const validIds = new Set(signals.map((signal) => signal.id));
-    const raw =
-      record[dimension] && typeof record[dimension] === "object"
-        ? (record[dimension] as Record<string, unknown>)
-        : {};
+    const raw = input.raw[dimension];
+    const hasSignals = signals.length > 0;
 
-    const supportingSignalIds = Array.isArray(raw.supportingSignalIds)
-      ? raw.supportingSignalIds
-          .map((id) => String(id))
-          .filter((id) => validIds.has(id))
-      : [];
+    if (!hasSignals) {
+      acc[dimension] = {
+        insight: buildInsufficientInsight(dimension),
+        supportingSignalIds: [],
+        confidence: "low",
+      };
+      return acc;
+    }
 
-    const hasSignals = signals.length > 0;
-    const insightText =
-      typeof raw.insight === "string" && raw.insight.trim().length > 0
-        ? raw.insight.trim()
-        : hasSignals
-        ? `${dimension} signals were observed but require manual review for narrative synthesis.`
-        : buildInsufficientInsight(dimension);
-
-    const confidence = normalizeConfidence(
-      raw.confidence,
-      input.dataSufficiency,
-      hasSignals
+    const supportingSignalIds = raw.supportingSignalIds.filter((id) =>
+      validIds.has(id)
+    );
+    const insightText = textOrFallback(
+      raw.insight,
+      `${dimension} signals were observed but require manual review for narrative synthesis.`
     );
 
     acc[dimension] = {
-      insight: hasSignals
-        ? ensureUncertaintyNote(insightText, input.dataSufficiency)
-        : buildInsufficientInsight(dimension),
+      insight: ensureUncertaintyNote(insightText, input.dataSufficiency),
       supportingSignalIds:
         supportingSignalIds.length > 0
           ? supportingSignalIds
-          : hasSignals
-          ? signals.map((signal) => signal.id)
-          : [],
-      confidence,
+          : signals.map((signal) => signal.id),
+      confidence: normalizeConfidence(raw.confidence, input.dataSufficiency, true),
     };
 
     return acc;
   }, {} as Record<Dimension, DimensionInsight>);
 }
 
-function normalizeMonthlySynthesisFromRaw(input: {
-  raw: Record<string, unknown>;
+function normalizeMonthlySynthesis(input: {
+  raw: RawMonthlySynthesis;
   dataSufficiency: DataSufficiency;
   allSignals: Signal[];
 }): MonthlySynthesisOutput {
@@ -805,43 +569,28 @@ function normalizeMonthlySynthesisFromRaw(input: {
       identifiedRisks: [],
       identifiedOpportunities: [],
       confidence: "low",
-      model: MODEL_NAME,
+      model: insightModelName(),
       modelVersion: MODEL_VERSION,
     };
   }
 
-  const identifiedRisks = Array.isArray(input.raw.identifiedRisks)
-    ? input.raw.identifiedRisks.map((item) => String(item)).filter(Boolean)
-    : [];
-
-  const identifiedOpportunities = Array.isArray(input.raw.identifiedOpportunities)
-    ? input.raw.identifiedOpportunities.map((item) => String(item)).filter(Boolean)
-    : [];
-
-  const overallSummary =
-    typeof input.raw.overallSummary === "string" &&
-    input.raw.overallSummary.trim().length > 0
-      ? input.raw.overallSummary.trim()
-      : "Summary unavailable due to insufficient or unclear signals.";
-
-  const confidence = normalizeConfidence(
-    input.raw.confidence,
-    input.dataSufficiency,
-    input.allSignals.length > 0
+  const overallSummary = textOrFallback(
+    input.raw.overallSummary,
+    "Summary unavailable due to insufficient or unclear signals."
   );
 
   return {
     overallSummary: ensureUncertaintyNote(overallSummary, input.dataSufficiency),
-    identifiedRisks,
-    identifiedOpportunities,
-    confidence,
-    model: MODEL_NAME,
+    identifiedRisks: input.raw.identifiedRisks,
+    identifiedOpportunities: input.raw.identifiedOpportunities,
+    confidence: normalizeConfidence(input.raw.confidence, input.dataSufficiency, true),
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
   };
 }
 
-function normalizeQuarterlySynthesisFromRaw(input: {
-  raw: Record<string, unknown>;
+function normalizeQuarterlySynthesis(input: {
+  raw: RawQuarterlySynthesis;
   dataSufficiency: DataSufficiency;
   allSignals: Signal[];
 }): QuarterlySynthesisOutput {
@@ -860,103 +609,54 @@ function normalizeQuarterlySynthesisFromRaw(input: {
       recommendedActions: [],
       evidenceSnapshots: [],
       confidence: "low",
-      model: MODEL_NAME,
+      model: insightModelName(),
       modelVersion: MODEL_VERSION,
     };
   }
 
-  const keyStrengths = Array.isArray(input.raw.keyStrengths)
-    ? input.raw.keyStrengths.map((item) => String(item)).filter(Boolean)
-    : [];
-  const keyConcerns = Array.isArray(input.raw.keyConcerns)
-    ? input.raw.keyConcerns.map((item) => String(item)).filter(Boolean)
-    : [];
-  const recommendedActions = Array.isArray(input.raw.recommendedActions)
-    ? input.raw.recommendedActions.map((item) => String(item)).filter(Boolean)
-    : [];
-
-  const evidenceSnapshots = Array.isArray(input.raw.evidenceSnapshots)
-    ? input.raw.evidenceSnapshots
-        .map((snapshot) => {
-          if (!snapshot || typeof snapshot !== "object") return null;
-          const record = snapshot as Record<string, unknown>;
-          const signalId =
-            typeof record.signalId === "string" ? record.signalId : "";
-          const dimension = asDimension(record.dimension);
-          const evidence = sanitizeEvidence(record.evidence);
-
-          if (!signalId || !dimension) return null;
-
-          return {
-            signalId,
-            dimension,
-            evidence,
-          };
-        })
-        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry))
-    : [];
-
-  const trajectorySummary =
-    typeof input.raw.trajectorySummary === "string" &&
-    input.raw.trajectorySummary.trim().length > 0
-      ? input.raw.trajectorySummary.trim()
-      : "Trajectory summary unavailable due to insufficient or unclear signals.";
-
-  const burnoutAssessment =
-    typeof input.raw.burnoutAssessment === "string" &&
-    input.raw.burnoutAssessment.trim().length > 0
-      ? input.raw.burnoutAssessment.trim()
-      : "Burnout assessment unavailable due to insufficient or unclear signals.";
-
-  const growthAssessment =
-    typeof input.raw.growthAssessment === "string" &&
-    input.raw.growthAssessment.trim().length > 0
-      ? input.raw.growthAssessment.trim()
-      : "Growth assessment unavailable due to insufficient or unclear signals.";
-
-  const retentionAssessment =
-    typeof input.raw.retentionAssessment === "string" &&
-    input.raw.retentionAssessment.trim().length > 0
-      ? input.raw.retentionAssessment.trim()
-      : "Retention assessment unavailable due to insufficient or unclear signals.";
-
-  const confidence = normalizeConfidence(
-    input.raw.confidence,
-    input.dataSufficiency,
-    input.allSignals.length > 0
-  );
+  const withUncertainty = (value: string, fallback: string) =>
+    ensureUncertaintyNote(textOrFallback(value, fallback), input.dataSufficiency);
 
   return {
-    trajectorySummary: ensureUncertaintyNote(
-      trajectorySummary,
-      input.dataSufficiency
+    trajectorySummary: withUncertainty(
+      input.raw.trajectorySummary,
+      "Trajectory summary unavailable due to insufficient or unclear signals."
     ),
-    keyStrengths,
-    keyConcerns,
-    burnoutAssessment: ensureUncertaintyNote(
-      burnoutAssessment,
-      input.dataSufficiency
+    keyStrengths: input.raw.keyStrengths,
+    keyConcerns: input.raw.keyConcerns,
+    burnoutAssessment: withUncertainty(
+      input.raw.burnoutAssessment,
+      "Burnout assessment unavailable due to insufficient or unclear signals."
     ),
-    growthAssessment: ensureUncertaintyNote(
-      growthAssessment,
-      input.dataSufficiency
+    growthAssessment: withUncertainty(
+      input.raw.growthAssessment,
+      "Growth assessment unavailable due to insufficient or unclear signals."
     ),
-    retentionAssessment: ensureUncertaintyNote(
-      retentionAssessment,
-      input.dataSufficiency
+    retentionAssessment: withUncertainty(
+      input.raw.retentionAssessment,
+      "Retention assessment unavailable due to insufficient or unclear signals."
     ),
-    recommendedActions,
-    evidenceSnapshots,
-    confidence,
-    model: MODEL_NAME,
+    recommendedActions: input.raw.recommendedActions,
+    evidenceSnapshots: input.raw.evidenceSnapshots.map((snapshot) => ({
+      ...snapshot,
+      evidence: snapshot.evidence.map((entry) => ({
+        ...entry,
+        weekStart: entry.weekStart.slice(0, 10),
+      })),
+    })),
+    confidence: normalizeConfidence(input.raw.confidence, input.dataSufficiency, true),
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
   };
 }
 
 export async function generateMonthlyInsightsSinglePass(input: {
   periodKey: string;
+  employeeEmail?: string;
   githubWeekly: WeeklyGithubActivity[];
   slackWeekly: WeeklySlackActivity[];
+  activityAnomalies?: WeeklyActivityAnomaly[];
+  statCorrections?: StatCorrection[];
 }): Promise<MonthlySinglePassOutput> {
   const dataSufficiency = assessDataSufficiency(
     "month",
@@ -970,31 +670,35 @@ export async function generateMonthlyInsightsSinglePass(input: {
     dataSufficiency,
     githubWeekly: normalizeWeeklyGithub(input.githubWeekly),
     slackWeekly: normalizeWeeklySlack(input.slackWeekly),
+    // Omitted when empty so months without them keep their payload.
+    ...(input.activityAnomalies?.length
+      ? { activityAnomalies: input.activityAnomalies }
+      : {}),
+    ...(input.statCorrections?.length
+      ? { statCorrections: input.statCorrections }
+      : {}),
   };
 
-  const prompt = MONTHLY_SINGLE_PASS_PROMPT_TEMPLATE.replace(
-    "{{INPUT_JSON}}",
-    JSON.stringify(payload, null, 2)
-  );
-
-  const result = await generateInsightText(prompt);
-  const parsed = parseJson<Record<string, unknown>>(
-    result.text,
-    "generateMonthlyInsightsSinglePass"
+  const { object: generated, prompt } = await generateInsightObject(
+    "insights.monthly_single_pass",
+    payload,
+    monthlySinglePassSchema,
+    "monthly_single_pass",
+    input
   );
 
   const { signalsByDimension, allSignals } = normalizeSignalsByDimension(
-    parsed.signalsByDimension
+    generated.signalsByDimension
   );
 
-  const dimensionInsights = normalizeDimensionInsightsFromRaw({
-    rawDimensionInsights: parsed.dimensionInsights,
+  const dimensionInsights = normalizeDimensionInsights({
+    raw: generated.dimensionInsights,
     signalsByDimension,
     dataSufficiency,
   });
 
-  const synthesis = normalizeMonthlySynthesisFromRaw({
-    raw: parsed,
+  const synthesis = normalizeMonthlySynthesis({
+    raw: generated,
     dataSufficiency,
     allSignals,
   });
@@ -1006,13 +710,15 @@ export async function generateMonthlyInsightsSinglePass(input: {
     dimensionInsights,
     synthesis,
     dataSufficiency,
-    model: MODEL_NAME,
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
+    prompt,
   };
 }
 
 export async function generateQuarterlyInsightsSinglePass(input: {
   periodKey: string;
+  employeeEmail?: string;
   githubWeekly: WeeklyGithubActivity[];
   slackWeekly: WeeklySlackActivity[];
 }): Promise<QuarterlySinglePassOutput> {
@@ -1030,29 +736,26 @@ export async function generateQuarterlyInsightsSinglePass(input: {
     slackWeekly: normalizeWeeklySlack(input.slackWeekly),
   };
 
-  const prompt = QUARTERLY_SINGLE_PASS_PROMPT_TEMPLATE.replace(
-    "{{INPUT_JSON}}",
-    JSON.stringify(payload, null, 2)
-  );
-
-  const result = await generateInsightText(prompt);
-  const parsed = parseJson<Record<string, unknown>>(
-    result.text,
-    "generateQuarterlyInsightsSinglePass"
+  const { object: generated, prompt } = await generateInsightObject(
+    "insights.quarterly_single_pass",
+    payload,
+    quarterlySinglePassSchema,
+    "quarterly_single_pass",
+    input
   );
 
   const { signalsByDimension, allSignals } = normalizeSignalsByDimension(
-    parsed.signalsByDimension
+    generated.signalsByDimension
   );
 
-  const dimensionInsights = normalizeDimensionInsightsFromRaw({
-    rawDimensionInsights: parsed.dimensionInsights,
+  const dimensionInsights = normalizeDimensionInsights({
+    raw: generated.dimensionInsights,
     signalsByDimension,
     dataSufficiency,
   });
 
-  const synthesis = normalizeQuarterlySynthesisFromRaw({
-    raw: parsed,
+  const synthesis = normalizeQuarterlySynthesis({
+    raw: generated,
     dataSufficiency,
     allSignals,
   });
@@ -1064,8 +767,9 @@ export async function generateQuarterlyInsightsSinglePass(input: {
     dimensionInsights,
     synthesis,
     dataSufficiency,
-    model: MODEL_NAME,
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
+    prompt,
   };
 }
 
@@ -1086,48 +790,17 @@ export async function extractSignals(
     slackWeekly: normalizeWeeklySlack(input.slackWeekly),
   };
 
-  const prompt = EXTRACT_SIGNALS_PROMPT_TEMPLATE.replace(
-    "{{INPUT_JSON}}",
-    JSON.stringify(payload, null, 2)
-  );
-
   // LLM step: extract atomic signals with evidence from weekly summaries.
-  const result = await generateInsightText(prompt);
-
-  const parsed = parseJson<{
-    dimensions?: Record<string, Array<{ statement?: unknown; evidence?: unknown }>>;
-  }>(result.text, "extractSignals");
-
-  const signalsByDimension = DIMENSIONS.reduce((acc, dimension) => {
-    acc[dimension] = [] as Signal[];
-    return acc;
-  }, {} as Record<Dimension, Signal[]>);
-
-  let counter = 1;
-
-  for (const dimension of DIMENSIONS) {
-    const rawSignals = parsed.dimensions?.[dimension] ?? [];
-    if (!Array.isArray(rawSignals)) continue;
-
-    for (const rawSignal of rawSignals) {
-      const statement = sanitizeSignalStatement(rawSignal?.statement);
-      const evidence = sanitizeEvidence(rawSignal?.evidence);
-      if (evidence.length === 0) {
-        continue;
-      }
-      const signal: Signal = {
-        id: `S${counter}`,
-        dimension,
-        statement,
-        evidence,
-      };
-      signalsByDimension[dimension].push(signal);
-      counter += 1;
-    }
-  }
+  const { object: generated, prompt } = await generateInsightObject(
+    "insights.extract_signals",
+    payload,
+    extractSignalsSchema,
+    "extract_signals",
+    input
+  );
 
-  const allSignals = DIMENSIONS.flatMap((dimension) =>
-    signalsByDimension[dimension]
+  const { signalsByDimension, allSignals } = normalizeSignalsByDimension(
+    generated.dimensions
   );
 
   return {
@@ -1136,13 +809,15 @@ export async function extractSignals(
     signalsByDimension,
     allSignals,
     dataSufficiency,
-    model: MODEL_NAME,
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
+    prompt,
   };
 }
 
 export async function reasonByDimension(input: {
   periodKey: string;
+  employeeEmail?: string;
   periodType: PeriodType;
   signalsByDimension: Record<Dimension, Signal[]>;
   dataSufficiency: DataSufficiency;
@@ -1154,73 +829,32 @@ export async function reasonByDimension(input: {
     signalsByDimension: input.signalsByDimension,
   };
 
-  const prompt = REASON_DIMENSION_PROMPT_TEMPLATE.replace(
-    "{{INPUT_JSON}}",
-    JSON.stringify(payload, null, 2)
-  );
-
   // LLM step: turn signals into dimension-level narrative insights.
-  const result = await generateInsightText(prompt);
-
-  const parsed = parseJson<{
-    dimensions?: Record<
-      string,
-      { insight?: unknown; supportingSignalIds?: unknown; confidence?: unknown }
-    >;
-  }>(result.text, "reasonByDimension");
-
-  const dimensions = DIMENSIONS.reduce((acc, dimension) => {
-    const signals = input.signalsByDimension[dimension] ?? [];
-    const validIds = new Set(signals.map((signal) => signal.id));
-    const raw = parsed.dimensions?.[dimension];
-
-    const supportingSignalIds = Array.isArray(raw?.supportingSignalIds)
-      ? raw?.supportingSignalIds
-          .map((id) => String(id))
-          .filter((id) => validIds.has(id))
-      : [];
-
-    const hasSignals = signals.length > 0;
-    const insightText =
-      typeof raw?.insight === "string" && raw.insight.trim().length > 0
-        ? raw.insight.trim()
-        : hasSignals
-        ? `${dimension} signals were observed but require manual review for narrative synthesis.`
-        : buildInsufficientInsight(dimension);
-
-    const confidence = normalizeConfidence(
-      raw?.confidence,
-      input.dataSufficiency,
-      hasSignals
-    );
-
-    acc[dimension] = {
-      insight: hasSignals
-        ? ensureUncertaintyNote(insightText, input.dataSufficiency)
-        : buildInsufficientInsight(dimension),
-      supportingSignalIds:
-        supportingSignalIds.length > 0
-          ? supportingSignalIds
-          : hasSignals
-          ? signals.map((signal) => signal.id)
-          : [],
-      confidence,
-    };
-
-    return acc;
-  }, {} as Record<Dimension, DimensionInsight>);
+  const { object: generated, prompt } = await generateInsightObject(
+    "insights.reason_by_dimension",
+    payload,
+    reasonDimensionSchema,
+    "reason_by_dimension",
+    input
+  );
 
   return {
     periodKey: input.periodKey,
     periodType: input.periodType,
-    dimensions,
-    model: MODEL_NAME,
+    dimensions: normalizeDimensionInsights({
+      raw: generated.dimensions,
+      signalsByDimension: input.signalsByDimension,
+      dataSufficiency: input.dataSufficiency,
+    }),
+    model: insightModelName(),
     modelVersion: MODEL_VERSION,
+    prompt,
   };
 }
 
 export async function synthesizeInsights(input: {
   periodKey: string;
+  employeeEmail?: string;
   periodType: PeriodType;
   dimensionInsights: Record<Dimension, DimensionInsight>;
   signalsByDimension: Record<Dimension, Signal[]>;
@@ -1238,196 +872,32 @@ export async function synthesizeInsights(input: {
     signals: allSignals,
   };
 
-  const template =
-    input.periodType === "month"
-      ? SYNTHESIZE_MONTHLY_PROMPT_TEMPLATE
-      : SYNTHESIZE_QUARTERLY_PROMPT_TEMPLATE;
-
-  const prompt = template.replace(
-    "{{INPUT_JSON}}",
-    JSON.stringify(payload, null, 2)
-  );
-
   // LLM step: synthesize dimension insights into period-level conclusions.
-  const result = await generateInsightText(prompt);
-
   if (input.periodType === "month") {
-    const parsed = parseJson<{
-      overallSummary?: unknown;
-      identifiedRisks?: unknown;
-      identifiedOpportunities?: unknown;
-      confidence?: unknown;
-    }>(result.text, "synthesizeMonthlyInsights");
-
-    if (allSignals.length === 0) {
-      return {
-        overallSummary:
-          "Insufficient data to generate a reliable monthly summary for this period.",
-        identifiedRisks: [],
-        identifiedOpportunities: [],
-        confidence: "low",
-        model: MODEL_NAME,
-        modelVersion: MODEL_VERSION,
-      };
-    }
-
-    const identifiedRisks = Array.isArray(parsed.identifiedRisks)
-      ? parsed.identifiedRisks.map((item) => String(item)).filter(Boolean)
-      : [];
-
-    const identifiedOpportunities = Array.isArray(parsed.identifiedOpportunities)
-      ? parsed.identifiedOpportunities
-          .map((item) => String(item))
-          .filter(Boolean)
-      : [];
-
-    const overallSummary =
-      typeof parsed.overallSummary === "string" &&
-      parsed.overallSummary.trim().length > 0
-        ? parsed.overallSummary.trim()
-        : "Summary unavailable due to insufficient or unclear signals.";
-
-    const confidence = normalizeConfidence(
-      parsed.confidence,
-      input.dataSufficiency,
-      allSignals.length > 0
+    const { object: generated } = await generateInsightObject(
+      "insights.synthesize_monthly",
+      payload,
+      monthlySynthesisSchema,
+      "monthly_synthesis",
+      input
     );
-
-    return {
-      overallSummary: ensureUncertaintyNote(
-        overallSummary,
-        input.dataSufficiency
-      ),
-      identifiedRisks,
-      identifiedOpportunities,
-      confidence,
-      model: MODEL_NAME,
-      modelVersion: MODEL_VERSION,
-    };
+    return normalizeMonthlySynthesis({
+      raw: generated,
+      dataSufficiency: input.dataSufficiency,
+      allSignals,
+    });
   }
 
-  const parsed = parseJson<{
-    trajectorySummary?: unknown;
-    keyStrengths?: unknown;
-    keyConcerns?: unknown;
-    burnoutAssessment?: unknown;
-    growthAssessment?: unknown;
-    retentionAssessment?: unknown;
-    recommendedActions?: unknown;
-    evidenceSnapshots?: unknown;
-    confidence?: unknown;
-  }>(result.text, "synthesizeQuarterlyInsights");
-
-  if (allSignals.length === 0) {
-    return {
-      trajectorySummary:
-        "Insufficient data to generate a reliable quarterly trajectory summary for this period.",
-      keyStrengths: [],
-      keyConcerns: [],
-      burnoutAssessment:
-        "Insufficient data to assess burnout risk for this period.",
-      growthAssessment:
-        "Insufficient data to assess growth trends for this period.",
-      retentionAssessment:
-        "Insufficient data to assess retention risk for this period.",
-      recommendedActions: [],
-      evidenceSnapshots: [],
-      confidence: "low",
-      model: MODEL_NAME,
-      modelVersion: MODEL_VERSION,
-    };
-  }
-
-  const keyStrengths = Array.isArray(parsed.keyStrengths)
-    ? parsed.keyStrengths.map((item) => String(item)).filter(Boolean)
-    : [];
-  const keyConcerns = Array.isArray(parsed.keyConcerns)
-    ? parsed.keyConcerns.map((item) => String(item)).filter(Boolean)
-    : [];
-  const recommendedActions = Array.isArray(parsed.recommendedActions)
-    ? parsed.recommendedActions.map((item) => String(item)).filter(Boolean)
-    : [];
-
-  const evidenceSnapshots = Array.isArray(parsed.evidenceSnapshots)
-    ? parsed.evidenceSnapshots
-        .map((snapshot) => {
-          if (!snapshot || typeof snapshot !== "object") return null;
-          const record = snapshot as Record<string, unknown>;
-          const signalId =
-            typeof record.signalId === "string" ? record.signalId : "";
-          const dimension =
-            record.dimension === "Execution" ||
-            record.dimension === "Engagement" ||
-            record.dimension === "Collaboration" ||
-            record.dimension === "Growth"
-              ? record.dimension
-              : null;
-          const evidence = sanitizeEvidence(record.evidence);
-
-          if (!signalId || !dimension) return null;
-
-          return {
-            signalId,
-            dimension,
-            evidence,
-          };
-        })
-        .filter(Boolean)
-    : [];
-
-  const trajectorySummary =
-    typeof parsed.trajectorySummary === "string" &&
-    parsed.trajectorySummary.trim().length > 0
-      ? parsed.trajectorySummary.trim()
-      : "Trajectory summary unavailable due to insufficient or unclear signals.";
-
-  const burnoutAssessment =
-    typeof parsed.burnoutAssessment === "string" &&
-    parsed.burnoutAssessment.trim().length > 0
-      ? parsed.burnoutAssessment.trim()
-      : "Burnout assessment unavailable due to insufficient or unclear signals.";
-
-  const growthAssessment =
-    typeof parsed.growthAssessment === "string" &&
-    parsed.growthAssessment.trim().length > 0
-      ? parsed.growthAssessment.trim()
-      : "Growth assessment unavailable due to insufficient or unclear signals.";
-
-  const retentionAssessment =
-    typeof parsed.retentionAssessment === "string" &&
-    parsed.retentionAssessment.trim().length > 0
-      ? parsed.retentionAssessment.trim()
-      : "Retention assessment unavailable due to insufficient or unclear signals.";
-
-  const confidence = normalizeConfidence(
-    parsed.confidence,
-    input.dataSufficiency,
-    allSignals.length > 0
+  const { object: generated } = await generateInsightObject(
+    "insights.synthesize_quarterly",
+    payload,
+    quarterlySynthesisSchema,
+    "quarterly_synthesis",
+    input
   );
-
-  return {
-    trajectorySummary: ensureUncertaintyNote(
-      trajectorySummary,
-      input.dataSufficiency
-    ),
-    keyStrengths,
-    keyConcerns,
-    burnoutAssessment: ensureUncertaintyNote(
-      burnoutAssessment,
-      input.dataSufficiency
-    ),
-    growthAssessment: ensureUncertaintyNote(
-      growthAssessment,
-      input.dataSufficiency
-    ),
-    retentionAssessment: ensureUncertaintyNote(
-      retentionAssessment,
-      input.dataSufficiency
-    ),
-    recommendedActions,
-    evidenceSnapshots: evidenceSnapshots as QuarterlySynthesisOutput["evidenceSnapshots"],
-    confidence,
-    model: MODEL_NAME,
-    modelVersion: MODEL_VERSION,
-  };
+  return normalizeQuarterlySynthesis({
+    raw: generated,
+    dataSufficiency: input.dataSufficiency,
+    allSignals,
+  });
 }
@@ -1,39 +1,200 @@
 import "server-only";
 
-type QueueKey = string;
+import { and, eq, lt, sql } from "drizzle-orm";
 
-const queueByKey = new Map<QueueKey, Promise<void>>();
-const lastCallAtByKey = new Map<QueueKey, number>();
+import { db } from "@/lib/db/config";
+import { llmRateWindow } from "@/lib/db/schema";
+import {
+  assertTeamBudgetAvailable,
+  findEmployeeTeamId,
+  recordTeamTokenUsage,
+} from "@/lib/services/llmBudget";
+
+const WINDOW_MS = 60_000;
+const DEFAULT_REQUESTS_PER_MINUTE = 2;
+const DEFAULT_MAX_WAIT_MS = 5 * 60 * 1000;
+const WINDOW_RETENTION_HOURS = 24;
+
+export type LlmRateLimits = {
+  // 0 disables the limit.
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+};
+
+export class LlmRateLimitTimeoutError extends Error {
+  constructor(readonly providerKey: string, waitedMs: number) {
+    super(
+      `Timed out after ${Math.round(waitedMs / 1000)}s waiting for an LLM rate-limit slot for "${providerKey}".`
+    );
+    this.name = "LlmRateLimitTimeoutError";
+  }
+}
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export async function runWithLlmRateLimit<T>(input: {
-  key: QueueKey;
-  minIntervalMs: number;
-  fn: () => Promise<T>;
-}): Promise<T> {
-  const previous = queueByKey.get(input.key) ?? Promise.resolve();
-  let releaseQueue: () => void = () => {};
+function readNonNegativeIntEnv(name: string): number | null {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return null;
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
 
-  const current = new Promise<void>((resolve) => {
-    releaseQueue = resolve;
-  });
-  queueByKey.set(input.key, current);
+function envKeySuffix(providerKey: string): string {
+  return providerKey.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/**
+ * Limits for one provider and stage. `LLM_RATE_LIMIT_RPM_<STAGE>` overrides
+ * `LLM_RATE_LIMIT_RPM_<PROVIDER>`, which overrides the global
+ * `LLM_RATE_LIMIT_RPM`; the TPM variables work the same way.
+ */
+export function readRateLimits(providerKey: string, stage: string): LlmRateLimits {
+  const providerSuffix = envKeySuffix(providerKey);
+  const stageSuffix = envKeySuffix(stage);
+  return {
+    requestsPerMinute:
+      readNonNegativeIntEnv(`LLM_RATE_LIMIT_RPM_${stageSuffix}`) ??
+      readNonNegativeIntEnv(`LLM_RATE_LIMIT_RPM_${providerSuffix}`) ??
+      readNonNegativeIntEnv("LLM_RATE_LIMIT_RPM") ??
+      DEFAULT_REQUESTS_PER_MINUTE,
+    tokensPerMinute:
+      readNonNegativeIntEnv(`LLM_RATE_LIMIT_TPM_${stageSuffix}`) ??
+      readNonNegativeIntEnv(`LLM_RATE_LIMIT_TPM_${providerSuffix}`) ??
+      readNonNegativeIntEnv("LLM_RATE_LIMIT_TPM") ??
+      0,
+  };
+}
+
+/**
+ * Claims a request in the current minute window with a single upsert, so
+ * concurrent processes cannot overshoot. Token limits are checked against
+ * tokens already recorded in the window, since a call's usage is only known
+ * once it finishes.
+ */
+async function tryAcquireSlot(
+  providerKey: string,
+  limits: LlmRateLimits
+): Promise<Date | null> {
+  const [window] = await db
+    .insert(llmRateWindow)
+    .values({
+      providerKey,
+      windowStart: sql`date_trunc('minute', now())`,
+      requestCount: 1,
+    })
+    .onConflictDoUpdate({
+      target: [llmRateWindow.providerKey, llmRateWindow.windowStart],
+      set: { requestCount: sql`${llmRateWindow.requestCount} + 1` },
+      setWhere: sql`(${limits.requestsPerMinute} = 0 OR ${llmRateWindow.requestCount} < ${limits.requestsPerMinute})
+        AND (${limits.tokensPerMinute} = 0 OR ${llmRateWindow.tokenCount} < ${limits.tokensPerMinute})`,
+    })
+    .returning({
+      windowStart: llmRateWindow.windowStart,
+      requestCount: llmRateWindow.requestCount,
+    });
 
-  await previous;
+  if (!window) {
+    return null;
+  }
+
+  // First request of a new window: drop old windows for this key.
+  if (window.requestCount === 1) {
+    await db
+      .delete(llmRateWindow)
+      .where(
+        and(
+          eq(llmRateWindow.providerKey, providerKey),
+          lt(
+            llmRateWindow.windowStart,
+            sql`now() - make_interval(hours => ${WINDOW_RETENTION_HOURS})`
+          )
+        )
+      );
+  }
 
-  const elapsed = Date.now() - (lastCallAtByKey.get(input.key) ?? 0);
-  const waitMs = Math.max(0, input.minIntervalMs - elapsed);
-  if (waitMs > 0) {
+  return window.windowStart;
+}
+
+async function acquireSlot(
+  providerKey: string,
+  limits: LlmRateLimits
+): Promise<Date> {
+  const startedAt = Date.now();
+  const maxWaitMs =
+    readNonNegativeIntEnv("LLM_RATE_LIMIT_MAX_WAIT_MS") ?? DEFAULT_MAX_WAIT_MS;
+
+  for (;;) {
+    const windowStart = await tryAcquireSlot(providerKey, limits);
+    if (windowStart) {
+      return windowStart;
+    }
+
+    const waitMs = WINDOW_MS - (Date.now() % WINDOW_MS) + 250;
+    if (Date.now() + waitMs - startedAt > maxWaitMs) {
+      throw new LlmRateLimitTimeoutError(providerKey, Date.now() - startedAt);
+    }
     await sleep(waitMs);
   }
+}
+
+async function recordWindowTokens(
+  providerKey: string,
+  windowStart: Date,
+  tokens: number
+): Promise<void> {
+  await db
+    .update(llmRateWindow)
+    .set({ tokenCount: sql`${llmRateWindow.tokenCount} + ${tokens}` })
+    .where(
+      and(
+        eq(llmRateWindow.providerKey, providerKey),
+        eq(llmRateWindow.windowStart, windowStart)
+      )
+    );
+}
+
+/**
+ * Runs one LLM call under the shared limits for its provider and stage and,
+ * when `employeeEmail` is given, the employee's team token budget. Each stage
+ * has its own window, so Slack classification, insights and the analysis
+ * stages do not queue behind each other. State lives in Postgres so limits
+ * hold across restarts, server instances and workers.
+ */
+export async function runWithLlmRateLimit<
+  T extends { usage?: { totalTokens?: number } },
+>(input: {
+  providerKey: string;
+  stage: string;
+  employeeEmail?: string;
+  fn: () => Promise<T>;
+}): Promise<T> {
+  const teamId = input.employeeEmail
+    ? await findEmployeeTeamId(input.employeeEmail)
+    : null;
+  if (teamId !== null) {
+    await assertTeamBudgetAvailable(teamId);
+  }
 
-  try {
-    return await input.fn();
-  } finally {
-    lastCallAtByKey.set(input.key, Date.now());
-    releaseQueue();
+  const windowKey = `${input.providerKey}:${input.stage}`;
+  const limits = readRateLimits(input.providerKey, input.stage);
+  const limited = limits.requestsPerMinute > 0 || limits.tokensPerMinute > 0;
+  const windowStart = limited
+    ? await acquireSlot(windowKey, limits)
+    : null;
+
+  const result = await input.fn();
+
+  const tokens = result.usage?.totalTokens ?? 0;
+  if (tokens > 0) {
+    await Promise.all([
+      windowStart
+        ? recordWindowTokens(windowKey, windowStart, tokens)
+        : undefined,
+      teamId !== null ? recordTeamTokenUsage(teamId, tokens) : undefined,
+    ]);
   }
+
+  return result;
 }
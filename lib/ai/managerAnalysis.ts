@@ -1,10 +1,25 @@
 import "server-only";
 
+import { parsePartialJson } from "ai";
 import { z } from "zod";
 
-import { generateTextOnce, type GenerateTextOutput } from "@/lib/ai/generate-text";
-import { runWithLlmRateLimit } from "@/lib/ai/llmRateLimiter";
-import { DEFAULT_OPENAI_MODEL } from "@/lib/ai/openai";
+import {
+  generateStructuredOnce,
+  type GenerateStructuredOutput,
+} from "@/lib/ai/generate-structured";
+import {
+  createFairnessChecker,
+  previewFairnessText,
+  type FairnessViolation,
+} from "@/lib/ai/fairnessPolicy";
+import type { GenerateTextOutput } from "@/lib/ai/generate-text";
+import {
+  renderPrompt,
+  resolvePrompt,
+  toPromptStamp,
+  type PromptStamp,
+} from "@/lib/ai/prompts/registry";
+import type { LlmStage } from "@/lib/ai/providers";
 import type {
   ConfidenceLevel,
   DataSufficiency,
@@ -12,27 +27,7 @@ import type {
   QuarterlySynthesisOutput,
 } from "@/lib/ai/insightGenerator";
 
-const MODEL_NAME = process.env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL;
 const MODEL_VERSION = process.env.OPENAI_MODEL_VERSION ?? "unspecified";
-const MIN_LLM_CALL_INTERVAL_MS = Number(
-  process.env.MANAGER_ANALYSIS_LLM_MIN_INTERVAL_MS ??
-    process.env.INSIGHT_LLM_MIN_INTERVAL_MS ??
-    "30000"
-);
-
-const MANAGER_ANALYSIS_SYSTEM_PROMPT = `You are an analysis engine for manager guidance in an HR intelligence system.
-Use only the provided evidence artifacts.
-Do not invent facts.
-Do not use numeric scoring.
-Do not reference peer comparisons.
-Do not make HR decisions.
-If evidence is partial or insufficient, state uncertainty.
-Return JSON only.`;
-
-const PEER_COMPARISON_PATTERN =
-  /\b(peer|peers|compared to|relative to|team average|other employees)\b/i;
-const EMPLOYEE_COMPENSATION_PATTERN =
-  /\b(bonus|promotion|promote|compensation|salary|raise)\b/i;
 
 const confidenceSchema = z.enum(["low", "medium", "high"]);
 const evidenceRefSchema = z.string().regex(/^E\d+$/);
@@ -116,9 +111,21 @@ export type CombinedDebateOutput = z.infer<typeof combinedDebateSchema>;
 export type ArbiterDecisionOutput = z.infer<typeof arbiterDecisionSchema>;
 export type CombinedGuidanceOutput = z.infer<typeof combinedGuidanceSchema>;
 
+export type DebateArgumentProgress = {
+  agentRole: "advocate" | "examiner";
+  index: number;
+  claim: string;
+  evidenceRefs: string[];
+};
+
 export type EvidenceCatalogEntry = {
   id: string;
-  sourceType: "quarterly_synthesis" | "monthly_synthesis";
+  sourceType:
+    | "quarterly_synthesis"
+    | "monthly_synthesis"
+    | "employee_response"
+    | "manager_follow_up"
+    | "one_on_one_note";
   sourceKey: string;
   field: string;
   summary: string;
@@ -126,6 +133,7 @@ export type EvidenceCatalogEntry = {
 
 export type ManagerAnalysisCoreInput = {
   employeeId: string;
+  quarter: string;
   managerId: string;
   role: string;
   quarterly: QuarterlySynthesisOutput;
@@ -142,6 +150,9 @@ type LlmStageResult<T> = {
   output: T;
   model: string;
   modelVersion: string;
+  prompt: PromptStamp;
+  // Fairness policy matches in `output`, including ones already redacted.
+  fairness: FairnessViolation[];
   usage?: GenerateTextOutput["usage"];
 };
 
@@ -149,39 +160,13 @@ export class ManagerAnalysisValidationError extends Error {
   constructor(
     message: string,
     readonly code:
-      | "invalid_json"
-      | "invalid_schema"
       | "invalid_evidence_refs"
       | "invalid_citations"
-      | "prohibited_content"
-      | "invalid_peer_comparison"
   ) {
     super(message);
   }
 }
 
-function parseJson<T>(raw: string, context: string): T {
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    const match = raw.match(/\{[\s\S]*\}/);
-    if (!match) {
-      throw new ManagerAnalysisValidationError(
-        `Failed to parse JSON for ${context}.`,
-        "invalid_json"
-      );
-    }
-    try {
-      return JSON.parse(match[0]) as T;
-    } catch {
-      throw new ManagerAnalysisValidationError(
-        `Failed to parse fallback JSON for ${context}.`,
-        "invalid_json"
-      );
-    }
-  }
-}
-
 function normalizeConfidence(
   value: ConfidenceLevel,
   dataSufficiency: DataSufficiency
@@ -191,13 +176,6 @@ function normalizeConfidence(
   return value;
 }
 
-function sanitizePeerComparisonText(text: string, fallback: string): string {
-  if (!PEER_COMPARISON_PATTERN.test(text)) {
-    return text;
-  }
-  return fallback;
-}
-
 function ensureEvidenceRefsExist(
   refs: string[],
   validRefs: Set<string>,
@@ -243,32 +221,112 @@ function ensureCitationTokens(
   ensureEvidenceRefsExist(refs, validRefs, context);
 }
 
-async function generateManagerText(prompt: string): Promise<GenerateTextOutput> {
-  return runWithLlmRateLimit({
-    key: "manager-analysis",
-    minIntervalMs: MIN_LLM_CALL_INTERVAL_MS,
-    fn: () =>
-      generateTextOnce({
-        prompt,
-        system: MANAGER_ANALYSIS_SYSTEM_PROMPT,
-        model: MODEL_NAME,
-      }),
+async function generateManagerObject<T>(input: {
+  promptId: string;
+  payload: unknown;
+  stage: LlmStage;
+  schema: z.ZodType<T>;
+  schemaName: string;
+  core: ManagerAnalysisCoreInput;
+  onTextDelta?: (accumulatedText: string) => void | Promise<void>;
+}): Promise<GenerateStructuredOutput<T> & { prompt: PromptStamp }> {
+  const prompt = await resolvePrompt(input.promptId);
+  const result = await generateStructuredOnce({
+    prompt: renderPrompt(prompt, {
+      ROLE_BASELINE_JSON: JSON.stringify(
+        getRoleKpiBaseline(input.core.role),
+        null,
+        2
+      ),
+      INPUT_JSON: JSON.stringify(input.payload, null, 2),
+    }),
+    system: prompt.system,
+    stage: input.stage,
+    employeeEmail: input.core.employeeId,
+    periodKey: input.core.quarter,
+    schema: input.schema,
+    schemaName: input.schemaName,
+    onTextDelta: input.onTextDelta,
   });
+  return { ...result, prompt: toPromptStamp(prompt) };
 }
 
-function buildConstraintsBlock(): string {
-  return [
-    "Global constraints:",
-    "- Use only provided quarterly/monthly artifacts and evidenceCatalog.",
-    "- Do not reprocess weekly data.",
-    "- Do not invent facts.",
-    "- Do not use numeric scoring.",
-    "- Do not make HR decisions.",
-    "- Do not use peer comparisons.",
-    "- If data is partial or insufficient, lower confidence and state uncertainty.",
-    "- Every claim must be evidence-backed.",
-    "- Output JSON only.",
-  ].join("\n");
+const DEBATE_ROLE_KEYS = [
+  ["advocate", "advocateAssessment"],
+  ["examiner", "examinerAssessment"],
+] as const;
+
+/**
+ * Watches the streamed debate JSON and reports each argument once it can no
+ * longer change: when the next array element starts, or when a field after
+ * `arguments` appears. `flush` reports whatever the stream did not, using the
+ * validated output.
+ */
+function createDebateArgumentTracker(
+  onArgument: (argument: DebateArgumentProgress) => void | Promise<void>
+) {
+  const emittedByRole = { advocate: 0, examiner: 0 };
+  let parsedLength = 0;
+
+  async function emit(
+    agentRole: DebateArgumentProgress["agentRole"],
+    candidates: unknown[],
+    completeCount: number
+  ) {
+    while (emittedByRole[agentRole] < completeCount) {
+      const index = emittedByRole[agentRole];
+      emittedByRole[agentRole] += 1;
+
+      const candidate = candidates[index];
+      if (!candidate || typeof candidate !== "object") continue;
+      const record = candidate as Record<string, unknown>;
+      const claim = typeof record.claim === "string" ? record.claim.trim() : "";
+      if (!claim) continue;
+
+      await onArgument({
+        agentRole,
+        index,
+        claim: previewFairnessText(claim, {
+          audience: "manager",
+          fallback: "Argument withheld until the assessment is validated.",
+        }),
+        evidenceRefs: Array.isArray(record.evidenceRefs)
+          ? record.evidenceRefs.map((ref) => String(ref))
+          : [],
+      });
+    }
+  }
+
+  return {
+    async onTextDelta(accumulatedText: string) {
+      // Arguments can only complete when an object closes.
+      if (!accumulatedText.slice(parsedLength).includes("}")) return;
+      parsedLength = accumulatedText.length;
+
+      const { value } = await parsePartialJson(accumulatedText);
+      if (!value || typeof value !== "object" || Array.isArray(value)) return;
+
+      for (const [agentRole, key] of DEBATE_ROLE_KEYS) {
+        const assessment = (value as Record<string, unknown>)[key];
+        if (!assessment || typeof assessment !== "object") continue;
+        const record = assessment as Record<string, unknown>;
+        const candidates = Array.isArray(record.arguments) ? record.arguments : [];
+        const argumentsClosed =
+          "recommendation" in record || "risks" in record || "confidence" in record;
+        await emit(
+          agentRole,
+          candidates,
+          argumentsClosed ? candidates.length : Math.max(candidates.length - 1, 0)
+        );
+      }
+    },
+    async flush(output: CombinedDebateOutput) {
+      for (const [agentRole, key] of DEBATE_ROLE_KEYS) {
+        const candidates = output[key].arguments;
+        await emit(agentRole, candidates, candidates.length);
+      }
+    },
+  };
 }
 
 type KpiBaseline = {
@@ -360,141 +418,110 @@ function getRoleKpiBaseline(role: string): KpiBaseline[] {
   ];
 }
 
-function buildKpiPromptBlock(role: string): string {
-  return [
-    "KPI baseline and expectation mapping (qualitative only):",
-    '- Use exactly one label per KPI: "above", "managed", or "below".',
-    '- "managed" means meeting expectations (on target).',
-    "- Do not use numeric scores or percentages for KPI judgments.",
-    "- Include one text graph line where possible in string fields using this format:",
-    "  SkillVsExpectation: Execution[managed] -> Collaboration[above] -> QualityAndReliability[managed] -> GrowthAndOwnership[above] -> SustainableWorkPattern[managed]",
-    `Role baseline: ${JSON.stringify(getRoleKpiBaseline(role), null, 2)}`,
-  ].join("\n");
-}
-
 export async function generateCombinedDebate(
-  input: ManagerAnalysisCoreInput
+  input: ManagerAnalysisCoreInput,
+  options: {
+    // Streams the completion and reports arguments as they finish.
+    onArgument?: (argument: DebateArgumentProgress) => void | Promise<void>;
+  } = {}
 ): Promise<LlmStageResult<CombinedDebateOutput>> {
-  const prompt = `Task: Produce two independent assessments from the same evidence.
-
-${buildConstraintsBlock()}
-${buildKpiPromptBlock(input.role)}
-
-Role A (Employee Advocate):
-- Assume good faith and contextual constraints.
-- Do not deny facts.
-- Do not reference Role B.
-- stance must be "support_reward".
-- Include KPI expectation labels in arguments where relevant (above/managed/below).
-
-Role B (Performance Examiner):
-- Assume organizational expectations are reasonable.
-- Sustained gaps matter.
-- Do not deny facts.
-- Do not reference Role A.
-- stance must be "caution_reward".
-- Include KPI expectation labels in arguments where relevant (above/managed/below).
-
-Return exactly this JSON shape:
-{
-  "advocateAssessment": {
-    "stance": "support_reward",
-    "arguments": [{ "claim": "string", "evidenceRefs": ["E1"] }],
-    "recommendation": { "bonus": "yes|no|defer", "promotion": "yes|no|not_ready" },
-    "confidence": "low|medium|high"
-  },
-  "examinerAssessment": {
-    "stance": "caution_reward",
-    "arguments": [{ "claim": "string", "evidenceRefs": ["E1"] }],
-    "risks": ["string"],
-    "recommendation": { "bonus": "yes|no|defer", "promotion": "yes|no|not_ready" },
-    "confidence": "low|medium|high"
-  }
-}
+  const payload = {
+    ...input,
+    kpiBaseline: getRoleKpiBaseline(input.role),
+  };
 
-Input JSON:
-${JSON.stringify(
-    {
-      ...input,
-      kpiBaseline: getRoleKpiBaseline(input.role),
-    },
-    null,
-    2
-  )}`;
-
-  const result = await generateManagerText(prompt);
-  const parsed = parseJson<unknown>(result.text, "generateCombinedDebate");
-  const validated = combinedDebateSchema.safeParse(parsed);
-  if (!validated.success) {
-    throw new ManagerAnalysisValidationError(
-      `Combined debate schema mismatch: ${validated.error.message}`,
-      "invalid_schema"
-    );
-  }
+  const tracker = options.onArgument
+    ? createDebateArgumentTracker(options.onArgument)
+    : null;
+  const result = await generateManagerObject({
+    promptId: "manager_debate.combined_debate",
+    payload,
+    stage: "manager_debate",
+    schema: combinedDebateSchema,
+    schemaName: "combined_debate",
+    core: input,
+    onTextDelta: tracker?.onTextDelta,
+  });
+  const generated = result.object;
 
   const evidenceRefSet = new Set(input.evidenceCatalog.map((entry) => entry.id));
-  const advocateArguments = validated.data.advocateAssessment.arguments.map((argument) => {
-    ensureEvidenceRefsExist(
-      argument.evidenceRefs,
-      evidenceRefSet,
-      "advocateAssessment.arguments.evidenceRefs"
-    );
-    return {
-      ...argument,
-      claim: sanitizePeerComparisonText(
-        argument.claim,
-        "Evidence indicates stable positive impact against expected role outcomes."
-      ),
-    };
-  });
+  const fairness = createFairnessChecker("debate");
+  const advocateArguments = generated.advocateAssessment.arguments.map(
+    (argument, index) => {
+      ensureEvidenceRefsExist(
+        argument.evidenceRefs,
+        evidenceRefSet,
+        "advocateAssessment.arguments.evidenceRefs"
+      );
+      return {
+        ...argument,
+        claim: fairness.check(argument.claim, {
+          field: `advocateAssessment.arguments[${index}].claim`,
+          audience: "manager",
+          fallback:
+            "Evidence indicates stable positive impact against expected role outcomes.",
+        }),
+      };
+    }
+  );
 
-  const examinerArguments = validated.data.examinerAssessment.arguments.map((argument) => {
-    ensureEvidenceRefsExist(
-      argument.evidenceRefs,
-      evidenceRefSet,
-      "examinerAssessment.arguments.evidenceRefs"
-    );
-    return {
-      ...argument,
-      claim: sanitizePeerComparisonText(
-        argument.claim,
-        "Evidence indicates potential risk that should be validated with manager context."
-      ),
-    };
-  });
+  const examinerArguments = generated.examinerAssessment.arguments.map(
+    (argument, index) => {
+      ensureEvidenceRefsExist(
+        argument.evidenceRefs,
+        evidenceRefSet,
+        "examinerAssessment.arguments.evidenceRefs"
+      );
+      return {
+        ...argument,
+        claim: fairness.check(argument.claim, {
+          field: `examinerAssessment.arguments[${index}].claim`,
+          audience: "manager",
+          fallback:
+            "Evidence indicates potential risk that should be validated with manager context.",
+        }),
+      };
+    }
+  );
 
-  const examinerRisks = validated.data.examinerAssessment.risks.map((risk) =>
-    sanitizePeerComparisonText(
-      risk,
-      "Potential risk requires manager clarification using direct period evidence."
-    )
+  const examinerRisks = generated.examinerAssessment.risks.map((risk, index) =>
+    fairness.check(risk, {
+      field: `examinerAssessment.risks[${index}]`,
+      audience: "manager",
+      fallback:
+        "Potential risk requires manager clarification using direct period evidence.",
+    })
   );
 
   const output: CombinedDebateOutput = {
-    ...validated.data,
+    ...generated,
     advocateAssessment: {
-      ...validated.data.advocateAssessment,
+      ...generated.advocateAssessment,
       arguments: advocateArguments,
       confidence: normalizeConfidence(
-        validated.data.advocateAssessment.confidence,
+        generated.advocateAssessment.confidence,
         input.dataSufficiency
       ),
     },
     examinerAssessment: {
-      ...validated.data.examinerAssessment,
+      ...generated.examinerAssessment,
       arguments: examinerArguments,
       risks: examinerRisks,
       confidence: normalizeConfidence(
-        validated.data.examinerAssessment.confidence,
+        generated.examinerAssessment.confidence,
         input.dataSufficiency
       ),
     },
   };
 
+  await tracker?.flush(output);
+
   return {
     output,
     model: result.model,
     modelVersion: MODEL_VERSION,
+    prompt: result.prompt,
+    fairness: fairness.violations,
     usage: result.usage,
   };
 }
@@ -503,94 +530,66 @@ export async function generateArbiterDecision(input: {
   core: ManagerAnalysisCoreInput;
   debate: CombinedDebateOutput;
 }): Promise<LlmStageResult<ArbiterDecisionOutput>> {
-  const prompt = `Task: Arbitrate between advocate/examiner assessments and produce manager-safe recommendations.
-
-${buildConstraintsBlock()}
-${buildKpiPromptBlock(input.core.role)}
-
-Rules:
-- Explicitly compare both assessments and penalize weak/speculative arguments.
-- Must reference unresolved ambiguity via unresolvedQuestions.
-- rationale and notesForHR must contain citation tokens like refs:[E1,E2].
-- Include at least one KPI summary string using above/managed/below labels.
-- Include one SkillVsExpectation text graph line in rationale or notesForHR.
-- Respect eligibility constraints:
-  - If eligibility.bonus is false, finalRecommendation.bonus must not be "approve".
-  - If eligibility.promotion is false, finalRecommendation.promotion must not be "approve".
-
-Return exactly this JSON shape:
-{
-  "finalRecommendation": {
-    "bonus": "approve|defer|deny",
-    "promotion": "approve|defer|deny"
-  },
-  "rationale": ["string with refs:[E1]"],
-  "unresolvedQuestions": ["string"],
-  "confidence": "low|medium|high",
-  "notesForHR": ["string with refs:[E1]"]
-}
+  const payload = {
+    quarterly: input.core.quarterly,
+    monthlyHistory: input.core.monthlyHistory,
+    dataSufficiency: input.core.dataSufficiency,
+    eligibility: input.core.eligibility,
+    role: input.core.role,
+    kpiBaseline: getRoleKpiBaseline(input.core.role),
+    evidenceCatalog: input.core.evidenceCatalog,
+    advocateAssessment: input.debate.advocateAssessment,
+    examinerAssessment: input.debate.examinerAssessment,
+  };
 
-Input JSON:
-${JSON.stringify(
-    {
-      quarterly: input.core.quarterly,
-      monthlyHistory: input.core.monthlyHistory,
-      dataSufficiency: input.core.dataSufficiency,
-      eligibility: input.core.eligibility,
-      role: input.core.role,
-      kpiBaseline: getRoleKpiBaseline(input.core.role),
-      evidenceCatalog: input.core.evidenceCatalog,
-      advocateAssessment: input.debate.advocateAssessment,
-      examinerAssessment: input.debate.examinerAssessment,
-    },
-    null,
-    2
-  )}`;
-
-  const result = await generateManagerText(prompt);
-  const parsed = parseJson<unknown>(result.text, "generateArbiterDecision");
-  const validated = arbiterDecisionSchema.safeParse(parsed);
-  if (!validated.success) {
-    throw new ManagerAnalysisValidationError(
-      `Arbiter schema mismatch: ${validated.error.message}`,
-      "invalid_schema"
-    );
-  }
+  const result = await generateManagerObject({
+    promptId: "manager_arbiter.arbiter_decision",
+    payload,
+    stage: "manager_arbiter",
+    schema: arbiterDecisionSchema,
+    schemaName: "arbiter_decision",
+    core: input.core,
+  });
+  const generated = result.object;
 
   const evidenceRefSet = new Set(input.core.evidenceCatalog.map((entry) => entry.id));
   const fallbackRef = input.core.evidenceCatalog[0]?.id;
-  const rationale = validated.data.rationale.map((line) => {
+  const fairness = createFairnessChecker("arbiter");
+  const rationale = generated.rationale.map((line, index) => {
     ensureCitationTokens(line, evidenceRefSet, "arbiter.rationale");
     const refs = parseCitationRefs(line);
     const safeRef = refs[0] ?? fallbackRef ?? "E1";
-    return sanitizePeerComparisonText(
-      line,
-      `Evidence indicates uncertainty that needs manager clarification refs:[${safeRef}]`
-    );
+    return fairness.check(line, {
+      field: `rationale[${index}]`,
+      audience: "manager",
+      fallback: `Evidence indicates uncertainty that needs manager clarification refs:[${safeRef}]`,
+    });
   });
-  const notesForHR = validated.data.notesForHR.map((line) => {
+  const notesForHR = generated.notesForHR.map((line, index) => {
     ensureCitationTokens(line, evidenceRefSet, "arbiter.notesForHR");
     const refs = parseCitationRefs(line);
     const safeRef = refs[0] ?? fallbackRef ?? "E1";
-    return sanitizePeerComparisonText(
-      line,
-      `Document the observed evidence and open questions without comparative framing refs:[${safeRef}]`
-    );
+    return fairness.check(line, {
+      field: `notesForHR[${index}]`,
+      audience: "manager",
+      fallback: `Document the observed evidence and open questions without comparative framing refs:[${safeRef}]`,
+    });
   });
-  const unresolvedQuestions = validated.data.unresolvedQuestions.map((question) =>
-    sanitizePeerComparisonText(
-      question,
-      "What additional context is needed to interpret this evidence reliably?"
-    )
+  const unresolvedQuestions = generated.unresolvedQuestions.map((question, index) =>
+    fairness.check(question, {
+      field: `unresolvedQuestions[${index}]`,
+      audience: "manager",
+      fallback: "What additional context is needed to interpret this evidence reliably?",
+    })
   );
 
   const output: ArbiterDecisionOutput = {
-    ...validated.data,
+    ...generated,
     rationale,
     notesForHR,
     unresolvedQuestions,
     confidence: normalizeConfidence(
-      validated.data.confidence,
+      generated.confidence,
       input.core.dataSufficiency
     ),
   };
@@ -619,6 +618,8 @@ ${JSON.stringify(
     output,
     model: result.model,
     modelVersion: MODEL_VERSION,
+    prompt: result.prompt,
+    fairness: fairness.violations,
     usage: result.usage,
   };
 }
@@ -628,84 +629,36 @@ export async function generateCombinedGuidance(input: {
   debate: CombinedDebateOutput;
   arbiter: ArbiterDecisionOutput;
 }): Promise<LlmStageResult<CombinedGuidanceOutput>> {
-  const prompt = `Task: Generate employee-facing prompts and manager coaching in one response.
-
-${buildConstraintsBlock()}
-${buildKpiPromptBlock(input.core.role)}
-
-Employee prompts rules:
-- Never mention bonus or promotion.
-- Supportive, non-judgmental tone.
-- No peer comparisons.
-- Every prompt must include evidenceRefs.
-- At least one employee prompt should reflect KPI expectation framing in plain language.
-
-Manager coaching rules:
-- Focus on conversation framing.
-- Include doNotAssume list.
-- Cite evidence via evidenceRefs.
-- Avoid definitive labels.
-- Include KPI expectation checks (above/managed/below) in focusAreas.
-- Include one SkillVsExpectation text graph line in managerCoaching.focusAreas.
-
-Return exactly this JSON shape:
-{
-  "employeePings": [
-    {
-      "theme": "workload|growth|collaboration|focus",
-      "message": "string",
-      "evidenceRefs": ["E1"],
-      "confidence": "low|medium|high"
-    }
-  ],
-  "managerCoaching": {
-    "focusAreas": ["string"],
-    "suggestedQuestions": ["string"],
-    "doNotAssume": ["string"],
-    "evidenceRefs": ["E1"],
-    "confidence": "low|medium|high"
-  }
-}
+  const payload = {
+    quarterly: input.core.quarterly,
+    monthlyHistory: input.core.monthlyHistory,
+    dataSufficiency: input.core.dataSufficiency,
+    role: input.core.role,
+    kpiBaseline: getRoleKpiBaseline(input.core.role),
+    evidenceCatalog: input.core.evidenceCatalog,
+    debate: input.debate,
+    arbiter: input.arbiter,
+  };
 
-Input JSON:
-${JSON.stringify(
-    {
-      quarterly: input.core.quarterly,
-      monthlyHistory: input.core.monthlyHistory,
-      dataSufficiency: input.core.dataSufficiency,
-      role: input.core.role,
-      kpiBaseline: getRoleKpiBaseline(input.core.role),
-      evidenceCatalog: input.core.evidenceCatalog,
-      debate: input.debate,
-      arbiter: input.arbiter,
-    },
-    null,
-    2
-  )}`;
-
-  const result = await generateManagerText(prompt);
-  const parsed = parseJson<unknown>(result.text, "generateCombinedGuidance");
-  const validated = combinedGuidanceSchema.safeParse(parsed);
-  if (!validated.success) {
-    throw new ManagerAnalysisValidationError(
-      `Guidance schema mismatch: ${validated.error.message}`,
-      "invalid_schema"
-    );
-  }
+  const result = await generateManagerObject({
+    promptId: "manager_guidance.combined_guidance",
+    payload,
+    stage: "manager_guidance",
+    schema: combinedGuidanceSchema,
+    schemaName: "combined_guidance",
+    core: input.core,
+  });
+  const generated = result.object;
 
   const evidenceRefSet = new Set(input.core.evidenceCatalog.map((entry) => entry.id));
+  const fairness = createFairnessChecker("guidance");
   const output: CombinedGuidanceOutput = {
-    employeePings: validated.data.employeePings.map((ping) => {
-      const sanitizedMessage = sanitizePeerComparisonText(
-        ping.message,
-        `Let's focus on your recent evidence patterns and choose one concrete next step in ${ping.theme}.`
-      );
-      if (EMPLOYEE_COMPENSATION_PATTERN.test(ping.message)) {
-        throw new ManagerAnalysisValidationError(
-          "Employee ping includes compensation language.",
-          "prohibited_content"
-        );
-      }
+    employeePings: generated.employeePings.map((ping, index) => {
+      const sanitizedMessage = fairness.check(ping.message, {
+        field: `employeePings[${index}].message`,
+        audience: "employee",
+        fallback: `Let's focus on your recent evidence patterns and choose one concrete next step in ${ping.theme}.`,
+      });
       ensureEvidenceRefsExist(
         ping.evidenceRefs,
         evidenceRefSet,
@@ -718,27 +671,33 @@ ${JSON.stringify(
       };
     }),
     managerCoaching: {
-      ...validated.data.managerCoaching,
-      focusAreas: validated.data.managerCoaching.focusAreas.map((line) =>
-        sanitizePeerComparisonText(
-          line,
-          "Center the conversation on observed patterns and concrete support needs."
-        )
+      ...generated.managerCoaching,
+      focusAreas: generated.managerCoaching.focusAreas.map((line, index) =>
+        fairness.check(line, {
+          field: `managerCoaching.focusAreas[${index}]`,
+          audience: "manager",
+          fallback: "Center the conversation on observed patterns and concrete support needs.",
+        })
       ),
-      suggestedQuestions: validated.data.managerCoaching.suggestedQuestions.map((line) =>
-        sanitizePeerComparisonText(
-          line,
-          "What does the current evidence suggest about support or clarity needed next?"
-        )
+      suggestedQuestions: generated.managerCoaching.suggestedQuestions.map(
+        (line, index) =>
+          fairness.check(line, {
+            field: `managerCoaching.suggestedQuestions[${index}]`,
+            audience: "manager",
+            fallback:
+              "What does the current evidence suggest about support or clarity needed next?",
+          })
       ),
-      doNotAssume: validated.data.managerCoaching.doNotAssume.map((line) =>
-        sanitizePeerComparisonText(
-          line,
-          "Do not assume performance based on comparisons; stay with direct evidence."
-        )
+      doNotAssume: generated.managerCoaching.doNotAssume.map((line, index) =>
+        fairness.check(line, {
+          field: `managerCoaching.doNotAssume[${index}]`,
+          audience: "manager",
+          fallback:
+            "Do not assume performance based on comparisons; stay with direct evidence.",
+        })
       ),
       confidence: normalizeConfidence(
-        validated.data.managerCoaching.confidence,
+        generated.managerCoaching.confidence,
         input.core.dataSufficiency
       ),
     },
@@ -754,6 +713,36 @@ ${JSON.stringify(
     output,
     model: result.model,
     modelVersion: MODEL_VERSION,
+    prompt: result.prompt,
+    fairness: fairness.violations,
     usage: result.usage,
   };
 }
+
+/**
+ * Re-validates stage outputs persisted by an earlier attempt so a resumed run
+ * can skip regenerating them. Returns null when the stored payload no longer
+ * matches the current schema.
+ */
+export function parseStoredDebate(
+  advocatePayload: unknown,
+  examinerPayload: unknown
+): CombinedDebateOutput | null {
+  const validated = combinedDebateSchema.safeParse({
+    advocateAssessment: advocatePayload,
+    examinerAssessment: examinerPayload,
+  });
+  return validated.success ? validated.data : null;
+}
+
+export function parseStoredArbiterDecision(
+  payload: unknown
+): ArbiterDecisionOutput | null {
+  const validated = arbiterDecisionSchema.safeParse(payload);
+  return validated.success ? validated.data : null;
+}
+
+export function parseStoredGuidance(payload: unknown): CombinedGuidanceOutput | null {
+  const validated = combinedGuidanceSchema.safeParse(payload);
+  return validated.success ? validated.data : null;
+}
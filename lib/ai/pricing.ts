@@ -0,0 +1,107 @@
+import "server-only";
+
+import type { LlmProviderId } from "@/lib/ai/providers";
+
+export type ModelPrice = {
+  // USD per million tokens.
+  input: number;
+  output: number;
+};
+
+// List prices, matched by the longest model-id prefix. Azure deployments and
+// other custom names can be priced with LLM_MODEL_PRICES.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5.1": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+};
+
+// Local servers and fixture replay cost nothing.
+const FREE_PROVIDERS: ReadonlySet<LlmProviderId> = new Set([
+  "openai-compatible",
+  "fixture",
+]);
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== "object" || value === null) return false;
+  const price = value as Record<string, unknown>;
+  return (
+    typeof price.input === "number" &&
+    price.input >= 0 &&
+    typeof price.output === "number" &&
+    price.output >= 0
+  );
+}
+
+/**
+ * `LLM_MODEL_PRICES` is a JSON object of model id to `{ input, output }` USD
+ * per million tokens, merged over the built-in table.
+ */
+function readPriceOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.LLM_MODEL_PRICES;
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_MODEL_PRICES must be a JSON object.");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("LLM_MODEL_PRICES must be a JSON object.");
+  }
+
+  const overrides: Record<string, ModelPrice> = {};
+  for (const [modelId, price] of Object.entries(parsed)) {
+    if (!isModelPrice(price)) {
+      throw new Error(
+        `LLM_MODEL_PRICES["${modelId}"] must be { "input": number, "output": number }.`
+      );
+    }
+    overrides[modelId] = price;
+  }
+  return overrides;
+}
+
+export function findModelPrice(modelId: string): ModelPrice | null {
+  const prices = { ...MODEL_PRICES, ...readPriceOverrides() };
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((key) => modelId.startsWith(key))
+    .sort((left, right) => right.length - left.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+/** Cost in USD, or null when the model has no known price. */
+export function computeLlmCostUsd(input: {
+  provider: LlmProviderId;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+}): number | null {
+  if (FREE_PROVIDERS.has(input.provider)) {
+    return 0;
+  }
+
+  const price = findModelPrice(input.modelId);
+  if (!price) {
+    return null;
+  }
+
+  return (
+    (input.inputTokens * price.input + input.outputTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,348 @@
+import type { PromptDefinition } from "@/lib/ai/prompts/types";
+
+const INSIGHT_SYSTEM_PROMPT_V1 = `You are an insight generation engine for HR-facing performance intelligence. Use only the provided data. Do not invent facts. If data is insufficient, state uncertainty and set confidence to low. Output JSON only with the requested schema.`;
+
+const EXTRACT_SIGNALS_V1 = `Task: Extract atomic signals with evidence from weekly activity data. Signals must be grouped into the dimensions: Execution, Engagement, Collaboration, Growth.
+
+Rules:
+- Use only the provided data.
+- Each signal is a single, observable statement grounded in the data.
+- Each signal must include evidence that cites weekStart, source, and relevant fields.
+- If data is insufficient, return empty arrays for all dimensions.
+- Do NOT include numeric scores or rankings.
+
+Return JSON only with this exact shape:
+{
+  "dimensions": {
+    "Execution": [
+      {
+        "statement": "string",
+        "evidence": [
+          {
+            "source": "github_weekly_activity | slack_weekly_activity",
+            "weekStart": "YYYY-MM-DD",
+            "fields": ["string"],
+            "summary": "string"
+          }
+        ]
+      }
+    ],
+    "Engagement": [ ... ],
+    "Collaboration": [ ... ],
+    "Growth": [ ... ]
+  }
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const REASON_BY_DIMENSION_V1 = `Task: For each dimension, write a 2-3 sentence insight using only the signals provided. Provide supporting signal IDs and a confidence level.
+
+Rules:
+- Use only the provided signals for that dimension.
+- If no signals exist for a dimension, say so explicitly and set confidence to low.
+- If dataSufficiency is partial or insufficient, bias confidence toward low.
+- Do NOT add facts that are not present in the signals.
+- Do NOT include numeric scores.
+
+Return JSON only with this exact shape:
+{
+  "dimensions": {
+    "Execution": {
+      "insight": "string",
+      "supportingSignalIds": ["S1"],
+      "confidence": "low | medium | high"
+    },
+    "Engagement": { ... },
+    "Collaboration": { ... },
+    "Growth": { ... }
+  }
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const SYNTHESIZE_MONTHLY_V1 = `Task: Synthesize monthly insights into an overall summary, risks, and opportunities. Explicitly reconcile conflicting signals if present.
+
+Rules:
+- Use only the provided dimension insights and signals.
+- If data is insufficient, state uncertainty explicitly and set confidence to low.
+- Risks and opportunities must be grounded in the signals.
+- Do NOT include numeric scores.
+
+Return JSON only with this exact shape:
+{
+  "overallSummary": "string",
+  "identifiedRisks": ["string"],
+  "identifiedOpportunities": ["string"],
+  "confidence": "low | medium | high"
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const SYNTHESIZE_QUARTERLY_V1 = `Task: Synthesize quarterly insights into trajectory, strengths, concerns, and assessments. Explicitly reconcile conflicting signals if present.
+
+Rules:
+- Use only the provided dimension insights and signals.
+- If data is insufficient, state uncertainty explicitly and set confidence to low.
+- Evidence snapshots must reference signal IDs and include their evidence.
+- Do NOT include numeric scores.
+
+Return JSON only with this exact shape:
+{
+  "trajectorySummary": "string",
+  "keyStrengths": ["string"],
+  "keyConcerns": ["string"],
+  "burnoutAssessment": "string",
+  "growthAssessment": "string",
+  "retentionAssessment": "string",
+  "recommendedActions": ["string"],
+  "evidenceSnapshots": [
+    {
+      "signalId": "S1",
+      "dimension": "Execution | Engagement | Collaboration | Growth",
+      "evidence": [
+        {
+          "source": "github_weekly_activity | slack_weekly_activity",
+          "weekStart": "YYYY-MM-DD",
+          "fields": ["string"],
+          "summary": "string"
+        }
+      ]
+    }
+  ],
+  "confidence": "low | medium | high"
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const MONTHLY_SINGLE_PASS_V1 = `Task: Execute this full workflow in one pass for the given month:
+1) Signal Extraction
+- Extract atomic signals with evidence from weekly GitHub + Slack data
+- Group signals into Execution, Engagement, Collaboration, Growth
+2) Dimension Reasoning
+- For each dimension, write a short 2-3 sentence insight
+- Include supporting signal IDs and dimension confidence
+3) Insight Synthesis
+- Produce overall summary, identified risks, identified opportunities, and overall confidence
+- Explicitly reconcile conflicting signals if present
+
+Rules:
+- Use only provided data. Do not invent facts.
+- Do not generate numeric scores.
+- Every claim must be grounded in observed signals.
+- If data is insufficient, keep confidence low and state uncertainty.
+
+Return JSON only with this exact shape:
+{
+  "signalsByDimension": {
+    "Execution": [
+      {
+        "signalId": "S1",
+        "statement": "string",
+        "evidence": [
+          {
+            "source": "github_weekly_activity | slack_weekly_activity",
+            "weekStart": "YYYY-MM-DD",
+            "fields": ["string"],
+            "summary": "string"
+          }
+        ]
+      }
+    ],
+    "Engagement": [],
+    "Collaboration": [],
+    "Growth": []
+  },
+  "dimensionInsights": {
+    "Execution": {
+      "insight": "string",
+      "supportingSignalIds": ["S1"],
+      "confidence": "low | medium | high"
+    },
+    "Engagement": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    },
+    "Collaboration": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    },
+    "Growth": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    }
+  },
+  "overallSummary": "string",
+  "identifiedRisks": ["string"],
+  "identifiedOpportunities": ["string"],
+  "confidence": "low | medium | high"
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+// V2 adds the optional `activityAnomalies` input: weekly counts that sit far
+// outside the employee's own baseline.
+const MONTHLY_SINGLE_PASS_V2 = MONTHLY_SINGLE_PASS_V1.replace(
+  "- If data is insufficient, keep confidence low and state uncertainty.",
+  `- If data is insufficient, keep confidence low and state uncertainty.
+- activityAnomalies, when present, lists weeks where a count (metric) spiked or dropped against the employee's own recent baseline. Treat them as signals worth explaining, cite the weekly row for that weekStart and source with the metric as the field, and say whether the surrounding data explains the change.
+- Describe an anomaly as a spike or drop relative to the employee's usual level; do not quote the baseline median or week counts.`
+);
+
+// V3 adds the optional `statCorrections` input: details a manager upheld as
+// wrong after an employee disputed them.
+const MONTHLY_SINGLE_PASS_V3 = MONTHLY_SINGLE_PASS_V2.replace(
+  "- Describe an anomaly as a spike or drop",
+  `- statCorrections, when present, lists details from an earlier insight for this month that were disputed and upheld as wrong. Never repeat a disputed value. Use the employee note, recheck explanation and resolution note to state the detail correctly, or leave it out when the weekly data cannot support a corrected version.
+- Describe an anomaly as a spike or drop`
+);
+
+const QUARTERLY_SINGLE_PASS_V1 = `Task: Execute this full workflow in one pass for the given quarter:
+1) Signal Extraction
+- Extract atomic signals with evidence from weekly GitHub + Slack data
+- Group signals into Execution, Engagement, Collaboration, Growth
+2) Dimension Reasoning
+- For each dimension, write a short 2-3 sentence insight
+- Include supporting signal IDs and dimension confidence
+3) Insight Synthesis
+- Produce trajectory summary, strengths, concerns, burnout/growth/retention assessments, and recommended actions
+- Include evidence snapshots
+- Explicitly reconcile conflicting signals if present
+
+Rules:
+- Use only provided data. Do not invent facts.
+- Do not generate numeric scores.
+- Every claim must be grounded in observed signals.
+- If data is insufficient, keep confidence low and state uncertainty.
+
+Return JSON only with this exact shape:
+{
+  "signalsByDimension": {
+    "Execution": [
+      {
+        "signalId": "S1",
+        "statement": "string",
+        "evidence": [
+          {
+            "source": "github_weekly_activity | slack_weekly_activity",
+            "weekStart": "YYYY-MM-DD",
+            "fields": ["string"],
+            "summary": "string"
+          }
+        ]
+      }
+    ],
+    "Engagement": [],
+    "Collaboration": [],
+    "Growth": []
+  },
+  "dimensionInsights": {
+    "Execution": {
+      "insight": "string",
+      "supportingSignalIds": ["S1"],
+      "confidence": "low | medium | high"
+    },
+    "Engagement": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    },
+    "Collaboration": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    },
+    "Growth": {
+      "insight": "string",
+      "supportingSignalIds": [],
+      "confidence": "low | medium | high"
+    }
+  },
+  "trajectorySummary": "string",
+  "keyStrengths": ["string"],
+  "keyConcerns": ["string"],
+  "burnoutAssessment": "string",
+  "growthAssessment": "string",
+  "retentionAssessment": "string",
+  "recommendedActions": ["string"],
+  "evidenceSnapshots": [
+    {
+      "signalId": "S1",
+      "dimension": "Execution | Engagement | Collaboration | Growth",
+      "evidence": [
+        {
+          "source": "github_weekly_activity | slack_weekly_activity",
+          "weekStart": "YYYY-MM-DD",
+          "fields": ["string"],
+          "summary": "string"
+        }
+      ]
+    }
+  ],
+  "confidence": "low | medium | high"
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+export const INSIGHT_PROMPTS: PromptDefinition[] = [
+  {
+    id: "insights.monthly_single_pass",
+    stage: "insights",
+    versions: [
+      { version: 1, system: INSIGHT_SYSTEM_PROMPT_V1, template: MONTHLY_SINGLE_PASS_V1 },
+      { version: 2, system: INSIGHT_SYSTEM_PROMPT_V1, template: MONTHLY_SINGLE_PASS_V2 },
+      { version: 3, system: INSIGHT_SYSTEM_PROMPT_V1, template: MONTHLY_SINGLE_PASS_V3 },
+    ],
+  },
+  {
+    id: "insights.quarterly_single_pass",
+    stage: "insights",
+    versions: [
+      {
+        version: 1,
+        system: INSIGHT_SYSTEM_PROMPT_V1,
+        template: QUARTERLY_SINGLE_PASS_V1,
+      },
+    ],
+  },
+  {
+    id: "insights.extract_signals",
+    stage: "insights",
+    versions: [
+      { version: 1, system: INSIGHT_SYSTEM_PROMPT_V1, template: EXTRACT_SIGNALS_V1 },
+    ],
+  },
+  {
+    id: "insights.reason_by_dimension",
+    stage: "insights",
+    versions: [
+      { version: 1, system: INSIGHT_SYSTEM_PROMPT_V1, template: REASON_BY_DIMENSION_V1 },
+    ],
+  },
+  {
+    id: "insights.synthesize_monthly",
+    stage: "insights",
+    versions: [
+      { version: 1, system: INSIGHT_SYSTEM_PROMPT_V1, template: SYNTHESIZE_MONTHLY_V1 },
+    ],
+  },
+  {
+    id: "insights.synthesize_quarterly",
+    stage: "insights",
+    versions: [
+      {
+        version: 1,
+        system: INSIGHT_SYSTEM_PROMPT_V1,
+        template: SYNTHESIZE_QUARTERLY_V1,
+      },
+    ],
+  },
+];
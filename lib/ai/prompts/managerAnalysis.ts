@@ -0,0 +1,203 @@
+import type { PromptDefinition } from "@/lib/ai/prompts/types";
+
+const MANAGER_ANALYSIS_SYSTEM_PROMPT_V1 = `You are an analysis engine for manager guidance in an HR intelligence system.
+Use only the provided evidence artifacts.
+Do not invent facts.
+Do not use numeric scoring.
+Do not reference peer comparisons.
+Do not make HR decisions.
+If evidence is partial or insufficient, state uncertainty.
+Return JSON only.`;
+
+const COMBINED_DEBATE_V1 = `Task: Produce two independent assessments from the same evidence.
+
+Global constraints:
+- Use only provided quarterly/monthly artifacts and evidenceCatalog.
+- Do not reprocess weekly data.
+- Do not invent facts.
+- Do not use numeric scoring.
+- Do not make HR decisions.
+- Do not use peer comparisons.
+- If data is partial or insufficient, lower confidence and state uncertainty.
+- Every claim must be evidence-backed.
+- Output JSON only.
+KPI baseline and expectation mapping (qualitative only):
+- Use exactly one label per KPI: "above", "managed", or "below".
+- "managed" means meeting expectations (on target).
+- Do not use numeric scores or percentages for KPI judgments.
+- Include one text graph line where possible in string fields using this format:
+  SkillVsExpectation: Execution[managed] -> Collaboration[above] -> QualityAndReliability[managed] -> GrowthAndOwnership[above] -> SustainableWorkPattern[managed]
+Role baseline: {{ROLE_BASELINE_JSON}}
+
+Role A (Employee Advocate):
+- Assume good faith and contextual constraints.
+- Do not deny facts.
+- Do not reference Role B.
+- stance must be "support_reward".
+- Include KPI expectation labels in arguments where relevant (above/managed/below).
+
+Role B (Performance Examiner):
+- Assume organizational expectations are reasonable.
+- Sustained gaps matter.
+- Do not deny facts.
+- Do not reference Role A.
+- stance must be "caution_reward".
+- Include KPI expectation labels in arguments where relevant (above/managed/below).
+
+Return exactly this JSON shape:
+{
+  "advocateAssessment": {
+    "stance": "support_reward",
+    "arguments": [{ "claim": "string", "evidenceRefs": ["E1"] }],
+    "recommendation": { "bonus": "yes|no|defer", "promotion": "yes|no|not_ready" },
+    "confidence": "low|medium|high"
+  },
+  "examinerAssessment": {
+    "stance": "caution_reward",
+    "arguments": [{ "claim": "string", "evidenceRefs": ["E1"] }],
+    "risks": ["string"],
+    "recommendation": { "bonus": "yes|no|defer", "promotion": "yes|no|not_ready" },
+    "confidence": "low|medium|high"
+  }
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const ARBITER_DECISION_V1 = `Task: Arbitrate between advocate/examiner assessments and produce manager-safe recommendations.
+
+Global constraints:
+- Use only provided quarterly/monthly artifacts and evidenceCatalog.
+- Do not reprocess weekly data.
+- Do not invent facts.
+- Do not use numeric scoring.
+- Do not make HR decisions.
+- Do not use peer comparisons.
+- If data is partial or insufficient, lower confidence and state uncertainty.
+- Every claim must be evidence-backed.
+- Output JSON only.
+KPI baseline and expectation mapping (qualitative only):
+- Use exactly one label per KPI: "above", "managed", or "below".
+- "managed" means meeting expectations (on target).
+- Do not use numeric scores or percentages for KPI judgments.
+- Include one text graph line where possible in string fields using this format:
+  SkillVsExpectation: Execution[managed] -> Collaboration[above] -> QualityAndReliability[managed] -> GrowthAndOwnership[above] -> SustainableWorkPattern[managed]
+Role baseline: {{ROLE_BASELINE_JSON}}
+
+Rules:
+- Explicitly compare both assessments and penalize weak/speculative arguments.
+- Must reference unresolved ambiguity via unresolvedQuestions.
+- rationale and notesForHR must contain citation tokens like refs:[E1,E2].
+- Include at least one KPI summary string using above/managed/below labels.
+- Include one SkillVsExpectation text graph line in rationale or notesForHR.
+- Respect eligibility constraints:
+  - If eligibility.bonus is false, finalRecommendation.bonus must not be "approve".
+  - If eligibility.promotion is false, finalRecommendation.promotion must not be "approve".
+
+Return exactly this JSON shape:
+{
+  "finalRecommendation": {
+    "bonus": "approve|defer|deny",
+    "promotion": "approve|defer|deny"
+  },
+  "rationale": ["string with refs:[E1]"],
+  "unresolvedQuestions": ["string"],
+  "confidence": "low|medium|high",
+  "notesForHR": ["string with refs:[E1]"]
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+const COMBINED_GUIDANCE_V1 = `Task: Generate employee-facing prompts and manager coaching in one response.
+
+Global constraints:
+- Use only provided quarterly/monthly artifacts and evidenceCatalog.
+- Do not reprocess weekly data.
+- Do not invent facts.
+- Do not use numeric scoring.
+- Do not make HR decisions.
+- Do not use peer comparisons.
+- If data is partial or insufficient, lower confidence and state uncertainty.
+- Every claim must be evidence-backed.
+- Output JSON only.
+KPI baseline and expectation mapping (qualitative only):
+- Use exactly one label per KPI: "above", "managed", or "below".
+- "managed" means meeting expectations (on target).
+- Do not use numeric scores or percentages for KPI judgments.
+- Include one text graph line where possible in string fields using this format:
+  SkillVsExpectation: Execution[managed] -> Collaboration[above] -> QualityAndReliability[managed] -> GrowthAndOwnership[above] -> SustainableWorkPattern[managed]
+Role baseline: {{ROLE_BASELINE_JSON}}
+
+Employee prompts rules:
+- Never mention bonus or promotion.
+- Supportive, non-judgmental tone.
+- No peer comparisons.
+- Every prompt must include evidenceRefs.
+- At least one employee prompt should reflect KPI expectation framing in plain language.
+
+Manager coaching rules:
+- Focus on conversation framing.
+- Include doNotAssume list.
+- Cite evidence via evidenceRefs.
+- Avoid definitive labels.
+- Include KPI expectation checks (above/managed/below) in focusAreas.
+- Include one SkillVsExpectation text graph line in managerCoaching.focusAreas.
+
+Return exactly this JSON shape:
+{
+  "employeePings": [
+    {
+      "theme": "workload|growth|collaboration|focus",
+      "message": "string",
+      "evidenceRefs": ["E1"],
+      "confidence": "low|medium|high"
+    }
+  ],
+  "managerCoaching": {
+    "focusAreas": ["string"],
+    "suggestedQuestions": ["string"],
+    "doNotAssume": ["string"],
+    "evidenceRefs": ["E1"],
+    "confidence": "low|medium|high"
+  }
+}
+
+Input JSON:
+{{INPUT_JSON}}`;
+
+export const MANAGER_ANALYSIS_PROMPTS: PromptDefinition[] = [
+  {
+    id: "manager_debate.combined_debate",
+    stage: "manager_debate",
+    versions: [
+      {
+        version: 1,
+        system: MANAGER_ANALYSIS_SYSTEM_PROMPT_V1,
+        template: COMBINED_DEBATE_V1,
+      },
+    ],
+  },
+  {
+    id: "manager_arbiter.arbiter_decision",
+    stage: "manager_arbiter",
+    versions: [
+      {
+        version: 1,
+        system: MANAGER_ANALYSIS_SYSTEM_PROMPT_V1,
+        template: ARBITER_DECISION_V1,
+      },
+    ],
+  },
+  {
+    id: "manager_guidance.combined_guidance",
+    stage: "manager_guidance",
+    versions: [
+      {
+        version: 1,
+        system: MANAGER_ANALYSIS_SYSTEM_PROMPT_V1,
+        template: COMBINED_GUIDANCE_V1,
+      },
+    ],
+  },
+];
@@ -0,0 +1,154 @@
+import "server-only";
+
+import { INSIGHT_PROMPTS } from "@/lib/ai/prompts/insights";
+import { MANAGER_ANALYSIS_PROMPTS } from "@/lib/ai/prompts/managerAnalysis";
+import { SLACK_CLASSIFIER_PROMPTS } from "@/lib/ai/prompts/slackClassifier";
+import { STAT_RECHECK_PROMPTS } from "@/lib/ai/prompts/statRecheck";
+import type { PromptDefinition } from "@/lib/ai/prompts/types";
+import {
+  findPromptPin,
+  listPromptPins,
+  type PromptPin,
+} from "@/lib/services/promptPins";
+
+export type PromptStamp = {
+  promptId: string;
+  promptVersion: number;
+};
+
+export type ResolvedPrompt = PromptStamp & {
+  system: string;
+  template: string;
+  pinned: boolean;
+};
+
+export type PromptSummary = {
+  id: string;
+  stage: PromptDefinition["stage"];
+  versions: number[];
+  latestVersion: number;
+  activeVersion: number;
+  pin: PromptPin | null;
+};
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  ...INSIGHT_PROMPTS,
+  ...SLACK_CLASSIFIER_PROMPTS,
+  ...MANAGER_ANALYSIS_PROMPTS,
+  ...STAT_RECHECK_PROMPTS,
+];
+
+const PLACEHOLDER_PATTERN = /\{\{([A-Z0-9_]+)\}\}/g;
+
+// Process-local versions that take precedence over `prompt_pin`; only the
+// offline eval harness sets them.
+let versionOverrides: ReadonlyMap<string, number> = new Map();
+
+export class PromptNotFoundError extends Error {
+  constructor(readonly promptId: string, readonly version?: number) {
+    super(
+      version === undefined
+        ? `Prompt "${promptId}" is not registered.`
+        : `Prompt "${promptId}" has no version ${version}.`
+    );
+    this.name = "PromptNotFoundError";
+  }
+}
+
+export function listPromptDefinitions(): PromptDefinition[] {
+  return PROMPT_DEFINITIONS;
+}
+
+export function findPromptDefinition(promptId: string): PromptDefinition | null {
+  return PROMPT_DEFINITIONS.find((definition) => definition.id === promptId) ?? null;
+}
+
+export function latestPromptVersion(definition: PromptDefinition): number {
+  return definition.versions[definition.versions.length - 1].version;
+}
+
+export async function listPromptSummaries(): Promise<PromptSummary[]> {
+  const pins = new Map(
+    (await listPromptPins()).map((pin) => [pin.promptId, pin])
+  );
+  return PROMPT_DEFINITIONS.map((definition) => {
+    const pin = pins.get(definition.id) ?? null;
+    const latestVersion = latestPromptVersion(definition);
+    return {
+      id: definition.id,
+      stage: definition.stage,
+      versions: definition.versions.map((entry) => entry.version),
+      latestVersion,
+      activeVersion: pin?.version ?? latestVersion,
+      pin,
+    };
+  });
+}
+
+/**
+ * Forces `resolvePrompt` to use the given versions in this process, ignoring
+ * pins. Pass an empty object to go back to pins and latest versions.
+ */
+export function setPromptVersionOverrides(overrides: Record<string, number>): void {
+  for (const [promptId, version] of Object.entries(overrides)) {
+    const definition = findPromptDefinition(promptId);
+    if (!definition) {
+      throw new PromptNotFoundError(promptId);
+    }
+    if (!definition.versions.some((entry) => entry.version === version)) {
+      throw new PromptNotFoundError(promptId, version);
+    }
+  }
+  versionOverrides = new Map(Object.entries(overrides));
+}
+
+/**
+ * The version to use for `promptId`: a process-local override when one is
+ * set, then its pinned version when a pin exists in `prompt_pin`, otherwise
+ * the latest registered one.
+ */
+export async function resolvePrompt(promptId: string): Promise<ResolvedPrompt> {
+  const definition = findPromptDefinition(promptId);
+  if (!definition) {
+    throw new PromptNotFoundError(promptId);
+  }
+
+  const override = versionOverrides.get(promptId);
+  const pin = override === undefined ? await findPromptPin(promptId) : null;
+  const version = override ?? pin?.version ?? latestPromptVersion(definition);
+  const match = definition.versions.find((entry) => entry.version === version);
+  if (!match) {
+    throw new PromptNotFoundError(promptId, version);
+  }
+
+  return {
+    promptId,
+    promptVersion: match.version,
+    system: match.system,
+    template: match.template,
+    pinned: Boolean(pin),
+  };
+}
+
+/**
+ * Fills every `{{NAME}}` placeholder in one pass, so values that happen to
+ * contain placeholder syntax are left alone.
+ */
+export function renderPrompt(
+  prompt: ResolvedPrompt,
+  variables: Record<string, string>
+): string {
+  return prompt.template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(
+        `Prompt "${prompt.promptId}" v${prompt.promptVersion} needs a value for {{${name}}}.`
+      );
+    }
+    return value;
+  });
+}
+
+export function toPromptStamp(prompt: ResolvedPrompt): PromptStamp {
+  return { promptId: prompt.promptId, promptVersion: prompt.promptVersion };
+}
@@ -0,0 +1,40 @@
+import type { PromptDefinition } from "@/lib/ai/prompts/types";
+
+const SLACK_CLASSIFIER_SYSTEM_PROMPT_V1 = `You classify workplace Slack messages for a weekly collaboration summary.
+Use only the provided messages.
+Do not invent facts.
+Do not judge the person, only describe the communication.
+Paraphrase examples; never quote secrets, credentials, or personal details.
+Return JSON only.`;
+
+const MESSAGE_CLASSIFICATION_V1 = `Group the Slack messages below into at most {{MAX_SUMMARIES}} recurring themes for the week starting {{WEEK_START}}.
+
+For each theme return:
+- theme: short lowercase label (e.g. "release coordination")
+- intent: collaboration|support|blocking|status update|passive
+- sentiment: positive|neutral|neutral-negative
+- example: one-sentence paraphrase of a representative message
+
+Output JSON shape:
+{
+  "messageSummaries": [
+    { "theme": "string", "intent": "collaboration", "sentiment": "neutral", "example": "string" }
+  ]
+}
+
+Messages JSON:
+{{MESSAGES_JSON}}`;
+
+export const SLACK_CLASSIFIER_PROMPTS: PromptDefinition[] = [
+  {
+    id: "slack_classifier.message_classification",
+    stage: "slack_classifier",
+    versions: [
+      {
+        version: 1,
+        system: SLACK_CLASSIFIER_SYSTEM_PROMPT_V1,
+        template: MESSAGE_CLASSIFICATION_V1,
+      },
+    ],
+  },
+];
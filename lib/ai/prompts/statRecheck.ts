@@ -0,0 +1,47 @@
+import type { PromptDefinition } from "@/lib/ai/prompts/types";
+
+const STAT_RECHECK_SYSTEM_PROMPT_V1 = `You recheck a single activity detail that an employee or manager has disputed.
+Use only the weekly source rows provided.
+Do not invent facts or speculate about the person.
+If the rows cannot confirm or refute the detail, say so.
+Return JSON only.`;
+
+const DISPUTE_REVIEW_V1 = `A {{SCOPE}} activity detail for period {{PERIOD_KEY}} was disputed.
+
+Detail label: {{DETAIL_LABEL}}
+Detail shown: {{DETAIL_VALUE}}
+Dispute note: {{NOTE}}
+
+Compare the detail with the weekly source rows below and decide:
+- accurate: the rows support the detail as shown
+- inaccurate: the rows contradict the detail, or it overstates or understates them
+- inconclusive: the rows do not contain enough to decide
+
+Explain the verdict in two to four sentences that cite the relevant weeks and fields with their values. Address the dispute note directly.
+
+Output JSON shape:
+{
+  "verdict": "accurate | inaccurate | inconclusive",
+  "explanation": "string",
+  "evidenceWeeks": ["YYYY-MM-DD"]
+}
+
+GitHub weekly rows JSON:
+{{GITHUB_WEEKLY_JSON}}
+
+Slack weekly rows JSON:
+{{SLACK_WEEKLY_JSON}}`;
+
+export const STAT_RECHECK_PROMPTS: PromptDefinition[] = [
+  {
+    id: "stat_recheck.dispute_review",
+    stage: "stat_recheck",
+    versions: [
+      {
+        version: 1,
+        system: STAT_RECHECK_SYSTEM_PROMPT_V1,
+        template: DISPUTE_REVIEW_V1,
+      },
+    ],
+  },
+];
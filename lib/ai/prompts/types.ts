@@ -0,0 +1,15 @@
+import type { LlmStage } from "@/lib/ai/providers";
+
+export type PromptVersion = {
+  version: number;
+  system: string;
+  // `{{NAME}}` placeholders are filled by `renderPrompt`.
+  template: string;
+};
+
+export type PromptDefinition = {
+  id: string;
+  stage: LlmStage;
+  // Ascending by version; the last entry is used unless a pin says otherwise.
+  versions: PromptVersion[];
+};
@@ -0,0 +1,177 @@
+import "server-only";
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createAzure } from "@ai-sdk/azure";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+
+export type LlmProviderId =
+  | "openai"
+  | "anthropic"
+  | "azure"
+  | "openai-compatible"
+  | "fixture";
+
+/** Call sites that can be pointed at a different provider or model. */
+export type LlmStage =
+  | "insights"
+  | "slack_classifier"
+  | "manager_debate"
+  | "manager_arbiter"
+  | "manager_guidance"
+  | "stat_recheck"
+  | "ad_hoc";
+
+export type LlmTarget = {
+  stage: LlmStage;
+  provider: LlmProviderId;
+  modelId: string;
+};
+
+const LLM_PROVIDERS: readonly LlmProviderId[] = [
+  "openai",
+  "anthropic",
+  "azure",
+  "openai-compatible",
+  "fixture",
+];
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+function readEnv(name: string): string {
+  return process.env[name]?.trim() ?? "";
+}
+
+function stageEnvSuffix(stage: LlmStage): string {
+  return stage.toUpperCase();
+}
+
+function parseProvider(raw: string, source: string): LlmProviderId {
+  const provider = raw.toLowerCase();
+  if (!(LLM_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(
+      `${source} must be one of ${LLM_PROVIDERS.join(", ")}; got "${raw}".`
+    );
+  }
+  return provider as LlmProviderId;
+}
+
+function defaultModelFor(provider: LlmProviderId): string {
+  switch (provider) {
+    case "openai":
+      return readEnv("OPENAI_MODEL") || "gpt-5.1";
+    case "anthropic":
+      return readEnv("ANTHROPIC_MODEL") || "claude-sonnet-4-5";
+    case "azure":
+      return readEnv("AZURE_OPENAI_DEPLOYMENT");
+    case "openai-compatible":
+      return readEnv("LOCAL_LLM_MODEL") || "llama3.1";
+    case "fixture":
+      return "fixture-replay";
+  }
+}
+
+/**
+ * Resolves which provider and model a stage uses. `LLM_PROVIDER_<STAGE>` and
+ * `LLM_MODEL_<STAGE>` override the global `LLM_PROVIDER` and the provider's
+ * default model. Only reads the environment, so it is safe at import time.
+ */
+export function resolveLlmTarget(stage: LlmStage, modelOverride?: string): LlmTarget {
+  const suffix = stageEnvSuffix(stage);
+  const stageProvider = readEnv(`LLM_PROVIDER_${suffix}`);
+  const globalProvider = readEnv("LLM_PROVIDER");
+
+  const provider = stageProvider
+    ? parseProvider(stageProvider, `LLM_PROVIDER_${suffix}`)
+    : globalProvider
+      ? parseProvider(globalProvider, "LLM_PROVIDER")
+      : "openai";
+
+  const modelId =
+    modelOverride?.trim() ||
+    readEnv(`LLM_MODEL_${suffix}`) ||
+    defaultModelFor(provider);
+
+  return { stage, provider, modelId };
+}
+
+function readApiKey(name: string): string {
+  const apiKey = (process.env[name] ?? "").replace(/\s+/g, "");
+
+  if (!apiKey) {
+    throw new Error(
+      `Missing ${name}. Set it in your server environment (e.g. .env.local).`
+    );
+  }
+
+  if (/[^\x21-\x7E]/.test(apiKey)) {
+    throw new Error(
+      `${name} contains invalid characters. Ensure it is plain ASCII with no whitespace or hidden characters.`
+    );
+  }
+
+  return apiKey;
+}
+
+// Clients are created on first use so that importing `lib/ai` never requires
+// credentials for providers the current configuration does not use.
+const clients = new Map<LlmProviderId, (modelId: string) => LanguageModel>();
+
+function createClient(provider: LlmProviderId): (modelId: string) => LanguageModel {
+  switch (provider) {
+    case "openai": {
+      const openai = createOpenAI({ apiKey: readApiKey("OPENAI_API_KEY") });
+      return (modelId) => openai(modelId);
+    }
+    case "anthropic": {
+      const anthropic = createAnthropic({
+        apiKey: readApiKey("ANTHROPIC_API_KEY"),
+      });
+      return (modelId) => anthropic(modelId);
+    }
+    case "azure": {
+      const resourceName = readEnv("AZURE_OPENAI_RESOURCE_NAME");
+      const baseURL = readEnv("AZURE_OPENAI_BASE_URL");
+      if (!resourceName && !baseURL) {
+        throw new Error(
+          "Missing AZURE_OPENAI_RESOURCE_NAME or AZURE_OPENAI_BASE_URL for the azure provider."
+        );
+      }
+      const azure = createAzure({
+        resourceName: resourceName || undefined,
+        baseURL: baseURL || undefined,
+        apiKey: readApiKey("AZURE_OPENAI_API_KEY"),
+        apiVersion: readEnv("AZURE_OPENAI_API_VERSION") || undefined,
+      });
+      return (modelId) => azure(modelId);
+    }
+    case "openai-compatible": {
+      // Ollama and vLLM serve the chat completions API, not responses.
+      const local = createOpenAI({
+        name: "openai-compatible",
+        baseURL: readEnv("LOCAL_LLM_BASE_URL") || DEFAULT_LOCAL_BASE_URL,
+        apiKey: readEnv("LOCAL_LLM_API_KEY") || "not-needed",
+      });
+      return (modelId) => local.chat(modelId);
+    }
+    case "fixture":
+      throw new Error(
+        "The fixture provider replays recorded responses and has no language model."
+      );
+  }
+}
+
+export function getLanguageModel(target: LlmTarget): LanguageModel {
+  if (!target.modelId) {
+    throw new Error(
+      `No model configured for stage "${target.stage}" on provider "${target.provider}".`
+    );
+  }
+
+  let client = clients.get(target.provider);
+  if (!client) {
+    client = createClient(target.provider);
+    clients.set(target.provider, client);
+  }
+  return client(target.modelId);
+}
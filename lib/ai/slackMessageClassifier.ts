@@ -0,0 +1,73 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { generateStructuredOnce } from "@/lib/ai/generate-structured";
+import { renderPrompt, resolvePrompt } from "@/lib/ai/prompts/registry";
+import type { MessageSummary } from "@/lib/db/seed-data";
+
+const MAX_MESSAGES_PER_PROMPT = 80;
+const MAX_MESSAGE_LENGTH = 400;
+const MAX_SUMMARIES = 5;
+
+const messageSummarySchema = z
+  .object({
+    theme: z.string().min(1),
+    intent: z.enum([
+      "collaboration",
+      "support",
+      "blocking",
+      "status update",
+      "passive",
+    ]),
+    sentiment: z.enum(["positive", "neutral", "neutral-negative"]),
+    example: z.string().min(1),
+  })
+  .strict();
+
+const classificationSchema = z
+  .object({
+    messageSummaries: z.array(messageSummarySchema).max(MAX_SUMMARIES),
+  })
+  .strict();
+
+function truncateMessage(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (normalized.length <= MAX_MESSAGE_LENGTH) {
+    return normalized;
+  }
+  return `${normalized.slice(0, MAX_MESSAGE_LENGTH)}...`;
+}
+
+export async function classifySlackMessages(input: {
+  employeeEmail?: string;
+  weekStart: string;
+  messages: string[];
+}): Promise<MessageSummary[]> {
+  const messages = input.messages
+    .map(truncateMessage)
+    .filter((message) => message.length > 0)
+    .slice(0, MAX_MESSAGES_PER_PROMPT);
+
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const prompt = await resolvePrompt("slack_classifier.message_classification");
+
+  const result = await generateStructuredOnce({
+    prompt: renderPrompt(prompt, {
+      MAX_SUMMARIES: String(MAX_SUMMARIES),
+      WEEK_START: input.weekStart,
+      MESSAGES_JSON: JSON.stringify(messages, null, 2),
+    }),
+    system: prompt.system,
+    stage: "slack_classifier",
+    employeeEmail: input.employeeEmail,
+    periodKey: input.weekStart.slice(0, 7),
+    schema: classificationSchema,
+    schemaName: "slack_message_classification",
+  });
+
+  return result.object.messageSummaries;
+}
@@ -0,0 +1,99 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { generateStructuredOnce } from "@/lib/ai/generate-structured";
+import type {
+  WeeklyGithubActivity,
+  WeeklySlackActivity,
+} from "@/lib/ai/insightGenerator";
+import {
+  renderPrompt,
+  resolvePrompt,
+  toPromptStamp,
+  type PromptStamp,
+} from "@/lib/ai/prompts/registry";
+
+export type StatRecheckVerdict = "accurate" | "inaccurate" | "inconclusive";
+
+export type StatRecheckOutput = {
+  verdict: StatRecheckVerdict;
+  explanation: string;
+  evidenceWeeks: string[];
+  model: string;
+  prompt: PromptStamp;
+};
+
+const statRecheckSchema = z
+  .object({
+    verdict: z.enum(["accurate", "inaccurate", "inconclusive"]),
+    explanation: z.string().min(1),
+    evidenceWeeks: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  })
+  .strict();
+
+function toISODate(value: string | Date): string {
+  if (typeof value === "string") {
+    return value.slice(0, 10);
+  }
+  return value.toISOString().slice(0, 10);
+}
+
+/**
+ * Asks the model whether a disputed detail matches the weekly rows it was
+ * derived from. Evidence weeks the model cites without a source row are
+ * dropped.
+ */
+export async function recheckDisputedStat(input: {
+  employeeEmail: string;
+  scope: "weekly" | "monthly";
+  periodKey: string;
+  detailLabel: string;
+  detailValue: string;
+  note: string;
+  githubWeekly: WeeklyGithubActivity[];
+  slackWeekly: WeeklySlackActivity[];
+}): Promise<StatRecheckOutput> {
+  const githubWeekly = input.githubWeekly.map((week) => ({
+    ...week,
+    weekStart: toISODate(week.weekStart),
+  }));
+  const slackWeekly = input.slackWeekly.map((week) => ({
+    ...week,
+    weekStart: toISODate(week.weekStart),
+  }));
+
+  const prompt = await resolvePrompt("stat_recheck.dispute_review");
+  const result = await generateStructuredOnce({
+    prompt: renderPrompt(prompt, {
+      SCOPE: input.scope,
+      PERIOD_KEY: input.periodKey,
+      DETAIL_LABEL: input.detailLabel,
+      DETAIL_VALUE: input.detailValue,
+      NOTE: input.note,
+      GITHUB_WEEKLY_JSON: JSON.stringify(githubWeekly, null, 2),
+      SLACK_WEEKLY_JSON: JSON.stringify(slackWeekly, null, 2),
+    }),
+    system: prompt.system,
+    stage: "stat_recheck",
+    employeeEmail: input.employeeEmail,
+    periodKey: input.periodKey.slice(0, 7),
+    schema: statRecheckSchema,
+    schemaName: "stat_recheck",
+  });
+
+  const knownWeeks = new Set([
+    ...githubWeekly.map((week) => week.weekStart),
+    ...slackWeekly.map((week) => week.weekStart),
+  ]);
+
+  return {
+    verdict: result.object.verdict,
+    explanation: result.object.explanation,
+    evidenceWeeks: [...new Set(result.object.evidenceWeeks)].filter((week) =>
+      knownWeeks.has(week)
+    ),
+    model: result.model,
+    prompt: toPromptStamp(prompt),
+  };
+}
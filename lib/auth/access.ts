@@ -0,0 +1,129 @@
+import "server-only";
+
+import { notFound, redirect } from "next/navigation";
+import { NextResponse } from "next/server";
+
+import { getSession, type Session } from "@/lib/auth/session";
+import type { UserRole } from "@/lib/auth/sessionToken";
+import { isInReportingChain, listReportEmails } from "@/lib/services/orgHierarchy";
+
+export type ApiAuthorizationResult =
+  | { ok: true; session: Session }
+  | { ok: false; response: NextResponse };
+
+export async function listManagedEmployeeEmails(managerEmail: string): Promise<string[]> {
+  return listReportEmails(managerEmail);
+}
+
+export async function listAccessibleEmployeeEmails(session: Session): Promise<string[]> {
+  if (session.role === "engineer") {
+    return [session.email];
+  }
+  if (session.role === "hr") {
+    return [];
+  }
+  return listManagedEmployeeEmails(session.email);
+}
+
+/**
+ * Engineers may only read their own data; managers may read anyone below them
+ * in `org_reporting_line`, including skip-level reports. HR reviews fairness
+ * reports only and has no access to employee dashboards.
+ */
+export async function canAccessEmployee(
+  session: Session,
+  employeeEmail: string
+): Promise<boolean> {
+  if (session.role === "engineer") {
+    return session.email === employeeEmail;
+  }
+  if (session.role === "hr") {
+    return false;
+  }
+  return isInReportingChain(session.email, employeeEmail);
+}
+
+function buildSignInPath(nextPath: string): string {
+  return `/signin?next=${encodeURIComponent(nextPath)}`;
+}
+
+export async function requirePageSession(input: {
+  nextPath: string;
+  role?: UserRole;
+}): Promise<Session> {
+  const session = await getSession();
+  if (!session) {
+    redirect(buildSignInPath(input.nextPath));
+  }
+  if (input.role && session.role !== input.role) {
+    notFound();
+  }
+  return session;
+}
+
+// Unauthorized pages 404 rather than 403 so employee emails cannot be probed.
+export async function requireEmployeePageAccess(input: {
+  employeeEmail: string;
+  nextPath: string;
+  role?: UserRole;
+}): Promise<Session> {
+  const session = await requirePageSession(input);
+  if (!(await canAccessEmployee(session, input.employeeEmail))) {
+    notFound();
+  }
+  return session;
+}
+
+export async function authorizeApiRequest(input: {
+  employeeEmail?: string;
+  // Any one of the listed roles is accepted.
+  role?: UserRole | UserRole[];
+} = {}): Promise<ApiAuthorizationResult> {
+  const session = await getSession();
+  if (!session) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Authentication required." }, { status: 401 }),
+    };
+  }
+
+  const roles = input.role === undefined ? [] : [input.role].flat();
+  if (roles.length > 0 && !roles.includes(session.role)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `This action requires the ${roles.join(" or ")} role.` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (input.employeeEmail && !(await canAccessEmployee(session, input.employeeEmail))) {
+    return { ok: false, response: forbidEmployeeAccess() };
+  }
+
+  return { ok: true, session };
+}
+
+function forbidEmployeeAccess(): NextResponse {
+  return NextResponse.json(
+    { error: "You do not have access to this employee's data." },
+    { status: 403 }
+  );
+}
+
+/**
+ * Checks every employee a request addresses, for routes that act on several
+ * employees at once. Null when the session may access all of them.
+ */
+export async function authorizeEmployeeEmails(
+  session: Session,
+  employeeEmails: string[]
+): Promise<NextResponse | null> {
+  for (const employeeEmail of new Set(employeeEmails)) {
+    if (!(await canAccessEmployee(session, employeeEmail))) {
+      return forbidEmployeeAccess();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+"use server";
+
+import { redirect } from "next/navigation";
+
+import { endSession, resolveHomePath, startSession } from "@/lib/auth/session";
+import { verifyLocalCredentials } from "@/lib/auth/users";
+
+function readFormString(formData: FormData, key: string): string {
+  const value = formData.get(key);
+  return typeof value === "string" ? value : "";
+}
+
+const NEXT_PATH_BASE = "http://next.invalid";
+
+// Only same-origin relative paths are honored to avoid open redirects. The
+// value is resolved the way a browser would, so "//host", "/\host" and
+// control characters cannot escape to another origin.
+function resolveSafeNextPath(value: string): string | null {
+  if (!value.startsWith("/")) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, NEXT_PATH_BASE);
+  } catch {
+    return null;
+  }
+  if (url.origin !== NEXT_PATH_BASE) {
+    return null;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export async function signInAction(formData: FormData) {
+  const email = readFormString(formData, "email").trim();
+  const password = readFormString(formData, "password");
+  const nextPath = resolveSafeNextPath(readFormString(formData, "next"));
+
+  const user = email && password
+    ? await verifyLocalCredentials({ email, password })
+    : null;
+
+  if (!user) {
+    const params = new URLSearchParams({ error: "invalid_credentials" });
+    if (nextPath) {
+      params.set("next", nextPath);
+    }
+    redirect(`/signin?${params.toString()}`);
+  }
+
+  const session = await startSession(user);
+  redirect(nextPath ?? resolveHomePath(session));
+}
+
+export async function signOutAction() {
+  await endSession();
+  redirect("/signin");
+}
@@ -0,0 +1,18 @@
+import "server-only";
+
+import { timingSafeEqual } from "node:crypto";
+
+/** Checks `Authorization: Bearer $CRON_SECRET`; always false when unset. */
+export function isCronRequestAuthorized(req: Request): boolean {
+  const secret = process.env.CRON_SECRET?.trim();
+  if (!secret) {
+    return false;
+  }
+
+  const provided = Buffer.from(req.headers.get("authorization") ?? "", "utf8");
+  const expected = Buffer.from(`Bearer ${secret}`, "utf8");
+  if (provided.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(provided, expected);
+}
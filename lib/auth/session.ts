@@ -0,0 +1,57 @@
+import "server-only";
+
+import { cookies } from "next/headers";
+
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS,
+  decodeSessionToken,
+  encodeSessionToken,
+  readAuthSecret,
+  type SessionPayload,
+} from "@/lib/auth/sessionToken";
+import type { AuthUser } from "@/lib/auth/users";
+
+export type Session = SessionPayload;
+
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return decodeSessionToken(
+    cookieStore.get(SESSION_COOKIE_NAME)?.value,
+    readAuthSecret()
+  );
+}
+
+export async function startSession(user: AuthUser): Promise<Session> {
+  const session: Session = {
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, encodeSessionToken(session, readAuthSecret()), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+
+  return session;
+}
+
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+export function resolveHomePath(session: Session): string {
+  if (session.role === "hr") {
+    return "/hr";
+  }
+  return session.role === "manager"
+    ? "/manager"
+    : `/engineer/${encodeURIComponent(session.email)}`;
+}
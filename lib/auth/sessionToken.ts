@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Shared by `proxy.ts` and server code, so this module must not import
+// "server-only" or anything that touches the database.
+
+export const SESSION_COOKIE_NAME = "prfrd_session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 12;
+
+const MIN_AUTH_SECRET_LENGTH = 32;
+
+export type UserRole = "engineer" | "manager" | "hr";
+
+export type SessionPayload = {
+  email: string;
+  name: string | null;
+  role: UserRole;
+  expiresAt: number;
+};
+
+export function readAuthSecret(): string {
+  const value = process.env.AUTH_SECRET?.trim();
+  if (!value || value.length < MIN_AUTH_SECRET_LENGTH) {
+    throw new Error(
+      `Missing AUTH_SECRET (at least ${MIN_AUTH_SECRET_LENGTH} characters). Set it in your server environment (e.g. .env.local).`
+    );
+  }
+  return value;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return createHmac("sha256", secret).update(encodedPayload, "utf8").digest("base64url");
+}
+
+function isUserRole(value: unknown): value is UserRole {
+  return value === "engineer" || value === "manager" || value === "hr";
+}
+
+export function encodeSessionToken(payload: SessionPayload, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload), "utf8").toString(
+    "base64url"
+  );
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+export function decodeSessionToken(
+  token: string | undefined,
+  secret: string,
+  now: Date = new Date()
+): SessionPayload | null {
+  if (!token) return null;
+
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const providedBuffer = Buffer.from(signature, "utf8");
+  const expectedBuffer = Buffer.from(sign(encodedPayload, secret), "utf8");
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== "object") return null;
+  const candidate = parsed as Partial<SessionPayload>;
+  if (
+    typeof candidate.email !== "string" ||
+    !isUserRole(candidate.role) ||
+    typeof candidate.expiresAt !== "number" ||
+    candidate.expiresAt * 1000 <= now.getTime()
+  ) {
+    return null;
+  }
+
+  return {
+    email: candidate.email,
+    name: typeof candidate.name === "string" ? candidate.name : null,
+    role: candidate.role,
+    expiresAt: candidate.expiresAt,
+  };
+}
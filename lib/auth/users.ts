@@ -0,0 +1,89 @@
+import "server-only";
+
+import { timingSafeEqual } from "node:crypto";
+
+import { eq } from "drizzle-orm";
+
+import type { UserRole } from "@/lib/auth/sessionToken";
+import { db } from "@/lib/db/config";
+import { employees } from "@/lib/db/schema";
+import { hasReports } from "@/lib/services/orgHierarchy";
+
+export type AuthUser = {
+  email: string;
+  name: string | null;
+  role: UserRole;
+};
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function readHrEmails(): Set<string> {
+  return new Set(
+    (process.env.HR_EMAILS ?? "")
+      .split(",")
+      .map(normalizeEmail)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Emails in HR_EMAILS sign in as HR, whether or not they are employees.
+ * Anyone with reports in `org_reporting_line` signs in as a manager (directors
+ * included); everyone else must exist in `employees` and signs in as an
+ * engineer.
+ */
+export async function resolveUserByEmail(rawEmail: string): Promise<AuthUser | null> {
+  const email = normalizeEmail(rawEmail);
+
+  const isManager = await hasReports(email);
+
+  const [employeeRow] = await db
+    .select({ name: employees.name })
+    .from(employees)
+    .where(eq(employees.email, email))
+    .limit(1);
+
+  if (readHrEmails().has(email)) {
+    return { email, name: employeeRow?.name ?? null, role: "hr" };
+  }
+  if (isManager) {
+    return { email, name: employeeRow?.name ?? null, role: "manager" };
+  }
+  if (employeeRow) {
+    return { email, name: employeeRow.name, role: "engineer" };
+  }
+  return null;
+}
+
+function readLocalPassword(): string | undefined {
+  const value = process.env.AUTH_LOCAL_PASSWORD?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Local credentials provider: every known user shares AUTH_LOCAL_PASSWORD.
+ * Stand-in until an OIDC provider is wired up; disabled when the variable is
+ * unset.
+ */
+export async function verifyLocalCredentials(input: {
+  email: string;
+  password: string;
+}): Promise<AuthUser | null> {
+  const expected = readLocalPassword();
+  if (!expected) {
+    return null;
+  }
+
+  const providedBuffer = Buffer.from(input.password, "utf8");
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    return null;
+  }
+
+  return resolveUserByEmail(input.email);
+}
@@ -1,12 +1,33 @@
+import "server-only";
+
+import { asc, desc, eq } from "drizzle-orm";
+import { revalidateTag, unstable_cache } from "next/cache";
+
+import { db } from "@/lib/db/config";
 import {
-  employeesData,
-  githubWeeklyData,
-  slackWeeklyData,
+  employees as employeesTable,
+  githubWeeklyActivity,
+  slackWeeklyActivity,
+} from "@/lib/db/schema";
+import type {
+  GithubWeekRow,
+  IssueSummary,
+  MessageSummary,
+  PullRequestSummary,
+  SlackWeekRow,
 } from "@/lib/db/seed-data";
 
-export type Employee = (typeof employeesData)[number];
-export type GithubWeek = (typeof githubWeeklyData)[number];
-export type SlackWeek = (typeof slackWeeklyData)[number];
+export type Employee = {
+  name: string;
+  email: string;
+  role: string;
+};
+export type GithubWeek = GithubWeekRow;
+export type SlackWeek = SlackWeekRow;
+
+const DASHBOARD_CACHE_TAG = "dashboard";
+// Time-based fallback for writes that happen outside a request (CLI ingestion).
+const DASHBOARD_REVALIDATE_SECONDS = 300;
 
 type WeeklyRow = {
   employeeEmail: string;
@@ -73,35 +94,206 @@ function average(values: number[]): number | undefined {
   return total / values.length;
 }
 
-export const latestGithubWeekStart = getLatestWeekStart(githubWeeklyData);
-export const latestSlackWeekStart = getLatestWeekStart(slackWeeklyData);
+export function engineerDashboardCacheTag(email: string): string {
+  return `${DASHBOARD_CACHE_TAG}:engineer:${email}`;
+}
+
+const githubWeekColumns = {
+  employeeEmail: githubWeeklyActivity.employeeEmail,
+  weekStart: githubWeeklyActivity.weekStart,
+  pullRequestSummaries: githubWeeklyActivity.pullRequestSummaries,
+  issueSummaries: githubWeeklyActivity.issueSummaries,
+  prsMerged: githubWeeklyActivity.prsMerged,
+  prReviewsGiven: githubWeeklyActivity.prReviewsGiven,
+  afterHoursRatio: githubWeeklyActivity.afterHoursRatio,
+  weekendRatio: githubWeeklyActivity.weekendRatio,
+};
+
+const slackWeekColumns = {
+  employeeEmail: slackWeeklyActivity.employeeEmail,
+  weekStart: slackWeeklyActivity.weekStart,
+  messageSummaries: slackWeeklyActivity.messageSummaries,
+  messageCount: slackWeeklyActivity.messageCount,
+  replyCount: slackWeeklyActivity.replyCount,
+  reactionsReceived: slackWeeklyActivity.reactionsReceived,
+  afterHoursRatio: slackWeeklyActivity.afterHoursRatio,
+  weekendRatio: slackWeeklyActivity.weekendRatio,
+};
+
+function toGithubWeek(
+  row: Omit<GithubWeek, "pullRequestSummaries" | "issueSummaries"> & {
+    pullRequestSummaries: unknown;
+    issueSummaries: unknown;
+  }
+): GithubWeek {
+  return {
+    ...row,
+    pullRequestSummaries: Array.isArray(row.pullRequestSummaries)
+      ? (row.pullRequestSummaries as PullRequestSummary[])
+      : [],
+    issueSummaries: Array.isArray(row.issueSummaries)
+      ? (row.issueSummaries as IssueSummary[])
+      : [],
+  };
+}
+
+function toSlackWeek(
+  row: Omit<SlackWeek, "messageSummaries"> & { messageSummaries: unknown }
+): SlackWeek {
+  return {
+    ...row,
+    messageSummaries: Array.isArray(row.messageSummaries)
+      ? (row.messageSummaries as MessageSummary[])
+      : [],
+  };
+}
 
-export const employees = [...employeesData];
+type DashboardOverview = {
+  employees: Employee[];
+  engineerSnapshots: EngineerSnapshot[];
+  latestGithubWeekStart: string;
+  latestSlackWeekStart: string;
+};
+
+const loadDashboardOverview = unstable_cache(
+  async (): Promise<DashboardOverview> => {
+    const [employeeRows, githubRows, slackRows] = await Promise.all([
+      db
+        .select({
+          name: employeesTable.name,
+          email: employeesTable.email,
+          role: employeesTable.role,
+        })
+        .from(employeesTable)
+        .orderBy(asc(employeesTable.id)),
+      // DISTINCT ON keeps only the latest week per employee.
+      db
+        .selectDistinctOn([githubWeeklyActivity.employeeEmail], githubWeekColumns)
+        .from(githubWeeklyActivity)
+        .orderBy(
+          githubWeeklyActivity.employeeEmail,
+          desc(githubWeeklyActivity.weekStart)
+        ),
+      db
+        .selectDistinctOn([slackWeeklyActivity.employeeEmail], slackWeekColumns)
+        .from(slackWeeklyActivity)
+        .orderBy(
+          slackWeeklyActivity.employeeEmail,
+          desc(slackWeeklyActivity.weekStart)
+        ),
+    ]);
 
-export const engineerSnapshots: EngineerSnapshot[] = employeesData.map(
-  (employee) => ({
-    employee,
-    github: getLatestByEmail(githubWeeklyData, employee.email),
-    slack: getLatestByEmail(slackWeeklyData, employee.email),
-  })
+    const githubWeeks = githubRows.map(toGithubWeek);
+    const slackWeeks = slackRows.map(toSlackWeek);
+
+    return {
+      employees: employeeRows,
+      engineerSnapshots: employeeRows.map((employee) => ({
+        employee,
+        github: getLatestByEmail(githubWeeks, employee.email),
+        slack: getLatestByEmail(slackWeeks, employee.email),
+      })),
+      latestGithubWeekStart: getLatestWeekStart(githubWeeks),
+      latestSlackWeekStart: getLatestWeekStart(slackWeeks),
+    };
+  },
+  ["dashboard-overview"],
+  { tags: [DASHBOARD_CACHE_TAG], revalidate: DASHBOARD_REVALIDATE_SECONDS }
 );
 
-export function getEmployeeByEmail(email: string) {
-  return employeesData.find((employee) => employee.email === email);
+async function loadEngineerWeeklyRows(
+  email: string
+): Promise<{ githubRows: GithubWeek[]; slackRows: SlackWeek[] }> {
+  return unstable_cache(
+    async () => {
+      const [githubRows, slackRows] = await Promise.all([
+        db
+          .select(githubWeekColumns)
+          .from(githubWeeklyActivity)
+          .where(eq(githubWeeklyActivity.employeeEmail, email))
+          .orderBy(desc(githubWeeklyActivity.weekStart)),
+        db
+          .select(slackWeekColumns)
+          .from(slackWeeklyActivity)
+          .where(eq(slackWeeklyActivity.employeeEmail, email))
+          .orderBy(desc(slackWeeklyActivity.weekStart)),
+      ]);
+
+      return {
+        githubRows: githubRows.map(toGithubWeek),
+        slackRows: slackRows.map(toSlackWeek),
+      };
+    },
+    ["dashboard-engineer-weekly", email],
+    {
+      tags: [DASHBOARD_CACHE_TAG, engineerDashboardCacheTag(email)],
+      revalidate: DASHBOARD_REVALIDATE_SECONDS,
+    }
+  )();
+}
+
+/**
+ * Drops cached dashboard reads after ingestion or report generation. Outside
+ * a request scope (e.g. the ingestion CLI) Next has no cache to revalidate, so
+ * the time-based fallback picks the new rows up instead.
+ */
+export function revalidateDashboardData(employeeEmails?: string[]): void {
+  const tags = employeeEmails
+    ? employeeEmails.map(engineerDashboardCacheTag)
+    : [DASHBOARD_CACHE_TAG];
+
+  try {
+    for (const tag of tags) {
+      revalidateTag(tag, "max");
+    }
+  } catch (error) {
+    console.warn("[dashboard] skipped cache revalidation", {
+      tags,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
-export function getEngineerSnapshotByEmail(email: string) {
-  return engineerSnapshots.find((snapshot) => snapshot.employee.email === email);
+export async function getLatestWeekStarts(): Promise<{
+  github: string;
+  slack: string;
+}> {
+  const overview = await loadDashboardOverview();
+  return {
+    github: overview.latestGithubWeekStart,
+    slack: overview.latestSlackWeekStart,
+  };
+}
+
+export async function getEmployees(): Promise<Employee[]> {
+  const overview = await loadDashboardOverview();
+  return overview.employees;
+}
+
+export async function getEngineerSnapshots(): Promise<EngineerSnapshot[]> {
+  const overview = await loadDashboardOverview();
+  return overview.engineerSnapshots;
+}
+
+export async function getEmployeeByEmail(email: string) {
+  const overview = await loadDashboardOverview();
+  return overview.employees.find((employee) => employee.email === email);
+}
+
+export async function getEngineerSnapshotByEmail(email: string) {
+  const overview = await loadDashboardOverview();
+  return overview.engineerSnapshots.find(
+    (snapshot) => snapshot.employee.email === email
+  );
 }
 
-export function getEngineerWeeklyHistoryByEmail(
+export async function getEngineerWeeklyHistoryByEmail(
   email: string
-): EngineerWeeklyHistory[] {
-  const githubRows = getByEmail(githubWeeklyData, email);
-  const slackRows = getByEmail(slackWeeklyData, email);
+): Promise<EngineerWeeklyHistory[]> {
+  const { githubRows, slackRows } = await loadEngineerWeeklyRows(email);
   const byWeek = new Map<string, EngineerWeeklyHistory>();
 
-  for (const row of githubRows) {
+  for (const row of getByEmail(githubRows, email)) {
     const current = byWeek.get(row.weekStart) ?? {
       weekStart: row.weekStart,
     };
@@ -109,7 +301,7 @@ export function getEngineerWeeklyHistoryByEmail(
     byWeek.set(row.weekStart, current);
   }
 
-  for (const row of slackRows) {
+  for (const row of getByEmail(slackRows, email)) {
     const current = byWeek.get(row.weekStart) ?? {
       weekStart: row.weekStart,
     };
@@ -122,10 +314,10 @@ export function getEngineerWeeklyHistoryByEmail(
   );
 }
 
-export function getEngineerMonthlySummariesByEmail(
+export async function getEngineerMonthlySummariesByEmail(
   email: string
-): EngineerMonthlySummary[] {
-  const weeklyHistory = getEngineerWeeklyHistoryByEmail(email);
+): Promise<EngineerMonthlySummary[]> {
+  const weeklyHistory = await getEngineerWeeklyHistoryByEmail(email);
   const summaryByMonth = new Map<
     string,
     {
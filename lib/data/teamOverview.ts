@@ -0,0 +1,73 @@
+import "server-only";
+
+import type { EngineerSnapshot } from "@/lib/data/dashboard";
+
+export function buildTeamOverview(engineerSnapshots: EngineerSnapshot[]) {
+  const githubRows = engineerSnapshots.flatMap((snapshot) =>
+    snapshot.github ? [snapshot.github] : []
+  );
+  const slackRows = engineerSnapshots.flatMap((snapshot) =>
+    snapshot.slack ? [snapshot.slack] : []
+  );
+
+  const totals = {
+    prsMerged: githubRows.reduce((sum, row) => sum + row.prsMerged, 0),
+    prReviews: githubRows.reduce((sum, row) => sum + row.prReviewsGiven, 0),
+    messages: slackRows.reduce((sum, row) => sum + row.messageCount, 0),
+    replies: slackRows.reduce((sum, row) => sum + row.replyCount, 0),
+    corePrs: githubRows.reduce(
+      (sum, row) =>
+        sum +
+        row.pullRequestSummaries.filter((summary) => summary.impact === "core").length,
+      0
+    ),
+  };
+
+  const average = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const avgGithubAfterHours = average(
+    githubRows.map((row) => row.afterHoursRatio)
+  );
+  const avgSlackWeekend = average(slackRows.map((row) => row.weekendRatio));
+
+  const employeeLookup = new Map(
+    engineerSnapshots.map((snapshot) => [
+      snapshot.employee.email,
+      snapshot.employee.name,
+    ])
+  );
+
+  const corePrHighlights = githubRows
+    .flatMap((row) =>
+      row.pullRequestSummaries
+        .filter((summary) => summary.impact === "core")
+        .map((summary) => ({
+          summary,
+          employeeEmail: row.employeeEmail,
+        }))
+    )
+    .slice(0, 5);
+
+  const blockingHighlights = slackRows
+    .flatMap((row) =>
+      row.messageSummaries
+        .filter((summary) => summary.intent === "blocking")
+        .map((summary) => ({
+          summary,
+          employeeEmail: row.employeeEmail,
+        }))
+    )
+    .slice(0, 5);
+
+  return {
+    totals,
+    avgGithubAfterHours,
+    avgSlackWeekend,
+    employeeLookup,
+    corePrHighlights,
+    blockingHighlights,
+  };
+}
@@ -1,4 +1,5 @@
 import {
+  type AnyPgColumn,
   boolean,
   date,
   index,
@@ -19,6 +20,7 @@ export const employees = pgTable("employees", {
   email: varchar("email", { length: 100 }).notNull().unique(),
   name: varchar("name", { length: 100 }).notNull(),
   role: varchar("role", { length: 64 }).notNull(),
+  githubLogin: varchar("github_login", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -98,41 +100,66 @@ export const slackWeeklyActivity = pgTable(
   ]
 );
 
-export const employeeMonthlyInsights = pgTable("employee_monthly_insights", {
-  employeeEmail: varchar("employee_email", { length: 100 })
-    .notNull()
-    .references(() => employees.email, { onDelete: "cascade" }),
-  month: varchar("month", { length: 7 }).notNull(),
-  executionInsight: text("execution_insight").notNull(),
-  engagementInsight: text("engagement_insight").notNull(),
-  collaborationInsight: text("collaboration_insight").notNull(),
-  growthInsight: text("growth_insight").notNull(),
-  overallSummary: text("overall_summary").notNull(),
-  identifiedRisks: jsonb("identified_risks")
-    .notNull()
-    .default(sql`'[]'::jsonb`),
-  identifiedOpportunities: jsonb("identified_opportunities")
-    .notNull()
-    .default(sql`'[]'::jsonb`),
-  supportingSignals: jsonb("supporting_signals")
-    .notNull()
-    .default(sql`'[]'::jsonb`),
-  dataSufficiency: jsonb("data_sufficiency")
-    .notNull()
-    .default(sql`'{}'::jsonb`),
-  confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
-  generatedByModel: varchar("generated_by_model", { length: 64 }).notNull(),
-  modelVersion: varchar("model_version", { length: 64 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const employeeMonthlyInsights = pgTable(
+  "employee_monthly_insights",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    month: varchar("month", { length: 7 }).notNull(),
+    revision: integer("revision").notNull().default(1),
+    executionInsight: text("execution_insight").notNull(),
+    engagementInsight: text("engagement_insight").notNull(),
+    collaborationInsight: text("collaboration_insight").notNull(),
+    growthInsight: text("growth_insight").notNull(),
+    overallSummary: text("overall_summary").notNull(),
+    identifiedRisks: jsonb("identified_risks")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    identifiedOpportunities: jsonb("identified_opportunities")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    supportingSignals: jsonb("supporting_signals")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    dataSufficiency: jsonb("data_sufficiency")
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
+    generatedByModel: varchar("generated_by_model", { length: 64 }).notNull(),
+    modelVersion: varchar("model_version", { length: 64 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
+    // Unsupported claims found by the claim verifier before saving.
+    claimViolations: jsonb("claim_violations")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    isCurrent: boolean("is_current").notNull().default(true),
+    supersededAt: timestamp("superseded_at"),
+  },
+  (table) => [
+    uniqueIndex("employee_monthly_insights_revision_idx").on(
+      table.employeeEmail,
+      table.month,
+      table.revision
+    ),
+    uniqueIndex("employee_monthly_insights_current_idx")
+      .on(table.employeeEmail, table.month)
+      .where(sql`"is_current" = true`),
+  ]
+);
 
 export const employeeQuarterlyInsights = pgTable(
   "employee_quarterly_insights",
   {
+    id: serial("id").primaryKey(),
     employeeEmail: varchar("employee_email", { length: 100 })
       .notNull()
       .references(() => employees.email, { onDelete: "cascade" }),
     quarter: varchar("quarter", { length: 7 }).notNull(),
+    revision: integer("revision").notNull().default(1),
     trajectorySummary: text("trajectory_summary").notNull(),
     keyStrengths: jsonb("key_strengths").notNull().default(sql`'[]'::jsonb`),
     keyConcerns: jsonb("key_concerns").notNull().default(sql`'[]'::jsonb`),
@@ -151,8 +178,26 @@ export const employeeQuarterlyInsights = pgTable(
     confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
     generatedByModel: varchar("generated_by_model", { length: 64 }).notNull(),
     modelVersion: varchar("model_version", { length: 64 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
+    // Unsupported claims found by the claim verifier before saving.
+    claimViolations: jsonb("claim_violations")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
     createdAt: timestamp("created_at").defaultNow().notNull(),
-  }
+    isCurrent: boolean("is_current").notNull().default(true),
+    supersededAt: timestamp("superseded_at"),
+  },
+  (table) => [
+    uniqueIndex("employee_quarterly_insights_revision_idx").on(
+      table.employeeEmail,
+      table.quarter,
+      table.revision
+    ),
+    uniqueIndex("employee_quarterly_insights_current_idx")
+      .on(table.employeeEmail, table.quarter)
+      .where(sql`"is_current" = true`),
+  ]
 );
 
 export const employeeAnalysisContext = pgTable(
@@ -192,7 +237,18 @@ export const analysisRun = pgTable(
     dataSufficiency: jsonb("data_sufficiency")
       .notNull()
       .default(sql`'{}'::jsonb`),
+    // The full stage input, so a resumed run prompts against the same
+    // evidence its stored outputs cite. Null for runs from before it existed.
+    coreInput: jsonb("core_input"),
+    // Guidance output and prompt stamp, stored before its rows are written so
+    // a resume after a persistence failure does not call the model again.
+    guidanceOutput: jsonb("guidance_output"),
     stageUsage: jsonb("stage_usage").notNull().default(sql`'{}'::jsonb`),
+    // Fairness policy matches per stage; see lib/ai/fairnessPolicy.ts.
+    fairnessReport: jsonb("fairness_report").notNull().default(sql`'{}'::jsonb`),
+    resumeCount: integer("resume_count").notNull().default(0),
+    // Touched while the run executes; a stale running row is marked failed.
+    heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
     startedAt: timestamp("started_at").defaultNow().notNull(),
     completedAt: timestamp("completed_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -207,6 +263,21 @@ export const analysisRun = pgTable(
   ]
 );
 
+// Append-only progress log for a run; the SSE endpoint tails it by id.
+export const analysisRunEvent = pgTable(
+  "analysis_run_event",
+  {
+    id: serial("id").primaryKey(),
+    runId: integer("run_id")
+      .notNull()
+      .references(() => analysisRun.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type", { length: 32 }).notNull(),
+    payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("analysis_run_event_run_idx").on(table.runId, table.id)]
+);
+
 export const analysisDebateResponse = pgTable(
   "analysis_debate_response",
   {
@@ -219,6 +290,8 @@ export const analysisDebateResponse = pgTable(
     confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
     generatedByModel: varchar("generated_by_model", { length: 64 }).notNull(),
     modelVersion: varchar("model_version", { length: 64 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
@@ -240,6 +313,8 @@ export const analysisArbiterDecision = pgTable(
     confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
     generatedByModel: varchar("generated_by_model", { length: 64 }).notNull(),
     modelVersion: varchar("model_version", { length: 64 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [uniqueIndex("analysis_arbiter_decision_run_idx").on(table.runId)]
@@ -260,9 +335,23 @@ export const employeePrompt = pgTable(
     message: text("message").notNull(),
     evidenceRefs: jsonb("evidence_refs").notNull().default(sql`'[]'::jsonb`),
     confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
+    // Inbox state: pending, replied, snoozed or not_relevant. Replies and
+    // not-relevant notes become evidence for the next analysis run.
+    status: varchar("status", { length: 16 }).notNull().default("pending"),
+    responseText: text("response_text"),
+    respondedAt: timestamp("responded_at"),
+    snoozedUntil: timestamp("snoozed_until"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
-  (table) => [index("employee_prompt_run_idx").on(table.runId)]
+  (table) => [
+    index("employee_prompt_run_idx").on(table.runId),
+    index("employee_prompt_employee_quarter_idx").on(
+      table.employeeEmail,
+      table.quarter
+    ),
+  ]
 );
 
 export const managerFeedback = pgTable(
@@ -280,7 +369,418 @@ export const managerFeedback = pgTable(
     doNotAssume: jsonb("do_not_assume").notNull().default(sql`'[]'::jsonb`),
     evidenceRefs: jsonb("evidence_refs").notNull().default(sql`'[]'::jsonb`),
     confidenceLevel: varchar("confidence_level", { length: 16 }).notNull(),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [uniqueIndex("manager_feedback_run_idx").on(table.runId)]
 );
+
+// One row per suggested question or focus area in manager_feedback, so the
+// manager can track follow-ups. Items still open in an earlier quarter are
+// carried into the next analysis run as evidence.
+export const managerFeedbackItem = pgTable(
+  "manager_feedback_item",
+  {
+    id: serial("id").primaryKey(),
+    runId: integer("run_id")
+      .notNull()
+      .references(() => analysisRun.id, { onDelete: "cascade" }),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    quarter: varchar("quarter", { length: 7 }).notNull(),
+    // question or focus_area; position is the index in the source array.
+    kind: varchar("kind", { length: 16 }).notNull(),
+    position: integer("position").notNull(),
+    text: text("text").notNull(),
+    // open, asked (questions) or addressed (focus areas).
+    status: varchar("status", { length: 16 }).notNull().default("open"),
+    // The employee's answer for questions; the manager's note for focus areas.
+    responseText: text("response_text"),
+    updatedBy: varchar("updated_by", { length: 100 }),
+    resolvedAt: timestamp("resolved_at"),
+    updatedAt: timestamp("updated_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("manager_feedback_item_run_kind_position_idx").on(
+      table.runId,
+      table.kind,
+      table.position
+    ),
+    index("manager_feedback_item_employee_quarter_idx").on(
+      table.employeeEmail,
+      table.quarter
+    ),
+  ]
+);
+
+export const oneOnOne = pgTable(
+  "one_on_one",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    managerEmail: varchar("manager_email", { length: 100 }).notNull(),
+    meetingDate: date("meeting_date").notNull(),
+    // Quarter of the meeting date; notes are evidence for that quarter onward.
+    quarter: varchar("quarter", { length: 7 }).notNull(),
+    // Where the agenda came from: the analysis run and the risk-flag week.
+    runId: integer("run_id").references(() => analysisRun.id, {
+      onDelete: "set null",
+    }),
+    riskWeekStart: date("risk_week_start"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("one_on_one_employee_date_idx").on(table.employeeEmail, table.meetingDate),
+  ]
+);
+
+export const oneOnOneItem = pgTable(
+  "one_on_one_item",
+  {
+    id: serial("id").primaryKey(),
+    meetingId: integer("meeting_id")
+      .notNull()
+      .references(() => oneOnOne.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    // suggested_question, unresolved_question or risk_flag.
+    source: varchar("source", { length: 24 }).notNull(),
+    // manager_feedback_item id for suggested questions.
+    feedbackItemId: integer("feedback_item_id"),
+    text: text("text").notNull(),
+    notes: text("notes"),
+    notedBy: varchar("noted_by", { length: 100 }),
+    notedAt: timestamp("noted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("one_on_one_item_meeting_position_idx").on(
+      table.meetingId,
+      table.position
+    ),
+  ]
+);
+
+// History of rule matches from lib/services/riskRules.ts. A flag opens in the
+// first week its rule matches and closes in the first week it stops matching.
+export const riskFlag = pgTable(
+  "risk_flag",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    ruleId: varchar("rule_id", { length: 48 }).notNull(),
+    label: varchar("label", { length: 120 }).notNull(),
+    severity: varchar("severity", { length: 8 }).notNull(),
+    status: varchar("status", { length: 8 }).notNull().default("open"),
+    openedWeek: date("opened_week").notNull(),
+    lastMatchedWeek: date("last_matched_week").notNull(),
+    closedWeek: date("closed_week"),
+    // The latest match: weeks at or above the threshold and their values.
+    evidence: jsonb("evidence").notNull().default(sql`'{}'::jsonb`),
+    openedAt: timestamp("opened_at").defaultNow().notNull(),
+    closedAt: timestamp("closed_at"),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("risk_flag_employee_opened_idx").on(table.employeeEmail, table.openedWeek),
+    uniqueIndex("risk_flag_open_rule_idx")
+      .on(table.employeeEmail, table.ruleId)
+      .where(sql`"status" = 'open'`),
+  ]
+);
+
+// Sustained-load alerts from lib/services/burnoutAlerts.ts. An alert opens
+// (and DMs the manager once) when the load crosses the threshold and clears
+// when it falls back under, so the next crossing alerts again.
+export const burnoutAlert = pgTable(
+  "burnout_alert",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    managerEmail: varchar("manager_email", { length: 100 }),
+    status: varchar("status", { length: 8 }).notNull().default("open"),
+    openedWeek: date("opened_week").notNull(),
+    lastMatchedWeek: date("last_matched_week").notNull(),
+    // The newest week with data that was evaluated, and how many of the
+    // consecutive weeks up to it no longer matched.
+    lastEvaluatedWeek: date("last_evaluated_week").notNull(),
+    quietWeeks: integer("quiet_weeks").notNull().default(0),
+    clearedWeek: date("cleared_week"),
+    // The weekly loads behind the latest match and the policy that matched.
+    evidence: jsonb("evidence").notNull().default(sql`'{}'::jsonb`),
+    slackChannelId: varchar("slack_channel_id", { length: 32 }),
+    slackTs: varchar("slack_ts", { length: 32 }),
+    notifiedAt: timestamp("notified_at"),
+    deliveryAttempts: integer("delivery_attempts").notNull().default(0),
+    deliveryError: text("delivery_error"),
+    openedAt: timestamp("opened_at").defaultNow().notNull(),
+    clearedAt: timestamp("cleared_at"),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("burnout_alert_employee_opened_idx").on(table.employeeEmail, table.openedWeek),
+    uniqueIndex("burnout_alert_open_employee_idx")
+      .on(table.employeeEmail)
+      .where(sql`"status" = 'open'`),
+  ]
+);
+
+// Weekly counts that sit far outside the employee's own rolling baseline, from
+// lib/services/activityAnomalies.ts. Re-detecting a week replaces its rows.
+export const activityAnomaly = pgTable(
+  "activity_anomaly",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    weekStart: date("week_start").notNull(),
+    source: varchar("source", { length: 32 }).notNull(),
+    metric: varchar("metric", { length: 32 }).notNull(),
+    direction: varchar("direction", { length: 8 }).notNull(),
+    value: integer("value").notNull(),
+    baselineMedian: numeric("baseline_median", {
+      precision: 8,
+      scale: 2,
+      mode: "number",
+    }).notNull(),
+    baselineMad: numeric("baseline_mad", { precision: 8, scale: 2, mode: "number" }).notNull(),
+    baselineWeeks: integer("baseline_weeks").notNull(),
+    // Robust z-score: distance from the median in scaled MADs, signed.
+    score: numeric("score", { precision: 8, scale: 2, mode: "number" }).notNull(),
+    // (value - median) / median; null when the median is zero.
+    relativeChange: numeric("relative_change", {
+      precision: 8,
+      scale: 2,
+      mode: "number",
+    }),
+    detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("activity_anomaly_employee_week_metric_idx").on(
+      table.employeeEmail,
+      table.weekStart,
+      table.metric
+    ),
+    index("activity_anomaly_week_idx").on(table.weekStart),
+  ]
+);
+
+export const ingestionRun = pgTable(
+  "ingestion_run",
+  {
+    id: serial("id").primaryKey(),
+    weekStart: date("week_start").notNull(),
+    trigger: varchar("trigger", { length: 16 }).notNull(),
+    status: varchar("status", { length: 16 }).notNull().default("running"),
+    githubRowsUpserted: integer("github_rows_upserted").notNull().default(0),
+    slackRowsUpserted: integer("slack_rows_upserted").notNull().default(0),
+    failures: jsonb("failures").notNull().default(sql`'[]'::jsonb`),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("ingestion_run_week_created_idx").on(table.weekStart, table.createdAt),
+    uniqueIndex("ingestion_run_active_week_idx")
+      .on(table.weekStart)
+      .where(sql`"status" = 'running'`),
+  ]
+);
+
+export const team = pgTable(
+  "team",
+  {
+    id: serial("id").primaryKey(),
+    slug: varchar("slug", { length: 64 }).notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    parentTeamId: integer("parent_team_id").references(
+      (): AnyPgColumn => team.id,
+      { onDelete: "set null" }
+    ),
+    leadEmail: varchar("lead_email", { length: 100 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("team_slug_idx").on(table.slug)]
+);
+
+// One row per person (engineers and managers alike); managers and directors
+// do not need an `employees` row, so neither side references it.
+export const orgReportingLine = pgTable(
+  "org_reporting_line",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 }).notNull(),
+    managerEmail: varchar("manager_email", { length: 100 }).notNull(),
+    teamId: integer("team_id").references(() => team.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("org_reporting_line_employee_idx").on(table.employeeEmail),
+    index("org_reporting_line_manager_idx").on(table.managerEmail),
+  ]
+);
+
+export const backgroundJob = pgTable(
+  "background_job",
+  {
+    id: serial("id").primaryKey(),
+    kind: varchar("kind", { length: 48 }).notNull(),
+    payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`),
+    // Subject of the job, used for access checks on the status endpoint.
+    employeeEmail: varchar("employee_email", { length: 100 }),
+    requestedBy: varchar("requested_by", { length: 100 }),
+    status: varchar("status", { length: 16 }).notNull().default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    runAfter: timestamp("run_after").defaultNow().notNull(),
+    lockedBy: varchar("locked_by", { length: 64 }),
+    lockedAt: timestamp("locked_at"),
+    result: jsonb("result"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("background_job_claim_idx").on(table.status, table.runAfter),
+    index("background_job_employee_idx").on(table.employeeEmail, table.createdAt),
+  ]
+);
+
+// Per-minute request/token counters per provider and stage, shared by every
+// process that calls an LLM provider; see lib/ai/llmRateLimiter.ts.
+export const llmRateWindow = pgTable(
+  "llm_rate_window",
+  {
+    id: serial("id").primaryKey(),
+    providerKey: varchar("provider_key", { length: 64 }).notNull(),
+    windowStart: timestamp("window_start").notNull(),
+    requestCount: integer("request_count").notNull().default(0),
+    tokenCount: integer("token_count").notNull().default(0),
+  },
+  (table) => [
+    uniqueIndex("llm_rate_window_key_start_idx").on(
+      table.providerKey,
+      table.windowStart
+    ),
+  ]
+);
+
+// Null limits are unlimited; teams without a row have no budget.
+export const teamLlmBudget = pgTable("team_llm_budget", {
+  teamId: integer("team_id")
+    .primaryKey()
+    .references(() => team.id, { onDelete: "cascade" }),
+  dailyTokenLimit: integer("daily_token_limit"),
+  monthlyTokenLimit: integer("monthly_token_limit"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const teamLlmUsage = pgTable(
+  "team_llm_usage",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id")
+      .notNull()
+      .references(() => team.id, { onDelete: "cascade" }),
+    // "day" or "month"; periodStart is the first day of the period.
+    period: varchar("period", { length: 8 }).notNull(),
+    periodStart: date("period_start").notNull(),
+    tokensUsed: integer("tokens_used").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("team_llm_usage_period_idx").on(
+      table.teamId,
+      table.period,
+      table.periodStart
+    ),
+  ]
+);
+
+// One row per live LLM call, including structured-output repair attempts.
+// Cost is computed at write time from lib/ai/pricing.ts and is null for
+// models without a known price.
+export const llmUsageLedger = pgTable(
+  "llm_usage_ledger",
+  {
+    id: serial("id").primaryKey(),
+    provider: varchar("provider", { length: 32 }).notNull(),
+    model: varchar("model", { length: 128 }).notNull(),
+    stage: varchar("stage", { length: 32 }).notNull(),
+    employeeEmail: varchar("employee_email", { length: 100 }),
+    // Month ("2025-01") or quarter ("2025-Q1") the call was made for.
+    periodKey: varchar("period_key", { length: 16 }),
+    inputTokens: integer("input_tokens").notNull().default(0),
+    outputTokens: integer("output_tokens").notNull().default(0),
+    totalTokens: integer("total_tokens").notNull().default(0),
+    costUsd: numeric("cost_usd", { precision: 12, scale: 6, mode: "number" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("llm_usage_ledger_created_idx").on(table.createdAt),
+    index("llm_usage_ledger_employee_idx").on(table.employeeEmail, table.createdAt),
+  ]
+);
+
+// Active version override per prompt id; prompts without a row use their
+// latest registered version (lib/ai/prompts/registry.ts).
+export const promptPin = pgTable("prompt_pin", {
+  promptId: varchar("prompt_id", { length: 96 }).primaryKey(),
+  version: integer("version").notNull(),
+  reason: text("reason"),
+  pinnedBy: varchar("pinned_by", { length: 100 }),
+  pinnedAt: timestamp("pinned_at").defaultNow().notNull(),
+});
+
+// An employee or manager disputing a stat shown on the activity sheet. The
+// recheck job fills the verdict; a manager then upholds or rejects it.
+export const statDispute = pgTable(
+  "stat_dispute",
+  {
+    id: serial("id").primaryKey(),
+    employeeEmail: varchar("employee_email", { length: 100 })
+      .notNull()
+      .references(() => employees.email, { onDelete: "cascade" }),
+    raisedBy: varchar("raised_by", { length: 100 }).notNull(),
+    scope: varchar("scope", { length: 16 }).notNull(),
+    // Week start (YYYY-MM-DD) for weekly scope, month (YYYY-MM) for monthly.
+    periodKey: varchar("period_key", { length: 10 }).notNull(),
+    detailLabel: varchar("detail_label", { length: 200 }).notNull(),
+    detailValue: text("detail_value").notNull(),
+    note: text("note").notNull(),
+    status: varchar("status", { length: 16 }).notNull().default("open"),
+    recheckJobId: integer("recheck_job_id"),
+    recheckVerdict: varchar("recheck_verdict", { length: 16 }),
+    recheckExplanation: text("recheck_explanation"),
+    recheckEvidenceWeeks: jsonb("recheck_evidence_weeks")
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    recheckedByModel: varchar("rechecked_by_model", { length: 64 }),
+    promptId: varchar("prompt_id", { length: 96 }),
+    promptVersion: integer("prompt_version"),
+    recheckedAt: timestamp("rechecked_at"),
+    resolvedBy: varchar("resolved_by", { length: 100 }),
+    resolutionNote: text("resolution_note"),
+    resolvedAt: timestamp("resolved_at"),
+    regenerationJobId: integer("regeneration_job_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("stat_dispute_employee_created_idx").on(
+      table.employeeEmail,
+      table.createdAt
+    ),
+    index("stat_dispute_status_idx").on(table.status, table.createdAt),
+  ]
+);
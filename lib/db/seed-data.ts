@@ -1,4 +1,4 @@
-type PullRequestSummary = {
+export type PullRequestSummary = {
   type: "feature" | "fix" | "refactor" | "infra";
   area: string;
   impact: "core" | "edge";
@@ -8,13 +8,13 @@ type PullRequestSummary = {
   merged: boolean;
 };
 
-type IssueSummary = {
+export type IssueSummary = {
   category: "design discussion" | "bug" | "tech debt" | "proposal";
   summary: string;
   outcome: "accepted" | "deferred" | "rejected";
 };
 
-type GithubWeekRow = {
+export type GithubWeekRow = {
   employeeEmail: string;
   weekStart: string;
   pullRequestSummaries: PullRequestSummary[];
@@ -25,14 +25,14 @@ type GithubWeekRow = {
   weekendRatio: number;
 };
 
-type MessageSummary = {
+export type MessageSummary = {
   theme: string;
   intent: "collaboration" | "support" | "blocking" | "status update" | "passive";
   sentiment: "positive" | "neutral" | "neutral-negative";
   example: string;
 };
 
-type SlackWeekRow = {
+export type SlackWeekRow = {
   employeeEmail: string;
   weekStart: string;
   messageSummaries: MessageSummary[];
@@ -104,6 +104,34 @@ export const employeeAnalysisContextData = [
   },
 ];
 
+export const teamsData = [
+  {
+    slug: "engineering",
+    name: "Engineering",
+    parentSlug: null,
+    leadEmail: "director@company.com",
+  },
+  {
+    slug: "applied-ai",
+    name: "Applied AI",
+    parentSlug: "engineering",
+    leadEmail: "manager@company.com",
+  },
+];
+
+export const orgReportingLineData = [
+  {
+    employeeEmail: "manager@company.com",
+    managerEmail: "director@company.com",
+    teamSlug: "engineering",
+  },
+  ...employeeAnalysisContextData.map((row) => ({
+    employeeEmail: row.employeeEmail,
+    managerEmail: row.managerEmail,
+    teamSlug: "applied-ai",
+  })),
+];
+
 export const githubWeeklyData: GithubWeekRow[] = [
   {
     employeeEmail: "alice@company.com",
@@ -0,0 +1,104 @@
+import {
+  employeeAnalysisContextData,
+  employeesData,
+  githubWeeklyData,
+  slackWeeklyData,
+  type GithubWeekRow,
+  type SlackWeekRow,
+} from "@/lib/db/seed-data";
+
+export type GoldenPeriod = {
+  periodKey: string;
+  githubWeekly: GithubWeekRow[];
+  slackWeekly: SlackWeekRow[];
+};
+
+export type GoldenCase = {
+  employeeEmail: string;
+  role: string;
+  managerEmail: string;
+  eligibility: {
+    bonus: boolean;
+    promotion: boolean;
+  };
+  quarter: GoldenPeriod;
+  // Sorted, and always the three months of `quarter`.
+  months: GoldenPeriod[];
+};
+
+function quarterKey(weekStart: string): string {
+  const [year, month] = weekStart.split("-");
+  return `${year}-Q${Math.floor((Number(month) - 1) / 3) + 1}`;
+}
+
+function monthsOfQuarter(quarter: string): string[] {
+  const [year, q] = quarter.split("-Q");
+  const firstMonth = (Number(q) - 1) * 3 + 1;
+  return [firstMonth, firstMonth + 1, firstMonth + 2].map(
+    (month) => `${year}-${String(month).padStart(2, "0")}`
+  );
+}
+
+function periodOf(
+  periodKey: string,
+  githubWeekly: GithubWeekRow[],
+  slackWeekly: SlackWeekRow[],
+  keyOf: (weekStart: string) => string
+): GoldenPeriod {
+  return {
+    periodKey,
+    githubWeekly: githubWeekly.filter((row) => keyOf(row.weekStart) === periodKey),
+    slackWeekly: slackWeekly.filter((row) => keyOf(row.weekStart) === periodKey),
+  };
+}
+
+/**
+ * One case per seeded employee and quarter, grouped the same way
+ * `generateEmployeeReports` buckets weekly rows. The seed data is fixed, so
+ * two eval runs always see identical inputs.
+ */
+export function buildGoldenSet(
+  filter: { employeeEmails?: string[] } = {}
+): GoldenCase[] {
+  const cases: GoldenCase[] = [];
+
+  for (const employee of employeesData) {
+    if (filter.employeeEmails && !filter.employeeEmails.includes(employee.email)) {
+      continue;
+    }
+    const context = employeeAnalysisContextData.find(
+      (row) => row.employeeEmail === employee.email
+    );
+    if (!context) continue;
+
+    const githubWeekly = githubWeeklyData.filter(
+      (row) => row.employeeEmail === employee.email
+    );
+    const slackWeekly = slackWeeklyData.filter(
+      (row) => row.employeeEmail === employee.email
+    );
+    const quarters = new Set(
+      [...githubWeekly, ...slackWeekly].map((row) => quarterKey(row.weekStart))
+    );
+
+    for (const quarter of [...quarters].sort()) {
+      cases.push({
+        employeeEmail: employee.email,
+        role: employee.role,
+        managerEmail: context.managerEmail,
+        eligibility: {
+          bonus: context.bonusEligible,
+          promotion: context.promotionEligible,
+        },
+        quarter: periodOf(quarter, githubWeekly, slackWeekly, quarterKey),
+        months: monthsOfQuarter(quarter).map((month) =>
+          periodOf(month, githubWeekly, slackWeekly, (weekStart) =>
+            weekStart.slice(0, 7)
+          )
+        ),
+      });
+    }
+  }
+
+  return cases;
+}
@@ -0,0 +1,219 @@
+import "server-only";
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  EVAL_STAGES,
+  type EvalCaseResult,
+  type EvalRun,
+  type EvalStage,
+} from "@/lib/evals/runner";
+import { EVAL_CHECKS, type EvalCheck } from "@/lib/evals/scorers";
+
+const DEFAULT_REPORT_DIR = "eval-reports";
+const MAX_LISTED_FINDINGS = 50;
+
+export type EvalStageSummary = {
+  stage: EvalStage;
+  cases: number;
+  passed: number;
+  failed: number;
+  errored: number;
+  skipped: number;
+  // Share of scored (passed + failed) cases with no findings; null when none
+  // were scored.
+  passRate: number | null;
+  // Cases with at least one finding of each check.
+  failuresByCheck: Record<EvalCheck, number>;
+};
+
+export type EvalComparison = {
+  baseline: EvalRun;
+  candidate: EvalRun;
+  summary: Array<{
+    stage: EvalStage;
+    baseline: EvalStageSummary;
+    candidate: EvalStageSummary;
+  }>;
+};
+
+function caseKey(result: EvalCaseResult): string {
+  return `${result.stage}|${result.employeeEmail}|${result.periodKey}`;
+}
+
+export function summarizeEvalRun(run: EvalRun): EvalStageSummary[] {
+  return EVAL_STAGES.map((stage) => {
+    const results = run.results.filter((result) => result.stage === stage);
+    const count = (status: EvalCaseResult["status"]) =>
+      results.filter((result) => result.status === status).length;
+    const passed = count("passed");
+    const failed = count("failed");
+
+    const failuresByCheck = Object.fromEntries(
+      EVAL_CHECKS.map((check) => [
+        check,
+        results.filter((result) =>
+          result.findings.some((finding) => finding.check === check)
+        ).length,
+      ])
+    ) as Record<EvalCheck, number>;
+
+    return {
+      stage,
+      cases: results.length,
+      passed,
+      failed,
+      errored: count("error"),
+      skipped: count("skipped"),
+      passRate: passed + failed > 0 ? passed / (passed + failed) : null,
+      failuresByCheck,
+    };
+  });
+}
+
+export function compareEvalRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const baselineSummary = summarizeEvalRun(baseline);
+  const candidateSummary = summarizeEvalRun(candidate);
+  return {
+    baseline,
+    candidate,
+    summary: EVAL_STAGES.map((stage, index) => ({
+      stage,
+      baseline: baselineSummary[index],
+      candidate: candidateSummary[index],
+    })),
+  };
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "n/a" : `${Math.round(rate * 100)}%`;
+}
+
+function formatDelta(baseline: number | null, candidate: number | null): string {
+  if (baseline === null || candidate === null) return "n/a";
+  const delta = Math.round((candidate - baseline) * 100);
+  return delta > 0 ? `+${delta} pts` : delta < 0 ? `${delta} pts` : "±0";
+}
+
+function describeConfig(run: EvalRun): string {
+  const env = Object.entries(run.config.env ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join(", ");
+  const prompts = Object.entries(run.config.promptVersions ?? {})
+    .map(([promptId, version]) => `${promptId}@v${version}`)
+    .join(", ");
+  return [
+    `**${run.config.name}**`,
+    env ? `env: ${env}` : "env: unchanged",
+    prompts ? `prompts: ${prompts}` : "prompts: pinned/latest",
+  ].join(" · ");
+}
+
+export function renderComparisonMarkdown(comparison: EvalComparison): string {
+  const { baseline, candidate } = comparison;
+  const lines: string[] = [
+    `# Eval comparison: ${baseline.config.name} vs ${candidate.config.name}`,
+    "",
+    `- Baseline: ${describeConfig(baseline)}`,
+    `- Candidate: ${describeConfig(candidate)}`,
+    `- Finished: ${candidate.finishedAt}`,
+    "",
+    "## Pass rate by stage",
+    "",
+    "| Stage | Baseline | Candidate | Delta | Errors (B / C) | Skipped (B / C) |",
+    "| --- | --- | --- | --- | --- | --- |",
+  ];
+
+  for (const row of comparison.summary) {
+    lines.push(
+      `| ${row.stage} | ${formatRate(row.baseline.passRate)} (${row.baseline.passed}/${row.baseline.passed + row.baseline.failed}) | ${formatRate(row.candidate.passRate)} (${row.candidate.passed}/${row.candidate.passed + row.candidate.failed}) | ${formatDelta(row.baseline.passRate, row.candidate.passRate)} | ${row.baseline.errored} / ${row.candidate.errored} | ${row.baseline.skipped} / ${row.candidate.skipped} |`
+    );
+  }
+
+  lines.push(
+    "",
+    "## Cases failing each check",
+    "",
+    `| Stage | ${EVAL_CHECKS.join(" | ")} |`,
+    `| --- | ${EVAL_CHECKS.map(() => "---").join(" | ")} |`
+  );
+  for (const row of comparison.summary) {
+    const cells = EVAL_CHECKS.map(
+      (check) =>
+        `${row.baseline.failuresByCheck[check]} → ${row.candidate.failuresByCheck[check]}`
+    );
+    lines.push(`| ${row.stage} | ${cells.join(" | ")} |`);
+  }
+
+  const baselineByKey = new Map(
+    baseline.results.map((result) => [caseKey(result), result])
+  );
+  const changed = candidate.results.filter((result) => {
+    const before = baselineByKey.get(caseKey(result));
+    return before && before.status !== result.status;
+  });
+
+  lines.push("", "## Cases that changed status", "");
+  if (changed.length === 0) {
+    lines.push("None.");
+  }
+  for (const result of changed) {
+    const before = baselineByKey.get(caseKey(result));
+    lines.push(
+      `- ${result.stage} · ${result.employeeEmail} · ${result.periodKey}: ${before?.status} → ${result.status}`
+    );
+  }
+
+  const findings = candidate.results.flatMap((result) =>
+    result.findings.map((finding) => ({ result, finding }))
+  );
+  lines.push("", `## Candidate findings (${findings.length})`, "");
+  if (findings.length === 0) {
+    lines.push("None.");
+  }
+  for (const { result, finding } of findings.slice(0, MAX_LISTED_FINDINGS)) {
+    lines.push(
+      `- [${finding.check}] ${result.stage} · ${result.employeeEmail} · ${result.periodKey} · \`${finding.path}\`: ${finding.message}`
+    );
+  }
+  if (findings.length > MAX_LISTED_FINDINGS) {
+    lines.push(
+      `- …and ${findings.length - MAX_LISTED_FINDINGS} more in the JSON report.`
+    );
+  }
+
+  const errors = candidate.results.filter((result) => result.status === "error");
+  if (errors.length > 0) {
+    lines.push("", "## Candidate errors", "");
+    for (const result of errors) {
+      lines.push(
+        `- ${result.stage} · ${result.employeeEmail} · ${result.periodKey}: ${result.error}`
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes `<timestamp>-<baseline>-vs-<candidate>.json` with every result and a
+ * `.md` summary next to it.
+ */
+export async function writeEvalReport(
+  comparison: EvalComparison,
+  directory: string = process.env.EVAL_REPORT_DIR?.trim() || DEFAULT_REPORT_DIR
+): Promise<{ jsonPath: string; markdownPath: string }> {
+  const stamp = comparison.candidate.finishedAt.replace(/[:.]/g, "-");
+  const slug = (name: string) => name.replace(/[^a-zA-Z0-9_-]+/g, "-");
+  const baseName = `${stamp}-${slug(comparison.baseline.config.name)}-vs-${slug(comparison.candidate.config.name)}`;
+  const resolved = path.resolve(directory);
+  const jsonPath = path.join(resolved, `${baseName}.json`);
+  const markdownPath = path.join(resolved, `${baseName}.md`);
+
+  await mkdir(resolved, { recursive: true });
+  await writeFile(jsonPath, `${JSON.stringify(comparison, null, 2)}\n`, "utf8");
+  await writeFile(markdownPath, renderComparisonMarkdown(comparison), "utf8");
+
+  return { jsonPath, markdownPath };
+}
@@ -0,0 +1,360 @@
+import "server-only";
+
+import {
+  generateMonthlyInsightsSinglePass,
+  generateQuarterlyInsightsSinglePass,
+  type MonthlySinglePassOutput,
+  type QuarterlySinglePassOutput,
+} from "@/lib/ai/insightGenerator";
+import {
+  generateArbiterDecision,
+  generateCombinedDebate,
+  generateCombinedGuidance,
+  type ManagerAnalysisCoreInput,
+} from "@/lib/ai/managerAnalysis";
+import {
+  setPromptVersionOverrides,
+  type PromptStamp,
+} from "@/lib/ai/prompts/registry";
+import type { GoldenCase, GoldenPeriod } from "@/lib/evals/goldenSet";
+import {
+  findingsFromError,
+  scoreInsightOutput,
+  scoreManagerOutput,
+  type EvalFinding,
+} from "@/lib/evals/scorers";
+import { buildEvidenceCatalog } from "@/lib/services/managerAnalysisOrchestrator";
+
+/**
+ * One side of a comparison. `env` is applied for the duration of the run, so
+ * `LLM_PROVIDER_<STAGE>` / `LLM_MODEL_<STAGE>` pick the models, and
+ * `promptVersions` overrides prompt pins by prompt id.
+ */
+export type EvalConfig = {
+  name: string;
+  env?: Record<string, string>;
+  promptVersions?: Record<string, number>;
+};
+
+export type EvalStage =
+  | "monthly_insights"
+  | "quarterly_insights"
+  | "manager_debate"
+  | "manager_arbiter"
+  | "manager_guidance";
+
+export const EVAL_STAGES: readonly EvalStage[] = [
+  "monthly_insights",
+  "quarterly_insights",
+  "manager_debate",
+  "manager_arbiter",
+  "manager_guidance",
+];
+
+export type EvalCaseResult = {
+  stage: EvalStage;
+  employeeEmail: string;
+  periodKey: string;
+  // failed: the output (or its validation error) has findings.
+  // error: the call failed for a reason unrelated to output quality.
+  // skipped: an upstream stage of the same case did not produce an output.
+  status: "passed" | "failed" | "error" | "skipped";
+  findings: EvalFinding[];
+  error: string | null;
+  model: string | null;
+  prompt: PromptStamp | null;
+  durationMs: number;
+};
+
+export type EvalRun = {
+  config: EvalConfig;
+  startedAt: string;
+  finishedAt: string;
+  results: EvalCaseResult[];
+};
+
+type StageOutcome<T> = {
+  result: EvalCaseResult;
+  output: T | null;
+};
+
+async function withConfigEnv<T>(config: EvalConfig, fn: () => Promise<T>): Promise<T> {
+  const previous = new Map<string, string | undefined>();
+  for (const [name, value] of Object.entries(config.env ?? {})) {
+    previous.set(name, process.env[name]);
+    process.env[name] = value;
+  }
+  setPromptVersionOverrides(config.promptVersions ?? {});
+
+  try {
+    return await fn();
+  } finally {
+    setPromptVersionOverrides({});
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+}
+
+async function runStage<T extends { model: string; prompt: PromptStamp }>(
+  input: {
+    stage: EvalStage;
+    employeeEmail: string;
+    periodKey: string;
+  },
+  generate: () => Promise<T>,
+  score: (output: T) => EvalFinding[]
+): Promise<StageOutcome<T>> {
+  const startedAt = Date.now();
+  const base = { ...input, model: null, prompt: null };
+
+  try {
+    const output = await generate();
+    const findings = score(output);
+    return {
+      output,
+      result: {
+        ...base,
+        status: findings.length === 0 ? "passed" : "failed",
+        findings,
+        error: null,
+        model: output.model,
+        prompt: output.prompt,
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  } catch (error) {
+    const findings = findingsFromError(error);
+    return {
+      output: null,
+      result: {
+        ...base,
+        status: findings ? "failed" : "error",
+        findings: findings ?? [],
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  }
+}
+
+function skipped(
+  stage: EvalStage,
+  employeeEmail: string,
+  periodKey: string
+): EvalCaseResult {
+  return {
+    stage,
+    employeeEmail,
+    periodKey,
+    status: "skipped",
+    findings: [],
+    error: null,
+    model: null,
+    prompt: null,
+    durationMs: 0,
+  };
+}
+
+async function runInsightStages(goldenCase: GoldenCase): Promise<{
+  results: EvalCaseResult[];
+  months: Array<{ period: GoldenPeriod; output: MonthlySinglePassOutput | null }>;
+  quarterly: QuarterlySinglePassOutput | null;
+}> {
+  const results: EvalCaseResult[] = [];
+  const months: Array<{
+    period: GoldenPeriod;
+    output: MonthlySinglePassOutput | null;
+  }> = [];
+
+  for (const period of goldenCase.months) {
+    const monthly = await runStage(
+      {
+        stage: "monthly_insights",
+        employeeEmail: goldenCase.employeeEmail,
+        periodKey: period.periodKey,
+      },
+      () =>
+        generateMonthlyInsightsSinglePass({
+          periodKey: period.periodKey,
+          employeeEmail: goldenCase.employeeEmail,
+          githubWeekly: period.githubWeekly,
+          slackWeekly: period.slackWeekly,
+        }),
+      (output) => scoreInsightOutput(output, period)
+    );
+    results.push(monthly.result);
+    months.push({ period, output: monthly.output });
+  }
+
+  const quarterly = await runStage(
+    {
+      stage: "quarterly_insights",
+      employeeEmail: goldenCase.employeeEmail,
+      periodKey: goldenCase.quarter.periodKey,
+    },
+    () =>
+      generateQuarterlyInsightsSinglePass({
+        periodKey: goldenCase.quarter.periodKey,
+        employeeEmail: goldenCase.employeeEmail,
+        githubWeekly: goldenCase.quarter.githubWeekly,
+        slackWeekly: goldenCase.quarter.slackWeekly,
+      }),
+    (output) => scoreInsightOutput(output, goldenCase.quarter)
+  );
+  results.push(quarterly.result);
+
+  return { results, months, quarterly: quarterly.output };
+}
+
+/**
+ * Builds the manager analysis input from this run's own insight outputs, the
+ * same way the orchestrator does from stored rows, so a prompt or model change
+ * upstream is reflected in the manager stages.
+ */
+function toCoreInput(
+  goldenCase: GoldenCase,
+  quarterly: QuarterlySinglePassOutput,
+  months: Array<{ period: GoldenPeriod; output: MonthlySinglePassOutput }>
+): ManagerAnalysisCoreInput {
+  const monthlyHistory = months.map(({ period, output }) => ({
+    month: period.periodKey,
+    synthesis: output.synthesis,
+  }));
+
+  return {
+    employeeId: goldenCase.employeeEmail,
+    quarter: goldenCase.quarter.periodKey,
+    managerId: goldenCase.managerEmail,
+    role: goldenCase.role,
+    quarterly: quarterly.synthesis,
+    monthlyHistory: monthlyHistory.map((item) => item.synthesis),
+    dataSufficiency: quarterly.dataSufficiency,
+    eligibility: goldenCase.eligibility,
+    evidenceCatalog: buildEvidenceCatalog({
+      quarter: goldenCase.quarter.periodKey,
+      quarterly: quarterly.synthesis,
+      monthlyHistory,
+    }),
+  };
+}
+
+async function runManagerStages(
+  goldenCase: GoldenCase,
+  core: ManagerAnalysisCoreInput
+): Promise<EvalCaseResult[]> {
+  const identity = {
+    employeeEmail: goldenCase.employeeEmail,
+    periodKey: goldenCase.quarter.periodKey,
+  };
+  const sourcePeriods = [goldenCase.quarter];
+  const scoreWith =
+    (allowCompensation: (path: string) => boolean) =>
+    (stage: { output: unknown }) =>
+      scoreManagerOutput(stage.output, {
+        evidenceCatalog: core.evidenceCatalog,
+        sourcePeriods,
+        allowCompensation,
+      });
+
+  const debate = await runStage(
+    { ...identity, stage: "manager_debate" },
+    () => generateCombinedDebate(core),
+    scoreWith(() => true)
+  );
+  if (!debate.output) {
+    return [
+      debate.result,
+      skipped("manager_arbiter", identity.employeeEmail, identity.periodKey),
+      skipped("manager_guidance", identity.employeeEmail, identity.periodKey),
+    ];
+  }
+
+  const debateOutput = debate.output.output;
+  const arbiter = await runStage(
+    { ...identity, stage: "manager_arbiter" },
+    () => generateArbiterDecision({ core, debate: debateOutput }),
+    scoreWith(() => true)
+  );
+  if (!arbiter.output) {
+    return [
+      debate.result,
+      arbiter.result,
+      skipped("manager_guidance", identity.employeeEmail, identity.periodKey),
+    ];
+  }
+
+  const arbiterOutput = arbiter.output.output;
+  const guidance = await runStage(
+    { ...identity, stage: "manager_guidance" },
+    () =>
+      generateCombinedGuidance({
+        core,
+        debate: debateOutput,
+        arbiter: arbiterOutput,
+      }),
+    scoreWith((path) => !path.startsWith("employeePings"))
+  );
+
+  return [debate.result, arbiter.result, guidance.result];
+}
+
+/**
+ * Runs every golden case through the insight and manager analysis stages with
+ * one configuration. Cases run one at a time so they share the configured
+ * rate limits with any workers that are running.
+ */
+export async function runEvalConfig(
+  config: EvalConfig,
+  cases: GoldenCase[],
+  options: {
+    onResult?: (result: EvalCaseResult) => void;
+  } = {}
+): Promise<EvalRun> {
+  const startedAt = new Date().toISOString();
+  const results: EvalCaseResult[] = [];
+  const push = (items: EvalCaseResult[]) => {
+    for (const item of items) {
+      results.push(item);
+      options.onResult?.(item);
+    }
+  };
+
+  await withConfigEnv(config, async () => {
+    for (const goldenCase of cases) {
+      const insights = await runInsightStages(goldenCase);
+      push(insights.results);
+
+      const months = insights.months.flatMap(({ period, output }) =>
+        output ? [{ period, output }] : []
+      );
+      if (!insights.quarterly || months.length !== goldenCase.months.length) {
+        push(
+          (["manager_debate", "manager_arbiter", "manager_guidance"] as const).map(
+            (stage) =>
+              skipped(stage, goldenCase.employeeEmail, goldenCase.quarter.periodKey)
+          )
+        );
+        continue;
+      }
+
+      push(
+        await runManagerStages(
+          goldenCase,
+          toCoreInput(goldenCase, insights.quarterly, months)
+        )
+      );
+    }
+  });
+
+  return {
+    config,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    results,
+  };
+}
@@ -0,0 +1,401 @@
+import "server-only";
+
+import { StructuredOutputError } from "@/lib/ai/generate-structured";
+import type {
+  MonthlySinglePassOutput,
+  QuarterlySinglePassOutput,
+  SignalEvidence,
+} from "@/lib/ai/insightGenerator";
+import {
+  EMPLOYEE_COMPENSATION_PATTERN,
+  FairnessPolicyViolationError,
+  PEER_COMPARISON_PATTERN,
+} from "@/lib/ai/fairnessPolicy";
+import {
+  ManagerAnalysisValidationError,
+  type EvidenceCatalogEntry,
+} from "@/lib/ai/managerAnalysis";
+import type { GoldenPeriod } from "@/lib/evals/goldenSet";
+
+export type EvalCheck =
+  | "schema"
+  | "evidence_refs"
+  | "banned_phrases"
+  | "unsupported_facts";
+
+export const EVAL_CHECKS: readonly EvalCheck[] = [
+  "schema",
+  "evidence_refs",
+  "banned_phrases",
+  "unsupported_facts",
+];
+
+export type EvalFinding = {
+  check: EvalCheck;
+  path: string;
+  message: string;
+};
+
+// Labels that judge the person instead of the work, or that touch protected
+// or medical topics. Peer comparison and compensation have their own patterns.
+const JUDGEMENTAL_PATTERN =
+  /\b(lazy|toxic|underperformer|low performer|rockstar|10x|pregnan\w*|disabilit\w*|diagnos\w*|religio\w*|ethnic\w*)\b/i;
+
+// Numbers that are part of identifiers rather than claims about activity.
+const NON_CLAIM_NUMBER_PATTERN =
+  /refs:\[[^\]]*\]|\bE\d+\b|\b\d{4}-\d{2}(?:-\d{2})?\b|\b\d{4}-Q[1-4]\b|\bQ[1-4]\b|\b(?:19|20)\d{2}\b|\b1:1s?\b/g;
+const NUMBER_PATTERN = /(\d+(?:\.\d+)?)\s*(%|percent\b)?/g;
+
+// Keys whose values are identifiers, enums or metadata rather than prose.
+const NON_PROSE_KEYS = new Set([
+  "id",
+  "signalId",
+  "weekStart",
+  "fields",
+  "source",
+  "evidenceRefs",
+  "supportingSignalIds",
+  "model",
+  "modelVersion",
+  "prompt",
+  "periodKey",
+  "dataSufficiency",
+]);
+
+const GITHUB_FIELDS = new Set([
+  "pullRequestSummaries",
+  "issueSummaries",
+  "prsMerged",
+  "prReviewsGiven",
+  "afterHoursRatio",
+  "weekendRatio",
+]);
+
+const SLACK_FIELDS = new Set([
+  "messageSummaries",
+  "messageCount",
+  "replyCount",
+  "reactionsReceived",
+  "afterHoursRatio",
+  "weekendRatio",
+]);
+
+/** Every number a faithful output could quote for the given source periods. */
+export type SourceFacts = {
+  integers: Set<number>;
+  ratios: number[];
+};
+
+type ProseEntry = {
+  path: string;
+  text: string;
+};
+
+function collectProse(value: unknown, path: string, out: ProseEntry[]): ProseEntry[] {
+  if (typeof value === "string") {
+    out.push({ path, text: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectProse(item, `${path}[${index}]`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (NON_PROSE_KEYS.has(key)) continue;
+      collectProse(child, path ? `${path}.${key}` : key, out);
+    }
+  }
+  return out;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function buildSourceFacts(periods: GoldenPeriod[]): SourceFacts {
+  const integers = new Set<number>();
+  const ratios: number[] = [];
+
+  const addSeries = (values: number[]) => {
+    values.forEach((value) => integers.add(value));
+    if (values.length === 0) return;
+    integers.add(sum(values));
+    integers.add(Math.round(sum(values) / values.length));
+    integers.add(Math.max(...values));
+    integers.add(Math.min(...values));
+  };
+  const addRatios = (values: number[]) => {
+    ratios.push(...values);
+    if (values.length > 0) ratios.push(sum(values) / values.length);
+  };
+
+  for (const period of periods) {
+    const github = period.githubWeekly;
+    const slack = period.slackWeekly;
+    integers.add(github.length);
+    integers.add(slack.length);
+    integers.add(new Set([...github, ...slack].map((row) => row.weekStart)).size);
+
+    addSeries(github.map((row) => row.prsMerged));
+    addSeries(github.map((row) => row.prReviewsGiven));
+    addSeries(github.map((row) => row.pullRequestSummaries.length));
+    addSeries(github.map((row) => row.issueSummaries.length));
+    addSeries(slack.map((row) => row.messageCount));
+    addSeries(slack.map((row) => row.replyCount));
+    addSeries(slack.map((row) => row.reactionsReceived));
+    addRatios(github.map((row) => row.afterHoursRatio));
+    addRatios(github.map((row) => row.weekendRatio));
+    addRatios(slack.map((row) => row.afterHoursRatio));
+    addRatios(slack.map((row) => row.weekendRatio));
+  }
+
+  return { integers, ratios };
+}
+
+function isSupportedNumber(value: number, isPercent: boolean, facts: SourceFacts): boolean {
+  // 0 and 1 show up in ordinary prose ("one-off", "0 incidents") too often to judge.
+  if (!isPercent && value <= 1 && Number.isInteger(value)) return true;
+  if (isPercent) {
+    return facts.ratios.some((ratio) => Math.abs(ratio * 100 - value) <= 1);
+  }
+  if (Number.isInteger(value)) {
+    return facts.integers.has(value);
+  }
+  return facts.ratios.some((ratio) => Math.abs(ratio - value) <= 0.01);
+}
+
+function checkUnsupportedNumbers(
+  prose: ProseEntry[],
+  facts: SourceFacts
+): EvalFinding[] {
+  const findings: EvalFinding[] = [];
+  for (const entry of prose) {
+    const text = entry.text.replace(NON_CLAIM_NUMBER_PATTERN, " ");
+    for (const match of text.matchAll(NUMBER_PATTERN)) {
+      const value = Number(match[1]);
+      if (isSupportedNumber(value, Boolean(match[2]), facts)) continue;
+      findings.push({
+        check: "unsupported_facts",
+        path: entry.path,
+        message: `"${match[0].trim()}" does not match any value in the source weekly data.`,
+      });
+    }
+  }
+  return findings;
+}
+
+function checkBannedPhrases(
+  prose: ProseEntry[],
+  options: { allowCompensation: (path: string) => boolean }
+): EvalFinding[] {
+  const findings: EvalFinding[] = [];
+  for (const entry of prose) {
+    const patterns: Array<[RegExp, string]> = [
+      [PEER_COMPARISON_PATTERN, "peer comparison"],
+      [JUDGEMENTAL_PATTERN, "judgemental or protected-topic language"],
+    ];
+    if (!options.allowCompensation(entry.path)) {
+      patterns.push([EMPLOYEE_COMPENSATION_PATTERN, "compensation language"]);
+    }
+    for (const [pattern, label] of patterns) {
+      const match = pattern.exec(entry.text);
+      if (match) {
+        findings.push({
+          check: "banned_phrases",
+          path: entry.path,
+          message: `Contains ${label} ("${match[0]}").`,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+function checkSignalEvidence(
+  evidence: SignalEvidence[],
+  path: string,
+  period: GoldenPeriod
+): EvalFinding[] {
+  const findings: EvalFinding[] = [];
+  const githubWeeks = new Set(period.githubWeekly.map((row) => row.weekStart));
+  const slackWeeks = new Set(period.slackWeekly.map((row) => row.weekStart));
+
+  evidence.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    const isGithub = entry.source === "github_weekly_activity";
+    const weeks = isGithub ? githubWeeks : slackWeeks;
+    const fields = isGithub ? GITHUB_FIELDS : SLACK_FIELDS;
+
+    if (!weeks.has(entry.weekStart)) {
+      findings.push({
+        check: "evidence_refs",
+        path: entryPath,
+        message: `Cites ${entry.source} for week ${entry.weekStart}, which has no source row in ${period.periodKey}.`,
+      });
+    }
+    for (const field of entry.fields) {
+      if (!fields.has(field)) {
+        findings.push({
+          check: "evidence_refs",
+          path: entryPath,
+          message: `Cites unknown ${entry.source} field "${field}".`,
+        });
+      }
+    }
+  });
+  return findings;
+}
+
+/**
+ * Scores a normalized single-pass insight against the weekly rows it was
+ * generated from. Schema validity is already guaranteed by the time an output
+ * exists; see `findingsFromError` for outputs that never validated.
+ */
+export function scoreInsightOutput(
+  output: MonthlySinglePassOutput | QuarterlySinglePassOutput,
+  period: GoldenPeriod
+): EvalFinding[] {
+  const findings: EvalFinding[] = [];
+  const signalIds = new Set(output.allSignals.map((signal) => signal.id));
+
+  for (const signal of output.allSignals) {
+    findings.push(
+      ...checkSignalEvidence(signal.evidence, `allSignals.${signal.id}.evidence`, period)
+    );
+  }
+  for (const [dimension, insight] of Object.entries(output.dimensionInsights)) {
+    for (const signalId of insight.supportingSignalIds) {
+      if (!signalIds.has(signalId)) {
+        findings.push({
+          check: "evidence_refs",
+          path: `dimensionInsights.${dimension}.supportingSignalIds`,
+          message: `References unknown signal ${signalId}.`,
+        });
+      }
+    }
+  }
+  if ("evidenceSnapshots" in output.synthesis) {
+    for (const snapshot of output.synthesis.evidenceSnapshots) {
+      if (!signalIds.has(snapshot.signalId)) {
+        findings.push({
+          check: "evidence_refs",
+          path: "synthesis.evidenceSnapshots",
+          message: `References unknown signal ${snapshot.signalId}.`,
+        });
+      }
+      findings.push(
+        ...checkSignalEvidence(
+          snapshot.evidence,
+          `synthesis.evidenceSnapshots.${snapshot.signalId}.evidence`,
+          period
+        )
+      );
+    }
+  }
+
+  const prose = collectProse(
+    {
+      allSignals: output.allSignals,
+      dimensionInsights: output.dimensionInsights,
+      synthesis: output.synthesis,
+    },
+    "",
+    []
+  );
+  findings.push(...checkBannedPhrases(prose, { allowCompensation: () => false }));
+  findings.push(...checkUnsupportedNumbers(prose, buildSourceFacts([period])));
+
+  return findings;
+}
+
+function parseCitationRefs(text: string): string[] {
+  return [...text.matchAll(/refs:\[([^\]]+)\]/g)].flatMap((match) =>
+    match[1]
+      .split(",")
+      .map((ref) => ref.trim())
+      .filter(Boolean)
+  );
+}
+
+function collectEvidenceRefs(
+  value: unknown,
+  path: string,
+  out: Array<{ path: string; ref: string }>
+): Array<{ path: string; ref: string }> {
+  if (typeof value === "string") {
+    parseCitationRefs(value).forEach((ref) => out.push({ path, ref }));
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectEvidenceRefs(item, `${path}[${index}]`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (key === "evidenceRefs" && Array.isArray(child)) {
+        child.forEach((ref) => out.push({ path: childPath, ref: String(ref) }));
+      } else {
+        collectEvidenceRefs(child, childPath, out);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Scores a debate, arbiter or guidance output. Refs must resolve against the
+ * evidence catalog, and numbers must trace back to the quarter's weekly rows.
+ * Compensation language is only allowed where the stage is about bonus and
+ * promotion, so never in employee-facing pings.
+ */
+export function scoreManagerOutput(
+  output: unknown,
+  input: {
+    evidenceCatalog: EvidenceCatalogEntry[];
+    sourcePeriods: GoldenPeriod[];
+    allowCompensation: (path: string) => boolean;
+  }
+): EvalFinding[] {
+  const findings: EvalFinding[] = [];
+  const catalogIds = new Set(input.evidenceCatalog.map((entry) => entry.id));
+
+  for (const { path, ref } of collectEvidenceRefs(output, "", [])) {
+    if (!catalogIds.has(ref)) {
+      findings.push({
+        check: "evidence_refs",
+        path,
+        message: `References ${ref}, which is not in the evidence catalog.`,
+      });
+    }
+  }
+
+  const prose = collectProse(output, "", []);
+  findings.push(
+    ...checkBannedPhrases(prose, { allowCompensation: input.allowCompensation })
+  );
+  findings.push(
+    ...checkUnsupportedNumbers(prose, buildSourceFacts(input.sourcePeriods))
+  );
+
+  return findings;
+}
+
+/**
+ * Turns a generation error into findings when it reflects output quality.
+ * Returns null for errors that say nothing about the output, such as provider
+ * outages or missing fixtures.
+ */
+export function findingsFromError(error: unknown): EvalFinding[] | null {
+  if (error instanceof StructuredOutputError) {
+    return error.issues.map((issue) => ({
+      check: "schema",
+      path: issue.path,
+      message: issue.message,
+    }));
+  }
+  if (error instanceof ManagerAnalysisValidationError) {
+    return [{ check: "evidence_refs", path: error.code, message: error.message }];
+  }
+  if (error instanceof FairnessPolicyViolationError) {
+    return error.violations.map((violation) => ({
+      check: "banned_phrases",
+      path: violation.field,
+      message: `Violates ${violation.ruleId} ("${violation.match}").`,
+    }));
+  }
+  return null;
+}
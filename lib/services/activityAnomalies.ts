@@ -0,0 +1,244 @@
+import "server-only";
+
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { activityAnomaly, githubWeeklyActivity, slackWeeklyActivity } from "@/lib/db/schema";
+import { addWeeks } from "@/lib/services/activityWindow";
+
+// Weeks before the evaluated week that form the baseline, and how many of
+// them need a row before the baseline is trusted.
+const BASELINE_WEEKS = 8;
+const MIN_BASELINE_WEEKS = 4;
+// |robust z| at or above this is an anomaly (Iglewicz and Hoaglin's cut-off).
+const SCORE_THRESHOLD = 3.5;
+// Scales MAD to a standard deviation for normally distributed data.
+const MAD_SCALE = 1.4826;
+// The metrics are counts, so a flat baseline still allows one unit of noise;
+// without the floor any change from a constant history would be infinite.
+const MIN_SPREAD = 1;
+const MAX_HISTORY = 20;
+
+export type ActivityAnomalySource = "github_weekly_activity" | "slack_weekly_activity";
+
+export type ActivityMetric =
+  | "prsMerged"
+  | "prReviewsGiven"
+  | "messageCount"
+  | "replyCount"
+  | "reactionsReceived";
+
+export type AnomalyDirection = "spike" | "drop";
+
+export type ActivityAnomalyView = {
+  id: number;
+  employeeEmail: string;
+  weekStart: string;
+  source: ActivityAnomalySource;
+  metric: ActivityMetric;
+  direction: AnomalyDirection;
+  value: number;
+  baselineMedian: number;
+  baselineMad: number;
+  baselineWeeks: number;
+  score: number;
+  relativeChange: number | null;
+};
+
+export type ActivityAnomalyDetectionSummary = {
+  weekStart: string;
+  detected: number;
+};
+
+export type BaselineScore = {
+  median: number;
+  mad: number;
+  score: number;
+};
+
+type WeeklyCounts = Partial<Record<ActivityMetric, number>>;
+
+const METRIC_SOURCES: Record<ActivityMetric, ActivityAnomalySource> = {
+  prsMerged: "github_weekly_activity",
+  prReviewsGiven: "github_weekly_activity",
+  messageCount: "slack_weekly_activity",
+  replyCount: "slack_weekly_activity",
+  reactionsReceived: "slack_weekly_activity",
+};
+
+const METRICS = Object.keys(METRIC_SOURCES) as ActivityMetric[];
+
+type ActivityAnomalyRow = typeof activityAnomaly.$inferSelect;
+
+function toView(row: ActivityAnomalyRow): ActivityAnomalyView {
+  return {
+    id: row.id,
+    employeeEmail: row.employeeEmail,
+    weekStart: row.weekStart,
+    source: row.source as ActivityAnomalySource,
+    metric: row.metric as ActivityMetric,
+    direction: row.direction as AnomalyDirection,
+    value: row.value,
+    baselineMedian: row.baselineMedian,
+    baselineMad: row.baselineMad,
+    baselineWeeks: row.baselineWeeks,
+    score: row.score,
+    relativeChange: row.relativeChange,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Robust z-score of `value` against `baseline`: the distance from the
+ * baseline median in MADs scaled to a standard deviation. Null when the
+ * baseline is too short to trust.
+ */
+export function scoreAgainstBaseline(value: number, baseline: number[]): BaselineScore | null {
+  if (baseline.length < MIN_BASELINE_WEEKS) return null;
+
+  const center = median(baseline);
+  const mad = median(baseline.map((entry) => Math.abs(entry - center)));
+  const spread = Math.max(MAD_SCALE * mad, MIN_SPREAD);
+  return { median: center, mad, score: (value - center) / spread };
+}
+
+async function loadWeeklyCounts(input: { startWeek: string; endWeek: string }) {
+  const [githubRows, slackRows] = await Promise.all([
+    db
+      .select({
+        employeeEmail: githubWeeklyActivity.employeeEmail,
+        weekStart: githubWeeklyActivity.weekStart,
+        prsMerged: githubWeeklyActivity.prsMerged,
+        prReviewsGiven: githubWeeklyActivity.prReviewsGiven,
+      })
+      .from(githubWeeklyActivity)
+      .where(
+        and(
+          gte(githubWeeklyActivity.weekStart, input.startWeek),
+          lte(githubWeeklyActivity.weekStart, input.endWeek)
+        )
+      ),
+    db
+      .select({
+        employeeEmail: slackWeeklyActivity.employeeEmail,
+        weekStart: slackWeeklyActivity.weekStart,
+        messageCount: slackWeeklyActivity.messageCount,
+        replyCount: slackWeeklyActivity.replyCount,
+        reactionsReceived: slackWeeklyActivity.reactionsReceived,
+      })
+      .from(slackWeeklyActivity)
+      .where(
+        and(
+          gte(slackWeeklyActivity.weekStart, input.startWeek),
+          lte(slackWeeklyActivity.weekStart, input.endWeek)
+        )
+      ),
+  ]);
+
+  const byEmployee = new Map<string, Map<string, WeeklyCounts>>();
+  for (const { employeeEmail, weekStart, ...counts } of [...githubRows, ...slackRows]) {
+    const weeks = byEmployee.get(employeeEmail) ?? new Map<string, WeeklyCounts>();
+    byEmployee.set(employeeEmail, weeks);
+    weeks.set(weekStart, { ...weeks.get(weekStart), ...counts });
+  }
+  return byEmployee;
+}
+
+/**
+ * Scores every employee's counts for `weekStart` against their previous
+ * weeks and replaces that week's stored anomalies. A week without a row for a
+ * source is missing data, not zero, so it is neither scored nor part of a
+ * baseline.
+ */
+export async function detectActivityAnomalies(input: {
+  weekStart: string;
+}): Promise<ActivityAnomalyDetectionSummary> {
+  const weeklyCounts = await loadWeeklyCounts({
+    startWeek: addWeeks(input.weekStart, -BASELINE_WEEKS),
+    endWeek: input.weekStart,
+  });
+
+  const anomalies: Array<typeof activityAnomaly.$inferInsert> = [];
+  for (const [employeeEmail, weeks] of weeklyCounts) {
+    const current = weeks.get(input.weekStart);
+    if (!current) continue;
+
+    for (const metric of METRICS) {
+      const value = current[metric];
+      if (value === undefined) continue;
+
+      const baseline = Array.from(weeks)
+        .filter(([weekStart]) => weekStart < input.weekStart)
+        .flatMap(([, counts]) => (counts[metric] === undefined ? [] : [counts[metric]]));
+      const scored = scoreAgainstBaseline(value, baseline);
+      if (!scored || Math.abs(scored.score) < SCORE_THRESHOLD) continue;
+
+      anomalies.push({
+        employeeEmail,
+        weekStart: input.weekStart,
+        source: METRIC_SOURCES[metric],
+        metric,
+        direction: scored.score > 0 ? "spike" : "drop",
+        value,
+        baselineMedian: scored.median,
+        baselineMad: scored.mad,
+        baselineWeeks: baseline.length,
+        score: scored.score,
+        relativeChange:
+          scored.median > 0 ? (value - scored.median) / scored.median : null,
+      });
+    }
+  }
+
+  // One batch, so a failed insert keeps the week's previous anomalies.
+  const clearWeek = db
+    .delete(activityAnomaly)
+    .where(eq(activityAnomaly.weekStart, input.weekStart));
+  if (anomalies.length > 0) {
+    await db.batch([clearWeek, db.insert(activityAnomaly).values(anomalies)]);
+  } else {
+    await clearWeek;
+  }
+
+  return { weekStart: input.weekStart, detected: anomalies.length };
+}
+
+/** One employee's anomalies, newest week first. */
+export async function listActivityAnomalies(
+  employeeEmail: string
+): Promise<ActivityAnomalyView[]> {
+  const rows = await db
+    .select()
+    .from(activityAnomaly)
+    .where(eq(activityAnomaly.employeeEmail, employeeEmail))
+    .orderBy(desc(activityAnomaly.weekStart), activityAnomaly.metric)
+    .limit(MAX_HISTORY);
+  return rows.map(toView);
+}
+
+/** One employee's anomalies between two weeks, inclusive, oldest first. */
+export async function listActivityAnomaliesInRange(input: {
+  employeeEmail: string;
+  startWeek: string;
+  endWeek: string | null;
+}): Promise<ActivityAnomalyView[]> {
+  const rows = await db
+    .select()
+    .from(activityAnomaly)
+    .where(
+      and(
+        eq(activityAnomaly.employeeEmail, input.employeeEmail),
+        gte(activityAnomaly.weekStart, input.startWeek),
+        input.endWeek ? lte(activityAnomaly.weekStart, input.endWeek) : undefined
+      )
+    )
+    .orderBy(activityAnomaly.weekStart, activityAnomaly.metric);
+  return rows.map(toView);
+}
@@ -0,0 +1,159 @@
+import "server-only";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_WORKDAY_START_HOUR = 9;
+const DEFAULT_WORKDAY_END_HOUR = 18;
+
+export type WeekWindow = {
+  weekStart: string;
+  weekEnd: string;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+export type WorkPatternConfig = {
+  timeZone: string;
+  workdayStartHour: number;
+  workdayEndHour: number;
+};
+
+export type WorkPatternRatios = {
+  afterHoursRatio: number;
+  weekendRatio: number;
+};
+
+function readOptionalEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function readHourEnv(name: string, fallback: number): number {
+  const raw = readOptionalEnv(name);
+  if (!raw) return fallback;
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 24) {
+    throw new Error(`${name} must be an integer hour between 0 and 24.`);
+  }
+  return parsed;
+}
+
+export function readWorkPatternConfigFromEnv(): WorkPatternConfig {
+  return {
+    timeZone: readOptionalEnv("COLLECTOR_TIME_ZONE") ?? "UTC",
+    workdayStartHour: readHourEnv(
+      "COLLECTOR_WORKDAY_START_HOUR",
+      DEFAULT_WORKDAY_START_HOUR
+    ),
+    workdayEndHour: readHourEnv(
+      "COLLECTOR_WORKDAY_END_HOUR",
+      DEFAULT_WORKDAY_END_HOUR
+    ),
+  };
+}
+
+export function isValidWeekStart(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    return false;
+  }
+  // Weekly tables are keyed by the Monday that opens the week.
+  return parsed.toISOString().slice(0, 10) === value && parsed.getUTCDay() === 1;
+}
+
+export function resolveWeekWindow(weekStart: string): WeekWindow {
+  if (!isValidWeekStart(weekStart)) {
+    throw new Error(`weekStart must be a Monday in YYYY-MM-DD format (got ${weekStart}).`);
+  }
+  const startsAt = new Date(`${weekStart}T00:00:00.000Z`);
+  const endsAt = new Date(startsAt.getTime() + 7 * DAY_MS);
+  return {
+    weekStart,
+    weekEnd: new Date(endsAt.getTime() - DAY_MS).toISOString().slice(0, 10),
+    startsAt,
+    endsAt,
+  };
+}
+
+export function addWeeks(weekStart: string, weeks: number): string {
+  const startsAt = new Date(`${weekStart}T00:00:00.000Z`);
+  return new Date(startsAt.getTime() + weeks * 7 * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function weekStartOf(value: Date): string {
+  const midnight = Date.UTC(
+    value.getUTCFullYear(),
+    value.getUTCMonth(),
+    value.getUTCDate()
+  );
+  const daysSinceMonday = (value.getUTCDay() + 6) % 7;
+  return new Date(midnight - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the most recent week that has fully ended at `now`. */
+export function latestCompletedWeekStart(now: Date = new Date()): string {
+  return addWeeks(weekStartOf(now), -1);
+}
+
+export function isWithinWindow(value: Date, window: WeekWindow): boolean {
+  const time = value.getTime();
+  return time >= window.startsAt.getTime() && time < window.endsAt.getTime();
+}
+
+function readLocalParts(
+  value: Date,
+  timeZone: string
+): { weekday: string; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(value);
+
+  const weekday = parts.find((part) => part.type === "weekday")?.value ?? "";
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
+  return { weekday, hour };
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Weekend activity is counted only as weekend load; after-hours covers
+ * weekday activity outside the configured working hours.
+ */
+export function computeWorkPatternRatios(
+  timestamps: Date[],
+  config: WorkPatternConfig
+): WorkPatternRatios {
+  if (timestamps.length === 0) {
+    return { afterHoursRatio: 0, weekendRatio: 0 };
+  }
+
+  let afterHours = 0;
+  let weekend = 0;
+
+  for (const timestamp of timestamps) {
+    const { weekday, hour } = readLocalParts(timestamp, config.timeZone);
+    if (weekday === "Sat" || weekday === "Sun") {
+      weekend += 1;
+      continue;
+    }
+    if (hour < config.workdayStartHour || hour >= config.workdayEndHour) {
+      afterHours += 1;
+    }
+  }
+
+  return {
+    afterHoursRatio: roundRatio(afterHours / timestamps.length),
+    weekendRatio: roundRatio(weekend / timestamps.length),
+  };
+}
@@ -0,0 +1,141 @@
+import "server-only";
+
+import { and, asc, desc, eq, gt, gte } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { analysisRun, analysisRunEvent } from "@/lib/db/schema";
+
+export type AnalysisStage = "debate" | "arbiter" | "guidance";
+
+export type StageTokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+} | null;
+
+export type AnalysisRunEventPayload =
+  | { type: "run_started"; quarter: string }
+  // "persistence" when every stage output was reused and only the writes rerun.
+  | { type: "run_resumed"; fromStage: AnalysisStage | "persistence" }
+  | { type: "stage_started"; stage: AnalysisStage }
+  | { type: "stage_completed"; stage: AnalysisStage; usage: StageTokenUsage }
+  | {
+      type: "debate_argument";
+      agentRole: "advocate" | "examiner";
+      index: number;
+      claim: string;
+      evidenceRefs: string[];
+    }
+  | { type: "run_completed" }
+  | {
+      type: "run_failed";
+      failedStage: string;
+      errorCode: string;
+      message: string;
+    };
+
+export type AnalysisRunEvent = AnalysisRunEventPayload & {
+  id: number;
+  runId: number;
+  createdAt: string;
+};
+
+export type StreamableRun = {
+  id: number;
+  quarter: string;
+  status: string;
+};
+
+export const TERMINAL_RUN_EVENT_TYPES: ReadonlySet<string> = new Set([
+  "run_completed",
+  "run_failed",
+]);
+
+/**
+ * Best-effort: progress events are for live viewers only, so a failed write
+ * is logged and never fails the run itself.
+ */
+export async function recordRunEvent(
+  runId: number,
+  event: AnalysisRunEventPayload
+): Promise<void> {
+  const { type, ...payload } = event;
+  try {
+    await db.insert(analysisRunEvent).values({
+      runId,
+      eventType: type,
+      payload,
+    });
+  } catch (error) {
+    console.error("[analysis-run-event] failed to record event", {
+      runId,
+      type,
+      error,
+    });
+  }
+}
+
+export async function listRunEventsAfter(
+  runId: number,
+  afterEventId: number
+): Promise<AnalysisRunEvent[]> {
+  const rows = await db
+    .select()
+    .from(analysisRunEvent)
+    .where(
+      and(eq(analysisRunEvent.runId, runId), gt(analysisRunEvent.id, afterEventId))
+    )
+    .orderBy(asc(analysisRunEvent.id));
+
+  return rows.map(
+    (row) =>
+      ({
+        ...(row.payload as Record<string, unknown>),
+        type: row.eventType,
+        id: row.id,
+        runId: row.runId,
+        createdAt: row.createdAt.toISOString(),
+      }) as AnalysisRunEvent
+  );
+}
+
+/**
+ * The requested run, or the employee's most recent one when `runId` is
+ * omitted. `createdSince` limits the lookup to runs started after that time,
+ * e.g. by a job queued then.
+ */
+export async function findStreamableRun(input: {
+  employeeEmail: string;
+  runId?: number;
+  createdSince?: Date;
+}): Promise<StreamableRun | null> {
+  const [run] = await db
+    .select({
+      id: analysisRun.id,
+      quarter: analysisRun.quarter,
+      status: analysisRun.status,
+    })
+    .from(analysisRun)
+    .where(
+      and(
+        eq(analysisRun.employeeEmail, input.employeeEmail),
+        input.runId === undefined ? undefined : eq(analysisRun.id, input.runId),
+        input.createdSince === undefined
+          ? undefined
+          : gte(analysisRun.createdAt, input.createdSince)
+      )
+    )
+    .orderBy(desc(analysisRun.createdAt), desc(analysisRun.id))
+    .limit(1);
+
+  return run ?? null;
+}
+
+export async function getRunStatus(runId: number): Promise<string | null> {
+  const [run] = await db
+    .select({ status: analysisRun.status })
+    .from(analysisRun)
+    .where(eq(analysisRun.id, runId))
+    .limit(1);
+  return run?.status ?? null;
+}
@@ -0,0 +1,429 @@
+import "server-only";
+
+import { and, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import {
+  burnoutAlert,
+  employeeAnalysisContext,
+  employeeQuarterlyInsights,
+  employees,
+  orgReportingLine,
+} from "@/lib/db/schema";
+import { addWeeks } from "@/lib/services/activityWindow";
+import { loadRiskWeekMetrics } from "@/lib/services/riskFlags";
+import type { RiskWeekMetrics } from "@/lib/services/riskRules";
+import { getSlackClient, type SlackMessageBlock } from "@/lib/services/slackClient";
+
+const DEFAULT_THRESHOLD = 0.3;
+const DEFAULT_WINDOW_WEEKS = 4;
+const DEFAULT_MIN_WEEKS = 3;
+const DEFAULT_CLEAR_WEEKS = 2;
+const MAX_WINDOW_WEEKS = 12;
+const MAX_DELIVERY_ATTEMPTS = 3;
+// Change in average load between the older and newer half of the window
+// before the trend reads as rising or easing.
+const TREND_DELTA = 0.05;
+
+export type BurnoutAlertPolicy = {
+  // A week counts toward the alert when its load is at or above the threshold.
+  threshold: number;
+  // The alert fires when at least `minWeeks` of the last `windowWeeks` weeks count.
+  minWeeks: number;
+  windowWeeks: number;
+  // An open alert clears only after this many consecutive weeks with data
+  // that no longer match, so load hovering at the threshold does not re-alert.
+  clearWeeks: number;
+};
+
+export type BurnoutTrend = "rising" | "steady" | "easing";
+
+// One employee-week of off-hours load: the highest of the after-hours coding,
+// after-hours messaging and weekend messaging ratios.
+export type BurnoutLoadWeek = {
+  weekStart: string;
+  load: number;
+  githubAfterHoursRatio: number | null;
+  slackAfterHoursRatio: number | null;
+  slackWeekendRatio: number | null;
+};
+
+export type BurnoutLoadAssessment = {
+  matched: boolean;
+  averageLoad: number | null;
+  trend: BurnoutTrend;
+  // Weeks in the window with any activity, newest first.
+  weeks: BurnoutLoadWeek[];
+  supportingWeeks: BurnoutLoadWeek[];
+};
+
+export type BurnoutAlertEvaluationSummary = {
+  weekStart: string;
+  opened: number;
+  notified: number;
+  failed: number;
+  cleared: number;
+};
+
+type BurnoutAlertRow = typeof burnoutAlert.$inferSelect;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number (got ${raw}).`);
+  }
+  return parsed;
+}
+
+/**
+ * The alert policy from `BURNOUT_ALERT_THRESHOLD`, `BURNOUT_ALERT_WINDOW_WEEKS`,
+ * `BURNOUT_ALERT_MIN_WEEKS` and `BURNOUT_ALERT_CLEAR_WEEKS`, falling back to
+ * 0.3 in 3 of 4 weeks, cleared after 2 quiet weeks.
+ */
+export function readBurnoutAlertPolicy(): BurnoutAlertPolicy {
+  const threshold = readNumberEnv("BURNOUT_ALERT_THRESHOLD", DEFAULT_THRESHOLD);
+  const windowWeeks = readNumberEnv("BURNOUT_ALERT_WINDOW_WEEKS", DEFAULT_WINDOW_WEEKS);
+  const minWeeks = readNumberEnv("BURNOUT_ALERT_MIN_WEEKS", DEFAULT_MIN_WEEKS);
+  const clearWeeks = readNumberEnv("BURNOUT_ALERT_CLEAR_WEEKS", DEFAULT_CLEAR_WEEKS);
+
+  if (threshold <= 0 || threshold > 1) {
+    throw new Error("BURNOUT_ALERT_THRESHOLD must be greater than 0 and at most 1.");
+  }
+  if (!Number.isInteger(windowWeeks) || windowWeeks < 1 || windowWeeks > MAX_WINDOW_WEEKS) {
+    throw new Error(
+      `BURNOUT_ALERT_WINDOW_WEEKS must be an integer from 1 to ${MAX_WINDOW_WEEKS}.`
+    );
+  }
+  if (!Number.isInteger(minWeeks) || minWeeks < 1 || minWeeks > windowWeeks) {
+    throw new Error(
+      "BURNOUT_ALERT_MIN_WEEKS must be a positive integer no greater than BURNOUT_ALERT_WINDOW_WEEKS."
+    );
+  }
+  if (!Number.isInteger(clearWeeks) || clearWeeks < 1 || clearWeeks > MAX_WINDOW_WEEKS) {
+    throw new Error(
+      `BURNOUT_ALERT_CLEAR_WEEKS must be an integer from 1 to ${MAX_WINDOW_WEEKS}.`
+    );
+  }
+  return { threshold, minWeeks, windowWeeks, clearWeeks };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function resolveTrend(weeksOldestFirst: BurnoutLoadWeek[]): BurnoutTrend {
+  const half = Math.floor(weeksOldestFirst.length / 2);
+  const older = average(weeksOldestFirst.slice(0, half).map((week) => week.load));
+  const newer = average(weeksOldestFirst.slice(-half).map((week) => week.load));
+  if (older === null || newer === null) return "steady";
+  if (newer - older >= TREND_DELTA) return "rising";
+  if (older - newer >= TREND_DELTA) return "easing";
+  return "steady";
+}
+
+/**
+ * Scores one employee's off-hours load over the policy window ending at
+ * `weekStart`. `weeks` may include weeks outside the window; they are ignored.
+ */
+export function assessBurnoutLoad(input: {
+  weekStart: string;
+  weeks: RiskWeekMetrics[];
+  policy: BurnoutAlertPolicy;
+}): BurnoutLoadAssessment {
+  const byWeek = new Map(input.weeks.map((week) => [week.weekStart, week.metrics]));
+
+  const weeks: BurnoutLoadWeek[] = [];
+  for (let offset = 0; offset < input.policy.windowWeeks; offset += 1) {
+    const weekStart = addWeeks(input.weekStart, -offset);
+    const metrics = byWeek.get(weekStart);
+    const ratios = [
+      metrics?.github_after_hours_ratio,
+      metrics?.slack_after_hours_ratio,
+      metrics?.slack_weekend_ratio,
+    ].filter((value): value is number => value !== undefined);
+    if (ratios.length === 0) continue;
+
+    weeks.push({
+      weekStart,
+      load: Math.max(...ratios),
+      githubAfterHoursRatio: metrics?.github_after_hours_ratio ?? null,
+      slackAfterHoursRatio: metrics?.slack_after_hours_ratio ?? null,
+      slackWeekendRatio: metrics?.slack_weekend_ratio ?? null,
+    });
+  }
+
+  const supportingWeeks = weeks.filter((week) => week.load >= input.policy.threshold);
+  return {
+    matched: supportingWeeks.length >= input.policy.minWeeks,
+    averageLoad: average(weeks.map((week) => week.load)),
+    trend: resolveTrend([...weeks].reverse()),
+    weeks,
+    supportingWeeks,
+  };
+}
+
+function toEvidence(assessment: BurnoutLoadAssessment, policy: BurnoutAlertPolicy) {
+  return {
+    averageLoad: assessment.averageLoad,
+    trend: assessment.trend,
+    weeks: assessment.weeks,
+    supportingWeeks: assessment.supportingWeeks,
+    ...policy,
+  };
+}
+
+/** The reporting-line manager, falling back to the analysis context. */
+async function resolveManagerEmail(employeeEmail: string): Promise<string | null> {
+  const [reportingLine] = await db
+    .select({ managerEmail: orgReportingLine.managerEmail })
+    .from(orgReportingLine)
+    .where(eq(orgReportingLine.employeeEmail, employeeEmail))
+    .limit(1);
+  if (reportingLine) return reportingLine.managerEmail;
+
+  const [context] = await db
+    .select({ managerEmail: employeeAnalysisContext.managerEmail })
+    .from(employeeAnalysisContext)
+    .where(eq(employeeAnalysisContext.employeeEmail, employeeEmail))
+    .limit(1);
+  return context?.managerEmail ?? null;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "n/a" : `${Math.round(value * 100)}%`;
+}
+
+async function buildAlertMessage(input: {
+  employeeEmail: string;
+  assessment: BurnoutLoadAssessment;
+  policy: BurnoutAlertPolicy;
+}): Promise<{ message: string; blocks: SlackMessageBlock[] }> {
+  const [[employee], [insight]] = await Promise.all([
+    db
+      .select({ name: employees.name })
+      .from(employees)
+      .where(eq(employees.email, input.employeeEmail))
+      .limit(1),
+    db
+      .select({
+        quarter: employeeQuarterlyInsights.quarter,
+        burnoutAssessment: employeeQuarterlyInsights.burnoutAssessment,
+      })
+      .from(employeeQuarterlyInsights)
+      .where(
+        and(
+          eq(employeeQuarterlyInsights.employeeEmail, input.employeeEmail),
+          eq(employeeQuarterlyInsights.isCurrent, true)
+        )
+      )
+      .orderBy(desc(employeeQuarterlyInsights.quarter))
+      .limit(1),
+  ]);
+
+  const { assessment, policy } = input;
+  const name = employee?.name ?? input.employeeEmail;
+  const message = `Burnout early warning: ${name} has had off-hours load of at least ${formatPercent(policy.threshold)} in ${assessment.supportingWeeks.length} of the last ${policy.windowWeeks} weeks (average ${formatPercent(assessment.averageLoad)}, ${assessment.trend}).`;
+  const weekLines = assessment.supportingWeeks.map(
+    (week) =>
+      `• Week of ${week.weekStart}: ${formatPercent(week.load)} (after-hours code ${formatPercent(week.githubAfterHoursRatio)}, after-hours Slack ${formatPercent(week.slackAfterHoursRatio)}, weekend Slack ${formatPercent(week.slackWeekendRatio)})`
+  );
+
+  const blocks: SlackMessageBlock[] = [
+    { type: "section", text: { type: "mrkdwn", text: `*${message}*` } },
+    { type: "section", text: { type: "mrkdwn", text: weekLines.join("\n") } },
+  ];
+  if (insight) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${insight.quarter} burnout assessment:* ${insight.burnoutAssessment}`,
+      },
+    });
+  }
+  blocks.push({
+    type: "context",
+    elements: [
+      {
+        type: "mrkdwn",
+        text: `You will not be alerted again until the load stays under the threshold for ${input.policy.clearWeeks} week${input.policy.clearWeeks === 1 ? "" : "s"} in a row.`,
+      },
+    ],
+  });
+
+  return { message, blocks };
+}
+
+/** DMs the manager and records the outcome on the alert. */
+async function deliverAlert(input: {
+  alert: BurnoutAlertRow;
+  assessment: BurnoutLoadAssessment;
+  policy: BurnoutAlertPolicy;
+}): Promise<boolean> {
+  const managerEmail = await resolveManagerEmail(input.alert.employeeEmail);
+  const attempt = {
+    managerEmail,
+    deliveryAttempts: sql`${burnoutAlert.deliveryAttempts} + 1`,
+    updatedAt: new Date(),
+  };
+
+  try {
+    if (!managerEmail) {
+      throw new Error(`No manager on record for ${input.alert.employeeEmail}.`);
+    }
+    const { message, blocks } = await buildAlertMessage({
+      employeeEmail: input.alert.employeeEmail,
+      assessment: input.assessment,
+      policy: input.policy,
+    });
+    const result = await getSlackClient().sendManagerUpdate({
+      managerEmail,
+      message,
+      blocks,
+    });
+
+    await db
+      .update(burnoutAlert)
+      .set({
+        ...attempt,
+        slackChannelId: result.channelId,
+        slackTs: result.ts,
+        notifiedAt: new Date(),
+        deliveryError: null,
+      })
+      .where(eq(burnoutAlert.id, input.alert.id));
+    return true;
+  } catch (error) {
+    console.error("[burnout-alerts] delivery failed", error);
+    await db
+      .update(burnoutAlert)
+      .set({
+        ...attempt,
+        deliveryError: error instanceof Error ? error.message : "Unknown error",
+      })
+      .where(eq(burnoutAlert.id, input.alert.id));
+    return false;
+  }
+}
+
+/**
+ * Assesses every employee's sustained load as of `weekStart`. A crossing opens
+ * an alert and DMs the manager; while the alert stays open no further DMs are
+ * sent (an undelivered one is retried up to three times), and it clears only
+ * after `clearWeeks` consecutive weeks with data that no longer match. A week
+ * with no data for the employee is not a non-match and leaves the alert as is.
+ * Weeks older than an employee's latest evaluated week are skipped so replays
+ * never re-alert. With `notify` off, alert state is recorded without sending
+ * DMs; an alert still open in a later notifying week is delivered then.
+ */
+export async function evaluateBurnoutAlerts(input: {
+  weekStart: string;
+  notify: boolean;
+}): Promise<BurnoutAlertEvaluationSummary> {
+  const policy = readBurnoutAlertPolicy();
+  const weekMetrics = await loadRiskWeekMetrics({
+    startWeek: addWeeks(input.weekStart, -(policy.windowWeeks - 1)),
+    endWeek: input.weekStart,
+  });
+
+  // Newest alert per employee.
+  const latestRows = await db
+    .selectDistinctOn([burnoutAlert.employeeEmail])
+    .from(burnoutAlert)
+    .orderBy(burnoutAlert.employeeEmail, desc(burnoutAlert.openedWeek), desc(burnoutAlert.id));
+  const latestAlerts = new Map(latestRows.map((row) => [row.employeeEmail, row]));
+
+  const employeeEmails = new Set([
+    ...weekMetrics.keys(),
+    ...latestRows.filter((row) => row.status === "open").map((row) => row.employeeEmail),
+  ]);
+  const summary: BurnoutAlertEvaluationSummary = {
+    weekStart: input.weekStart,
+    opened: 0,
+    notified: 0,
+    failed: 0,
+    cleared: 0,
+  };
+
+  for (const employeeEmail of employeeEmails) {
+    const latest = latestAlerts.get(employeeEmail);
+    const latestWeek = latest ? (latest.clearedWeek ?? latest.lastEvaluatedWeek) : null;
+    if (latestWeek && input.weekStart < latestWeek) continue;
+
+    const weeks = Array.from(weekMetrics.get(employeeEmail) ?? [], ([weekStart, metrics]) => ({
+      weekStart,
+      metrics,
+    }));
+    const assessment = assessBurnoutLoad({ weekStart: input.weekStart, weeks, policy });
+    const hasWeekData = assessment.weeks.some((week) => week.weekStart === input.weekStart);
+    const now = new Date();
+
+    let pending: BurnoutAlertRow | null = null;
+    if (latest?.status === "open" && assessment.matched) {
+      await db
+        .update(burnoutAlert)
+        .set({
+          lastMatchedWeek: input.weekStart,
+          lastEvaluatedWeek: input.weekStart,
+          quietWeeks: 0,
+          evidence: toEvidence(assessment, policy),
+          updatedAt: now,
+        })
+        .where(eq(burnoutAlert.id, latest.id));
+      if (!latest.notifiedAt && latest.deliveryAttempts < MAX_DELIVERY_ATTEMPTS) {
+        pending = latest;
+      }
+    } else if (latest?.status === "open") {
+      if (!hasWeekData) continue;
+
+      // Re-running the same week must not count it twice.
+      const quietWeeks =
+        input.weekStart > latest.lastEvaluatedWeek ? latest.quietWeeks + 1 : latest.quietWeeks;
+      if (quietWeeks >= policy.clearWeeks) {
+        await db
+          .update(burnoutAlert)
+          .set({
+            status: "cleared",
+            quietWeeks,
+            lastEvaluatedWeek: input.weekStart,
+            clearedWeek: input.weekStart,
+            clearedAt: now,
+            updatedAt: now,
+          })
+          .where(eq(burnoutAlert.id, latest.id));
+        summary.cleared += 1;
+      } else {
+        await db
+          .update(burnoutAlert)
+          .set({ quietWeeks, lastEvaluatedWeek: input.weekStart, updatedAt: now })
+          .where(eq(burnoutAlert.id, latest.id));
+      }
+    } else if (assessment.matched) {
+      [pending] = await db
+        .insert(burnoutAlert)
+        .values({
+          employeeEmail,
+          openedWeek: input.weekStart,
+          lastMatchedWeek: input.weekStart,
+          lastEvaluatedWeek: input.weekStart,
+          evidence: toEvidence(assessment, policy),
+        })
+        .returning();
+      summary.opened += 1;
+    }
+
+    if (pending && input.notify) {
+      if (await deliverAlert({ alert: pending, assessment, policy })) {
+        summary.notified += 1;
+      } else {
+        summary.failed += 1;
+      }
+    }
+  }
+
+  return summary;
+}
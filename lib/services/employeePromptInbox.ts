@@ -0,0 +1,203 @@
+import "server-only";
+
+import { and, desc, eq, inArray, isNotNull, lte } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { analysisRun, employeePrompt } from "@/lib/db/schema";
+
+const DEFAULT_SNOOZE_DAYS = 7;
+const MAX_SNOOZE_DAYS = 30;
+const MAX_RESPONSE_EVIDENCE = 10;
+
+export type EmployeePromptStatus = "pending" | "replied" | "snoozed" | "not_relevant";
+
+export type EmployeePromptAction =
+  | { type: "reply"; text: string }
+  | { type: "snooze"; days?: number }
+  | { type: "not_relevant"; text?: string };
+
+export type InboxPrompt = {
+  id: number;
+  runId: number;
+  quarter: string;
+  theme: string;
+  message: string;
+  confidenceLevel: string;
+  // A snooze that has run out reads as pending again.
+  status: EmployeePromptStatus;
+  responseText: string | null;
+  respondedAt: string | null;
+  snoozedUntil: string | null;
+  createdAt: string;
+};
+
+export type PromptInbox = {
+  employeeEmail: string;
+  quarters: Array<{
+    quarter: string;
+    prompts: InboxPrompt[];
+  }>;
+};
+
+export type EmployeePromptResponse = {
+  promptId: number;
+  quarter: string;
+  theme: string;
+  status: "replied" | "not_relevant";
+  responseText: string | null;
+};
+
+export type RespondToPromptResult =
+  | { ok: true; prompt: InboxPrompt }
+  | { ok: false; reason: "not_found" | "invalid_snooze" };
+
+type EmployeePromptRow = typeof employeePrompt.$inferSelect;
+
+function effectiveStatus(row: EmployeePromptRow, now: Date): EmployeePromptStatus {
+  if (row.status === "snoozed" && (!row.snoozedUntil || row.snoozedUntil <= now)) {
+    return "pending";
+  }
+  return row.status as EmployeePromptStatus;
+}
+
+function toInboxPrompt(row: EmployeePromptRow, now: Date): InboxPrompt {
+  const status = effectiveStatus(row, now);
+  return {
+    id: row.id,
+    runId: row.runId,
+    quarter: row.quarter,
+    theme: row.theme,
+    message: row.message,
+    confidenceLevel: row.confidenceLevel,
+    status,
+    responseText: row.responseText,
+    respondedAt: row.respondedAt?.toISOString() ?? null,
+    snoozedUntil: status === "snoozed" ? (row.snoozedUntil?.toISOString() ?? null) : null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Check-in prompts from completed analysis runs, newest quarter first. Prompts
+ * of failed runs are hidden because resuming the run replaces them.
+ */
+export async function getPromptInbox(employeeEmail: string): Promise<PromptInbox> {
+  const rows = await db
+    .select({ prompt: employeePrompt })
+    .from(employeePrompt)
+    .innerJoin(analysisRun, eq(analysisRun.id, employeePrompt.runId))
+    .where(
+      and(
+        eq(employeePrompt.employeeEmail, employeeEmail),
+        eq(analysisRun.status, "completed")
+      )
+    )
+    .orderBy(desc(employeePrompt.quarter), desc(employeePrompt.createdAt), employeePrompt.id);
+
+  const now = new Date();
+  const byQuarter = new Map<string, InboxPrompt[]>();
+  for (const { prompt } of rows) {
+    const prompts = byQuarter.get(prompt.quarter) ?? [];
+    prompts.push(toInboxPrompt(prompt, now));
+    byQuarter.set(prompt.quarter, prompts);
+  }
+
+  return {
+    employeeEmail,
+    quarters: Array.from(byQuarter, ([quarter, prompts]) => ({ quarter, prompts })),
+  };
+}
+
+/**
+ * Applies the employee's inbox action. Replies and not-relevant marks can be
+ * changed later; the latest one is what the next analysis run sees.
+ */
+export async function respondToEmployeePrompt(input: {
+  promptId: number;
+  employeeEmail: string;
+  action: EmployeePromptAction;
+}): Promise<RespondToPromptResult> {
+  const now = new Date();
+  let update: Partial<typeof employeePrompt.$inferInsert>;
+
+  switch (input.action.type) {
+    case "reply":
+      update = {
+        status: "replied",
+        responseText: input.action.text,
+        respondedAt: now,
+        snoozedUntil: null,
+      };
+      break;
+    case "not_relevant":
+      update = {
+        status: "not_relevant",
+        responseText: input.action.text ?? null,
+        respondedAt: now,
+        snoozedUntil: null,
+      };
+      break;
+    case "snooze": {
+      const days = input.action.days ?? DEFAULT_SNOOZE_DAYS;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_SNOOZE_DAYS) {
+        return { ok: false, reason: "invalid_snooze" };
+      }
+      update = {
+        status: "snoozed",
+        snoozedUntil: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+      };
+      break;
+    }
+  }
+
+  const [updated] = await db
+    .update(employeePrompt)
+    .set(update)
+    .where(
+      and(
+        eq(employeePrompt.id, input.promptId),
+        eq(employeePrompt.employeeEmail, input.employeeEmail)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    return { ok: false, reason: "not_found" };
+  }
+  return { ok: true, prompt: toInboxPrompt(updated, now) };
+}
+
+/**
+ * The employee's most recent replies and not-relevant marks on prompts from
+ * this quarter or earlier, for the analysis evidence catalog.
+ */
+export async function listPromptResponsesForEvidence(input: {
+  employeeEmail: string;
+  quarter: string;
+}): Promise<EmployeePromptResponse[]> {
+  const rows = await db
+    .select({
+      promptId: employeePrompt.id,
+      quarter: employeePrompt.quarter,
+      theme: employeePrompt.theme,
+      status: employeePrompt.status,
+      responseText: employeePrompt.responseText,
+    })
+    .from(employeePrompt)
+    .where(
+      and(
+        eq(employeePrompt.employeeEmail, input.employeeEmail),
+        // Quarter keys (YYYY-Qn) sort chronologically as strings.
+        lte(employeePrompt.quarter, input.quarter),
+        inArray(employeePrompt.status, ["replied", "not_relevant"]),
+        isNotNull(employeePrompt.respondedAt)
+      )
+    )
+    .orderBy(desc(employeePrompt.respondedAt))
+    .limit(MAX_RESPONSE_EVIDENCE);
+
+  return rows.map((row) => ({
+    ...row,
+    status: row.status as EmployeePromptResponse["status"],
+  }));
+}
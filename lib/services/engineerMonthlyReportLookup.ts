@@ -1,6 +1,6 @@
 import "server-only";
 
-import { desc, eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 
 import { db } from "@/lib/db/config";
 import { employeeMonthlyInsights } from "@/lib/db/schema";
@@ -76,7 +76,12 @@ export async function getExistingMonthlyReportByEmployeeEmail(
       identifiedOpportunities: employeeMonthlyInsights.identifiedOpportunities,
     })
     .from(employeeMonthlyInsights)
-    .where(eq(employeeMonthlyInsights.employeeEmail, employeeEmail))
+    .where(
+      and(
+        eq(employeeMonthlyInsights.employeeEmail, employeeEmail),
+        eq(employeeMonthlyInsights.isCurrent, true)
+      )
+    )
     .orderBy(desc(employeeMonthlyInsights.createdAt))
     .limit(1);
 
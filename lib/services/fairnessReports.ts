@@ -0,0 +1,120 @@
+import "server-only";
+
+import { desc, eq, ne, sql } from "drizzle-orm";
+
+import type {
+  FairnessRuleId,
+  FairnessStageReport,
+  FairnessViolation,
+} from "@/lib/ai/fairnessPolicy";
+import { db } from "@/lib/db/config";
+import { analysisRun } from "@/lib/db/schema";
+import type { FairnessReport } from "@/lib/services/managerAnalysisOrchestrator";
+
+const DEFAULT_LIMIT = 50;
+const FAIRNESS_STAGES = ["debate", "arbiter", "guidance"] as const;
+
+export type AnalysisRunFairness = {
+  runId: number;
+  employeeEmail: string;
+  managerEmail: string;
+  quarter: string;
+  status: string;
+  failedStage: string | null;
+  createdAt: string;
+  blocked: boolean;
+  violationsByRule: Partial<Record<FairnessRuleId, number>>;
+  violations: FairnessViolation[];
+  stages: FairnessReport;
+};
+
+function asStageReport(value: unknown): FairnessStageReport | null {
+  if (typeof value !== "object" || value === null) return null;
+  const candidate = value as Partial<FairnessStageReport>;
+  if (!Array.isArray(candidate.violations)) return null;
+  return {
+    blocked: candidate.blocked === true,
+    violationsByRule: candidate.violationsByRule ?? {},
+    violations: candidate.violations,
+  };
+}
+
+function toRunFairness(row: {
+  id: number;
+  employeeEmail: string;
+  managerEmail: string;
+  quarter: string;
+  status: string;
+  failedStage: string | null;
+  createdAt: Date;
+  fairnessReport: unknown;
+}): AnalysisRunFairness {
+  const stored = (row.fairnessReport ?? {}) as Record<string, unknown>;
+  const stages: FairnessReport = {
+    debate: asStageReport(stored.debate),
+    arbiter: asStageReport(stored.arbiter),
+    guidance: asStageReport(stored.guidance),
+  };
+
+  const violations = FAIRNESS_STAGES.flatMap(
+    (stage) => stages[stage]?.violations ?? []
+  );
+  const violationsByRule: Partial<Record<FairnessRuleId, number>> = {};
+  for (const violation of violations) {
+    violationsByRule[violation.ruleId] = (violationsByRule[violation.ruleId] ?? 0) + 1;
+  }
+
+  return {
+    runId: row.id,
+    employeeEmail: row.employeeEmail,
+    managerEmail: row.managerEmail,
+    quarter: row.quarter,
+    status: row.status,
+    failedStage: row.failedStage,
+    createdAt: row.createdAt.toISOString(),
+    blocked: FAIRNESS_STAGES.some((stage) => stages[stage]?.blocked),
+    violationsByRule,
+    violations,
+    stages,
+  };
+}
+
+const runColumns = {
+  id: analysisRun.id,
+  employeeEmail: analysisRun.employeeEmail,
+  managerEmail: analysisRun.managerEmail,
+  quarter: analysisRun.quarter,
+  status: analysisRun.status,
+  failedStage: analysisRun.failedStage,
+  createdAt: analysisRun.createdAt,
+  fairnessReport: analysisRun.fairnessReport,
+};
+
+/**
+ * Most recent analysis runs that have a fairness report, newest first. Runs
+ * from before the policy existed store `{}` and are left out.
+ */
+export async function listFairnessReports(
+  input: { limit?: number } = {}
+): Promise<AnalysisRunFairness[]> {
+  const rows = await db
+    .select(runColumns)
+    .from(analysisRun)
+    .where(ne(analysisRun.fairnessReport, sql`'{}'::jsonb`))
+    .orderBy(desc(analysisRun.createdAt), desc(analysisRun.id))
+    .limit(input.limit ?? DEFAULT_LIMIT);
+
+  return rows.map(toRunFairness);
+}
+
+export async function findFairnessReport(
+  runId: number
+): Promise<AnalysisRunFairness | null> {
+  const [row] = await db
+    .select(runColumns)
+    .from(analysisRun)
+    .where(eq(analysisRun.id, runId))
+    .limit(1);
+
+  return row ? toRunFairness(row) : null;
+}
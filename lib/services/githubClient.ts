@@ -0,0 +1,219 @@
+import "server-only";
+
+const DEFAULT_GITHUB_API_BASE_URL = "https://api.github.com";
+const SEARCH_PAGE_SIZE = 100;
+// GitHub search never returns more than 1000 results per query.
+const MAX_SEARCH_PAGES = 10;
+const REVIEWS_PAGE_SIZE = 100;
+
+export type GithubClientConfig = {
+  token: string;
+  apiBaseUrl?: string;
+  org?: string;
+};
+
+export type GithubLabel = {
+  name?: string;
+};
+
+export type GithubSearchIssueItem = {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: "open" | "closed";
+  state_reason?: "completed" | "not_planned" | "reopened" | null;
+  created_at: string;
+  closed_at?: string | null;
+  repository_url: string;
+  user?: { login?: string } | null;
+  labels?: GithubLabel[];
+  pull_request?: {
+    merged_at?: string | null;
+  };
+};
+
+export type GithubPullRequestReview = {
+  user?: { login?: string } | null;
+  state: string;
+  submitted_at?: string | null;
+  body?: string | null;
+};
+
+type GithubSearchResponse<T> = {
+  total_count: number;
+  items: T[];
+};
+
+type GithubUserSearchItem = {
+  login: string;
+};
+
+export type GithubRepositoryRef = {
+  owner: string;
+  repo: string;
+};
+
+export class GithubApiError extends Error {
+  constructor(
+    message: string,
+    readonly path: string,
+    readonly statusCode: number
+  ) {
+    super(message);
+  }
+}
+
+function readRequiredEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(
+      `Missing ${name}. Set it in your server environment (e.g. .env.local).`
+    );
+  }
+  return value;
+}
+
+function readOptionalEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+export function parseRepositoryUrl(repositoryUrl: string): GithubRepositoryRef {
+  const segments = new URL(repositoryUrl).pathname.split("/").filter(Boolean);
+  const repo = segments.at(-1);
+  const owner = segments.at(-2);
+  if (!owner || !repo) {
+    throw new Error(`Unable to parse repository from ${repositoryUrl}.`);
+  }
+  return { owner, repo };
+}
+
+export class GithubClient {
+  readonly apiBaseUrl: string;
+  readonly org?: string;
+  private readonly token: string;
+
+  constructor(config: GithubClientConfig) {
+    this.token = config.token;
+    this.org = config.org;
+    this.apiBaseUrl = (config.apiBaseUrl ?? DEFAULT_GITHUB_API_BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
+  }
+
+  static fromEnv(overrides: Partial<GithubClientConfig> = {}): GithubClient {
+    return new GithubClient({
+      token: overrides.token ?? readRequiredEnv("GITHUB_TOKEN"),
+      org: overrides.org ?? readOptionalEnv("GITHUB_ORG"),
+      apiBaseUrl:
+        overrides.apiBaseUrl ??
+        readOptionalEnv("GITHUB_API_BASE_URL") ??
+        DEFAULT_GITHUB_API_BASE_URL,
+    });
+  }
+
+  private async getJson<T>(
+    path: string,
+    params: Record<string, string> = {}
+  ): Promise<T> {
+    const url = new URL(`${this.apiBaseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${this.token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    });
+
+    const rawResponse = await response.text();
+
+    if (!response.ok) {
+      throw new GithubApiError(
+        `GitHub ${path} failed with HTTP ${response.status}.`,
+        path,
+        response.status
+      );
+    }
+
+    try {
+      return JSON.parse(rawResponse) as T;
+    } catch {
+      throw new GithubApiError(
+        `GitHub ${path} returned non-JSON response.`,
+        path,
+        response.status
+      );
+    }
+  }
+
+  private scopeQuery(query: string): string {
+    return this.org ? `${query} org:${this.org}` : query;
+  }
+
+  async searchIssues(query: string): Promise<GithubSearchIssueItem[]> {
+    const items: GithubSearchIssueItem[] = [];
+
+    for (let page = 1; page <= MAX_SEARCH_PAGES; page += 1) {
+      const response = await this.getJson<
+        GithubSearchResponse<GithubSearchIssueItem>
+      >("/search/issues", {
+        q: this.scopeQuery(query),
+        per_page: String(SEARCH_PAGE_SIZE),
+        page: String(page),
+      });
+
+      items.push(...response.items);
+      if (
+        response.items.length < SEARCH_PAGE_SIZE ||
+        items.length >= response.total_count
+      ) {
+        break;
+      }
+    }
+
+    return items;
+  }
+
+  async findLoginByEmail(email: string): Promise<string | null> {
+    const response = await this.getJson<GithubSearchResponse<GithubUserSearchItem>>(
+      "/search/users",
+      { q: `${email} in:email`, per_page: "1" }
+    );
+    return response.items[0]?.login ?? null;
+  }
+
+  async listPullRequestReviews(
+    ref: GithubRepositoryRef,
+    pullNumber: number
+  ): Promise<GithubPullRequestReview[]> {
+    const reviews: GithubPullRequestReview[] = [];
+
+    for (let page = 1; ; page += 1) {
+      const response = await this.getJson<GithubPullRequestReview[]>(
+        `/repos/${ref.owner}/${ref.repo}/pulls/${pullNumber}/reviews`,
+        { per_page: String(REVIEWS_PAGE_SIZE), page: String(page) }
+      );
+      reviews.push(...response);
+      if (response.length < REVIEWS_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return reviews;
+  }
+}
+
+let cachedGithubClient: GithubClient | null = null;
+
+export function getGithubClient(): GithubClient {
+  if (!cachedGithubClient) {
+    cachedGithubClient = GithubClient.fromEnv();
+  }
+  return cachedGithubClient;
+}
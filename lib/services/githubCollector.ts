@@ -0,0 +1,387 @@
+import "server-only";
+
+import { asc, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { employees, githubWeeklyActivity } from "@/lib/db/schema";
+import type { IssueSummary, PullRequestSummary } from "@/lib/db/seed-data";
+import {
+  computeWorkPatternRatios,
+  isWithinWindow,
+  readWorkPatternConfigFromEnv,
+  resolveWeekWindow,
+  type WeekWindow,
+  type WorkPatternConfig,
+} from "@/lib/services/activityWindow";
+import {
+  getGithubClient,
+  parseRepositoryUrl,
+  type GithubClient,
+  type GithubLabel,
+  type GithubPullRequestReview,
+  type GithubSearchIssueItem,
+} from "@/lib/services/githubClient";
+
+export type GithubCollectorEmployee = {
+  email: string;
+  githubLogin?: string | null;
+};
+
+export type CollectedGithubWeek = {
+  employeeEmail: string;
+  weekStart: string;
+  pullRequestSummaries: PullRequestSummary[];
+  issueSummaries: IssueSummary[];
+  prsMerged: number;
+  prReviewsGiven: number;
+  afterHoursRatio: number;
+  weekendRatio: number;
+};
+
+export type CollectorFailure = {
+  // null when the failure is not tied to one employee (e.g. a Slack channel).
+  employeeEmail: string | null;
+  message: string;
+};
+
+export type GithubCollectionResult = {
+  weekStart: string;
+  rows: CollectedGithubWeek[];
+  failures: CollectorFailure[];
+};
+
+const CONVENTIONAL_TITLE_PATTERN = /^(\w+)(?:\(([^)]+)\))?!?:\s*(.+)$/;
+
+function labelNames(labels: GithubLabel[] | undefined): string[] {
+  return (labels ?? [])
+    .map((label) => label.name?.trim().toLowerCase() ?? "")
+    .filter(Boolean);
+}
+
+function prefixedLabelValues(labels: string[], prefix: string): string[] {
+  return labels
+    .filter((label) => label.startsWith(`${prefix}:`) || label.startsWith(`${prefix}/`))
+    .map((label) => label.slice(prefix.length + 1).trim())
+    .filter(Boolean);
+}
+
+function parseConventionalTitle(title: string): {
+  kind: string | null;
+  scope: string | null;
+  subject: string;
+} {
+  const match = CONVENTIONAL_TITLE_PATTERN.exec(title.trim());
+  if (!match) {
+    return { kind: null, scope: null, subject: title.trim() };
+  }
+  return {
+    kind: match[1].toLowerCase(),
+    scope: match[2]?.trim() ?? null,
+    subject: match[3].trim(),
+  };
+}
+
+function classifyPullRequestType(
+  labels: string[],
+  titleKind: string | null
+): PullRequestSummary["type"] {
+  const candidates = [...labels, ...prefixedLabelValues(labels, "type")];
+  if (titleKind) {
+    candidates.push(titleKind);
+  }
+
+  if (candidates.some((value) => ["fix", "bug", "bugfix", "hotfix"].includes(value))) {
+    return "fix";
+  }
+  if (candidates.some((value) => value === "refactor")) {
+    return "refactor";
+  }
+  if (
+    candidates.some((value) =>
+      ["infra", "ci", "build", "chore", "devops", "dependencies", "perf"].includes(value)
+    )
+  ) {
+    return "infra";
+  }
+  return "feature";
+}
+
+function classifyReviewFeedbackTone(
+  reviews: GithubPullRequestReview[],
+  authorLogin: string
+): PullRequestSummary["reviewFeedbackTone"] {
+  const external = reviews.filter(
+    (review) => review.user?.login?.toLowerCase() !== authorLogin.toLowerCase()
+  );
+  if (
+    external.some(
+      (review) =>
+        review.state === "CHANGES_REQUESTED" ||
+        (review.state === "COMMENTED" && Boolean(review.body?.trim()))
+    )
+  ) {
+    return "constructive";
+  }
+  if (external.some((review) => review.state === "APPROVED")) {
+    return "positive";
+  }
+  return "minimal";
+}
+
+function toPullRequestSummary(input: {
+  item: GithubSearchIssueItem;
+  reviews: GithubPullRequestReview[];
+  authorLogin: string;
+}): PullRequestSummary {
+  const labels = labelNames(input.item.labels);
+  const title = parseConventionalTitle(input.item.title);
+  const { repo } = parseRepositoryUrl(input.item.repository_url);
+  const area = prefixedLabelValues(labels, "area")[0] ?? title.scope ?? repo;
+  const isCore =
+    labels.includes("core") || prefixedLabelValues(labels, "impact").includes("core");
+
+  return {
+    type: classifyPullRequestType(labels, title.kind),
+    area,
+    impact: isCore ? "core" : "edge",
+    summary: title.subject,
+    teamsAffected: prefixedLabelValues(labels, "team"),
+    reviewFeedbackTone: classifyReviewFeedbackTone(input.reviews, input.authorLogin),
+    merged: Boolean(input.item.pull_request?.merged_at),
+  };
+}
+
+function classifyIssueCategory(labels: string[]): IssueSummary["category"] {
+  if (labels.some((label) => label === "bug" || label === "defect")) {
+    return "bug";
+  }
+  if (
+    labels.some((label) =>
+      ["tech debt", "tech-debt", "techdebt", "debt"].includes(label)
+    )
+  ) {
+    return "tech debt";
+  }
+  if (labels.some((label) => label === "proposal" || label === "rfc")) {
+    return "proposal";
+  }
+  return "design discussion";
+}
+
+function classifyIssueOutcome(item: GithubSearchIssueItem): IssueSummary["outcome"] {
+  if (item.state === "closed" && item.state_reason === "not_planned") {
+    return "rejected";
+  }
+  if (item.state === "closed") {
+    return "accepted";
+  }
+  return "deferred";
+}
+
+function toIssueSummary(item: GithubSearchIssueItem): IssueSummary {
+  return {
+    category: classifyIssueCategory(labelNames(item.labels)),
+    summary: item.title.trim(),
+    outcome: classifyIssueOutcome(item),
+  };
+}
+
+function itemKey(item: GithubSearchIssueItem): string {
+  return `${item.repository_url}#${item.number}`;
+}
+
+function dedupeItems(items: GithubSearchIssueItem[]): GithubSearchIssueItem[] {
+  const byKey = new Map<string, GithubSearchIssueItem>();
+  for (const item of items) {
+    byKey.set(itemKey(item), item);
+  }
+  return Array.from(byKey.values());
+}
+
+function parseTimestamp(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+async function resolveGithubLogin(
+  client: GithubClient,
+  employee: GithubCollectorEmployee
+): Promise<string> {
+  const configured = employee.githubLogin?.trim();
+  if (configured) {
+    return configured;
+  }
+
+  const login = await client.findLoginByEmail(employee.email);
+  if (!login) {
+    throw new Error(
+      `No GitHub login configured or discoverable for ${employee.email}.`
+    );
+  }
+  return login;
+}
+
+async function collectEmployeeWeek(input: {
+  client: GithubClient;
+  employee: GithubCollectorEmployee;
+  window: WeekWindow;
+  workPattern: WorkPatternConfig;
+}): Promise<CollectedGithubWeek> {
+  const { client, window } = input;
+  const login = await resolveGithubLogin(client, input.employee);
+  const range = `${window.weekStart}..${window.weekEnd}`;
+
+  const [createdPullRequests, mergedPullRequests, reviewedPullRequests, issues] =
+    await Promise.all([
+      client.searchIssues(`type:pr author:${login} created:${range}`),
+      client.searchIssues(`type:pr author:${login} merged:${range}`),
+      // A PR's updated time moves with any later activity, so only bound it
+      // below; reviews are filtered to the window by submitted_at.
+      client.searchIssues(
+        `type:pr reviewed-by:${login} -author:${login} updated:>=${window.weekStart}`
+      ),
+      client.searchIssues(`type:issue author:${login} created:${range}`),
+    ]);
+
+  const authoredPullRequests = dedupeItems([
+    ...createdPullRequests,
+    ...mergedPullRequests,
+  ]);
+  const activityTimestamps: Date[] = [];
+
+  const pullRequestSummaries: PullRequestSummary[] = [];
+  let prsMerged = 0;
+  for (const item of authoredPullRequests) {
+    const reviews = await client.listPullRequestReviews(
+      parseRepositoryUrl(item.repository_url),
+      item.number
+    );
+    pullRequestSummaries.push(
+      toPullRequestSummary({ item, reviews, authorLogin: login })
+    );
+
+    const createdAt = parseTimestamp(item.created_at);
+    if (createdAt && isWithinWindow(createdAt, window)) {
+      activityTimestamps.push(createdAt);
+    }
+    const mergedAt = parseTimestamp(item.pull_request?.merged_at);
+    if (mergedAt && isWithinWindow(mergedAt, window)) {
+      prsMerged += 1;
+    }
+  }
+
+  let prReviewsGiven = 0;
+  for (const item of dedupeItems(reviewedPullRequests)) {
+    const reviews = await client.listPullRequestReviews(
+      parseRepositoryUrl(item.repository_url),
+      item.number
+    );
+    for (const review of reviews) {
+      if (review.user?.login?.toLowerCase() !== login.toLowerCase()) continue;
+      if (review.state === "PENDING") continue;
+      const submittedAt = parseTimestamp(review.submitted_at);
+      if (!submittedAt || !isWithinWindow(submittedAt, window)) continue;
+      prReviewsGiven += 1;
+      activityTimestamps.push(submittedAt);
+    }
+  }
+
+  const issueSummaries = dedupeItems(issues).map((item) => {
+    const createdAt = parseTimestamp(item.created_at);
+    if (createdAt && isWithinWindow(createdAt, window)) {
+      activityTimestamps.push(createdAt);
+    }
+    return toIssueSummary(item);
+  });
+
+  const ratios = computeWorkPatternRatios(activityTimestamps, input.workPattern);
+
+  return {
+    employeeEmail: input.employee.email,
+    weekStart: window.weekStart,
+    pullRequestSummaries,
+    issueSummaries,
+    prsMerged,
+    prReviewsGiven,
+    afterHoursRatio: ratios.afterHoursRatio,
+    weekendRatio: ratios.weekendRatio,
+  };
+}
+
+async function loadCollectorEmployees(): Promise<GithubCollectorEmployee[]> {
+  return db
+    .select({ email: employees.email, githubLogin: employees.githubLogin })
+    .from(employees)
+    .orderBy(asc(employees.email));
+}
+
+function sanitizeErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return "Unknown error";
+}
+
+export async function collectGithubWeeklyActivity(input: {
+  weekStart: string;
+  employees?: GithubCollectorEmployee[];
+  client?: GithubClient;
+  workPattern?: WorkPatternConfig;
+}): Promise<GithubCollectionResult> {
+  const window = resolveWeekWindow(input.weekStart);
+  const client = input.client ?? getGithubClient();
+  const workPattern = input.workPattern ?? readWorkPatternConfigFromEnv();
+  const targets = input.employees ?? (await loadCollectorEmployees());
+
+  const rows: CollectedGithubWeek[] = [];
+  const failures: CollectorFailure[] = [];
+
+  for (const employee of targets) {
+    try {
+      rows.push(
+        await collectEmployeeWeek({ client, employee, window, workPattern })
+      );
+    } catch (error) {
+      failures.push({
+        employeeEmail: employee.email,
+        message: sanitizeErrorMessage(error),
+      });
+    }
+  }
+
+  return { weekStart: window.weekStart, rows, failures };
+}
+
+export async function upsertGithubWeeklyActivity(
+  rows: CollectedGithubWeek[]
+): Promise<number> {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  await db
+    .insert(githubWeeklyActivity)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [githubWeeklyActivity.employeeEmail, githubWeeklyActivity.weekStart],
+      set: {
+        pullRequestSummaries: sql`excluded.pull_request_summaries`,
+        issueSummaries: sql`excluded.issue_summaries`,
+        prsMerged: sql`excluded.prs_merged`,
+        prReviewsGiven: sql`excluded.pr_reviews_given`,
+        afterHoursRatio: sql`excluded.after_hours_ratio`,
+        weekendRatio: sql`excluded.weekend_ratio`,
+      },
+    });
+
+  return rows.length;
+}
+
+export async function ingestGithubWeek(input: {
+  weekStart: string;
+  employees?: GithubCollectorEmployee[];
+  client?: GithubClient;
+}): Promise<GithubCollectionResult & { upserted: number }> {
+  const result = await collectGithubWeeklyActivity(input);
+  const upserted = await upsertGithubWeeklyActivity(result.rows);
+  return { ...result, upserted };
+}
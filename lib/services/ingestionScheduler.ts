@@ -0,0 +1,418 @@
+import "server-only";
+
+import { and, asc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+
+import { revalidateDashboardData } from "@/lib/data/dashboard";
+import { db } from "@/lib/db/config";
+import { backgroundJob, ingestionRun } from "@/lib/db/schema";
+import {
+  detectActivityAnomalies,
+  type ActivityAnomalyDetectionSummary,
+} from "@/lib/services/activityAnomalies";
+import {
+  addWeeks,
+  isValidWeekStart,
+  latestCompletedWeekStart,
+} from "@/lib/services/activityWindow";
+import {
+  evaluateBurnoutAlerts,
+  type BurnoutAlertEvaluationSummary,
+} from "@/lib/services/burnoutAlerts";
+import { ingestGithubWeek } from "@/lib/services/githubCollector";
+import { enqueueJob } from "@/lib/services/jobQueue";
+import {
+  evaluateRiskFlags,
+  type RiskFlagEvaluationSummary,
+} from "@/lib/services/riskFlags";
+import { ingestSlackWeek } from "@/lib/services/slackCollector";
+
+const DEFAULT_MAX_BACKFILL_WEEKS = 8;
+const DEFAULT_RUN_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+// A week whose runs keep ending `partial` stops being retried after this many.
+const MAX_PARTIAL_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = "23505";
+
+export type IngestionTrigger = "cron" | "manual" | "backfill";
+
+export type IngestionRunStatus = "running" | "completed" | "partial" | "failed";
+
+export type IngestionSource = "github" | "slack";
+
+export type IngestionFailure = {
+  source: IngestionSource;
+  // null when the whole source failed (e.g. missing credentials).
+  employeeEmail: string | null;
+  message: string;
+};
+
+export type QueuedIngestionWeek = {
+  weekStart: string;
+  trigger: IngestionTrigger;
+  jobId: number;
+};
+
+export type IngestionRunSummary = {
+  runId: number | null;
+  weekStart: string;
+  trigger: IngestionTrigger;
+  status: IngestionRunStatus | "skipped";
+  githubRowsUpserted: number;
+  slackRowsUpserted: number;
+  failures: IngestionFailure[];
+  // null when the week was skipped, fully failed, or evaluation threw.
+  riskFlags: RiskFlagEvaluationSummary | null;
+  burnoutAlerts: BurnoutAlertEvaluationSummary | null;
+  anomalies: ActivityAnomalyDetectionSummary | null;
+};
+
+function readMaxBackfillWeeks(): number {
+  const parsed = Number(process.env.INGESTION_MAX_BACKFILL_WEEKS);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return DEFAULT_MAX_BACKFILL_WEEKS;
+  }
+  return parsed;
+}
+
+// A `running` row older than this belongs to a process that died mid-run.
+function readRunTimeoutMs(): number {
+  const parsed = Number(process.env.INGESTION_RUN_TIMEOUT_MS);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return DEFAULT_RUN_TIMEOUT_MS;
+  }
+  return parsed;
+}
+
+// Drizzle wraps driver errors, so the Postgres code may sit on a cause.
+function isUniqueViolation(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as Error & { code?: unknown }).code === UNIQUE_VIOLATION) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function sanitizeErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return "Unknown error";
+}
+
+function resolveRunStatus(input: {
+  sourceFailures: number;
+  failures: IngestionFailure[];
+}): IngestionRunStatus {
+  if (input.sourceFailures === 2) return "failed";
+  if (input.failures.length > 0) return "partial";
+  return "completed";
+}
+
+/**
+ * Weeks still owed by the scheduler: every Monday in the last `maxWeeks`
+ * weeks up to `throughWeekStart` without a completed run, oldest first, so a
+ * failed week is retried even after later weeks succeed. A partial week is
+ * retried until it completes or has ended partial `MAX_PARTIAL_ATTEMPTS`
+ * times. Weeks before the first week that ever finished are not owed, and
+ * when no run has ever finished only `throughWeekStart` is returned so a
+ * fresh install does not sweep unbounded history.
+ */
+export async function listPendingIngestionWeeks(
+  throughWeekStart: string = latestCompletedWeekStart(),
+  maxWeeks: number = readMaxBackfillWeeks()
+): Promise<string[]> {
+  const finished = inArray(ingestionRun.status, ["completed", "partial"]);
+  const windowStart = addWeeks(throughWeekStart, -(maxWeeks - 1));
+
+  const [firstRun] = await db
+    .select({ weekStart: ingestionRun.weekStart })
+    .from(ingestionRun)
+    .where(finished)
+    .orderBy(asc(ingestionRun.weekStart))
+    .limit(1);
+
+  if (!firstRun) {
+    return [throughWeekStart];
+  }
+
+  const finishedRows = await db
+    .select({
+      weekStart: ingestionRun.weekStart,
+      status: ingestionRun.status,
+      runs: sql<number>`count(*)::int`,
+    })
+    .from(ingestionRun)
+    .where(and(finished, gte(ingestionRun.weekStart, windowStart)))
+    .groupBy(ingestionRun.weekStart, ingestionRun.status);
+  const finishedWeeks = new Set(
+    finishedRows
+      .filter((row) => row.status === "completed" || row.runs >= MAX_PARTIAL_ATTEMPTS)
+      .map((row) => row.weekStart)
+  );
+
+  const weeks: string[] = [];
+  for (
+    let weekStart = firstRun.weekStart > windowStart ? firstRun.weekStart : windowStart;
+    weekStart <= throughWeekStart;
+    weekStart = addWeeks(weekStart, 1)
+  ) {
+    if (!finishedWeeks.has(weekStart)) weeks.push(weekStart);
+  }
+  return weeks;
+}
+
+/**
+ * Marks `running` rows older than the run timeout as failed so the partial
+ * unique index stops blocking their week.
+ */
+async function failStaleRuns(weekStart: string): Promise<void> {
+  const now = new Date();
+  await db
+    .update(ingestionRun)
+    .set({ status: "failed", completedAt: now })
+    .where(
+      and(
+        eq(ingestionRun.weekStart, weekStart),
+        eq(ingestionRun.status, "running"),
+        lt(ingestionRun.startedAt, new Date(now.getTime() - readRunTimeoutMs()))
+      )
+    );
+}
+
+export async function runWeeklyIngestion(input: {
+  weekStart: string;
+  trigger: IngestionTrigger;
+}): Promise<IngestionRunSummary> {
+  if (!isValidWeekStart(input.weekStart)) {
+    throw new Error(
+      `weekStart must be a Monday in YYYY-MM-DD format (got ${input.weekStart}).`
+    );
+  }
+
+  await failStaleRuns(input.weekStart);
+
+  let runId: number;
+  try {
+    const inserted = await db
+      .insert(ingestionRun)
+      .values({
+        weekStart: input.weekStart,
+        trigger: input.trigger,
+        status: "running",
+      })
+      .returning({ id: ingestionRun.id });
+    runId = inserted[0].id;
+  } catch (error) {
+    // ingestion_run_active_week_idx rejects a second concurrent run per week;
+    // anything else is a real failure.
+    if (!isUniqueViolation(error)) throw error;
+
+    const [activeRun] = await db
+      .select({ id: ingestionRun.id })
+      .from(ingestionRun)
+      .where(
+        and(
+          eq(ingestionRun.weekStart, input.weekStart),
+          eq(ingestionRun.status, "running")
+        )
+      )
+      .limit(1);
+
+    return {
+      runId: activeRun?.id ?? null,
+      weekStart: input.weekStart,
+      trigger: input.trigger,
+      status: "skipped",
+      githubRowsUpserted: 0,
+      slackRowsUpserted: 0,
+      failures: [],
+      riskFlags: null,
+      burnoutAlerts: null,
+      anomalies: null,
+    };
+  }
+
+  const failures: IngestionFailure[] = [];
+  let sourceFailures = 0;
+  let githubRowsUpserted = 0;
+  let slackRowsUpserted = 0;
+
+  try {
+    const github = await ingestGithubWeek({ weekStart: input.weekStart });
+    githubRowsUpserted = github.upserted;
+    failures.push(
+      ...github.failures.map((failure) => ({ source: "github" as const, ...failure }))
+    );
+  } catch (error) {
+    sourceFailures += 1;
+    failures.push({
+      source: "github",
+      employeeEmail: null,
+      message: sanitizeErrorMessage(error),
+    });
+  }
+
+  try {
+    const slack = await ingestSlackWeek({ weekStart: input.weekStart });
+    slackRowsUpserted = slack.upserted;
+    failures.push(
+      ...slack.failures.map((failure) => ({ source: "slack" as const, ...failure }))
+    );
+  } catch (error) {
+    sourceFailures += 1;
+    failures.push({
+      source: "slack",
+      employeeEmail: null,
+      message: sanitizeErrorMessage(error),
+    });
+  }
+
+  let status = resolveRunStatus({ sourceFailures, failures });
+
+  try {
+    await db
+      .update(ingestionRun)
+      .set({
+        status,
+        githubRowsUpserted,
+        slackRowsUpserted,
+        failures,
+        completedAt: new Date(),
+      })
+      .where(eq(ingestionRun.id, runId));
+  } catch (error) {
+    // Without this the row would stay `running` until the stale timeout.
+    console.error("[ingestion] failed to record run result", error);
+    status = "failed";
+    try {
+      await db
+        .update(ingestionRun)
+        .set({ status, completedAt: new Date() })
+        .where(eq(ingestionRun.id, runId));
+    } catch (markError) {
+      console.error("[ingestion] failed to mark run failed", markError);
+    }
+  }
+
+  if (githubRowsUpserted > 0 || slackRowsUpserted > 0) {
+    revalidateDashboardData();
+  }
+
+  let riskFlags: RiskFlagEvaluationSummary | null = null;
+  if (status !== "failed") {
+    try {
+      riskFlags = await evaluateRiskFlags({ weekStart: input.weekStart });
+    } catch (error) {
+      console.error("[ingestion] risk flag evaluation failed", error);
+    }
+  }
+
+  let burnoutAlerts: BurnoutAlertEvaluationSummary | null = null;
+  if (status !== "failed") {
+    try {
+      // Catching up on past weeks must not DM managers about old load.
+      burnoutAlerts = await evaluateBurnoutAlerts({
+        weekStart: input.weekStart,
+        notify:
+          input.trigger !== "backfill" && input.weekStart >= latestCompletedWeekStart(),
+      });
+    } catch (error) {
+      console.error("[ingestion] burnout alert evaluation failed", error);
+    }
+  }
+
+  let anomalies: ActivityAnomalyDetectionSummary | null = null;
+  if (status !== "failed") {
+    try {
+      anomalies = await detectActivityAnomalies({ weekStart: input.weekStart });
+    } catch (error) {
+      console.error("[ingestion] anomaly detection failed", error);
+    }
+  }
+
+  return {
+    runId,
+    weekStart: input.weekStart,
+    trigger: input.trigger,
+    status,
+    githubRowsUpserted,
+    slackRowsUpserted,
+    failures,
+    riskFlags,
+    burnoutAlerts,
+    anomalies,
+  };
+}
+
+/**
+ * Entry point for the cron route and CLI. An explicit week is ingested as-is;
+ * otherwise every missed week up to the last completed one is backfilled in
+ * order, oldest first.
+ */
+export async function runScheduledIngestion(input: {
+  weekStart?: string;
+  trigger?: IngestionTrigger;
+  now?: Date;
+} = {}): Promise<IngestionRunSummary[]> {
+  if (input.weekStart) {
+    return [
+      await runWeeklyIngestion({
+        weekStart: input.weekStart,
+        trigger: input.trigger ?? "manual",
+      }),
+    ];
+  }
+
+  const throughWeekStart = latestCompletedWeekStart(input.now);
+  const weeks = await listPendingIngestionWeeks(throughWeekStart);
+  const summaries: IngestionRunSummary[] = [];
+
+  for (const weekStart of weeks) {
+    summaries.push(
+      await runWeeklyIngestion({
+        weekStart,
+        trigger:
+          weekStart === throughWeekStart ? input.trigger ?? "cron" : "backfill",
+      })
+    );
+  }
+
+  return summaries;
+}
+
+/**
+ * Queues one `weekly_ingestion` job per owed week, oldest first, so the cron
+ * route returns at once and the job worker ingests the backlog a week at a
+ * time. A week that already has a queued or running job keeps that job.
+ */
+export async function enqueuePendingIngestionWeeks(input: {
+  trigger?: IngestionTrigger;
+  now?: Date;
+} = {}): Promise<QueuedIngestionWeek[]> {
+  const throughWeekStart = latestCompletedWeekStart(input.now);
+  const weeks = await listPendingIngestionWeeks(throughWeekStart);
+
+  const activeJobs = await db
+    .select({
+      id: backgroundJob.id,
+      weekStart: sql<string>`${backgroundJob.payload}->>'weekStart'`,
+    })
+    .from(backgroundJob)
+    .where(
+      and(
+        eq(backgroundJob.kind, "weekly_ingestion"),
+        inArray(backgroundJob.status, ["queued", "running"])
+      )
+    );
+  const activeJobIds = new Map(activeJobs.map((job) => [job.weekStart, job.id]));
+
+  const queued: QueuedIngestionWeek[] = [];
+  for (const weekStart of weeks) {
+    const trigger: IngestionTrigger =
+      weekStart === throughWeekStart ? input.trigger ?? "cron" : "backfill";
+    const jobId =
+      activeJobIds.get(weekStart) ??
+      (await enqueueJob({ kind: "weekly_ingestion", payload: { weekStart, trigger } })).jobId;
+    queued.push({ weekStart, trigger, jobId });
+  }
+
+  return queued;
+}
@@ -0,0 +1,213 @@
+import "server-only";
+
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import {
+  employeeMonthlyInsights,
+  employeeQuarterlyInsights,
+} from "@/lib/db/schema";
+
+export type InsightScope = "monthly" | "quarterly";
+
+export type MonthlyInsightValues = Omit<
+  typeof employeeMonthlyInsights.$inferInsert,
+  "id" | "revision" | "isCurrent" | "supersededAt" | "createdAt"
+>;
+
+export type QuarterlyInsightValues = Omit<
+  typeof employeeQuarterlyInsights.$inferInsert,
+  "id" | "revision" | "isCurrent" | "supersededAt" | "createdAt"
+>;
+
+export type SavedInsightRevision = {
+  id: number;
+  revision: number;
+};
+
+export type InsightRevisionSummary = {
+  id: number;
+  periodKey: string;
+  revision: number;
+  isCurrent: boolean;
+  summary: string;
+  confidenceLevel: string;
+  generatedByModel: string;
+  modelVersion: string;
+  promptId: string | null;
+  promptVersion: number | null;
+  unsupportedClaims: number;
+  createdAt: string;
+  supersededAt: string | null;
+};
+
+/**
+ * Stores a new monthly revision and demotes the previous current row in the
+ * same transaction. `employee_monthly_insights_current_idx` rejects a
+ * concurrent save for the same period rather than leaving two current rows.
+ */
+export async function saveMonthlyInsightRevision(
+  values: MonthlyInsightValues
+): Promise<SavedInsightRevision> {
+  const periodMatch = and(
+    eq(employeeMonthlyInsights.employeeEmail, values.employeeEmail),
+    eq(employeeMonthlyInsights.month, values.month)
+  );
+
+  const [, inserted] = await db.batch([
+    db
+      .update(employeeMonthlyInsights)
+      .set({ isCurrent: false, supersededAt: new Date() })
+      .where(and(periodMatch, eq(employeeMonthlyInsights.isCurrent, true))),
+    db
+      .insert(employeeMonthlyInsights)
+      .values({
+        ...values,
+        revision: sql`(
+          SELECT COALESCE(MAX(${employeeMonthlyInsights.revision}), 0) + 1
+          FROM ${employeeMonthlyInsights}
+          WHERE ${periodMatch}
+        )`,
+        isCurrent: true,
+      })
+      .returning({
+        id: employeeMonthlyInsights.id,
+        revision: employeeMonthlyInsights.revision,
+      }),
+  ]);
+
+  return inserted[0];
+}
+
+export async function saveQuarterlyInsightRevision(
+  values: QuarterlyInsightValues
+): Promise<SavedInsightRevision> {
+  const periodMatch = and(
+    eq(employeeQuarterlyInsights.employeeEmail, values.employeeEmail),
+    eq(employeeQuarterlyInsights.quarter, values.quarter)
+  );
+
+  const [, inserted] = await db.batch([
+    db
+      .update(employeeQuarterlyInsights)
+      .set({ isCurrent: false, supersededAt: new Date() })
+      .where(and(periodMatch, eq(employeeQuarterlyInsights.isCurrent, true))),
+    db
+      .insert(employeeQuarterlyInsights)
+      .values({
+        ...values,
+        revision: sql`(
+          SELECT COALESCE(MAX(${employeeQuarterlyInsights.revision}), 0) + 1
+          FROM ${employeeQuarterlyInsights}
+          WHERE ${periodMatch}
+        )`,
+        isCurrent: true,
+      })
+      .returning({
+        id: employeeQuarterlyInsights.id,
+        revision: employeeQuarterlyInsights.revision,
+      }),
+  ]);
+
+  return inserted[0];
+}
+
+/**
+ * Revision history for one employee, newest period first and newest revision
+ * first within a period. Pass `periodKey` to narrow to a single month/quarter.
+ */
+export async function listInsightRevisions(input: {
+  employeeEmail: string;
+  scope: InsightScope;
+  periodKey?: string;
+}): Promise<InsightRevisionSummary[]> {
+  if (input.scope === "monthly") {
+    const rows = await db
+      .select({
+        id: employeeMonthlyInsights.id,
+        periodKey: employeeMonthlyInsights.month,
+        revision: employeeMonthlyInsights.revision,
+        isCurrent: employeeMonthlyInsights.isCurrent,
+        summary: employeeMonthlyInsights.overallSummary,
+        confidenceLevel: employeeMonthlyInsights.confidenceLevel,
+        generatedByModel: employeeMonthlyInsights.generatedByModel,
+        modelVersion: employeeMonthlyInsights.modelVersion,
+        promptId: employeeMonthlyInsights.promptId,
+        promptVersion: employeeMonthlyInsights.promptVersion,
+        unsupportedClaims: sql<number>`jsonb_array_length(${employeeMonthlyInsights.claimViolations})`,
+        createdAt: employeeMonthlyInsights.createdAt,
+        supersededAt: employeeMonthlyInsights.supersededAt,
+      })
+      .from(employeeMonthlyInsights)
+      .where(
+        and(
+          eq(employeeMonthlyInsights.employeeEmail, input.employeeEmail),
+          input.periodKey
+            ? eq(employeeMonthlyInsights.month, input.periodKey)
+            : undefined
+        )
+      )
+      .orderBy(
+        desc(employeeMonthlyInsights.month),
+        desc(employeeMonthlyInsights.revision),
+        asc(employeeMonthlyInsights.id)
+      );
+
+    return rows.map(toRevisionSummary);
+  }
+
+  const rows = await db
+    .select({
+      id: employeeQuarterlyInsights.id,
+      periodKey: employeeQuarterlyInsights.quarter,
+      revision: employeeQuarterlyInsights.revision,
+      isCurrent: employeeQuarterlyInsights.isCurrent,
+      summary: employeeQuarterlyInsights.trajectorySummary,
+      confidenceLevel: employeeQuarterlyInsights.confidenceLevel,
+      generatedByModel: employeeQuarterlyInsights.generatedByModel,
+      modelVersion: employeeQuarterlyInsights.modelVersion,
+      promptId: employeeQuarterlyInsights.promptId,
+      promptVersion: employeeQuarterlyInsights.promptVersion,
+      unsupportedClaims: sql<number>`jsonb_array_length(${employeeQuarterlyInsights.claimViolations})`,
+      createdAt: employeeQuarterlyInsights.createdAt,
+      supersededAt: employeeQuarterlyInsights.supersededAt,
+    })
+    .from(employeeQuarterlyInsights)
+    .where(
+      and(
+        eq(employeeQuarterlyInsights.employeeEmail, input.employeeEmail),
+        input.periodKey
+          ? eq(employeeQuarterlyInsights.quarter, input.periodKey)
+          : undefined
+      )
+    )
+    .orderBy(
+      desc(employeeQuarterlyInsights.quarter),
+      desc(employeeQuarterlyInsights.revision),
+      asc(employeeQuarterlyInsights.id)
+    );
+
+  return rows.map(toRevisionSummary);
+}
+
+function toRevisionSummary(row: {
+  id: number;
+  periodKey: string;
+  revision: number;
+  isCurrent: boolean;
+  summary: string;
+  confidenceLevel: string;
+  generatedByModel: string;
+  modelVersion: string;
+  promptId: string | null;
+  promptVersion: number | null;
+  unsupportedClaims: number;
+  createdAt: Date;
+  supersededAt: Date | null;
+}): InsightRevisionSummary {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    supersededAt: row.supersededAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,252 @@
+import "server-only";
+
+import { and, eq, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { backgroundJob } from "@/lib/db/schema";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type JobKind =
+  | "generate_report"
+  | "manager_analysis"
+  | "manager_analysis_resume"
+  | "stat_dispute_recheck"
+  | "weekly_ingestion";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type BackgroundJob = typeof backgroundJob.$inferSelect;
+
+export type JobStatusView = {
+  jobId: number;
+  kind: string;
+  status: string;
+  employeeEmail: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  result: unknown;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+/**
+ * Thrown by job handlers when retrying cannot help (bad input, missing
+ * evidence). The job fails immediately and `result` is kept for the caller.
+ */
+export class NonRetryableJobError extends Error {
+  readonly result: unknown;
+
+  constructor(message: string, result?: unknown) {
+    super(message);
+    this.name = "NonRetryableJobError";
+    this.result = result ?? null;
+  }
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const parsed = Number(process.env[name]);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return fallback;
+  }
+  return parsed;
+}
+
+export function readJobLockTimeoutMs(): number {
+  return readPositiveIntEnv("JOB_LOCK_TIMEOUT_MS", DEFAULT_LOCK_TIMEOUT_MS);
+}
+
+function retryDelayMs(attempts: number): number {
+  const base = readPositiveIntEnv(
+    "JOB_RETRY_BASE_DELAY_MS",
+    DEFAULT_RETRY_BASE_DELAY_MS
+  );
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueJob(input: {
+  kind: JobKind;
+  payload: Record<string, unknown>;
+  employeeEmail?: string | null;
+  requestedBy?: string | null;
+  maxAttempts?: number;
+}): Promise<{ jobId: number }> {
+  const [inserted] = await db
+    .insert(backgroundJob)
+    .values({
+      kind: input.kind,
+      payload: input.payload,
+      employeeEmail: input.employeeEmail ?? null,
+      requestedBy: input.requestedBy ?? null,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    })
+    .returning({ id: backgroundJob.id });
+
+  return { jobId: inserted.id };
+}
+
+/**
+ * Atomically claims the next due job. `FOR UPDATE SKIP LOCKED` lets several
+ * workers poll concurrently without picking the same row. Jobs left `running`
+ * past the lock timeout (crashed worker) are claimed again.
+ */
+export async function claimNextJob(workerId: string): Promise<BackgroundJob | null> {
+  const lockTimeoutSeconds = Math.ceil(readJobLockTimeoutMs() / 1000);
+
+  const [job] = await db
+    .update(backgroundJob)
+    .set({
+      status: "running",
+      attempts: sql`${backgroundJob.attempts} + 1`,
+      lockedBy: workerId,
+      lockedAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(
+      eq(
+        backgroundJob.id,
+        sql`(
+          SELECT ${backgroundJob.id}
+          FROM ${backgroundJob}
+          WHERE (
+            ${backgroundJob.status} = 'queued'
+            AND ${backgroundJob.runAfter} <= now()
+          ) OR (
+            ${backgroundJob.status} = 'running'
+            AND ${backgroundJob.lockedAt} < now() - make_interval(secs => ${lockTimeoutSeconds})
+          )
+          ORDER BY ${backgroundJob.runAfter}, ${backgroundJob.id}
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )`
+      )
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+// Every write after the claim is guarded by the lease: once a job is
+// reclaimed by another worker, the stale worker's writes match no row.
+function heldBy(job: Pick<BackgroundJob, "id" | "lockedBy">) {
+  return and(
+    eq(backgroundJob.id, job.id),
+    job.lockedBy === null
+      ? sql`false`
+      : eq(backgroundJob.lockedBy, job.lockedBy)
+  );
+}
+
+/**
+ * Extends the lease of a job that is still running so it is not reclaimed
+ * past the lock timeout. False when another worker has taken it over.
+ */
+export async function renewJobLease(
+  job: Pick<BackgroundJob, "id" | "lockedBy">
+): Promise<boolean> {
+  const renewed = await db
+    .update(backgroundJob)
+    .set({ lockedAt: sql`now()`, updatedAt: sql`now()` })
+    .where(and(heldBy(job), eq(backgroundJob.status, "running")))
+    .returning({ id: backgroundJob.id });
+  return renewed.length > 0;
+}
+
+/** False when the lease was lost and the result was discarded. */
+export async function completeJob(
+  job: Pick<BackgroundJob, "id" | "lockedBy">,
+  result: unknown
+): Promise<boolean> {
+  const completed = await db
+    .update(backgroundJob)
+    .set({
+      status: "completed",
+      result,
+      lastError: null,
+      lockedBy: null,
+      lockedAt: null,
+      updatedAt: sql`now()`,
+      completedAt: sql`now()`,
+    })
+    .where(heldBy(job))
+    .returning({ id: backgroundJob.id });
+  return completed.length > 0;
+}
+
+/**
+ * Requeues the job with exponential backoff, or marks it failed once attempts
+ * are exhausted or the error is a `NonRetryableJobError`. Null when the lease
+ * was lost and nothing was written.
+ */
+export async function failJob(
+  job: Pick<BackgroundJob, "id" | "lockedBy" | "attempts" | "maxAttempts">,
+  error: unknown
+): Promise<JobStatus | null> {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const retryable =
+    !(error instanceof NonRetryableJobError) && job.attempts < job.maxAttempts;
+
+  if (retryable) {
+    const delaySeconds = Math.ceil(retryDelayMs(job.attempts) / 1000);
+    const requeued = await db
+      .update(backgroundJob)
+      .set({
+        status: "queued",
+        lastError: message,
+        lockedBy: null,
+        lockedAt: null,
+        runAfter: sql`now() + make_interval(secs => ${delaySeconds})`,
+        updatedAt: sql`now()`,
+      })
+      .where(heldBy(job))
+      .returning({ id: backgroundJob.id });
+    return requeued.length > 0 ? "queued" : null;
+  }
+
+  const failed = await db
+    .update(backgroundJob)
+    .set({
+      status: "failed",
+      result: error instanceof NonRetryableJobError ? error.result : null,
+      lastError: message,
+      lockedBy: null,
+      lockedAt: null,
+      updatedAt: sql`now()`,
+      completedAt: sql`now()`,
+    })
+    .where(heldBy(job))
+    .returning({ id: backgroundJob.id });
+  return failed.length > 0 ? "failed" : null;
+}
+
+export async function getJob(jobId: number): Promise<BackgroundJob | null> {
+  const [job] = await db
+    .select()
+    .from(backgroundJob)
+    .where(eq(backgroundJob.id, jobId))
+    .limit(1);
+  return job ?? null;
+}
+
+export function toJobStatusView(job: BackgroundJob): JobStatusView {
+  return {
+    jobId: job.id,
+    kind: job.kind,
+    status: job.status,
+    employeeEmail: job.employeeEmail,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAfter: job.runAfter.toISOString(),
+    result: job.result,
+    lastError: job.lastError,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,206 @@
+import "server-only";
+
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  NonRetryableJobError,
+  readJobLockTimeoutMs,
+  renewJobLease,
+  type BackgroundJob,
+  type JobKind,
+  type JobStatus,
+} from "@/lib/services/jobQueue";
+import {
+  runWeeklyIngestion,
+  type IngestionTrigger,
+} from "@/lib/services/ingestionScheduler";
+import { LlmBudgetExhaustedError } from "@/lib/services/llmBudget";
+import {
+  generateManagerAnalysisOrchestration,
+  resumeManagerAnalysisRun,
+  type GenerateManagerAnalysisRequest,
+  type GenerateManagerAnalysisResult,
+} from "@/lib/services/managerAnalysisOrchestrator";
+import {
+  generateEmployeeReports,
+  type GenerateReportInput,
+} from "@/lib/services/reportGeneration";
+import { recheckStatDispute } from "@/lib/services/statDisputes";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+export type ProcessedJob = {
+  jobId: number;
+  kind: string;
+  attempt: number;
+  // lease_lost: another worker reclaimed the job, so this outcome was dropped.
+  status: JobStatus | "lease_lost";
+  error: string | null;
+};
+
+type JobHandler = (payload: unknown) => Promise<unknown>;
+
+const JOB_HANDLERS: Record<JobKind, JobHandler> = {
+  generate_report: (payload) =>
+    withBudgetExhaustionFinal(() =>
+      generateEmployeeReports(payload as GenerateReportInput)
+    ),
+  manager_analysis: async (payload) =>
+    unwrapAnalysisResult(
+      await generateManagerAnalysisOrchestration(
+        payload as GenerateManagerAnalysisRequest
+      )
+    ),
+  // A retry after an LLM failure resumes the run again from its failed stage.
+  manager_analysis_resume: async (payload) =>
+    unwrapAnalysisResult(
+      await resumeManagerAnalysisRun(payload as { runId: number })
+    ),
+  stat_dispute_recheck: (payload) =>
+    withBudgetExhaustionFinal(() =>
+      recheckStatDispute(payload as { disputeId: number })
+    ),
+  // A week where every source failed is retried; a partial one is picked up
+  // again by a later scheduler pass.
+  weekly_ingestion: async (payload) => {
+    const summary = await runWeeklyIngestion(
+      payload as { weekStart: string; trigger: IngestionTrigger }
+    );
+    if (summary.status === "failed") {
+      throw new Error(`Ingestion failed for week ${summary.weekStart}.`);
+    }
+    return summary;
+  },
+};
+
+// Retrying cannot succeed until the team's budget period resets.
+async function withBudgetExhaustionFinal<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof LlmBudgetExhaustedError) {
+      throw new NonRetryableJobError(error.message, {
+        errorCode: "budget_exhausted",
+        message: error.message,
+        budget: error.status,
+      });
+    }
+    throw error;
+  }
+}
+
+function unwrapAnalysisResult(result: GenerateManagerAnalysisResult): unknown {
+  if (result.ok) {
+    return result.body;
+  }
+  // 4xx outcomes (bad input, missing evidence, run in progress) will not
+  // change on retry; 5xx ones are LLM or persistence failures.
+  if (result.httpStatus < 500) {
+    throw new NonRetryableJobError(result.body.message, result.body);
+  }
+  throw new Error(result.body.message);
+}
+
+function isJobKind(value: string): value is JobKind {
+  return Object.hasOwn(JOB_HANDLERS, value);
+}
+
+/**
+ * Renews the job's lease every third of the lock timeout while `fn` runs, so
+ * a long handler is not reclaimed by another worker.
+ */
+async function withLeaseHeartbeat<T>(job: BackgroundJob, fn: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    renewJobLease(job).catch((error) => {
+      console.error("[jobs] lease renewal failed", error);
+    });
+  }, Math.max(Math.floor(readJobLockTimeoutMs() / 3), 1_000));
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+const LEASE_LOST_MESSAGE = "Lease lost to another worker; outcome discarded.";
+
+async function executeJob(job: BackgroundJob): Promise<ProcessedJob> {
+  const summary = { jobId: job.id, kind: job.kind, attempt: job.attempts };
+
+  try {
+    if (!isJobKind(job.kind)) {
+      throw new NonRetryableJobError(`Unknown job kind "${job.kind}".`);
+    }
+    // Reclaimed after a worker crash with no attempts left.
+    if (job.attempts > job.maxAttempts) {
+      throw new NonRetryableJobError(
+        "Job exceeded its attempts after a worker timed out."
+      );
+    }
+
+    const handler = JOB_HANDLERS[job.kind];
+    const result = await withLeaseHeartbeat(job, () => handler(job.payload));
+    if (!(await completeJob(job, result))) {
+      return { ...summary, status: "lease_lost", error: LEASE_LOST_MESSAGE };
+    }
+    return { ...summary, status: "completed", error: null };
+  } catch (error) {
+    const status = await failJob(job, error);
+    if (!status) {
+      return { ...summary, status: "lease_lost", error: LEASE_LOST_MESSAGE };
+    }
+    return {
+      ...summary,
+      status,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function runNextJob(workerId: string): Promise<ProcessedJob | null> {
+  const job = await claimNextJob(workerId);
+  if (!job) {
+    return null;
+  }
+  return executeJob(job);
+}
+
+/**
+ * Processes due jobs until the queue is empty, `maxJobs` is reached or too
+ * little time is left before `deadline` to fit another job. A job needs at
+ * least `reserveMs`, or as long as the slowest job of this drain took. Used
+ * by the cron route, where the platform caps request duration, and by the
+ * CLI's `--once` mode.
+ */
+export async function drainJobs(input: {
+  workerId: string;
+  maxJobs?: number;
+  deadline?: number;
+  reserveMs?: number;
+}): Promise<ProcessedJob[]> {
+  const processed: ProcessedJob[] = [];
+  let slowestJobMs = input.reserveMs ?? 0;
+
+  while (
+    (input.maxJobs === undefined || processed.length < input.maxJobs) &&
+    (input.deadline === undefined || input.deadline - Date.now() > slowestJobMs)
+  ) {
+    const startedAt = Date.now();
+    const outcome = await runNextJob(input.workerId);
+    if (!outcome) break;
+    processed.push(outcome);
+    slowestJobMs = Math.max(slowestJobMs, Date.now() - startedAt);
+  }
+
+  return processed;
+}
+
+export function readWorkerPollIntervalMs(): number {
+  const parsed = Number(process.env.JOB_WORKER_POLL_INTERVAL_MS);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return DEFAULT_POLL_INTERVAL_MS;
+  }
+  return parsed;
+}
@@ -0,0 +1,155 @@
+import "server-only";
+
+import { and, eq, or, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { orgReportingLine, teamLlmBudget, teamLlmUsage } from "@/lib/db/schema";
+
+export type BudgetPeriod = "day" | "month";
+
+export type TeamBudgetStatus = {
+  teamId: number;
+  period: BudgetPeriod;
+  limit: number;
+  used: number;
+  resetsAt: string;
+};
+
+/**
+ * Raised before an LLM call when the employee's team has used up its daily or
+ * monthly token budget. Routes surface it as HTTP 429 `budget_exhausted`.
+ */
+export class LlmBudgetExhaustedError extends Error {
+  constructor(readonly status: TeamBudgetStatus) {
+    super(
+      `The team's ${status.period === "day" ? "daily" : "monthly"} LLM token budget is exhausted (${status.used} of ${status.limit} tokens used); it resets at ${status.resetsAt}.`
+    );
+    this.name = "LlmBudgetExhaustedError";
+  }
+}
+
+// Budget periods follow UTC calendar days and months.
+function periodWindows(now: Date): Record<BudgetPeriod, { start: string; resetsAt: Date }> {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  return {
+    day: {
+      start: new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10),
+      resetsAt: new Date(Date.UTC(year, month, day + 1)),
+    },
+    month: {
+      start: new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10),
+      resetsAt: new Date(Date.UTC(year, month + 1, 1)),
+    },
+  };
+}
+
+export async function findEmployeeTeamId(employeeEmail: string): Promise<number | null> {
+  const [line] = await db
+    .select({ teamId: orgReportingLine.teamId })
+    .from(orgReportingLine)
+    .where(eq(orgReportingLine.employeeEmail, employeeEmail.trim().toLowerCase()))
+    .limit(1);
+  return line?.teamId ?? null;
+}
+
+/** The first exhausted budget period for the team, or null when calls may proceed. */
+export async function findExhaustedTeamBudget(
+  teamId: number
+): Promise<TeamBudgetStatus | null> {
+  const [budget] = await db
+    .select()
+    .from(teamLlmBudget)
+    .where(eq(teamLlmBudget.teamId, teamId))
+    .limit(1);
+  if (!budget) {
+    return null;
+  }
+
+  const windows = periodWindows(new Date());
+  const usageRows = await db
+    .select({
+      period: teamLlmUsage.period,
+      tokensUsed: teamLlmUsage.tokensUsed,
+    })
+    .from(teamLlmUsage)
+    .where(
+      and(
+        eq(teamLlmUsage.teamId, teamId),
+        or(
+          and(
+            eq(teamLlmUsage.period, "day"),
+            eq(teamLlmUsage.periodStart, windows.day.start)
+          ),
+          and(
+            eq(teamLlmUsage.period, "month"),
+            eq(teamLlmUsage.periodStart, windows.month.start)
+          )
+        )
+      )
+    );
+
+  const limits: Array<[BudgetPeriod, number | null]> = [
+    ["day", budget.dailyTokenLimit],
+    ["month", budget.monthlyTokenLimit],
+  ];
+  for (const [period, limit] of limits) {
+    if (limit === null) continue;
+    const used = usageRows.find((row) => row.period === period)?.tokensUsed ?? 0;
+    if (used >= limit) {
+      return {
+        teamId,
+        period,
+        limit,
+        used,
+        resetsAt: windows[period].resetsAt.toISOString(),
+      };
+    }
+  }
+
+  return null;
+}
+
+export async function assertTeamBudgetAvailable(teamId: number): Promise<void> {
+  const exhausted = await findExhaustedTeamBudget(teamId);
+  if (exhausted) {
+    throw new LlmBudgetExhaustedError(exhausted);
+  }
+}
+
+/**
+ * Pre-flight check for routes that queue LLM work, so callers get a 429
+ * immediately instead of a failed job. Employees without a team are never
+ * limited.
+ */
+export async function findExhaustedEmployeeBudget(
+  employeeEmail: string
+): Promise<TeamBudgetStatus | null> {
+  const teamId = await findEmployeeTeamId(employeeEmail);
+  return teamId === null ? null : findExhaustedTeamBudget(teamId);
+}
+
+export async function recordTeamTokenUsage(
+  teamId: number,
+  tokens: number
+): Promise<void> {
+  if (tokens <= 0) {
+    return;
+  }
+
+  const windows = periodWindows(new Date());
+  await db
+    .insert(teamLlmUsage)
+    .values([
+      { teamId, period: "day", periodStart: windows.day.start, tokensUsed: tokens },
+      { teamId, period: "month", periodStart: windows.month.start, tokensUsed: tokens },
+    ])
+    .onConflictDoUpdate({
+      target: [teamLlmUsage.teamId, teamLlmUsage.period, teamLlmUsage.periodStart],
+      set: {
+        tokensUsed: sql`${teamLlmUsage.tokensUsed} + excluded.tokens_used`,
+        updatedAt: sql`now()`,
+      },
+    });
+}
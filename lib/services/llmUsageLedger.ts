@@ -0,0 +1,147 @@
+import "server-only";
+
+import { and, desc, gte, inArray, sql, type SQL } from "drizzle-orm";
+
+import { computeLlmCostUsd } from "@/lib/ai/pricing";
+import type { LlmProviderId, LlmStage } from "@/lib/ai/providers";
+import { db } from "@/lib/db/config";
+import { llmUsageLedger } from "@/lib/db/schema";
+
+export type LlmUsageEntry = {
+  provider: LlmProviderId;
+  model: string;
+  stage: LlmStage;
+  employeeEmail?: string;
+  periodKey?: string;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+  };
+};
+
+export type LlmUsageBucket = {
+  key: string;
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+  // Calls whose model has no known price and are missing from costUsd.
+  unpricedCalls: number;
+};
+
+export type LlmUsageSummary = {
+  since: string;
+  totals: LlmUsageBucket;
+  byMonth: LlmUsageBucket[];
+  byStage: LlmUsageBucket[];
+  byEmployee: LlmUsageBucket[];
+  byModel: LlmUsageBucket[];
+};
+
+/**
+ * Appends one ledger row for a finished LLM call. A ledger failure is logged
+ * and never fails the call itself.
+ */
+export async function recordLlmUsage(entry: LlmUsageEntry): Promise<void> {
+  const inputTokens = entry.usage?.inputTokens ?? 0;
+  const outputTokens = entry.usage?.outputTokens ?? 0;
+
+  try {
+    await db.insert(llmUsageLedger).values({
+      provider: entry.provider,
+      model: entry.model,
+      stage: entry.stage,
+      employeeEmail: entry.employeeEmail?.trim().toLowerCase() ?? null,
+      periodKey: entry.periodKey ?? null,
+      inputTokens,
+      outputTokens,
+      totalTokens: entry.usage?.totalTokens ?? inputTokens + outputTokens,
+      costUsd: computeLlmCostUsd({
+        provider: entry.provider,
+        modelId: entry.model,
+        inputTokens,
+        outputTokens,
+      }),
+    });
+  } catch (error) {
+    console.error("[llm-usage-ledger] failed to record usage", {
+      provider: entry.provider,
+      model: entry.model,
+      stage: entry.stage,
+      error,
+    });
+  }
+}
+
+const bucketColumns = {
+  calls: sql<number>`count(*)::int`,
+  totalTokens: sql<number>`coalesce(sum(${llmUsageLedger.totalTokens}), 0)::int`,
+  costUsd: sql<number>`coalesce(sum(${llmUsageLedger.costUsd}), 0)::float8`,
+  unpricedCalls: sql<number>`(count(*) filter (where ${llmUsageLedger.costUsd} is null))::int`,
+};
+
+function firstDayOfMonthsAgo(months: number): Date {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)
+  );
+}
+
+/**
+ * Spend for the given employees over the last `months` calendar months
+ * (including the current one), grouped for the usage dashboard.
+ */
+export async function summarizeLlmUsage(input: {
+  employeeEmails: string[];
+  months: number;
+}): Promise<LlmUsageSummary> {
+  const since = firstDayOfMonthsAgo(input.months);
+  const empty: LlmUsageBucket = {
+    key: "all",
+    calls: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+
+  if (input.employeeEmails.length === 0) {
+    return {
+      since: since.toISOString().slice(0, 10),
+      totals: empty,
+      byMonth: [],
+      byStage: [],
+      byEmployee: [],
+      byModel: [],
+    };
+  }
+
+  const scope = and(
+    inArray(llmUsageLedger.employeeEmail, input.employeeEmails),
+    gte(llmUsageLedger.createdAt, since)
+  );
+  const groupedBy = (key: SQL<string>) =>
+    db
+      .select({ key, ...bucketColumns })
+      .from(llmUsageLedger)
+      .where(scope)
+      .groupBy(key);
+  const month = sql<string>`to_char(${llmUsageLedger.createdAt}, 'YYYY-MM')`;
+  const byCost = desc(bucketColumns.costUsd);
+
+  const [totals, byMonth, byStage, byEmployee, byModel] = await Promise.all([
+    db.select(bucketColumns).from(llmUsageLedger).where(scope),
+    groupedBy(month).orderBy(month),
+    groupedBy(sql<string>`${llmUsageLedger.stage}`).orderBy(byCost),
+    groupedBy(sql<string>`${llmUsageLedger.employeeEmail}`).orderBy(byCost),
+    groupedBy(sql<string>`${llmUsageLedger.model}`).orderBy(byCost),
+  ]);
+
+  return {
+    since: since.toISOString().slice(0, 10),
+    totals: totals[0] ? { key: "all", ...totals[0] } : empty,
+    byMonth,
+    byStage,
+    byEmployee,
+    byModel,
+  };
+}
@@ -1,7 +1,12 @@
 import "server-only";
 
-import { and, desc, eq, inArray } from "drizzle-orm";
+import { and, desc, eq, inArray, lt, ne, sql } from "drizzle-orm";
 
+import {
+  FairnessPolicyViolationError,
+  summarizeFairnessViolations,
+  type FairnessStageReport,
+} from "@/lib/ai/fairnessPolicy";
 import {
   type ArbiterDecisionOutput,
   type CombinedDebateOutput,
@@ -11,7 +16,11 @@ import {
   generateArbiterDecision,
   generateCombinedDebate,
   generateCombinedGuidance,
+  parseStoredArbiterDecision,
+  parseStoredDebate,
+  parseStoredGuidance,
 } from "@/lib/ai/managerAnalysis";
+import type { PromptStamp } from "@/lib/ai/prompts/registry";
 import type {
   ConfidenceLevel,
   DataSufficiency,
@@ -24,13 +33,33 @@ import {
   analysisArbiterDecision,
   analysisDebateResponse,
   analysisRun,
+  analysisRunEvent,
   employeeAnalysisContext,
   employeeMonthlyInsights,
   employeePrompt,
   employeeQuarterlyInsights,
   employees,
   managerFeedback,
+  managerFeedbackItem,
 } from "@/lib/db/schema";
+import {
+  recordRunEvent,
+  type AnalysisStage,
+} from "@/lib/services/analysisRunEvents";
+import {
+  listPromptResponsesForEvidence,
+  type EmployeePromptResponse,
+} from "@/lib/services/employeePromptInbox";
+import {
+  createFeedbackItems,
+  listFollowUpsForEvidence,
+  type ManagerFollowUp,
+} from "@/lib/services/managerFeedbackItems";
+import {
+  listOneOnOneNotesForEvidence,
+  type OneOnOneNote,
+} from "@/lib/services/oneOnOnes";
+import { LlmBudgetExhaustedError } from "@/lib/services/llmBudget";
 
 export type GenerateManagerAnalysisRequest = {
   employeeEmail: string;
@@ -87,8 +116,19 @@ type StageUsage = Record<
   } | null
 >;
 
+// Per-stage fairness policy matches, stored on the run for HR review. A stage
+// is null until it completes or is blocked by the policy.
+export type FairnessReport = Record<
+  "debate" | "arbiter" | "guidance",
+  FairnessStageReport | null
+>;
+
 const QUARTER_PATTERN = /^(\d{4})-Q([1-4])$/;
 const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+// A running run touches `heartbeat_at` this often; one that has not for
+// ANALYSIS_RUN_STALE_MS is treated as crashed.
+const RUN_HEARTBEAT_INTERVAL_MS = 60_000;
+const DEFAULT_RUN_STALE_MS = 5 * 60 * 1000;
 
 function parseConfidenceLevel(raw: unknown): ConfidenceLevel {
   if (raw === "low" || raw === "medium" || raw === "high") return raw;
@@ -289,10 +329,16 @@ function normalizeAndValidateMonthKeys(
   return { ok: true, months: normalized };
 }
 
-function buildEvidenceCatalog(input: {
+export function buildEvidenceCatalog(input: {
   quarter: string;
   quarterly: QuarterlySynthesisOutput;
   monthlyHistory: Array<{ month: string; synthesis: MonthlySynthesisOutput }>;
+  // The employee's own answers to earlier check-in prompts.
+  employeeResponses?: EmployeePromptResponse[];
+  // Manager follow-ups carried over from earlier quarters.
+  managerFollowUps?: ManagerFollowUp[];
+  // Notes the manager took against 1:1 agenda items.
+  oneOnOneNotes?: OneOnOneNote[];
 }): EvidenceCatalogEntry[] {
   const entries: EvidenceCatalogEntry[] = [];
 
@@ -392,6 +438,46 @@ function buildEvidenceCatalog(input: {
     }
   }
 
+  for (const response of input.employeeResponses ?? []) {
+    pushEntry(
+      "employee_response",
+      response.quarter,
+      `employeePrompt[${response.promptId}]`,
+      response.status === "replied"
+        ? `Employee reply to the "${response.theme}" check-in: ${response.responseText ?? ""}`
+        : `Employee marked the "${response.theme}" check-in as not relevant${
+            response.responseText ? `: ${response.responseText}` : "."
+          }`
+    );
+  }
+
+  for (const followUp of input.managerFollowUps ?? []) {
+    const label = followUp.kind === "question" ? "question" : "focus area";
+    let summary: string;
+    if (followUp.status === "open") {
+      summary = `Open manager ${label} from ${followUp.quarter}, not yet followed up: ${followUp.text}`;
+    } else if (followUp.kind === "question") {
+      summary = `Manager asked "${followUp.text}" in ${followUp.quarter}; employee answered: ${followUp.responseText ?? ""}`;
+    } else {
+      summary = `Manager addressed the focus area "${followUp.text}" from ${followUp.quarter}: ${followUp.responseText ?? ""}`;
+    }
+    pushEntry(
+      "manager_follow_up",
+      followUp.quarter,
+      `managerFeedbackItem[${followUp.itemId}]`,
+      summary
+    );
+  }
+
+  for (const note of input.oneOnOneNotes ?? []) {
+    pushEntry(
+      "one_on_one_note",
+      note.meetingDate,
+      `oneOnOneItem[${note.itemId}]`,
+      `1:1 note on "${note.text}": ${note.notes}`
+    );
+  }
+
   return entries;
 }
 
@@ -400,6 +486,22 @@ function sanitizeErrorMessage(error: unknown): string {
   return "Unknown error";
 }
 
+// Budget exhaustion is the caller's limit, not a model failure: it surfaces as
+// 429 so the job is not retried, and the run can be resumed once the budget
+// resets.
+function generationFailure(
+  error: unknown,
+  errorCode: string
+): { httpStatus: number; errorCode: string } {
+  if (error instanceof LlmBudgetExhaustedError) {
+    return { httpStatus: 429, errorCode: "budget_exhausted" };
+  }
+  if (error instanceof FairnessPolicyViolationError) {
+    return { httpStatus: 500, errorCode: "fairness_policy_blocked" };
+  }
+  return { httpStatus: 500, errorCode };
+}
+
 function toUsage(usage: {
   inputTokens?: number;
   outputTokens?: number;
@@ -417,11 +519,93 @@ function toUsage(usage: {
   };
 }
 
+function readRunStaleMs(): number {
+  const parsed = Number(process.env.ANALYSIS_RUN_STALE_MS);
+  if (!Number.isInteger(parsed) || parsed < RUN_HEARTBEAT_INTERVAL_MS * 2) {
+    return DEFAULT_RUN_STALE_MS;
+  }
+  return parsed;
+}
+
+/**
+ * Marks the employee's running runs for the quarter as failed when their
+ * process stopped heartbeating, so a crashed worker does not block new runs
+ * and the run can be resumed.
+ */
+async function failStaleRuns(employeeEmail: string, quarter: string): Promise<void> {
+  const staleRuns = await db
+    .select({ id: analysisRun.id })
+    .from(analysisRun)
+    .where(
+      and(
+        eq(analysisRun.employeeEmail, employeeEmail),
+        eq(analysisRun.quarter, quarter),
+        eq(analysisRun.status, "running"),
+        lt(analysisRun.heartbeatAt, new Date(Date.now() - readRunStaleMs()))
+      )
+    );
+
+  for (const run of staleRuns) {
+    const [lastStage] = await db
+      .select({ stage: sql<AnalysisStage>`${analysisRunEvent.payload}->>'stage'` })
+      .from(analysisRunEvent)
+      .where(
+        and(
+          eq(analysisRunEvent.runId, run.id),
+          eq(analysisRunEvent.eventType, "stage_started")
+        )
+      )
+      .orderBy(desc(analysisRunEvent.id))
+      .limit(1);
+    const failedStage: FailedStage = lastStage?.stage ?? "evidence_load";
+    const message = "The run stopped responding, most likely because its worker crashed.";
+
+    const [failed] = await db
+      .update(analysisRun)
+      .set({
+        status: "failed",
+        failedStage,
+        failureReason: message,
+        completedAt: new Date(),
+      })
+      .where(and(eq(analysisRun.id, run.id), eq(analysisRun.status, "running")))
+      .returning({ id: analysisRun.id });
+    if (failed) {
+      await recordRunEvent(run.id, {
+        type: "run_failed",
+        failedStage,
+        errorCode: "run_stale",
+        message,
+      });
+    }
+  }
+}
+
+// Keeps the run's heartbeat fresh while its stages execute.
+async function withRunHeartbeat<T>(runId: number, fn: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    db.update(analysisRun)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(analysisRun.id, runId), eq(analysisRun.status, "running")))
+      .catch((error) => {
+        console.error("[manager-analysis] heartbeat failed", { runId, error });
+      });
+  }, RUN_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
 async function markRunFailed(input: {
   runId: number;
   failedStage: FailedStage;
+  errorCode: string;
   message: string;
   stageUsage: StageUsage;
+  fairnessReport?: FairnessReport;
 }): Promise<void> {
   await db
     .update(analysisRun)
@@ -430,23 +614,59 @@ async function markRunFailed(input: {
       failedStage: input.failedStage,
       failureReason: input.message,
       stageUsage: input.stageUsage,
+      fairnessReport: input.fairnessReport,
       completedAt: new Date(),
     })
     .where(eq(analysisRun.id, input.runId));
+  await recordRunEvent(input.runId, {
+    type: "run_failed",
+    failedStage: input.failedStage,
+    errorCode: input.errorCode,
+    message: input.message,
+  });
 }
 
-async function updateRunUsage(runId: number, stageUsage: StageUsage): Promise<void> {
+async function recordStageCompleted(
+  runId: number,
+  stage: AnalysisStage,
+  stageUsage: StageUsage,
+  fairnessReport: FairnessReport
+): Promise<void> {
   await db
     .update(analysisRun)
     .set({
       stageUsage,
+      fairnessReport,
     })
     .where(eq(analysisRun.id, runId));
+  await recordRunEvent(runId, {
+    type: "stage_completed",
+    stage,
+    usage: stageUsage[stage],
+  });
 }
 
-export async function generateManagerAnalysisOrchestration(
+// A blocked stage has no output, so its violations only reach the report
+// through the error.
+function recordBlockedStage(
+  error: unknown,
+  stage: keyof FairnessReport,
+  fairnessReport: FairnessReport
+): void {
+  if (error instanceof FairnessPolicyViolationError) {
+    fairnessReport[stage] = summarizeFairnessViolations(error.violations);
+  }
+}
+
+/**
+ * Input checks that need no database access, so the API route can reject bad
+ * requests before queueing a job.
+ */
+export function validateManagerAnalysisRequest(
   request: GenerateManagerAnalysisRequest
-): Promise<GenerateManagerAnalysisResult> {
+):
+  | { ok: true; request: GenerateManagerAnalysisRequest }
+  | Extract<GenerateManagerAnalysisResult, { ok: false }> {
   const employeeEmail = request.employeeEmail.trim().toLowerCase();
   const quarter = request.quarter.trim();
 
@@ -492,34 +712,22 @@ export async function generateManagerAnalysisOrchestration(
       },
     };
   }
-  const monthKeys = monthValidation.months;
 
-  const [existingRun] = await db
-    .select({ id: analysisRun.id })
-    .from(analysisRun)
-    .where(
-      and(
-        eq(analysisRun.employeeEmail, employeeEmail),
-        eq(analysisRun.quarter, quarter),
-        eq(analysisRun.status, "running")
-      )
-    )
-    .limit(1);
+  return {
+    ok: true,
+    request: { employeeEmail, quarter, monthKeys: monthValidation.months },
+  };
+}
 
-  if (existingRun) {
-    return {
-      ok: false,
-      httpStatus: 409,
-      body: {
-        status: "failed",
-        runId: existingRun.id,
-        failedStage: "evidence_load",
-        errorCode: "run_already_in_progress",
-        message: "A manager analysis run is already in progress for this employee and quarter.",
-      },
-    };
-  }
+type AnalysisInputResult =
+  | { ok: true; managerEmail: string; coreInput: ManagerAnalysisCoreInput }
+  | Extract<GenerateManagerAnalysisResult, { ok: false }>;
 
+async function loadAnalysisInput(
+  employeeEmail: string,
+  quarter: string,
+  monthKeys: string[]
+): Promise<AnalysisInputResult> {
   const [employeeRow] = await db
     .select({
       email: employees.email,
@@ -573,10 +781,10 @@ export async function generateManagerAnalysisOrchestration(
     .where(
       and(
         eq(employeeQuarterlyInsights.employeeEmail, employeeEmail),
-        eq(employeeQuarterlyInsights.quarter, quarter)
+        eq(employeeQuarterlyInsights.quarter, quarter),
+        eq(employeeQuarterlyInsights.isCurrent, true)
       )
     )
-    .orderBy(desc(employeeQuarterlyInsights.createdAt))
     .limit(1);
 
   if (quarterlyRows.length === 0) {
@@ -599,17 +807,14 @@ export async function generateManagerAnalysisOrchestration(
     .where(
       and(
         eq(employeeMonthlyInsights.employeeEmail, employeeEmail),
-        inArray(employeeMonthlyInsights.month, monthKeys)
+        inArray(employeeMonthlyInsights.month, monthKeys),
+        eq(employeeMonthlyInsights.isCurrent, true)
       )
-    )
-    .orderBy(desc(employeeMonthlyInsights.createdAt));
+    );
 
-  const latestMonthlyByMonth = new Map<string, (typeof monthlyRows)[number]>();
-  for (const row of monthlyRows) {
-    if (!latestMonthlyByMonth.has(row.month)) {
-      latestMonthlyByMonth.set(row.month, row);
-    }
-  }
+  const latestMonthlyByMonth = new Map(
+    monthlyRows.map((row) => [row.month, row])
+  );
 
   const missingMonths = monthKeys.filter((month) => !latestMonthlyByMonth.has(month));
   if (missingMonths.length > 0) {
@@ -663,10 +868,18 @@ export async function generateManagerAnalysisOrchestration(
     return { month, synthesis };
   });
 
+  const [employeeResponses, managerFollowUps, oneOnOneNotes] = await Promise.all([
+    listPromptResponsesForEvidence({ employeeEmail, quarter }),
+    listFollowUpsForEvidence({ employeeEmail, quarter }),
+    listOneOnOneNotesForEvidence({ employeeEmail, quarter }),
+  ]);
   const evidenceCatalog = buildEvidenceCatalog({
     quarter,
     quarterly: quarterlySynthesis,
     monthlyHistory,
+    employeeResponses,
+    managerFollowUps,
+    oneOnOneNotes,
   });
   if (evidenceCatalog.length === 0) {
     return {
@@ -684,6 +897,7 @@ export async function generateManagerAnalysisOrchestration(
 
   const coreInput: ManagerAnalysisCoreInput = {
     employeeId: employeeEmail,
+    quarter,
     managerId: contextRow.managerEmail,
     role: employeeRow.role,
     quarterly: quarterlySynthesis,
@@ -696,11 +910,402 @@ export async function generateManagerAnalysisOrchestration(
     evidenceCatalog,
   };
 
+  return { ok: true, managerEmail: contextRow.managerEmail, coreInput };
+}
+
+type AnalysisStageInput = {
+  runId: number;
+  employeeEmail: string;
+  quarter: string;
+  managerEmail: string;
+  coreInput: ManagerAnalysisCoreInput;
+  stageUsage: StageUsage;
+  fairnessReport: FairnessReport;
+  resumed: boolean;
+  // Outputs persisted by an earlier attempt of the same run.
+  reuse: {
+    debate: CombinedDebateOutput | null;
+    arbiter: ArbiterDecisionOutput | null;
+    guidance: StoredGuidance | null;
+  };
+};
+
+type StoredGuidance = {
+  output: CombinedGuidanceOutput;
+  prompt: PromptStamp;
+};
+
+function parseStoredGuidanceOutput(raw: unknown): StoredGuidance | null {
+  if (!raw || typeof raw !== "object") return null;
+  const record = raw as Record<string, unknown>;
+  const output = parseStoredGuidance(record.output);
+  const prompt = record.prompt as Partial<PromptStamp> | undefined;
+  if (
+    !output ||
+    typeof prompt?.promptId !== "string" ||
+    typeof prompt.promptVersion !== "number"
+  ) {
+    return null;
+  }
+  return {
+    output,
+    prompt: { promptId: prompt.promptId, promptVersion: prompt.promptVersion },
+  };
+}
+
+async function runAnalysisStages(
+  input: AnalysisStageInput
+): Promise<GenerateManagerAnalysisResult> {
+  const {
+    runId,
+    employeeEmail,
+    quarter,
+    managerEmail,
+    coreInput,
+    stageUsage,
+    fairnessReport,
+  } = input;
+
+  let debateOutput = input.reuse.debate;
+  if (!debateOutput) {
+    let debateStage!: Awaited<ReturnType<typeof generateCombinedDebate>>;
+    try {
+      await recordRunEvent(runId, { type: "stage_started", stage: "debate" });
+      debateStage = await generateCombinedDebate(coreInput, {
+        onArgument: (argument) =>
+          recordRunEvent(runId, { type: "debate_argument", ...argument }),
+      });
+      stageUsage.debate = toUsage(debateStage.usage);
+      fairnessReport.debate = summarizeFairnessViolations(debateStage.fairness);
+      await recordStageCompleted(runId, "debate", stageUsage, fairnessReport);
+    } catch (error) {
+      const message = sanitizeErrorMessage(error);
+      const failure = generationFailure(error, "debate_generation_failed");
+      recordBlockedStage(error, "debate", fairnessReport);
+      await markRunFailed({
+        runId,
+        failedStage: "debate",
+        errorCode: failure.errorCode,
+        message,
+        stageUsage,
+        fairnessReport,
+      });
+      return {
+        ok: false,
+        httpStatus: failure.httpStatus,
+        body: {
+          status: "failed",
+          runId,
+          failedStage: "debate",
+          errorCode: failure.errorCode,
+          message,
+        },
+      };
+    }
+    try {
+      await db.insert(analysisDebateResponse).values([
+        {
+          runId,
+          agentRole: "advocate",
+          payload: debateStage.output.advocateAssessment,
+          confidenceLevel: debateStage.output.advocateAssessment.confidence,
+          generatedByModel: debateStage.model,
+          modelVersion: debateStage.modelVersion,
+          ...debateStage.prompt,
+        },
+        {
+          runId,
+          agentRole: "examiner",
+          payload: debateStage.output.examinerAssessment,
+          confidenceLevel: debateStage.output.examinerAssessment.confidence,
+          generatedByModel: debateStage.model,
+          modelVersion: debateStage.modelVersion,
+          ...debateStage.prompt,
+        },
+      ]);
+    } catch (error) {
+      const message = sanitizeErrorMessage(error);
+      await markRunFailed({
+        runId,
+        failedStage: "persistence",
+        errorCode: "debate_persistence_failed",
+        message,
+        stageUsage,
+      });
+      return {
+        ok: false,
+        httpStatus: 500,
+        body: {
+          status: "failed",
+          runId,
+          failedStage: "persistence",
+          errorCode: "debate_persistence_failed",
+          message,
+        },
+      };
+    }
+    debateOutput = debateStage.output;
+  }
+
+  let arbiterOutput = input.reuse.arbiter;
+  if (!arbiterOutput) {
+    let arbiterStage!: Awaited<ReturnType<typeof generateArbiterDecision>>;
+    try {
+      await recordRunEvent(runId, { type: "stage_started", stage: "arbiter" });
+      arbiterStage = await generateArbiterDecision({
+        core: coreInput,
+        debate: debateOutput,
+      });
+      stageUsage.arbiter = toUsage(arbiterStage.usage);
+      fairnessReport.arbiter = summarizeFairnessViolations(arbiterStage.fairness);
+      await recordStageCompleted(runId, "arbiter", stageUsage, fairnessReport);
+    } catch (error) {
+      const message = sanitizeErrorMessage(error);
+      const failure = generationFailure(error, "arbiter_generation_failed");
+      recordBlockedStage(error, "arbiter", fairnessReport);
+      await markRunFailed({
+        runId,
+        failedStage: "arbiter",
+        errorCode: failure.errorCode,
+        message,
+        stageUsage,
+        fairnessReport,
+      });
+      return {
+        ok: false,
+        httpStatus: failure.httpStatus,
+        body: {
+          status: "failed",
+          runId,
+          failedStage: "arbiter",
+          errorCode: failure.errorCode,
+          message,
+        },
+      };
+    }
+
+    try {
+      await db.insert(analysisArbiterDecision).values({
+        runId,
+        payload: arbiterStage.output,
+        confidenceLevel: arbiterStage.output.confidence,
+        generatedByModel: arbiterStage.model,
+        modelVersion: arbiterStage.modelVersion,
+        ...arbiterStage.prompt,
+      });
+    } catch (error) {
+      const message = sanitizeErrorMessage(error);
+      await markRunFailed({
+        runId,
+        failedStage: "persistence",
+        errorCode: "arbiter_persistence_failed",
+        message,
+        stageUsage,
+      });
+      return {
+        ok: false,
+        httpStatus: 500,
+        body: {
+          status: "failed",
+          runId,
+          failedStage: "persistence",
+          errorCode: "arbiter_persistence_failed",
+          message,
+        },
+      };
+    }
+    arbiterOutput = arbiterStage.output;
+  }
+
+  let guidanceStage: StoredGuidance | null = input.reuse.guidance;
+  const guidanceReused = guidanceStage !== null;
+  if (!guidanceStage) {
+    try {
+      await recordRunEvent(runId, { type: "stage_started", stage: "guidance" });
+      const generated = await generateCombinedGuidance({
+        core: coreInput,
+        debate: debateOutput,
+        arbiter: arbiterOutput,
+      });
+      guidanceStage = { output: generated.output, prompt: generated.prompt };
+      stageUsage.guidance = toUsage(generated.usage);
+      fairnessReport.guidance = summarizeFairnessViolations(generated.fairness);
+      await recordStageCompleted(runId, "guidance", stageUsage, fairnessReport);
+    } catch (error) {
+      const message = sanitizeErrorMessage(error);
+      const failure = generationFailure(error, "guidance_generation_failed");
+      recordBlockedStage(error, "guidance", fairnessReport);
+      await markRunFailed({
+        runId,
+        failedStage: "guidance",
+        errorCode: failure.errorCode,
+        message,
+        stageUsage,
+        fairnessReport,
+      });
+      return {
+        ok: false,
+        httpStatus: failure.httpStatus,
+        body: {
+          status: "failed",
+          runId,
+          failedStage: "guidance",
+          errorCode: failure.errorCode,
+          message,
+        },
+      };
+    }
+  }
+
+  try {
+    if (!guidanceReused) {
+      await db
+        .update(analysisRun)
+        .set({ guidanceOutput: guidanceStage })
+        .where(eq(analysisRun.id, runId));
+    }
+    if (input.resumed) {
+      // Guidance rows are written one table at a time, so an earlier attempt
+      // may have stored prompts before failing on the manager feedback.
+      await db.delete(employeePrompt).where(eq(employeePrompt.runId, runId));
+      await db.delete(managerFeedback).where(eq(managerFeedback.runId, runId));
+      await db
+        .delete(managerFeedbackItem)
+        .where(eq(managerFeedbackItem.runId, runId));
+    }
+
+    await db.insert(employeePrompt).values(
+      guidanceStage.output.employeePings.map((ping) => ({
+        runId,
+        employeeEmail,
+        quarter,
+        theme: ping.theme,
+        message: ping.message,
+        evidenceRefs: ping.evidenceRefs,
+        confidenceLevel: ping.confidence,
+        ...guidanceStage.prompt,
+      }))
+    );
+
+    await db.insert(managerFeedback).values({
+      runId,
+      managerEmail: managerEmail,
+      focusAreas: guidanceStage.output.managerCoaching.focusAreas,
+      suggestedQuestions: guidanceStage.output.managerCoaching.suggestedQuestions,
+      doNotAssume: guidanceStage.output.managerCoaching.doNotAssume,
+      evidenceRefs: guidanceStage.output.managerCoaching.evidenceRefs,
+      confidenceLevel: guidanceStage.output.managerCoaching.confidence,
+      ...guidanceStage.prompt,
+    });
+    await createFeedbackItems({
+      runId,
+      employeeEmail,
+      quarter,
+      suggestedQuestions: guidanceStage.output.managerCoaching.suggestedQuestions,
+      focusAreas: guidanceStage.output.managerCoaching.focusAreas,
+    });
+
+    await db
+      .update(analysisRun)
+      .set({
+        status: "completed",
+        completedAt: new Date(),
+        stageUsage,
+      })
+      .where(eq(analysisRun.id, runId));
+    await recordRunEvent(runId, { type: "run_completed" });
+  } catch (error) {
+    const message = sanitizeErrorMessage(error);
+    await markRunFailed({
+      runId,
+      failedStage: "persistence",
+      errorCode: "guidance_persistence_failed",
+      message,
+      stageUsage,
+    });
+    return {
+      ok: false,
+      httpStatus: 500,
+      body: {
+        status: "failed",
+        runId,
+        failedStage: "persistence",
+        errorCode: "guidance_persistence_failed",
+        message,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    httpStatus: 200,
+    body: {
+      status: "success",
+      runId,
+      employeeEmail,
+      quarter,
+      outputs: {
+        debate: debateOutput,
+        arbiter: arbiterOutput,
+        guidance: guidanceStage.output,
+      },
+    },
+  };
+}
+
+export async function generateManagerAnalysisOrchestration(
+  rawRequest: GenerateManagerAnalysisRequest
+): Promise<GenerateManagerAnalysisResult> {
+  const validation = validateManagerAnalysisRequest(rawRequest);
+  if (!validation.ok) {
+    return validation;
+  }
+  const { employeeEmail, quarter, monthKeys } = validation.request;
+
+  await failStaleRuns(employeeEmail, quarter);
+
+  const [existingRun] = await db
+    .select({ id: analysisRun.id })
+    .from(analysisRun)
+    .where(
+      and(
+        eq(analysisRun.employeeEmail, employeeEmail),
+        eq(analysisRun.quarter, quarter),
+        eq(analysisRun.status, "running")
+      )
+    )
+    .limit(1);
+
+  if (existingRun) {
+    return {
+      ok: false,
+      httpStatus: 409,
+      body: {
+        status: "failed",
+        runId: existingRun.id,
+        failedStage: "evidence_load",
+        errorCode: "run_already_in_progress",
+        message: "A manager analysis run is already in progress for this employee and quarter.",
+      },
+    };
+  }
+
+  const evidence = await loadAnalysisInput(employeeEmail, quarter, monthKeys);
+  if (!evidence.ok) {
+    return evidence;
+  }
+  const { coreInput } = evidence;
+
   const stageUsage: StageUsage = {
     debate: null,
     arbiter: null,
     guidance: null,
   };
+  const fairnessReport: FairnessReport = {
+    debate: null,
+    arbiter: null,
+    guidance: null,
+  };
 
   let runId: number;
   try {
@@ -708,7 +1313,7 @@ export async function generateManagerAnalysisOrchestration(
       .insert(analysisRun)
       .values({
         employeeEmail,
-        managerEmail: contextRow.managerEmail,
+        managerEmail: evidence.managerEmail,
         quarter,
         status: "running",
         requestPayload: {
@@ -716,12 +1321,15 @@ export async function generateManagerAnalysisOrchestration(
           quarter,
           monthKeys,
         },
-        evidenceCatalog,
-        dataSufficiency: resolvedDataSufficiency,
+        evidenceCatalog: coreInput.evidenceCatalog,
+        dataSufficiency: coreInput.dataSufficiency,
+        coreInput,
         stageUsage,
+        fairnessReport,
       })
       .returning({ id: analysisRun.id });
     runId = inserted[0].id;
+    await recordRunEvent(runId, { type: "run_started", quarter });
   } catch (error) {
     const message = sanitizeErrorMessage(error);
     return {
@@ -736,194 +1344,255 @@ export async function generateManagerAnalysisOrchestration(
       },
     };
   }
-  let debateStage!: Awaited<ReturnType<typeof generateCombinedDebate>>;
-  try {
-    debateStage = await generateCombinedDebate(coreInput);
-    stageUsage.debate = toUsage(debateStage.usage);
-    await updateRunUsage(runId, stageUsage);
-  } catch (error) {
-    const message = sanitizeErrorMessage(error);
-    await markRunFailed({
+  return withRunHeartbeat(runId, () =>
+    runAnalysisStages({
       runId,
-      failedStage: "debate",
-      message,
+      employeeEmail,
+      quarter,
+      managerEmail: evidence.managerEmail,
+      coreInput,
       stageUsage,
-    });
-    return {
-      ok: false,
-      httpStatus: 500,
-      body: {
-        status: "failed",
-        runId,
-        failedStage: "debate",
-        errorCode: "debate_generation_failed",
-        message,
-      },
-    };
+      fairnessReport,
+      resumed: false,
+      reuse: { debate: null, arbiter: null, guidance: null },
+    })
+  );
+}
+
+export async function findAnalysisRun(runId: number): Promise<{
+  id: number;
+  employeeEmail: string;
+  quarter: string;
+  status: string;
+  // Running, but its process stopped heartbeating; resuming fails it first.
+  stale: boolean;
+} | null> {
+  const [run] = await db
+    .select({
+      id: analysisRun.id,
+      employeeEmail: analysisRun.employeeEmail,
+      quarter: analysisRun.quarter,
+      status: analysisRun.status,
+      heartbeatAt: analysisRun.heartbeatAt,
+    })
+    .from(analysisRun)
+    .where(eq(analysisRun.id, runId))
+    .limit(1);
+  if (!run) {
+    return null;
   }
-  try {
-    await db.insert(analysisDebateResponse).values([
-      {
-        runId,
-        agentRole: "advocate",
-        payload: debateStage.output.advocateAssessment,
-        confidenceLevel: debateStage.output.advocateAssessment.confidence,
-        generatedByModel: debateStage.model,
-        modelVersion: debateStage.modelVersion,
-      },
-      {
-        runId,
-        agentRole: "examiner",
-        payload: debateStage.output.examinerAssessment,
-        confidenceLevel: debateStage.output.examinerAssessment.confidence,
-        generatedByModel: debateStage.model,
-        modelVersion: debateStage.modelVersion,
-      },
-    ]);
-  } catch (error) {
-    const message = sanitizeErrorMessage(error);
-    await markRunFailed({
-      runId,
-      failedStage: "persistence",
-      message,
-      stageUsage,
-    });
+
+  const { heartbeatAt, ...rest } = run;
+  return {
+    ...rest,
+    stale:
+      run.status === "running" &&
+      heartbeatAt.getTime() < Date.now() - readRunStaleMs(),
+  };
+}
+
+/**
+ * Restarts a failed run from the stage that failed. Debate, arbiter and
+ * guidance outputs already persisted for the run are reused, and the run is
+ * resumed against its stored stage input so their citations stay valid. A run
+ * stored without its input restarts from the debate on the current evidence.
+ */
+export async function resumeManagerAnalysisRun(input: {
+  runId: number;
+}): Promise<GenerateManagerAnalysisResult> {
+  const { runId } = input;
+
+  let [run] = await db
+    .select()
+    .from(analysisRun)
+    .where(eq(analysisRun.id, runId))
+    .limit(1);
+  // A run left running by a crashed worker becomes resumable once stale, and
+  // no longer blocks resuming another run for the quarter.
+  if (run) {
+    await failStaleRuns(run.employeeEmail, run.quarter);
+  }
+  if (run?.status === "running") {
+    [run] = await db
+      .select()
+      .from(analysisRun)
+      .where(eq(analysisRun.id, runId))
+      .limit(1);
+  }
+
+  if (!run) {
     return {
       ok: false,
-      httpStatus: 500,
+      httpStatus: 404,
       body: {
         status: "failed",
         runId,
-        failedStage: "persistence",
-        errorCode: "debate_persistence_failed",
-        message,
+        failedStage: "input_validation",
+        errorCode: "run_not_found",
+        message: "Manager analysis run not found.",
       },
     };
   }
-  let arbiterStage!: Awaited<ReturnType<typeof generateArbiterDecision>>;
-  try {
-    arbiterStage = await generateArbiterDecision({
-      core: coreInput,
-      debate: debateStage.output,
-    });
-    stageUsage.arbiter = toUsage(arbiterStage.usage);
-    await updateRunUsage(runId, stageUsage);
-  } catch (error) {
-    const message = sanitizeErrorMessage(error);
-    await markRunFailed({
-      runId,
-      failedStage: "arbiter",
-      message,
-      stageUsage,
-    });
+
+  if (run.status !== "failed") {
     return {
       ok: false,
-      httpStatus: 500,
+      httpStatus: 409,
       body: {
         status: "failed",
         runId,
-        failedStage: "arbiter",
-        errorCode: "arbiter_generation_failed",
-        message,
+        failedStage: "input_validation",
+        errorCode: "run_not_resumable",
+        message: `Only failed runs can be resumed; this run is ${run.status}.`,
       },
     };
   }
 
-  try {
-    await db.insert(analysisArbiterDecision).values({
-      runId,
-      payload: arbiterStage.output,
-      confidenceLevel: arbiterStage.output.confidence,
-      generatedByModel: arbiterStage.model,
-      modelVersion: arbiterStage.modelVersion,
-    });
-  } catch (error) {
-    const message = sanitizeErrorMessage(error);
-    await markRunFailed({
-      runId,
-      failedStage: "persistence",
-      message,
-      stageUsage,
-    });
+  const [otherRun] = await db
+    .select({ id: analysisRun.id })
+    .from(analysisRun)
+    .where(
+      and(
+        eq(analysisRun.employeeEmail, run.employeeEmail),
+        eq(analysisRun.quarter, run.quarter),
+        eq(analysisRun.status, "running"),
+        ne(analysisRun.id, runId)
+      )
+    )
+    .limit(1);
+
+  if (otherRun) {
     return {
       ok: false,
-      httpStatus: 500,
+      httpStatus: 409,
       body: {
         status: "failed",
-        runId,
-        failedStage: "persistence",
-        errorCode: "arbiter_persistence_failed",
-        message,
+        runId: otherRun.id,
+        failedStage: "evidence_load",
+        errorCode: "run_already_in_progress",
+        message: "A manager analysis run is already in progress for this employee and quarter.",
       },
     };
   }
 
-  let guidanceStage!: Awaited<ReturnType<typeof generateCombinedGuidance>>;
-  try {
-    guidanceStage = await generateCombinedGuidance({
-      core: coreInput,
-      debate: debateStage.output,
-      arbiter: arbiterStage.output,
-    });
-    stageUsage.guidance = toUsage(guidanceStage.usage);
-    await updateRunUsage(runId, stageUsage);
-  } catch (error) {
-    const message = sanitizeErrorMessage(error);
-    await markRunFailed({
-      runId,
-      failedStage: "guidance",
-      message,
+  const validation = validateManagerAnalysisRequest(
+    run.requestPayload as GenerateManagerAnalysisRequest
+  );
+  if (!validation.ok) {
+    return { ...validation, body: { ...validation.body, runId } };
+  }
+  const { employeeEmail, quarter, monthKeys } = validation.request;
+
+  let coreInput = run.coreInput as ManagerAnalysisCoreInput | null;
+  let managerEmail = run.managerEmail;
+  const storedInput = coreInput !== null;
+  if (!coreInput) {
+    const evidence = await loadAnalysisInput(employeeEmail, quarter, monthKeys);
+    if (!evidence.ok) {
+      return { ...evidence, body: { ...evidence.body, runId } };
+    }
+    coreInput = evidence.coreInput;
+    managerEmail = evidence.managerEmail;
+  }
+
+  const debateRows = await db
+    .select({
+      agentRole: analysisDebateResponse.agentRole,
+      payload: analysisDebateResponse.payload,
+    })
+    .from(analysisDebateResponse)
+    .where(eq(analysisDebateResponse.runId, runId));
+  const advocateRow = debateRows.find((row) => row.agentRole === "advocate");
+  const examinerRow = debateRows.find((row) => row.agentRole === "examiner");
+  const debate =
+    storedInput && advocateRow && examinerRow
+      ? parseStoredDebate(advocateRow.payload, examinerRow.payload)
+      : null;
+
+  // A stored arbiter decision is only valid alongside the debate it judged.
+  let arbiter: ArbiterDecisionOutput | null = null;
+  if (debate) {
+    const [arbiterRow] = await db
+      .select({ payload: analysisArbiterDecision.payload })
+      .from(analysisArbiterDecision)
+      .where(eq(analysisArbiterDecision.runId, runId))
+      .limit(1);
+    arbiter = arbiterRow ? parseStoredArbiterDecision(arbiterRow.payload) : null;
+  }
+  // Stored guidance is only valid alongside the arbiter decision it followed.
+  const guidance = arbiter ? parseStoredGuidanceOutput(run.guidanceOutput) : null;
+
+  const fromStage: AnalysisStage | "persistence" = !debate
+    ? "debate"
+    : !arbiter
+      ? "arbiter"
+      : !guidance
+        ? "guidance"
+        : "persistence";
+  const storedUsage = (run.stageUsage ?? {}) as Partial<StageUsage>;
+  const stageUsage: StageUsage = {
+    debate: debate ? (storedUsage.debate ?? null) : null,
+    arbiter: arbiter ? (storedUsage.arbiter ?? null) : null,
+    guidance: guidance ? (storedUsage.guidance ?? null) : null,
+  };
+  const storedFairness = (run.fairnessReport ?? {}) as Partial<FairnessReport>;
+  const fairnessReport: FairnessReport = {
+    debate: debate ? (storedFairness.debate ?? null) : null,
+    arbiter: arbiter ? (storedFairness.arbiter ?? null) : null,
+    guidance: guidance ? (storedFairness.guidance ?? null) : null,
+  };
+
+  const [resumed] = await db
+    .update(analysisRun)
+    .set({
+      status: "running",
+      failedStage: null,
+      failureReason: null,
+      completedAt: null,
+      heartbeatAt: new Date(),
+      evidenceCatalog: coreInput.evidenceCatalog,
+      dataSufficiency: coreInput.dataSufficiency,
+      coreInput,
+      guidanceOutput: guidance,
       stageUsage,
-    });
+      fairnessReport,
+      resumeCount: sql`${analysisRun.resumeCount} + 1`,
+    })
+    .where(and(eq(analysisRun.id, runId), eq(analysisRun.status, "failed")))
+    .returning({ id: analysisRun.id });
+
+  if (!resumed) {
     return {
       ok: false,
-      httpStatus: 500,
+      httpStatus: 409,
       body: {
         status: "failed",
         runId,
-        failedStage: "guidance",
-        errorCode: "guidance_generation_failed",
-        message,
+        failedStage: "input_validation",
+        errorCode: "run_not_resumable",
+        message: "The run was resumed by another request.",
       },
     };
   }
 
+  // Stale rows for stages that run again would collide with the new output.
   try {
-    await db.insert(employeePrompt).values(
-      guidanceStage.output.employeePings.map((ping) => ({
-        runId,
-        employeeEmail,
-        quarter,
-        theme: ping.theme,
-        message: ping.message,
-        evidenceRefs: ping.evidenceRefs,
-        confidenceLevel: ping.confidence,
-      }))
-    );
-
-    await db.insert(managerFeedback).values({
-      runId,
-      managerEmail: contextRow.managerEmail,
-      focusAreas: guidanceStage.output.managerCoaching.focusAreas,
-      suggestedQuestions: guidanceStage.output.managerCoaching.suggestedQuestions,
-      doNotAssume: guidanceStage.output.managerCoaching.doNotAssume,
-      evidenceRefs: guidanceStage.output.managerCoaching.evidenceRefs,
-      confidenceLevel: guidanceStage.output.managerCoaching.confidence,
-    });
-
-    await db
-      .update(analysisRun)
-      .set({
-        status: "completed",
-        completedAt: new Date(),
-        stageUsage,
-      })
-      .where(eq(analysisRun.id, runId));
+    if (!debate) {
+      await db
+        .delete(analysisDebateResponse)
+        .where(eq(analysisDebateResponse.runId, runId));
+    }
+    if (!arbiter) {
+      await db
+        .delete(analysisArbiterDecision)
+        .where(eq(analysisArbiterDecision.runId, runId));
+    }
   } catch (error) {
     const message = sanitizeErrorMessage(error);
     await markRunFailed({
       runId,
       failedStage: "persistence",
+      errorCode: "resume_cleanup_failed",
       message,
       stageUsage,
     });
@@ -934,25 +1603,24 @@ export async function generateManagerAnalysisOrchestration(
         status: "failed",
         runId,
         failedStage: "persistence",
-        errorCode: "guidance_persistence_failed",
+        errorCode: "resume_cleanup_failed",
         message,
       },
     };
   }
+  await recordRunEvent(runId, { type: "run_resumed", fromStage });
 
-  return {
-    ok: true,
-    httpStatus: 200,
-    body: {
-      status: "success",
+  return withRunHeartbeat(runId, () =>
+    runAnalysisStages({
       runId,
       employeeEmail,
       quarter,
-      outputs: {
-        debate: debateStage.output,
-        arbiter: arbiterStage.output,
-        guidance: guidanceStage.output,
-      },
-    },
-  };
+      managerEmail,
+      coreInput,
+      stageUsage,
+      fairnessReport,
+      resumed: true,
+      reuse: { debate, arbiter, guidance },
+    })
+  );
 }
@@ -0,0 +1,283 @@
+import "server-only";
+
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { analysisRun, managerFeedbackItem } from "@/lib/db/schema";
+
+const MAX_FOLLOW_UP_EVIDENCE = 10;
+
+export type ManagerFeedbackItemKind = "question" | "focus_area";
+
+// open until the manager acts: questions become asked, focus areas addressed.
+export type ManagerFeedbackItemStatus = "open" | "asked" | "addressed";
+
+export type ManagerFeedbackItemAction =
+  | { type: "mark_asked"; answer?: string }
+  | { type: "mark_addressed"; note?: string }
+  | { type: "reopen" };
+
+export type ManagerFeedbackItemView = {
+  id: number;
+  runId: number;
+  employeeEmail: string;
+  quarter: string;
+  kind: ManagerFeedbackItemKind;
+  text: string;
+  status: ManagerFeedbackItemStatus;
+  responseText: string | null;
+  updatedBy: string | null;
+  resolvedAt: string | null;
+};
+
+export type ManagerFeedbackWorkspace = {
+  employeeEmail: string;
+  latestRun: {
+    id: number;
+    quarter: string;
+  } | null;
+  items: ManagerFeedbackItemView[];
+  // Items still open from earlier quarters; the next run sees these too.
+  carriedForward: ManagerFeedbackItemView[];
+};
+
+export type ManagerFollowUp = {
+  itemId: number;
+  quarter: string;
+  kind: ManagerFeedbackItemKind;
+  text: string;
+  status: ManagerFeedbackItemStatus;
+  responseText: string | null;
+};
+
+export type UpdateFeedbackItemResult =
+  | { ok: true; item: ManagerFeedbackItemView }
+  | { ok: false; reason: "not_found" | "invalid_action" };
+
+type ManagerFeedbackItemRow = typeof managerFeedbackItem.$inferSelect;
+
+function toView(row: ManagerFeedbackItemRow): ManagerFeedbackItemView {
+  return {
+    id: row.id,
+    runId: row.runId,
+    employeeEmail: row.employeeEmail,
+    quarter: row.quarter,
+    kind: row.kind as ManagerFeedbackItemKind,
+    text: row.text,
+    status: row.status as ManagerFeedbackItemStatus,
+    responseText: row.responseText,
+    updatedBy: row.updatedBy,
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+function sortItems(rows: ManagerFeedbackItemRow[]): ManagerFeedbackItemRow[] {
+  return [...rows].sort(
+    (left, right) =>
+      right.quarter.localeCompare(left.quarter) ||
+      left.kind.localeCompare(right.kind) ||
+      left.position - right.position
+  );
+}
+
+/**
+ * Latest completed run per quarter, newest quarter first. Re-running a quarter
+ * produces fresh feedback, so older runs of the same quarter are superseded.
+ */
+async function listLatestCompletedRuns(input: {
+  employeeEmail: string;
+  beforeQuarter?: string;
+}): Promise<Array<{ id: number; quarter: string }>> {
+  const rows = await db
+    .select({ id: analysisRun.id, quarter: analysisRun.quarter })
+    .from(analysisRun)
+    .where(
+      and(
+        eq(analysisRun.employeeEmail, input.employeeEmail),
+        eq(analysisRun.status, "completed"),
+        // Quarter keys (YYYY-Qn) sort chronologically as strings.
+        input.beforeQuarter ? lt(analysisRun.quarter, input.beforeQuarter) : undefined
+      )
+    )
+    .orderBy(desc(analysisRun.quarter), desc(analysisRun.createdAt), desc(analysisRun.id));
+
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (seen.has(row.quarter)) return false;
+    seen.add(row.quarter);
+    return true;
+  });
+}
+
+/** Stores one tracking row per question and focus area of a run's feedback. */
+export async function createFeedbackItems(input: {
+  runId: number;
+  employeeEmail: string;
+  quarter: string;
+  suggestedQuestions: string[];
+  focusAreas: string[];
+}): Promise<void> {
+  const values = [
+    ...input.suggestedQuestions.map((text, position) => ({
+      kind: "question" as const,
+      position,
+      text,
+    })),
+    ...input.focusAreas.map((text, position) => ({
+      kind: "focus_area" as const,
+      position,
+      text,
+    })),
+  ].map((item) => ({
+    runId: input.runId,
+    employeeEmail: input.employeeEmail,
+    quarter: input.quarter,
+    ...item,
+  }));
+
+  if (values.length === 0) return;
+  await db.insert(managerFeedbackItem).values(values);
+}
+
+/**
+ * The latest completed run's questions and focus areas, plus items left open
+ * in the latest run of each earlier quarter.
+ */
+export async function getFeedbackWorkspace(
+  employeeEmail: string
+): Promise<ManagerFeedbackWorkspace> {
+  const runs = await listLatestCompletedRuns({ employeeEmail });
+  if (runs.length === 0) {
+    return { employeeEmail, latestRun: null, items: [], carriedForward: [] };
+  }
+
+  const [latestRun, ...earlierRuns] = runs;
+  const rows = await db
+    .select()
+    .from(managerFeedbackItem)
+    .where(
+      inArray(
+        managerFeedbackItem.runId,
+        runs.map((run) => run.id)
+      )
+    );
+  const sorted = sortItems(rows);
+  const earlierRunIds = new Set(earlierRuns.map((run) => run.id));
+
+  return {
+    employeeEmail,
+    latestRun,
+    items: sorted.filter((row) => row.runId === latestRun.id).map(toView),
+    carriedForward: sorted
+      .filter((row) => earlierRunIds.has(row.runId) && row.status === "open")
+      .map(toView),
+  };
+}
+
+export async function findFeedbackItem(
+  itemId: number
+): Promise<ManagerFeedbackItemView | null> {
+  const [row] = await db
+    .select()
+    .from(managerFeedbackItem)
+    .where(eq(managerFeedbackItem.id, itemId))
+    .limit(1);
+  return row ? toView(row) : null;
+}
+
+/**
+ * Applies the manager's action. Questions can only be marked asked and focus
+ * areas only addressed; marking again replaces the stored answer or note.
+ */
+export async function updateFeedbackItem(input: {
+  itemId: number;
+  updatedBy: string;
+  action: ManagerFeedbackItemAction;
+}): Promise<UpdateFeedbackItemResult> {
+  const [existing] = await db
+    .select()
+    .from(managerFeedbackItem)
+    .where(eq(managerFeedbackItem.id, input.itemId))
+    .limit(1);
+
+  if (!existing) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  const now = new Date();
+  let update: Partial<typeof managerFeedbackItem.$inferInsert>;
+
+  switch (input.action.type) {
+    case "mark_asked":
+      if (existing.kind !== "question") {
+        return { ok: false, reason: "invalid_action" };
+      }
+      update = {
+        status: "asked",
+        responseText: input.action.answer ?? null,
+        resolvedAt: now,
+      };
+      break;
+    case "mark_addressed":
+      if (existing.kind !== "focus_area") {
+        return { ok: false, reason: "invalid_action" };
+      }
+      update = {
+        status: "addressed",
+        responseText: input.action.note ?? null,
+        resolvedAt: now,
+      };
+      break;
+    case "reopen":
+      update = { status: "open", responseText: null, resolvedAt: null };
+      break;
+  }
+
+  const [updated] = await db
+    .update(managerFeedbackItem)
+    .set({ ...update, updatedBy: input.updatedBy, updatedAt: now })
+    .where(eq(managerFeedbackItem.id, existing.id))
+    .returning();
+
+  return { ok: true, item: toView(updated) };
+}
+
+/**
+ * Follow-ups from earlier quarters for the analysis evidence catalog: items
+ * still open, then logged answers and notes, newest quarter first.
+ */
+export async function listFollowUpsForEvidence(input: {
+  employeeEmail: string;
+  quarter: string;
+}): Promise<ManagerFollowUp[]> {
+  const runs = await listLatestCompletedRuns({
+    employeeEmail: input.employeeEmail,
+    beforeQuarter: input.quarter,
+  });
+  if (runs.length === 0) return [];
+
+  const rows = await db
+    .select()
+    .from(managerFeedbackItem)
+    .where(
+      inArray(
+        managerFeedbackItem.runId,
+        runs.map((run) => run.id)
+      )
+    );
+
+  const sorted = sortItems(rows);
+  const open = sorted.filter((row) => row.status === "open");
+  const answered = sorted.filter(
+    (row) => row.status !== "open" && (row.responseText ?? "").trim().length > 0
+  );
+
+  return [...open, ...answered].slice(0, MAX_FOLLOW_UP_EVIDENCE).map((row) => ({
+    itemId: row.id,
+    quarter: row.quarter,
+    kind: row.kind as ManagerFeedbackItemKind,
+    text: row.text,
+    status: row.status as ManagerFeedbackItemStatus,
+    responseText: row.responseText,
+  }));
+}
@@ -25,8 +25,6 @@ export type ManagerProfileInsights = {
   bonusRecommendation: Decision | null;
   promotionRecommendation: Decision | null;
   unresolvedQuestions: string[];
-  suggestedQuestions: string[];
-  focusAreas: string[];
 };
 
 function asString(value: unknown): string {
@@ -86,8 +84,6 @@ export async function getManagerProfileInsightsByEmployeeEmail(
     bonusRecommendation: null,
     promotionRecommendation: null,
     unresolvedQuestions: [],
-    suggestedQuestions: [],
-    focusAreas: [],
   };
 
   if (!employeeEmail) {
@@ -128,8 +124,6 @@ export async function getManagerProfileInsightsByEmployeeEmail(
     db
       .select({
         runId: managerFeedback.runId,
-        suggestedQuestions: managerFeedback.suggestedQuestions,
-        focusAreas: managerFeedback.focusAreas,
       })
       .from(managerFeedback)
       .where(inArray(managerFeedback.runId, runIds)),
@@ -148,7 +142,6 @@ export async function getManagerProfileInsightsByEmployeeEmail(
     runRows.find((run) => feedbackByRun.has(run.id) || arbiterByRun.has(run.id)) ??
     runRows[0];
 
-  const feedback = feedbackByRun.get(selectedRun.id);
   const arbiter = arbiterByRun.get(selectedRun.id);
   const parsedArbiter = parseArbiterPayload(arbiter?.payload);
 
@@ -162,7 +155,5 @@ export async function getManagerProfileInsightsByEmployeeEmail(
     bonusRecommendation: parsedArbiter.bonusRecommendation,
     promotionRecommendation: parsedArbiter.promotionRecommendation,
     unresolvedQuestions: parsedArbiter.unresolvedQuestions,
-    suggestedQuestions: asStringArray(feedback?.suggestedQuestions),
-    focusAreas: asStringArray(feedback?.focusAreas),
   };
 }
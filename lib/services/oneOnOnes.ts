@@ -0,0 +1,266 @@
+import "server-only";
+
+import { and, asc, desc, eq, inArray, isNotNull, lte, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { oneOnOne, oneOnOneItem } from "@/lib/db/schema";
+import { getFeedbackWorkspace } from "@/lib/services/managerFeedbackItems";
+import { getManagerProfileInsightsByEmployeeEmail } from "@/lib/services/managerProfileInsights";
+import { listOpenRiskFlags } from "@/lib/services/riskFlags";
+
+const MAX_SUGGESTED_QUESTIONS = 6;
+const MAX_UNRESOLVED_QUESTIONS = 3;
+const MAX_MEETINGS = 10;
+const MAX_NOTE_EVIDENCE = 10;
+
+export type OneOnOneItemSource = "suggested_question" | "unresolved_question" | "risk_flag";
+
+export type OneOnOneItemView = {
+  id: number;
+  position: number;
+  source: OneOnOneItemSource;
+  feedbackItemId: number | null;
+  text: string;
+  notes: string | null;
+  notedBy: string | null;
+  notedAt: string | null;
+};
+
+export type OneOnOneView = {
+  id: number;
+  employeeEmail: string;
+  managerEmail: string;
+  meetingDate: string;
+  quarter: string;
+  runId: number | null;
+  riskWeekStart: string | null;
+  items: OneOnOneItemView[];
+  createdAt: string;
+};
+
+export type OneOnOneNote = {
+  itemId: number;
+  meetingDate: string;
+  quarter: string;
+  source: OneOnOneItemSource;
+  text: string;
+  notes: string;
+};
+
+type OneOnOneRow = typeof oneOnOne.$inferSelect;
+type OneOnOneItemRow = typeof oneOnOneItem.$inferSelect;
+
+function quarterKey(dateStr: string): string {
+  const [year, month] = dateStr.split("-");
+  return `${year}-Q${Math.floor((Number(month) - 1) / 3) + 1}`;
+}
+
+function toItemView(row: OneOnOneItemRow): OneOnOneItemView {
+  return {
+    id: row.id,
+    position: row.position,
+    source: row.source as OneOnOneItemSource,
+    feedbackItemId: row.feedbackItemId,
+    text: row.text,
+    notes: row.notes,
+    notedBy: row.notedBy,
+    notedAt: row.notedAt?.toISOString() ?? null,
+  };
+}
+
+function toView(row: OneOnOneRow, items: OneOnOneItemRow[]): OneOnOneView {
+  return {
+    id: row.id,
+    employeeEmail: row.employeeEmail,
+    managerEmail: row.managerEmail,
+    meetingDate: row.meetingDate,
+    quarter: row.quarter,
+    runId: row.runId,
+    riskWeekStart: row.riskWeekStart,
+    items: items.map(toItemView),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Open suggested questions (including ones carried over from earlier
+ * quarters), the arbiter's unresolved questions, then the open risk flags.
+ */
+async function assembleAgenda(employeeEmail: string) {
+  const [workspace, insights, openRiskFlags] = await Promise.all([
+    getFeedbackWorkspace(employeeEmail),
+    getManagerProfileInsightsByEmployeeEmail(employeeEmail),
+    listOpenRiskFlags([employeeEmail]),
+  ]);
+  const flags = openRiskFlags.get(employeeEmail) ?? [];
+
+  const suggestedQuestions = [...workspace.items, ...workspace.carriedForward]
+    .filter((item) => item.kind === "question" && item.status === "open")
+    .slice(0, MAX_SUGGESTED_QUESTIONS)
+    .map((item) => ({
+      source: "suggested_question" as const,
+      feedbackItemId: item.id,
+      text: item.text,
+    }));
+  const unresolvedQuestions = insights.unresolvedQuestions
+    .slice(0, MAX_UNRESOLVED_QUESTIONS)
+    .map((text) => ({
+      source: "unresolved_question" as const,
+      feedbackItemId: null,
+      text,
+    }));
+  const riskFlags = flags.map((flag) => ({
+    source: "risk_flag" as const,
+    feedbackItemId: null,
+    text: `${flag.label} (${flag.severity}, open since week of ${flag.openedWeek})`,
+  }));
+
+  return {
+    runId: workspace.latestRun?.id ?? insights.latestRun?.id ?? null,
+    riskWeekStart:
+      flags.map((flag) => flag.lastMatchedWeek).sort().at(-1) ?? null,
+    items: [...suggestedQuestions, ...unresolvedQuestions, ...riskFlags],
+  };
+}
+
+/** Creates a 1:1 with an agenda assembled from the current analysis state. */
+export async function createOneOnOne(input: {
+  employeeEmail: string;
+  managerEmail: string;
+  meetingDate: string;
+}): Promise<OneOnOneView> {
+  const agenda = await assembleAgenda(input.employeeEmail);
+
+  const insertMeeting = db
+    .insert(oneOnOne)
+    .values({
+      employeeEmail: input.employeeEmail,
+      managerEmail: input.managerEmail,
+      meetingDate: input.meetingDate,
+      quarter: quarterKey(input.meetingDate),
+      runId: agenda.runId,
+      riskWeekStart: agenda.riskWeekStart,
+    })
+    .returning();
+
+  if (agenda.items.length === 0) {
+    const [meeting] = await insertMeeting;
+    return toView(meeting, []);
+  }
+
+  // One transaction, so a failed item insert leaves no meeting without its
+  // agenda. The items read the meeting id the first insert just drew.
+  const [[meeting], items] = await db.batch([
+    insertMeeting,
+    db
+      .insert(oneOnOneItem)
+      .values(
+        agenda.items.map((item, position) => ({
+          meetingId: sql<number>`currval(pg_get_serial_sequence('one_on_one', 'id'))`,
+          position,
+          ...item,
+        }))
+      )
+      .returning(),
+  ]);
+
+  return toView(meeting, items);
+}
+
+export async function listOneOnOnes(employeeEmail: string): Promise<OneOnOneView[]> {
+  const meetings = await db
+    .select()
+    .from(oneOnOne)
+    .where(eq(oneOnOne.employeeEmail, employeeEmail))
+    .orderBy(desc(oneOnOne.meetingDate), desc(oneOnOne.id))
+    .limit(MAX_MEETINGS);
+
+  if (meetings.length === 0) return [];
+
+  const items = await db
+    .select()
+    .from(oneOnOneItem)
+    .where(
+      inArray(
+        oneOnOneItem.meetingId,
+        meetings.map((meeting) => meeting.id)
+      )
+    )
+    .orderBy(asc(oneOnOneItem.position));
+
+  return meetings.map((meeting) =>
+    toView(
+      meeting,
+      items.filter((item) => item.meetingId === meeting.id)
+    )
+  );
+}
+
+/** The item with its meeting's employee, for access checks. */
+export async function findOneOnOneItem(
+  itemId: number
+): Promise<(OneOnOneItemView & { employeeEmail: string }) | null> {
+  const [row] = await db
+    .select({ item: oneOnOneItem, employeeEmail: oneOnOne.employeeEmail })
+    .from(oneOnOneItem)
+    .innerJoin(oneOnOne, eq(oneOnOne.id, oneOnOneItem.meetingId))
+    .where(eq(oneOnOneItem.id, itemId))
+    .limit(1);
+  return row ? { ...toItemView(row.item), employeeEmail: row.employeeEmail } : null;
+}
+
+/** Replaces the item's notes; an empty note clears them. */
+export async function saveOneOnOneNote(input: {
+  itemId: number;
+  notes: string;
+  notedBy: string;
+}): Promise<OneOnOneItemView | null> {
+  const notes = input.notes.trim();
+  const [updated] = await db
+    .update(oneOnOneItem)
+    .set(
+      notes
+        ? { notes, notedBy: input.notedBy, notedAt: new Date() }
+        : { notes: null, notedBy: null, notedAt: null }
+    )
+    .where(eq(oneOnOneItem.id, input.itemId))
+    .returning();
+  return updated ? toItemView(updated) : null;
+}
+
+/**
+ * The most recent 1:1 notes from this quarter or earlier, for the analysis
+ * evidence catalog.
+ */
+export async function listOneOnOneNotesForEvidence(input: {
+  employeeEmail: string;
+  quarter: string;
+}): Promise<OneOnOneNote[]> {
+  const rows = await db
+    .select({
+      itemId: oneOnOneItem.id,
+      meetingDate: oneOnOne.meetingDate,
+      quarter: oneOnOne.quarter,
+      source: oneOnOneItem.source,
+      text: oneOnOneItem.text,
+      notes: oneOnOneItem.notes,
+    })
+    .from(oneOnOneItem)
+    .innerJoin(oneOnOne, eq(oneOnOne.id, oneOnOneItem.meetingId))
+    .where(
+      and(
+        eq(oneOnOne.employeeEmail, input.employeeEmail),
+        // Quarter keys (YYYY-Qn) sort chronologically as strings.
+        lte(oneOnOne.quarter, input.quarter),
+        isNotNull(oneOnOneItem.notes)
+      )
+    )
+    .orderBy(desc(oneOnOne.meetingDate), asc(oneOnOneItem.position))
+    .limit(MAX_NOTE_EVIDENCE);
+
+  return rows.map((row) => ({
+    ...row,
+    source: row.source as OneOnOneItemSource,
+    notes: row.notes ?? "",
+  }));
+}
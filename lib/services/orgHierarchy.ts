@@ -0,0 +1,141 @@
+import "server-only";
+
+import { eq, inArray, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { employees, orgReportingLine, team } from "@/lib/db/schema";
+
+// Guards the recursive walks against accidental cycles in reporting lines.
+const MAX_REPORTING_DEPTH = 12;
+
+export type OrgReport = {
+  email: string;
+  managerEmail: string;
+  // 1 = direct report, 2 = skip-level, ...
+  depth: number;
+};
+
+export type ManagerRollup = {
+  managerEmail: string;
+  managerName: string | null;
+  teamName: string | null;
+  reports: OrgReport[];
+};
+
+type ReportRow = {
+  employee_email: string;
+  manager_email: string;
+  depth: number;
+};
+
+export async function listReports(managerEmail: string): Promise<OrgReport[]> {
+  const result = await db.execute<ReportRow>(sql`
+    WITH RECURSIVE reports AS (
+      SELECT
+        ${orgReportingLine.employeeEmail} AS employee_email,
+        ${orgReportingLine.managerEmail} AS manager_email,
+        1 AS depth
+      FROM ${orgReportingLine}
+      WHERE ${orgReportingLine.managerEmail} = ${managerEmail}
+      UNION ALL
+      SELECT line.employee_email, line.manager_email, reports.depth + 1
+      FROM org_reporting_line AS line
+      JOIN reports ON line.manager_email = reports.employee_email
+      WHERE reports.depth < ${MAX_REPORTING_DEPTH}
+    )
+    SELECT DISTINCT ON (employee_email) employee_email, manager_email, depth
+    FROM reports
+    WHERE employee_email <> ${managerEmail}
+    ORDER BY employee_email, depth
+  `);
+
+  return result.rows.map((row) => ({
+    email: row.employee_email,
+    managerEmail: row.manager_email,
+    depth: Number(row.depth),
+  }));
+}
+
+export async function listReportEmails(managerEmail: string): Promise<string[]> {
+  const reports = await listReports(managerEmail);
+  return reports.map((report) => report.email);
+}
+
+export async function hasReports(email: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: orgReportingLine.id })
+    .from(orgReportingLine)
+    .where(eq(orgReportingLine.managerEmail, email))
+    .limit(1);
+  return Boolean(row);
+}
+
+/** True when `employeeEmail` sits anywhere below `managerEmail` in the tree. */
+export async function isInReportingChain(
+  managerEmail: string,
+  employeeEmail: string
+): Promise<boolean> {
+  const result = await db.execute<{ found: boolean }>(sql`
+    WITH RECURSIVE chain AS (
+      SELECT
+        ${orgReportingLine.managerEmail} AS manager_email,
+        1 AS depth
+      FROM ${orgReportingLine}
+      WHERE ${orgReportingLine.employeeEmail} = ${employeeEmail}
+      UNION ALL
+      SELECT line.manager_email, chain.depth + 1
+      FROM org_reporting_line AS line
+      JOIN chain ON line.employee_email = chain.manager_email
+      WHERE chain.depth < ${MAX_REPORTING_DEPTH}
+    )
+    SELECT EXISTS (
+      SELECT 1 FROM chain WHERE manager_email = ${managerEmail}
+    ) AS found
+  `);
+
+  return Boolean(result.rows[0]?.found);
+}
+
+/**
+ * Director view: one rollup per manager in the director's subtree, each with
+ * that manager's own direct and indirect reports. Empty for managers whose
+ * reports are all individual contributors.
+ */
+export async function listManagerRollups(
+  directorEmail: string
+): Promise<ManagerRollup[]> {
+  const reports = await listReports(directorEmail);
+  const managerEmails = Array.from(
+    new Set(reports.map((report) => report.managerEmail))
+  ).filter((email) => email !== directorEmail);
+
+  if (managerEmails.length === 0) {
+    return [];
+  }
+
+  const [managerRows, teamRows] = await Promise.all([
+    db
+      .select({ email: employees.email, name: employees.name })
+      .from(employees)
+      .where(inArray(employees.email, managerEmails)),
+    db
+      .select({ leadEmail: team.leadEmail, name: team.name })
+      .from(team)
+      .where(inArray(team.leadEmail, managerEmails)),
+  ]);
+  const nameByEmail = new Map(managerRows.map((row) => [row.email, row.name]));
+  const teamByLead = new Map(
+    teamRows.flatMap((row) => (row.leadEmail ? [[row.leadEmail, row.name]] : []))
+  );
+
+  const rollups: ManagerRollup[] = [];
+  for (const managerEmail of managerEmails.sort()) {
+    rollups.push({
+      managerEmail,
+      managerName: nameByEmail.get(managerEmail) ?? null,
+      teamName: teamByLead.get(managerEmail) ?? null,
+      reports: await listReports(managerEmail),
+    });
+  }
+  return rollups;
+}
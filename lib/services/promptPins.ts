@@ -0,0 +1,54 @@
+import "server-only";
+
+import { eq, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { promptPin } from "@/lib/db/schema";
+
+export type PromptPin = typeof promptPin.$inferSelect;
+
+export async function findPromptPin(promptId: string): Promise<PromptPin | null> {
+  const [pin] = await db
+    .select()
+    .from(promptPin)
+    .where(eq(promptPin.promptId, promptId))
+    .limit(1);
+  return pin ?? null;
+}
+
+export async function listPromptPins(): Promise<PromptPin[]> {
+  return db.select().from(promptPin);
+}
+
+/** Pins `promptId` to `version`; pinning an older version is a rollback. */
+export async function pinPromptVersion(input: {
+  promptId: string;
+  version: number;
+  reason?: string | null;
+  pinnedBy: string;
+}): Promise<PromptPin> {
+  const values = {
+    promptId: input.promptId,
+    version: input.version,
+    reason: input.reason ?? null,
+    pinnedBy: input.pinnedBy,
+  };
+  const [pin] = await db
+    .insert(promptPin)
+    .values(values)
+    .onConflictDoUpdate({
+      target: promptPin.promptId,
+      set: { ...values, pinnedAt: sql`now()` },
+    })
+    .returning();
+  return pin;
+}
+
+/** Removes the pin so the prompt follows its latest version again. */
+export async function clearPromptPin(promptId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(promptPin)
+    .where(eq(promptPin.promptId, promptId))
+    .returning({ promptId: promptPin.promptId });
+  return deleted.length > 0;
+}
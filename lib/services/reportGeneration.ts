@@ -0,0 +1,329 @@
+import "server-only";
+
+import { and, asc, eq, gte, lte, sql } from "drizzle-orm";
+
+import { verifyInsightClaims } from "@/lib/ai/claimVerifier";
+import {
+  generateMonthlyInsightsSinglePass,
+  generateQuarterlyInsightsSinglePass,
+  type PeriodType,
+  type WeeklyActivityAnomaly,
+  type WeeklyGithubActivity,
+  type WeeklySlackActivity,
+} from "@/lib/ai/insightGenerator";
+import { revalidateDashboardData } from "@/lib/data/dashboard";
+import { db } from "@/lib/db/config";
+import { githubWeeklyActivity, slackWeeklyActivity } from "@/lib/db/schema";
+import { listActivityAnomaliesInRange } from "@/lib/services/activityAnomalies";
+import { listStatCorrectionsByMonth } from "@/lib/services/statDisputes";
+import {
+  saveMonthlyInsightRevision,
+  saveQuarterlyInsightRevision,
+} from "@/lib/services/insightRevisions";
+
+export type GenerateReportInput = {
+  employeeEmail: string;
+  // Both set for a backfill window; both null for the default lookback.
+  startDate: string | null;
+  endDate: string | null;
+  // Skips quarterly insights when the window covers a single month, which
+  // would otherwise replace the quarter with a partial view of it.
+  monthlyOnly?: boolean;
+};
+
+export type GenerateReportResult = {
+  status: "success";
+  monthlyGenerated: number;
+  quarterlyGenerated: number;
+  // Periods whose new insight failed claim verification and was not saved;
+  // their previous revision stays current.
+  blockedPeriods: string[];
+};
+
+type PeriodBucket = {
+  githubWeekly: WeeklyGithubActivity[];
+  slackWeekly: WeeklySlackActivity[];
+};
+
+const LOOKBACK_WEEKS = 12;
+
+function toISODate(value: string | Date): string {
+  if (typeof value === "string") {
+    return value.slice(0, 10);
+  }
+  return value.toISOString().slice(0, 10);
+}
+
+function monthKey(dateStr: string): string {
+  const [year, month] = dateStr.split("-");
+  return `${year}-${month}`;
+}
+
+function quarterKey(dateStr: string): string {
+  const [year, monthStr] = dateStr.split("-");
+  const month = Number(monthStr);
+  const quarter = Math.floor((month - 1) / 3) + 1;
+  return `${year}-Q${quarter}`;
+}
+
+function groupByPeriod(
+  githubWeekly: WeeklyGithubActivity[],
+  slackWeekly: WeeklySlackActivity[],
+  periodType: PeriodType
+): Map<string, PeriodBucket> {
+  const buckets = new Map<string, PeriodBucket>();
+
+  const addToBucket = (
+    key: string,
+    type: "githubWeekly" | "slackWeekly",
+    record: WeeklyGithubActivity | WeeklySlackActivity
+  ) => {
+    const existing = buckets.get(key) ?? {
+      githubWeekly: [],
+      slackWeekly: [],
+    };
+    if (type === "githubWeekly") {
+      existing.githubWeekly.push(record as WeeklyGithubActivity);
+    } else {
+      existing.slackWeekly.push(record as WeeklySlackActivity);
+    }
+    buckets.set(key, existing);
+  };
+
+  githubWeekly.forEach((week) => {
+    const weekStart = toISODate(week.weekStart);
+    const key =
+      periodType === "month" ? monthKey(weekStart) : quarterKey(weekStart);
+    addToBucket(key, "githubWeekly", week);
+  });
+
+  slackWeekly.forEach((week) => {
+    const weekStart = toISODate(week.weekStart);
+    const key =
+      periodType === "month" ? monthKey(weekStart) : quarterKey(weekStart);
+    addToBucket(key, "slackWeekly", week);
+  });
+
+  return buckets;
+}
+
+/**
+ * Every work area any pull request has touched, so the claim verifier can tell
+ * a named area from an ordinary word.
+ */
+async function listKnownWorkAreas(): Promise<string[]> {
+  const result = await db.execute<{ area: string }>(sql`
+    SELECT DISTINCT summary->>'area' AS area
+    FROM ${githubWeeklyActivity},
+      jsonb_array_elements(${githubWeeklyActivity.pullRequestSummaries}) AS summary
+    WHERE summary->>'area' IS NOT NULL
+  `);
+  return result.rows.map((row) => row.area);
+}
+
+/**
+ * Regenerates monthly and quarterly insights for every period with activity in
+ * the window. Runs one LLM pass per period, so callers should run it from the
+ * job worker rather than inside a request.
+ */
+export async function generateEmployeeReports(
+  input: GenerateReportInput
+): Promise<GenerateReportResult> {
+  const { employeeEmail, startDate, endDate } = input;
+
+  const effectiveStartDate =
+    startDate ??
+    (() => {
+      const lookbackStart = new Date();
+      lookbackStart.setDate(lookbackStart.getDate() - LOOKBACK_WEEKS * 7);
+      return lookbackStart.toISOString().slice(0, 10);
+    })();
+
+  const githubWhereClause = endDate
+    ? and(
+        eq(githubWeeklyActivity.employeeEmail, employeeEmail),
+        gte(githubWeeklyActivity.weekStart, effectiveStartDate),
+        lte(githubWeeklyActivity.weekStart, endDate)
+      )
+    : and(
+        eq(githubWeeklyActivity.employeeEmail, employeeEmail),
+        gte(githubWeeklyActivity.weekStart, effectiveStartDate)
+      );
+
+  const slackWhereClause = endDate
+    ? and(
+        eq(slackWeeklyActivity.employeeEmail, employeeEmail),
+        gte(slackWeeklyActivity.weekStart, effectiveStartDate),
+        lte(slackWeeklyActivity.weekStart, endDate)
+      )
+    : and(
+        eq(slackWeeklyActivity.employeeEmail, employeeEmail),
+        gte(slackWeeklyActivity.weekStart, effectiveStartDate)
+      );
+
+  const githubWeekly = await db
+    .select()
+    .from(githubWeeklyActivity)
+    .where(githubWhereClause)
+    .orderBy(asc(githubWeeklyActivity.weekStart));
+
+  const slackWeekly = await db
+    .select()
+    .from(slackWeeklyActivity)
+    .where(slackWhereClause)
+    .orderBy(asc(slackWeeklyActivity.weekStart));
+
+  const monthlyBuckets = groupByPeriod(githubWeekly, slackWeekly, "month");
+  const quarterlyBuckets = groupByPeriod(githubWeekly, slackWeekly, "quarter");
+  const knownAreas = await listKnownWorkAreas();
+
+  const anomaliesByMonth = new Map<string, WeeklyActivityAnomaly[]>();
+  const [anomalies, correctionsByMonth] = await Promise.all([
+    listActivityAnomaliesInRange({
+      employeeEmail,
+      startWeek: effectiveStartDate,
+      endWeek: endDate,
+    }),
+    listStatCorrectionsByMonth({
+      employeeEmail,
+      startDate: effectiveStartDate,
+      endDate,
+    }),
+  ]);
+  for (const anomaly of anomalies) {
+    const key = monthKey(anomaly.weekStart);
+    anomaliesByMonth.set(key, [
+      ...(anomaliesByMonth.get(key) ?? []),
+      {
+        weekStart: anomaly.weekStart,
+        source: anomaly.source,
+        metric: anomaly.metric,
+        direction: anomaly.direction,
+        value: anomaly.value,
+        baselineMedian: anomaly.baselineMedian,
+        baselineWeeks: anomaly.baselineWeeks,
+      },
+    ]);
+  }
+
+  let monthlyGenerated = 0;
+  let quarterlyGenerated = 0;
+  const blockedPeriods: string[] = [];
+
+  const monthlyKeys = Array.from(monthlyBuckets.keys()).sort();
+  for (const key of monthlyKeys) {
+    const bucket = monthlyBuckets.get(key);
+    if (!bucket) continue;
+
+    // Single LLM pass for monthly signals, dimensions, and synthesis.
+    const monthlyBundle = await generateMonthlyInsightsSinglePass({
+      periodKey: key,
+      employeeEmail,
+      githubWeekly: bucket.githubWeekly,
+      slackWeekly: bucket.slackWeekly,
+      activityAnomalies: anomaliesByMonth.get(key),
+      statCorrections: correctionsByMonth.get(key),
+    });
+
+    const verification = verifyInsightClaims({
+      output: monthlyBundle,
+      githubWeekly: bucket.githubWeekly,
+      slackWeekly: bucket.slackWeekly,
+      knownAreas,
+    });
+    if (verification.blocked) {
+      console.warn("[claim-verifier] monthly insight not saved", {
+        employeeEmail,
+        month: key,
+        violations: verification.violations,
+      });
+      blockedPeriods.push(key);
+      continue;
+    }
+
+    // Supersedes the current revision for this month instead of appending.
+    await saveMonthlyInsightRevision({
+      employeeEmail,
+      month: key,
+      executionInsight: monthlyBundle.dimensionInsights.Execution.insight,
+      engagementInsight: monthlyBundle.dimensionInsights.Engagement.insight,
+      collaborationInsight: monthlyBundle.dimensionInsights.Collaboration.insight,
+      growthInsight: monthlyBundle.dimensionInsights.Growth.insight,
+      overallSummary: monthlyBundle.synthesis.overallSummary,
+      identifiedRisks: monthlyBundle.synthesis.identifiedRisks,
+      identifiedOpportunities: monthlyBundle.synthesis.identifiedOpportunities,
+      supportingSignals: monthlyBundle.allSignals,
+      dataSufficiency: monthlyBundle.dataSufficiency,
+      confidenceLevel: verification.confidence,
+      generatedByModel: monthlyBundle.synthesis.model,
+      modelVersion: monthlyBundle.synthesis.modelVersion,
+      promptId: monthlyBundle.prompt.promptId,
+      promptVersion: monthlyBundle.prompt.promptVersion,
+      claimViolations: verification.violations,
+    });
+    monthlyGenerated += 1;
+  }
+
+  const quarterlyKeys = input.monthlyOnly
+    ? []
+    : Array.from(quarterlyBuckets.keys()).sort();
+  for (const key of quarterlyKeys) {
+    const bucket = quarterlyBuckets.get(key);
+    if (!bucket) continue;
+
+    // Single LLM pass for quarterly signals, dimensions, and synthesis.
+    const quarterlyBundle = await generateQuarterlyInsightsSinglePass({
+      periodKey: key,
+      employeeEmail,
+      githubWeekly: bucket.githubWeekly,
+      slackWeekly: bucket.slackWeekly,
+    });
+
+    const verification = verifyInsightClaims({
+      output: quarterlyBundle,
+      githubWeekly: bucket.githubWeekly,
+      slackWeekly: bucket.slackWeekly,
+      knownAreas,
+    });
+    if (verification.blocked) {
+      console.warn("[claim-verifier] quarterly insight not saved", {
+        employeeEmail,
+        quarter: key,
+        violations: verification.violations,
+      });
+      blockedPeriods.push(key);
+      continue;
+    }
+
+    await saveQuarterlyInsightRevision({
+      employeeEmail,
+      quarter: key,
+      trajectorySummary: quarterlyBundle.synthesis.trajectorySummary,
+      keyStrengths: quarterlyBundle.synthesis.keyStrengths,
+      keyConcerns: quarterlyBundle.synthesis.keyConcerns,
+      burnoutAssessment: quarterlyBundle.synthesis.burnoutAssessment,
+      growthAssessment: quarterlyBundle.synthesis.growthAssessment,
+      retentionAssessment: quarterlyBundle.synthesis.retentionAssessment,
+      recommendedActions: quarterlyBundle.synthesis.recommendedActions,
+      evidenceSnapshots: quarterlyBundle.synthesis.evidenceSnapshots,
+      dataSufficiency: quarterlyBundle.dataSufficiency,
+      confidenceLevel: verification.confidence,
+      generatedByModel: quarterlyBundle.synthesis.model,
+      modelVersion: quarterlyBundle.synthesis.modelVersion,
+      promptId: quarterlyBundle.prompt.promptId,
+      promptVersion: quarterlyBundle.prompt.promptVersion,
+      claimViolations: verification.violations,
+    });
+
+    quarterlyGenerated += 1;
+  }
+
+  revalidateDashboardData([employeeEmail]);
+
+  return {
+    status: "success",
+    monthlyGenerated,
+    quarterlyGenerated,
+    blockedPeriods,
+  };
+}
@@ -0,0 +1,319 @@
+import "server-only";
+
+import { and, desc, eq, gte, inArray, lte } from "drizzle-orm";
+
+import { db } from "@/lib/db/config";
+import { githubWeeklyActivity, riskFlag, slackWeeklyActivity } from "@/lib/db/schema";
+import type { MessageSummary } from "@/lib/db/seed-data";
+import { addWeeks } from "@/lib/services/activityWindow";
+import {
+  evaluateRiskRules,
+  listRiskRules,
+  type RiskMetric,
+  type RiskRuleId,
+  type RiskRuleMatch,
+  type RiskSeverity,
+} from "@/lib/services/riskRules";
+
+const MAX_HISTORY = 20;
+
+const SEVERITY_ORDER: Record<RiskSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+export type RiskFlagStatus = "open" | "closed";
+
+export type RiskFlagView = {
+  id: number;
+  employeeEmail: string;
+  ruleId: RiskRuleId;
+  label: string;
+  severity: RiskSeverity;
+  status: RiskFlagStatus;
+  openedWeek: string;
+  lastMatchedWeek: string;
+  closedWeek: string | null;
+  evidence: Pick<RiskRuleMatch, "matchedWeeks" | "minWeeks" | "windowWeeks" | "threshold">;
+};
+
+export type RiskFlagEvaluationSummary = {
+  weekStart: string;
+  opened: number;
+  updated: number;
+  closed: number;
+};
+
+type RiskFlagRow = typeof riskFlag.$inferSelect;
+
+function toView(row: RiskFlagRow): RiskFlagView {
+  return {
+    id: row.id,
+    employeeEmail: row.employeeEmail,
+    ruleId: row.ruleId as RiskRuleId,
+    label: row.label,
+    severity: row.severity as RiskSeverity,
+    status: row.status as RiskFlagStatus,
+    openedWeek: row.openedWeek,
+    lastMatchedWeek: row.lastMatchedWeek,
+    closedWeek: row.closedWeek,
+    evidence: row.evidence as RiskFlagView["evidence"],
+  };
+}
+
+function bySeverity(left: RiskFlagView, right: RiskFlagView): number {
+  return (
+    SEVERITY_ORDER[left.severity] - SEVERITY_ORDER[right.severity] ||
+    right.openedWeek.localeCompare(left.openedWeek)
+  );
+}
+
+function toEvidence(match: RiskRuleMatch): RiskFlagView["evidence"] {
+  return {
+    matchedWeeks: match.matchedWeeks,
+    minWeeks: match.minWeeks,
+    windowWeeks: match.windowWeeks,
+    threshold: match.threshold,
+  };
+}
+
+/** The rule metrics for every employee-week between the two weeks, inclusive. */
+export async function loadRiskWeekMetrics(input: {
+  startWeek: string;
+  endWeek: string;
+}): Promise<Map<string, Map<string, Partial<Record<RiskMetric, number>>>>> {
+  const [githubRows, slackRows] = await Promise.all([
+    db
+      .select({
+        employeeEmail: githubWeeklyActivity.employeeEmail,
+        weekStart: githubWeeklyActivity.weekStart,
+        afterHoursRatio: githubWeeklyActivity.afterHoursRatio,
+      })
+      .from(githubWeeklyActivity)
+      .where(
+        and(
+          gte(githubWeeklyActivity.weekStart, input.startWeek),
+          lte(githubWeeklyActivity.weekStart, input.endWeek)
+        )
+      ),
+    db
+      .select({
+        employeeEmail: slackWeeklyActivity.employeeEmail,
+        weekStart: slackWeeklyActivity.weekStart,
+        afterHoursRatio: slackWeeklyActivity.afterHoursRatio,
+        weekendRatio: slackWeeklyActivity.weekendRatio,
+        messageSummaries: slackWeeklyActivity.messageSummaries,
+      })
+      .from(slackWeeklyActivity)
+      .where(
+        and(
+          gte(slackWeeklyActivity.weekStart, input.startWeek),
+          lte(slackWeeklyActivity.weekStart, input.endWeek)
+        )
+      ),
+  ]);
+
+  const byEmployee = new Map<string, Map<string, Partial<Record<RiskMetric, number>>>>();
+  function metricsFor(employeeEmail: string, weekStart: string) {
+    const weeks = byEmployee.get(employeeEmail) ?? new Map();
+    byEmployee.set(employeeEmail, weeks);
+    const metrics = weeks.get(weekStart) ?? {};
+    weeks.set(weekStart, metrics);
+    return metrics;
+  }
+
+  for (const row of githubRows) {
+    metricsFor(row.employeeEmail, row.weekStart).github_after_hours_ratio =
+      row.afterHoursRatio;
+  }
+  for (const row of slackRows) {
+    const metrics = metricsFor(row.employeeEmail, row.weekStart);
+    const summaries = Array.isArray(row.messageSummaries)
+      ? (row.messageSummaries as MessageSummary[])
+      : [];
+    metrics.slack_after_hours_ratio = row.afterHoursRatio;
+    metrics.slack_weekend_ratio = row.weekendRatio;
+    metrics.slack_blocking_threads = summaries.filter(
+      (summary) => summary.intent === "blocking"
+    ).length;
+  }
+
+  return byEmployee;
+}
+
+/**
+ * Evaluates every rule for every employee as of `weekStart` and updates the
+ * flag history: matching rules open a flag or extend the open one, and open
+ * flags whose rule no longer matches are closed. Weeks older than a rule's
+ * latest recorded week are skipped so replays stay in order.
+ */
+export async function evaluateRiskFlags(input: {
+  weekStart: string;
+}): Promise<RiskFlagEvaluationSummary> {
+  const rules = listRiskRules();
+  const maxWindowWeeks = Math.max(1, ...rules.map((rule) => rule.windowWeeks));
+  const weekMetrics = await loadRiskWeekMetrics({
+    startWeek: addWeeks(input.weekStart, -(maxWindowWeeks - 1)),
+    endWeek: input.weekStart,
+  });
+
+  // Newest flag per employee and rule.
+  const latestRows = await db
+    .selectDistinctOn([riskFlag.employeeEmail, riskFlag.ruleId])
+    .from(riskFlag)
+    .orderBy(
+      riskFlag.employeeEmail,
+      riskFlag.ruleId,
+      desc(riskFlag.openedWeek),
+      desc(riskFlag.id)
+    );
+  const latestFlags = new Map(
+    latestRows.map((row) => [`${row.employeeEmail}:${row.ruleId}`, row])
+  );
+  const openRows = latestRows.filter((row) => row.status === "open");
+
+  const employeeEmails = new Set([
+    ...weekMetrics.keys(),
+    ...openRows.map((row) => row.employeeEmail),
+  ]);
+  const summary: RiskFlagEvaluationSummary = {
+    weekStart: input.weekStart,
+    opened: 0,
+    updated: 0,
+    closed: 0,
+  };
+
+  for (const employeeEmail of employeeEmails) {
+    const weeks = Array.from(weekMetrics.get(employeeEmail) ?? [], ([weekStart, metrics]) => ({
+      weekStart,
+      metrics,
+    }));
+    const matches = new Map(
+      evaluateRiskRules({ weekStart: input.weekStart, weeks, rules }).map((match) => [
+        match.ruleId,
+        match,
+      ])
+    );
+
+    for (const rule of rules) {
+      const latest = latestFlags.get(`${employeeEmail}:${rule.id}`);
+      const latestWeek = latest ? (latest.closedWeek ?? latest.lastMatchedWeek) : null;
+      if (latestWeek && input.weekStart < latestWeek) continue;
+
+      const match = matches.get(rule.id);
+      const now = new Date();
+
+      if (latest?.status === "open" && match) {
+        await db
+          .update(riskFlag)
+          .set({
+            severity: match.severity,
+            label: match.label,
+            lastMatchedWeek: input.weekStart,
+            evidence: toEvidence(match),
+            updatedAt: now,
+          })
+          .where(eq(riskFlag.id, latest.id));
+        summary.updated += 1;
+      } else if (latest?.status === "open") {
+        await db
+          .update(riskFlag)
+          .set({
+            status: "closed",
+            closedWeek: input.weekStart,
+            closedAt: now,
+            updatedAt: now,
+          })
+          .where(eq(riskFlag.id, latest.id));
+        summary.closed += 1;
+      } else if (match) {
+        await db.insert(riskFlag).values({
+          employeeEmail,
+          ruleId: match.ruleId,
+          label: match.label,
+          severity: match.severity,
+          openedWeek: input.weekStart,
+          lastMatchedWeek: input.weekStart,
+          evidence: toEvidence(match),
+        });
+        summary.opened += 1;
+      }
+    }
+  }
+
+  // A rule switched off in RISK_RULES no longer matches anything.
+  const activeRuleIds = new Set<string>(rules.map((rule) => rule.id));
+  const disabled = openRows.filter((row) => !activeRuleIds.has(row.ruleId));
+  if (disabled.length > 0) {
+    const now = new Date();
+    await db
+      .update(riskFlag)
+      .set({
+        status: "closed",
+        closedWeek: input.weekStart,
+        closedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        inArray(
+          riskFlag.id,
+          disabled.map((row) => row.id)
+        )
+      );
+    summary.closed += disabled.length;
+  }
+
+  return summary;
+}
+
+/** Weeks with GitHub or Slack activity, oldest first, for replaying history. */
+export async function listActivityWeeks(input: { fromWeek?: string } = {}): Promise<string[]> {
+  const [githubWeeks, slackWeeks] = await Promise.all([
+    db
+      .selectDistinct({ weekStart: githubWeeklyActivity.weekStart })
+      .from(githubWeeklyActivity)
+      .where(
+        input.fromWeek ? gte(githubWeeklyActivity.weekStart, input.fromWeek) : undefined
+      ),
+    db
+      .selectDistinct({ weekStart: slackWeeklyActivity.weekStart })
+      .from(slackWeeklyActivity)
+      .where(
+        input.fromWeek ? gte(slackWeeklyActivity.weekStart, input.fromWeek) : undefined
+      ),
+  ]);
+
+  return Array.from(
+    new Set([...githubWeeks, ...slackWeeks].map((row) => row.weekStart))
+  ).sort();
+}
+
+/** Open flags per employee, most severe first. */
+export async function listOpenRiskFlags(
+  employeeEmails: string[]
+): Promise<Map<string, RiskFlagView[]>> {
+  const byEmployee = new Map<string, RiskFlagView[]>();
+  if (employeeEmails.length === 0) return byEmployee;
+
+  const rows = await db
+    .select()
+    .from(riskFlag)
+    .where(
+      and(inArray(riskFlag.employeeEmail, employeeEmails), eq(riskFlag.status, "open"))
+    );
+
+  for (const flag of rows.map(toView).sort(bySeverity)) {
+    const flags = byEmployee.get(flag.employeeEmail) ?? [];
+    flags.push(flag);
+    byEmployee.set(flag.employeeEmail, flags);
+  }
+  return byEmployee;
+}
+
+/** Open and closed flags for one employee, most recently opened first. */
+export async function listRiskFlagHistory(employeeEmail: string): Promise<RiskFlagView[]> {
+  const rows = await db
+    .select()
+    .from(riskFlag)
+    .where(eq(riskFlag.employeeEmail, employeeEmail))
+    .orderBy(desc(riskFlag.openedWeek), desc(riskFlag.id))
+    .limit(MAX_HISTORY);
+  return rows.map(toView);
+}
@@ -0,0 +1,250 @@
+import "server-only";
+
+import { addWeeks } from "@/lib/services/activityWindow";
+
+export type RiskRuleId =
+  | "after_hours_coding"
+  | "sustained_after_hours_coding"
+  | "after_hours_messaging"
+  | "sustained_after_hours_messaging"
+  | "weekend_load"
+  | "sustained_weekend_load"
+  | "blocking_threads";
+
+export type RiskSeverity = "low" | "medium" | "high";
+
+export type RiskMetric =
+  | "github_after_hours_ratio"
+  | "slack_after_hours_ratio"
+  | "slack_weekend_ratio"
+  | "slack_blocking_threads";
+
+// One employee-week of the metrics the rules read. A source with no row for
+// the week leaves its metrics undefined, which never matches.
+export type RiskWeekMetrics = {
+  weekStart: string;
+  metrics: Partial<Record<RiskMetric, number>>;
+};
+
+export type RiskRule = {
+  id: RiskRuleId;
+  label: string;
+  metric: RiskMetric;
+  // A week matches when the metric is at or above the threshold.
+  threshold: number;
+  // The rule fires when at least `minWeeks` of the last `windowWeeks` weeks match.
+  minWeeks: number;
+  windowWeeks: number;
+  severity: RiskSeverity;
+};
+
+export type RiskRuleMatch = {
+  ruleId: RiskRuleId;
+  label: string;
+  severity: RiskSeverity;
+  matchedWeeks: Array<{ weekStart: string; value: number }>;
+  minWeeks: number;
+  windowWeeks: number;
+  threshold: number;
+};
+
+const RISK_RULES: readonly RiskRule[] = [
+  {
+    id: "after_hours_coding",
+    label: "High after-hours coding",
+    metric: "github_after_hours_ratio",
+    threshold: 0.4,
+    minWeeks: 1,
+    windowWeeks: 1,
+    severity: "medium",
+  },
+  {
+    id: "sustained_after_hours_coding",
+    label: "Sustained after-hours coding",
+    metric: "github_after_hours_ratio",
+    threshold: 0.3,
+    minWeeks: 3,
+    windowWeeks: 4,
+    severity: "high",
+  },
+  {
+    id: "after_hours_messaging",
+    label: "High after-hours messaging",
+    metric: "slack_after_hours_ratio",
+    threshold: 0.4,
+    minWeeks: 1,
+    windowWeeks: 1,
+    severity: "medium",
+  },
+  {
+    id: "sustained_after_hours_messaging",
+    label: "Sustained after-hours messaging",
+    metric: "slack_after_hours_ratio",
+    threshold: 0.3,
+    minWeeks: 3,
+    windowWeeks: 4,
+    severity: "high",
+  },
+  {
+    id: "weekend_load",
+    label: "Weekend load",
+    metric: "slack_weekend_ratio",
+    threshold: 0.3,
+    minWeeks: 1,
+    windowWeeks: 1,
+    severity: "medium",
+  },
+  {
+    id: "sustained_weekend_load",
+    label: "Sustained weekend load",
+    metric: "slack_weekend_ratio",
+    threshold: 0.2,
+    minWeeks: 3,
+    windowWeeks: 4,
+    severity: "high",
+  },
+  {
+    id: "blocking_threads",
+    label: "Blocking threads",
+    metric: "slack_blocking_threads",
+    threshold: 1,
+    minWeeks: 1,
+    windowWeeks: 1,
+    severity: "low",
+  },
+];
+
+const SEVERITIES: readonly string[] = ["low", "medium", "high"];
+const MAX_WINDOW_WEEKS = 12;
+
+type RiskRuleOverride = Partial<
+  Pick<RiskRule, "threshold" | "minWeeks" | "windowWeeks" | "severity">
+>;
+
+function readOverride(ruleId: string, value: unknown): RiskRuleOverride | "off" {
+  if (value === "off") return "off";
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`RISK_RULES["${ruleId}"] must be "off" or an object.`);
+  }
+
+  const override: RiskRuleOverride = {};
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "threshold":
+        if (typeof field !== "number" || !Number.isFinite(field) || field < 0) {
+          throw new Error(`RISK_RULES["${ruleId}"].threshold must be a number >= 0.`);
+        }
+        override.threshold = field;
+        break;
+      case "minWeeks":
+      case "windowWeeks":
+        if (!Number.isInteger(field) || (field as number) < 1) {
+          throw new Error(`RISK_RULES["${ruleId}"].${key} must be a positive integer.`);
+        }
+        override[key] = field as number;
+        break;
+      case "severity":
+        if (typeof field !== "string" || !SEVERITIES.includes(field)) {
+          throw new Error(
+            `RISK_RULES["${ruleId}"].severity must be one of ${SEVERITIES.join(", ")}.`
+          );
+        }
+        override.severity = field as RiskSeverity;
+        break;
+      default:
+        throw new Error(
+          `RISK_RULES["${ruleId}"] has unknown field "${key}"; expected threshold, minWeeks, windowWeeks or severity.`
+        );
+    }
+  }
+  return override;
+}
+
+/**
+ * `RISK_RULES` is a JSON object of rule id to "off" or an object overriding
+ * `threshold`, `minWeeks`, `windowWeeks` and `severity`.
+ */
+function readRuleOverrides(): Partial<Record<RiskRuleId, RiskRuleOverride | "off">> {
+  const raw = process.env.RISK_RULES;
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("RISK_RULES must be a JSON object.");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("RISK_RULES must be a JSON object.");
+  }
+
+  const overrides: Partial<Record<RiskRuleId, RiskRuleOverride | "off">> = {};
+  for (const [ruleId, value] of Object.entries(parsed)) {
+    if (!RISK_RULES.some((rule) => rule.id === ruleId)) {
+      throw new Error(
+        `RISK_RULES has unknown rule "${ruleId}"; expected one of ${RISK_RULES.map((rule) => rule.id).join(", ")}.`
+      );
+    }
+    overrides[ruleId as RiskRuleId] = readOverride(ruleId, value);
+  }
+  return overrides;
+}
+
+/** The built-in rules with `RISK_RULES` applied; disabled rules are dropped. */
+export function listRiskRules(): RiskRule[] {
+  const overrides = readRuleOverrides();
+  return RISK_RULES.flatMap((rule) => {
+    const override = overrides[rule.id];
+    if (override === "off") return [];
+
+    const merged = { ...rule, ...override };
+    if (merged.windowWeeks > MAX_WINDOW_WEEKS) {
+      throw new Error(
+        `RISK_RULES["${rule.id}"].windowWeeks must be at most ${MAX_WINDOW_WEEKS}.`
+      );
+    }
+    if (merged.minWeeks > merged.windowWeeks) {
+      throw new Error(
+        `RISK_RULES["${rule.id}"].minWeeks must not exceed windowWeeks.`
+      );
+    }
+    return [merged];
+  });
+}
+
+/**
+ * Evaluates the rules for one employee as of `weekStart`. `weeks` holds the
+ * employee's metrics for that week and the ones before it, in any order;
+ * weeks outside a rule's window are ignored.
+ */
+export function evaluateRiskRules(input: {
+  weekStart: string;
+  weeks: RiskWeekMetrics[];
+  rules: RiskRule[];
+}): RiskRuleMatch[] {
+  const byWeek = new Map(input.weeks.map((week) => [week.weekStart, week.metrics]));
+
+  return input.rules.flatMap((rule) => {
+    const matchedWeeks: RiskRuleMatch["matchedWeeks"] = [];
+    for (let offset = 0; offset < rule.windowWeeks; offset += 1) {
+      const weekStart = addWeeks(input.weekStart, -offset);
+      const value = byWeek.get(weekStart)?.[rule.metric];
+      if (value !== undefined && value >= rule.threshold) {
+        matchedWeeks.push({ weekStart, value });
+      }
+    }
+
+    if (matchedWeeks.length < rule.minWeeks) return [];
+    return [
+      {
+        ruleId: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        matchedWeeks,
+        minWeeks: rule.minWeeks,
+        windowWeeks: rule.windowWeeks,
+        threshold: rule.threshold,
+      },
+    ];
+  });
+}
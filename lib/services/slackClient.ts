@@ -53,6 +53,39 @@ type SlackOAuthResponse = SlackApiBaseResponse & {
   };
 };
 
+type SlackCursorResponse = SlackApiBaseResponse & {
+  response_metadata?: {
+    next_cursor?: string;
+  };
+};
+
+type SlackUserConversationsResponse = SlackCursorResponse & {
+  channels?: Array<{
+    id?: string;
+  }>;
+};
+
+type SlackConversationMessagesResponse = SlackCursorResponse & {
+  messages?: SlackConversationMessage[];
+};
+
+export type SlackMessageReaction = {
+  name: string;
+  count: number;
+  users?: string[];
+};
+
+export type SlackConversationMessage = {
+  ts: string;
+  user?: string;
+  text?: string;
+  subtype?: string;
+  thread_ts?: string;
+  reply_count?: number;
+  latest_reply?: string;
+  reactions?: SlackMessageReaction[];
+};
+
 export type SlackMessageBlock = Record<string, unknown>;
 
 export type SlackDirectMessageResult = {
@@ -129,7 +162,10 @@ export class SlackClient {
     this.verificationToken = config.verificationToken;
     this.appToken = config.appToken;
     this.botToken = config.botToken;
-    this.apiBaseUrl = config.apiBaseUrl ?? DEFAULT_SLACK_API_BASE_URL;
+    this.apiBaseUrl = (config.apiBaseUrl ?? DEFAULT_SLACK_API_BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
   }
 
   static fromEnv(overrides: Partial<SlackClientConfig> = {}): SlackClient {
@@ -215,6 +251,76 @@ export class SlackClient {
     return parsed;
   }
 
+  // Slack read methods (conversations.history, users.conversations, ...) only
+  // accept form-encoded arguments, so they cannot go through postJson.
+  private async postForm<T extends SlackApiBaseResponse>(
+    method: string,
+    params: Record<string, string | undefined>,
+    accessToken: string
+  ): Promise<T> {
+    const payload = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        payload.set(key, value);
+      }
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/${method}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: payload.toString(),
+    });
+
+    const rawResponse = await response.text();
+    let parsed: T;
+
+    try {
+      parsed = JSON.parse(rawResponse) as T;
+    } catch {
+      throw new SlackApiError(
+        `Slack ${method} returned non-JSON response.`,
+        method,
+        response.status
+      );
+    }
+
+    if (!response.ok || !parsed.ok) {
+      throw new SlackApiError(
+        `Slack ${method} failed: ${parsed.error ?? `HTTP ${response.status}`}.`,
+        method,
+        response.status,
+        parsed.error
+      );
+    }
+
+    return parsed;
+  }
+
+  private async collectPaginated<T extends SlackCursorResponse, Item>(
+    method: string,
+    params: Record<string, string | undefined>,
+    accessToken: string,
+    pick: (response: T) => Item[] | undefined
+  ): Promise<Item[]> {
+    const items: Item[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.postForm<T>(
+        method,
+        { ...params, cursor, limit: "200" },
+        accessToken
+      );
+      items.push(...(pick(response) ?? []));
+      cursor = response.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    return items;
+  }
+
   async exchangeOAuthCode(params: {
     code: string;
     redirectUri?: string;
@@ -308,6 +414,77 @@ export class SlackClient {
     return channelId;
   }
 
+  async listMemberChannelIds(params: {
+    types?: string;
+    accessToken?: string;
+  } = {}): Promise<string[]> {
+    const token = this.resolveAccessToken(params.accessToken);
+    const channels = await this.collectPaginated<
+      SlackUserConversationsResponse,
+      { id?: string }
+    >(
+      "users.conversations",
+      {
+        types: params.types ?? "public_channel,private_channel",
+        exclude_archived: "true",
+      },
+      token,
+      (response) => response.channels
+    );
+
+    return channels
+      .map((channel) => channel.id)
+      .filter((id): id is string => Boolean(id));
+  }
+
+  async listChannelHistory(params: {
+    channelId: string;
+    oldest: string;
+    latest: string;
+    accessToken?: string;
+  }): Promise<SlackConversationMessage[]> {
+    const token = this.resolveAccessToken(params.accessToken);
+    return this.collectPaginated<
+      SlackConversationMessagesResponse,
+      SlackConversationMessage
+    >(
+      "conversations.history",
+      {
+        channel: params.channelId,
+        oldest: params.oldest,
+        latest: params.latest,
+        inclusive: "false",
+      },
+      token,
+      (response) => response.messages
+    );
+  }
+
+  async listThreadReplies(params: {
+    channelId: string;
+    threadTs: string;
+    oldest?: string;
+    latest?: string;
+    accessToken?: string;
+  }): Promise<SlackConversationMessage[]> {
+    const token = this.resolveAccessToken(params.accessToken);
+    return this.collectPaginated<
+      SlackConversationMessagesResponse,
+      SlackConversationMessage
+    >(
+      "conversations.replies",
+      {
+        channel: params.channelId,
+        ts: params.threadTs,
+        oldest: params.oldest,
+        latest: params.latest,
+        inclusive: "false",
+      },
+      token,
+      (response) => response.messages
+    );
+  }
+
   async sendMessageToChannel(params: {
     channelId: string;
     text: string;
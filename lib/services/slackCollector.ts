@@ -0,0 +1,329 @@
+import "server-only";
+
+import { asc, sql } from "drizzle-orm";
+
+import { classifySlackMessages } from "@/lib/ai/slackMessageClassifier";
+import { db } from "@/lib/db/config";
+import { employees, slackWeeklyActivity } from "@/lib/db/schema";
+import type { MessageSummary } from "@/lib/db/seed-data";
+import {
+  computeWorkPatternRatios,
+  readWorkPatternConfigFromEnv,
+  resolveWeekWindow,
+  type WeekWindow,
+  type WorkPatternConfig,
+} from "@/lib/services/activityWindow";
+import type { CollectorFailure } from "@/lib/services/githubCollector";
+import {
+  getSlackClient,
+  type SlackClient,
+  type SlackConversationMessage,
+} from "@/lib/services/slackClient";
+
+// Edited, broadcast and file-share messages are still authored by the user;
+// every other subtype is a system event (joins, bots, channel renames, ...).
+const AUTHORED_MESSAGE_SUBTYPES = new Set(["thread_broadcast", "file_share", "me_message"]);
+// How far back to look for thread parents whose replies can land in the
+// week; replies to older threads are missed.
+const DEFAULT_THREAD_LOOKBACK_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CollectedSlackWeek = {
+  employeeEmail: string;
+  weekStart: string;
+  messageSummaries: MessageSummary[];
+  messageCount: number;
+  replyCount: number;
+  reactionsReceived: number;
+  afterHoursRatio: number;
+  weekendRatio: number;
+};
+
+export type SlackCollectionResult = {
+  weekStart: string;
+  channelCount: number;
+  rows: CollectedSlackWeek[];
+  failures: CollectorFailure[];
+};
+
+type ChannelMessage = {
+  channelId: string;
+  ts: string;
+  userId: string;
+  text: string;
+  isReply: boolean;
+  sentAt: Date;
+  reactionsFromOthers: number;
+};
+
+function readOptionalEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function readConfiguredChannelIds(): string[] | null {
+  const raw = readOptionalEnv("SLACK_COLLECTOR_CHANNEL_IDS");
+  if (!raw) return null;
+  return raw
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+function readThreadLookbackDays(): number {
+  const parsed = Number(readOptionalEnv("SLACK_COLLECTOR_THREAD_LOOKBACK_DAYS"));
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return DEFAULT_THREAD_LOOKBACK_DAYS;
+  }
+  return parsed;
+}
+
+function toSlackTimestamp(value: Date): string {
+  return (value.getTime() / 1000).toFixed(6);
+}
+
+function fromSlackTimestamp(ts: string): Date {
+  return new Date(Math.floor(Number(ts) * 1000));
+}
+
+function isAuthoredMessage(message: SlackConversationMessage): boolean {
+  if (!message.user) return false;
+  return !message.subtype || AUTHORED_MESSAGE_SUBTYPES.has(message.subtype);
+}
+
+function countReactionsFromOthers(message: SlackConversationMessage): number {
+  let total = 0;
+  for (const reaction of message.reactions ?? []) {
+    if (reaction.users) {
+      total += reaction.users.filter((userId) => userId !== message.user).length;
+      continue;
+    }
+    total += reaction.count;
+  }
+  return total;
+}
+
+function toChannelMessage(
+  channelId: string,
+  message: SlackConversationMessage
+): ChannelMessage {
+  return {
+    channelId,
+    ts: message.ts,
+    userId: message.user ?? "",
+    text: message.text ?? "",
+    isReply: Boolean(message.thread_ts && message.thread_ts !== message.ts),
+    sentAt: fromSlackTimestamp(message.ts),
+    reactionsFromOthers: countReactionsFromOthers(message),
+  };
+}
+
+/**
+ * Messages and thread replies posted in the window. History is read back
+ * `threadLookbackDays` before the window so replies posted this week to older
+ * threads are counted; parents from before the window are not.
+ */
+async function readChannelMessages(input: {
+  client: SlackClient;
+  channelId: string;
+  window: WeekWindow;
+  threadLookbackDays: number;
+}): Promise<ChannelMessage[]> {
+  const oldest = toSlackTimestamp(input.window.startsAt);
+  const latest = toSlackTimestamp(input.window.endsAt);
+  const history = await input.client.listChannelHistory({
+    channelId: input.channelId,
+    oldest: toSlackTimestamp(
+      new Date(input.window.startsAt.getTime() - input.threadLookbackDays * DAY_MS)
+    ),
+    latest,
+  });
+
+  const collected: ChannelMessage[] = [];
+  for (const message of history) {
+    const inWindow = Number(message.ts) > Number(oldest);
+    if (inWindow && isAuthoredMessage(message)) {
+      collected.push(toChannelMessage(input.channelId, message));
+    }
+
+    if (!message.reply_count) continue;
+    // A thread whose last reply predates the window has nothing to add.
+    if (message.latest_reply && Number(message.latest_reply) <= Number(oldest)) continue;
+
+    const replies = await input.client.listThreadReplies({
+      channelId: input.channelId,
+      threadTs: message.ts,
+      oldest,
+      latest,
+    });
+    for (const reply of replies) {
+      // conversations.replies always echoes the parent as the first message.
+      if (reply.ts === message.ts) continue;
+      // Broadcast replies already appear in channel history.
+      if (reply.subtype === "thread_broadcast") continue;
+      if (Number(reply.ts) <= Number(oldest) || Number(reply.ts) >= Number(latest)) continue;
+      if (!isAuthoredMessage(reply)) continue;
+      collected.push(toChannelMessage(input.channelId, reply));
+    }
+  }
+
+  return collected;
+}
+
+async function loadCollectorEmployeeEmails(): Promise<string[]> {
+  const rows = await db
+    .select({ email: employees.email })
+    .from(employees)
+    .orderBy(asc(employees.email));
+  return rows.map((row) => row.email);
+}
+
+function sanitizeErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return "Unknown error";
+}
+
+async function summarizeEmployeeWeek(input: {
+  employeeEmail: string;
+  window: WeekWindow;
+  messages: ChannelMessage[];
+  workPattern: WorkPatternConfig;
+}): Promise<CollectedSlackWeek> {
+  const ordered = [...input.messages].sort(
+    (left, right) => left.sentAt.getTime() - right.sentAt.getTime()
+  );
+  const ratios = computeWorkPatternRatios(
+    ordered.map((message) => message.sentAt),
+    input.workPattern
+  );
+  const messageSummaries = await classifySlackMessages({
+    employeeEmail: input.employeeEmail,
+    weekStart: input.window.weekStart,
+    messages: ordered.map((message) => message.text),
+  });
+
+  return {
+    employeeEmail: input.employeeEmail,
+    weekStart: input.window.weekStart,
+    messageSummaries,
+    messageCount: ordered.length,
+    replyCount: ordered.filter((message) => message.isReply).length,
+    reactionsReceived: ordered.reduce(
+      (total, message) => total + message.reactionsFromOthers,
+      0
+    ),
+    afterHoursRatio: ratios.afterHoursRatio,
+    weekendRatio: ratios.weekendRatio,
+  };
+}
+
+export async function collectSlackWeeklyActivity(input: {
+  weekStart: string;
+  employeeEmails?: string[];
+  channelIds?: string[];
+  client?: SlackClient;
+  workPattern?: WorkPatternConfig;
+}): Promise<SlackCollectionResult> {
+  const window = resolveWeekWindow(input.weekStart);
+  const client = input.client ?? getSlackClient();
+  const workPattern = input.workPattern ?? readWorkPatternConfigFromEnv();
+  const employeeEmails = input.employeeEmails ?? (await loadCollectorEmployeeEmails());
+  const channelIds =
+    input.channelIds ??
+    readConfiguredChannelIds() ??
+    (await client.listMemberChannelIds());
+
+  const rows: CollectedSlackWeek[] = [];
+  const failures: CollectorFailure[] = [];
+
+  const userIdByEmail = new Map<string, string>();
+  for (const employeeEmail of employeeEmails) {
+    try {
+      userIdByEmail.set(employeeEmail, await client.lookupUserIdByEmail(employeeEmail));
+    } catch (error) {
+      failures.push({ employeeEmail, message: sanitizeErrorMessage(error) });
+    }
+  }
+
+  // Channel history is read once and fanned out per author, rather than
+  // re-reading every channel for every employee.
+  const threadLookbackDays = readThreadLookbackDays();
+  const messagesByUserId = new Map<string, ChannelMessage[]>();
+  for (const channelId of channelIds) {
+    let messages: ChannelMessage[];
+    // One unreadable channel (not_in_channel, channel_not_found, ...) is
+    // recorded and skipped instead of failing the whole source.
+    try {
+      messages = await readChannelMessages({ client, channelId, window, threadLookbackDays });
+    } catch (error) {
+      failures.push({
+        employeeEmail: null,
+        message: `Channel ${channelId}: ${sanitizeErrorMessage(error)}`,
+      });
+      continue;
+    }
+    for (const message of messages) {
+      const bucket = messagesByUserId.get(message.userId) ?? [];
+      bucket.push(message);
+      messagesByUserId.set(message.userId, bucket);
+    }
+  }
+
+  for (const [employeeEmail, userId] of userIdByEmail) {
+    try {
+      rows.push(
+        await summarizeEmployeeWeek({
+          employeeEmail,
+          window,
+          messages: messagesByUserId.get(userId) ?? [],
+          workPattern,
+        })
+      );
+    } catch (error) {
+      failures.push({ employeeEmail, message: sanitizeErrorMessage(error) });
+    }
+  }
+
+  return {
+    weekStart: window.weekStart,
+    channelCount: channelIds.length,
+    rows,
+    failures,
+  };
+}
+
+export async function upsertSlackWeeklyActivity(
+  rows: CollectedSlackWeek[]
+): Promise<number> {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  await db
+    .insert(slackWeeklyActivity)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [slackWeeklyActivity.employeeEmail, slackWeeklyActivity.weekStart],
+      set: {
+        messageSummaries: sql`excluded.message_summaries`,
+        messageCount: sql`excluded.message_count`,
+        replyCount: sql`excluded.reply_count`,
+        reactionsReceived: sql`excluded.reactions_received`,
+        afterHoursRatio: sql`excluded.after_hours_ratio`,
+        weekendRatio: sql`excluded.weekend_ratio`,
+      },
+    });
+
+  return rows.length;
+}
+
+export async function ingestSlackWeek(input: {
+  weekStart: string;
+  employeeEmails?: string[];
+  channelIds?: string[];
+  client?: SlackClient;
+}): Promise<SlackCollectionResult & { upserted: number }> {
+  const result = await collectSlackWeeklyActivity(input);
+  const upserted = await upsertSlackWeeklyActivity(result.rows);
+  return { ...result, upserted };
+}
@@ -59,10 +59,7 @@ function addRecipientMappings(
   webhookUrl: string
 ): void {
   map[recipient] = webhookUrl;
-
-  if (recipient !== "manager") {
-    map[`${recipient}@company.com`] = webhookUrl;
-  }
+  map[`${recipient}@company.com`] = webhookUrl;
 }
 
 export class SlackWebhookClient {
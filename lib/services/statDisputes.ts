@@ -0,0 +1,362 @@
+import "server-only";
+
+import { and, asc, desc, eq, gte, inArray, lte } from "drizzle-orm";
+
+import type { StatCorrection } from "@/lib/ai/insightGenerator";
+import { recheckDisputedStat } from "@/lib/ai/statRecheck";
+import { db } from "@/lib/db/config";
+import {
+  githubWeeklyActivity,
+  slackWeeklyActivity,
+  statDispute,
+} from "@/lib/db/schema";
+import { enqueueJob, NonRetryableJobError } from "@/lib/services/jobQueue";
+import type { GenerateReportInput } from "@/lib/services/reportGeneration";
+
+export type StatDisputeScope = "weekly" | "monthly";
+
+// open: waiting for (or failed) the LLM recheck. rechecked: verdict stored,
+// waiting for a manager. upheld / rejected: resolved by a manager.
+export type StatDisputeStatus = "open" | "rechecked" | "upheld" | "rejected";
+
+export type StatDisputeView = {
+  id: number;
+  employeeEmail: string;
+  raisedBy: string;
+  scope: StatDisputeScope;
+  periodKey: string;
+  detailLabel: string;
+  detailValue: string;
+  note: string;
+  status: StatDisputeStatus;
+  recheck: {
+    verdict: string;
+    explanation: string;
+    evidenceWeeks: string[];
+    model: string | null;
+    promptId: string | null;
+    promptVersion: number | null;
+    recheckedAt: string | null;
+  } | null;
+  recheckJobId: number | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  regenerationJobId: number | null;
+  createdAt: string;
+};
+
+export type ResolveStatDisputeResult =
+  | { ok: true; dispute: StatDisputeView }
+  | { ok: false; reason: "not_found" | "already_resolved" };
+
+type StatDisputeRow = typeof statDispute.$inferSelect;
+
+const UNRESOLVED_STATUSES: StatDisputeStatus[] = ["open", "rechecked"];
+
+function toView(row: StatDisputeRow): StatDisputeView {
+  return {
+    id: row.id,
+    employeeEmail: row.employeeEmail,
+    raisedBy: row.raisedBy,
+    scope: row.scope as StatDisputeScope,
+    periodKey: row.periodKey,
+    detailLabel: row.detailLabel,
+    detailValue: row.detailValue,
+    note: row.note,
+    status: row.status as StatDisputeStatus,
+    recheck:
+      row.recheckVerdict && row.recheckExplanation
+        ? {
+            verdict: row.recheckVerdict,
+            explanation: row.recheckExplanation,
+            evidenceWeeks: Array.isArray(row.recheckEvidenceWeeks)
+              ? (row.recheckEvidenceWeeks as string[])
+              : [],
+            model: row.recheckedByModel,
+            promptId: row.promptId,
+            promptVersion: row.promptVersion,
+            recheckedAt: row.recheckedAt?.toISOString() ?? null,
+          }
+        : null,
+    recheckJobId: row.recheckJobId,
+    resolvedBy: row.resolvedBy,
+    resolutionNote: row.resolutionNote,
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    regenerationJobId: row.regenerationJobId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function lastDayOfMonth(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10);
+}
+
+// A weekly detail comes from one week's rows; a monthly detail from every
+// week that starts in the month, matching how monthly insights bucket weeks.
+function sourceWindow(
+  scope: StatDisputeScope,
+  periodKey: string
+): { startDate: string; endDate: string } {
+  if (scope === "weekly") {
+    return { startDate: periodKey, endDate: periodKey };
+  }
+  return { startDate: `${periodKey}-01`, endDate: lastDayOfMonth(periodKey) };
+}
+
+/** Stores the dispute and queues its LLM recheck. */
+export async function createStatDispute(input: {
+  employeeEmail: string;
+  raisedBy: string;
+  scope: StatDisputeScope;
+  periodKey: string;
+  detailLabel: string;
+  detailValue: string;
+  note: string;
+}): Promise<{ dispute: StatDisputeView; jobId: number }> {
+  const [inserted] = await db
+    .insert(statDispute)
+    .values({
+      employeeEmail: input.employeeEmail,
+      raisedBy: input.raisedBy,
+      scope: input.scope,
+      periodKey: input.periodKey,
+      detailLabel: input.detailLabel,
+      detailValue: input.detailValue,
+      note: input.note,
+    })
+    .returning();
+
+  const { jobId } = await enqueueJob({
+    kind: "stat_dispute_recheck",
+    payload: { disputeId: inserted.id },
+    employeeEmail: input.employeeEmail,
+    requestedBy: input.raisedBy,
+  });
+
+  const [updated] = await db
+    .update(statDispute)
+    .set({ recheckJobId: jobId })
+    .where(eq(statDispute.id, inserted.id))
+    .returning();
+
+  return { dispute: toView(updated), jobId };
+}
+
+/**
+ * Job handler: re-reads the weekly rows behind the disputed detail and stores
+ * the model's verdict. Disputes a manager resolved in the meantime are left
+ * alone.
+ */
+export async function recheckStatDispute(input: {
+  disputeId: number;
+}): Promise<{ status: "rechecked" | "skipped"; disputeId: number; verdict?: string }> {
+  const [dispute] = await db
+    .select()
+    .from(statDispute)
+    .where(eq(statDispute.id, input.disputeId))
+    .limit(1);
+
+  if (!dispute) {
+    throw new NonRetryableJobError(`Stat dispute ${input.disputeId} not found.`);
+  }
+  if (!UNRESOLVED_STATUSES.includes(dispute.status as StatDisputeStatus)) {
+    return { status: "skipped", disputeId: dispute.id };
+  }
+
+  const scope = dispute.scope as StatDisputeScope;
+  const { startDate, endDate } = sourceWindow(scope, dispute.periodKey);
+
+  const githubWeekly = await db
+    .select()
+    .from(githubWeeklyActivity)
+    .where(
+      and(
+        eq(githubWeeklyActivity.employeeEmail, dispute.employeeEmail),
+        gte(githubWeeklyActivity.weekStart, startDate),
+        lte(githubWeeklyActivity.weekStart, endDate)
+      )
+    )
+    .orderBy(asc(githubWeeklyActivity.weekStart));
+
+  const slackWeekly = await db
+    .select()
+    .from(slackWeeklyActivity)
+    .where(
+      and(
+        eq(slackWeeklyActivity.employeeEmail, dispute.employeeEmail),
+        gte(slackWeeklyActivity.weekStart, startDate),
+        lte(slackWeeklyActivity.weekStart, endDate)
+      )
+    )
+    .orderBy(asc(slackWeeklyActivity.weekStart));
+
+  const recheck = await recheckDisputedStat({
+    employeeEmail: dispute.employeeEmail,
+    scope,
+    periodKey: dispute.periodKey,
+    detailLabel: dispute.detailLabel,
+    detailValue: dispute.detailValue,
+    note: dispute.note,
+    githubWeekly,
+    slackWeekly,
+  });
+
+  const [updated] = await db
+    .update(statDispute)
+    .set({
+      status: "rechecked",
+      recheckVerdict: recheck.verdict,
+      recheckExplanation: recheck.explanation,
+      recheckEvidenceWeeks: recheck.evidenceWeeks,
+      recheckedByModel: recheck.model,
+      promptId: recheck.prompt.promptId,
+      promptVersion: recheck.prompt.promptVersion,
+      recheckedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(statDispute.id, dispute.id),
+        inArray(statDispute.status, UNRESOLVED_STATUSES)
+      )
+    )
+    .returning({ id: statDispute.id });
+
+  if (!updated) {
+    return { status: "skipped", disputeId: dispute.id };
+  }
+  return { status: "rechecked", disputeId: dispute.id, verdict: recheck.verdict };
+}
+
+export async function findStatDispute(disputeId: number): Promise<StatDisputeView | null> {
+  const [row] = await db
+    .select()
+    .from(statDispute)
+    .where(eq(statDispute.id, disputeId))
+    .limit(1);
+  return row ? toView(row) : null;
+}
+
+export async function listStatDisputes(input: {
+  employeeEmail: string;
+  status?: StatDisputeStatus;
+}): Promise<StatDisputeView[]> {
+  const rows = await db
+    .select()
+    .from(statDispute)
+    .where(
+      input.status
+        ? and(
+            eq(statDispute.employeeEmail, input.employeeEmail),
+            eq(statDispute.status, input.status)
+          )
+        : eq(statDispute.employeeEmail, input.employeeEmail)
+    )
+    .orderBy(desc(statDispute.createdAt), desc(statDispute.id));
+
+  return rows.map(toView);
+}
+
+/**
+ * Upheld disputes whose month falls in the window, keyed by month, so a
+ * regenerated monthly insight can correct the disputed details.
+ */
+export async function listStatCorrectionsByMonth(input: {
+  employeeEmail: string;
+  startDate: string;
+  endDate: string | null;
+}): Promise<Map<string, StatCorrection[]>> {
+  const rows = await db
+    .select()
+    .from(statDispute)
+    .where(
+      and(
+        eq(statDispute.employeeEmail, input.employeeEmail),
+        eq(statDispute.status, "upheld")
+      )
+    )
+    .orderBy(asc(statDispute.resolvedAt), asc(statDispute.id));
+
+  const startMonth = input.startDate.slice(0, 7);
+  const endMonth = input.endDate?.slice(0, 7) ?? null;
+  const byMonth = new Map<string, StatCorrection[]>();
+  for (const row of rows) {
+    const month = row.periodKey.slice(0, 7);
+    if (month < startMonth || (endMonth && month > endMonth)) continue;
+
+    byMonth.set(month, [
+      ...(byMonth.get(month) ?? []),
+      {
+        scope: row.scope as StatDisputeScope,
+        periodKey: row.periodKey,
+        detailLabel: row.detailLabel,
+        disputedValue: row.detailValue,
+        employeeNote: row.note,
+        recheckExplanation: row.recheckExplanation,
+        resolutionNote: row.resolutionNote,
+      },
+    ]);
+  }
+  return byMonth;
+}
+
+/**
+ * Records a manager's decision. Upholding a dispute queues a regeneration of
+ * the affected monthly insight; the month of the week start for weekly
+ * details. The regeneration reads the upheld dispute back through
+ * `listStatCorrectionsByMonth` as correction context.
+ */
+export async function resolveStatDispute(input: {
+  disputeId: number;
+  resolvedBy: string;
+  decision: "upheld" | "rejected";
+  note: string | null;
+}): Promise<ResolveStatDisputeResult> {
+  const [resolved] = await db
+    .update(statDispute)
+    .set({
+      status: input.decision,
+      resolvedBy: input.resolvedBy,
+      resolutionNote: input.note,
+      resolvedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(statDispute.id, input.disputeId),
+        inArray(statDispute.status, UNRESOLVED_STATUSES)
+      )
+    )
+    .returning();
+
+  if (!resolved) {
+    const existing = await findStatDispute(input.disputeId);
+    return { ok: false, reason: existing ? "already_resolved" : "not_found" };
+  }
+
+  if (input.decision === "rejected") {
+    return { ok: true, dispute: toView(resolved) };
+  }
+
+  const month = resolved.periodKey.slice(0, 7);
+  const payload: GenerateReportInput = {
+    employeeEmail: resolved.employeeEmail,
+    startDate: `${month}-01`,
+    endDate: lastDayOfMonth(month),
+    monthlyOnly: true,
+  };
+  const { jobId } = await enqueueJob({
+    kind: "generate_report",
+    payload,
+    employeeEmail: resolved.employeeEmail,
+    requestedBy: input.resolvedBy,
+  });
+
+  const [updated] = await db
+    .update(statDispute)
+    .set({ regenerationJobId: jobId })
+    .where(eq(statDispute.id, resolved.id))
+    .returning();
+
+  return { ok: true, dispute: toView(updated) };
+}
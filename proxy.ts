@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  SESSION_COOKIE_NAME,
+  decodeSessionToken,
+  readAuthSecret,
+} from "@/lib/auth/sessionToken";
+
+// Coarse gate only: it rejects requests without a valid session cookie.
+// Per-employee access is enforced in the pages and route handlers.
+export function proxy(request: NextRequest) {
+  const session = decodeSessionToken(
+    request.cookies.get(SESSION_COOKIE_NAME)?.value,
+    readAuthSecret()
+  );
+  if (session) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+
+  const signInUrl = new URL("/signin", request.url);
+  signInUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  matcher: [
+    "/manager/:path*",
+    "/engineer/:path*",
+    "/hr/:path*",
+    "/api/insights/:path*",
+    "/api/generate-text",
+    "/api/slack/:path*",
+  ],
+};
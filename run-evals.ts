@@ -0,0 +1,94 @@
+// Loads .env.local before the LLM providers read their credentials.
+import "./lib/db/config";
+import { readFile } from "node:fs/promises";
+
+import { z } from "zod";
+
+import { buildGoldenSet } from "./lib/evals/goldenSet";
+import { compareEvalRuns, writeEvalReport } from "./lib/evals/report";
+import {
+  runEvalConfig,
+  type EvalCaseResult,
+  type EvalConfig,
+} from "./lib/evals/runner";
+
+const DEFAULT_BASELINE = "evals/configs/baseline.json";
+const DEFAULT_CANDIDATE = "evals/configs/candidate.json";
+
+const evalConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    env: z.record(z.string(), z.string()).optional(),
+    promptVersions: z.record(z.string(), z.number().int().positive()).optional(),
+  })
+  .strict();
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((value) => value.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function loadConfig(filePath: string): Promise<EvalConfig> {
+  const parsed = evalConfigSchema.safeParse(JSON.parse(await readFile(filePath, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`${filePath} is not a valid eval config: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+function logResult(result: EvalCaseResult) {
+  const icon =
+    result.status === "passed"
+      ? "✅"
+      : result.status === "failed"
+        ? "❌"
+        : result.status === "error"
+          ? "⚠️ "
+          : "⏭️ ";
+  const detail =
+    result.status === "failed"
+      ? ` (${result.findings.length} findings)`
+      : result.error
+        ? ` (${result.error})`
+        : "";
+  console.log(
+    `${icon} ${result.stage} ${result.employeeEmail} ${result.periodKey}: ${result.status}${detail}`
+  );
+}
+
+async function runEvals() {
+  const baseline = await loadConfig(readArg("baseline") ?? DEFAULT_BASELINE);
+  const candidate = await loadConfig(readArg("candidate") ?? DEFAULT_CANDIDATE);
+  const employeeEmails = readArg("employees")
+    ?.split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  const cases = buildGoldenSet({ employeeEmails });
+  if (cases.length === 0) {
+    throw new Error("No golden cases match --employees.");
+  }
+
+  console.log(`🧪 Running ${cases.length} golden cases with "${baseline.name}"...`);
+  const baselineRun = await runEvalConfig(baseline, cases, { onResult: logResult });
+  console.log(`🧪 Running ${cases.length} golden cases with "${candidate.name}"...`);
+  const candidateRun = await runEvalConfig(candidate, cases, { onResult: logResult });
+
+  const comparison = compareEvalRuns(baselineRun, candidateRun);
+  const { jsonPath, markdownPath } = await writeEvalReport(comparison);
+  console.log(`📄 Wrote ${markdownPath}`);
+  console.log(`📄 Wrote ${jsonPath}`);
+
+  for (const row of comparison.summary) {
+    const rate = (value: number | null) =>
+      value === null ? "n/a" : `${Math.round(value * 100)}%`;
+    console.log(
+      `   ${row.stage}: ${rate(row.baseline.passRate)} → ${rate(row.candidate.passRate)}`
+    );
+  }
+}
+
+runEvals().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,12 +3,14 @@ import {
   employeeAnalysisContext,
   employees,
   githubWeeklyActivity,
+  orgReportingLine,
   slackWeeklyActivity,
 } from "./lib/db/schema";
 import {
   employeeAnalysisContextData,
   employeesData,
   githubWeeklyData,
+  orgReportingLineData,
   slackWeeklyData,
 } from "./lib/db/seed-data";
 
@@ -50,6 +52,26 @@ async function seedEve() {
   }
   console.log(`✅ Seeded analysis context for ${eveEmail}`);
 
+  const eveReportingLine = orgReportingLineData.find(
+    (row) => row.employeeEmail === eveEmail
+  );
+  if (eveReportingLine) {
+    await db
+      .insert(orgReportingLine)
+      .values({
+        employeeEmail: eveReportingLine.employeeEmail,
+        managerEmail: eveReportingLine.managerEmail,
+      })
+      .onConflictDoUpdate({
+        target: orgReportingLine.employeeEmail,
+        set: {
+          managerEmail: eveReportingLine.managerEmail,
+          updatedAt: new Date(),
+        },
+      });
+  }
+  console.log(`✅ Seeded reporting line for ${eveEmail}`);
+
   await db
     .insert(githubWeeklyActivity)
     .values(eveGithub)
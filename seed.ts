@@ -3,20 +3,24 @@ import {
   employeeAnalysisContext,
   employees,
   githubWeeklyActivity,
+  orgReportingLine,
   slackWeeklyActivity,
+  team,
 } from "./lib/db/schema";
 import {
   employeeAnalysisContextData,
   employeesData,
   githubWeeklyData,
+  orgReportingLineData,
   slackWeeklyData,
+  teamsData,
 } from "./lib/db/seed-data";
 
 async function seed() {
   console.log("🌱 Seeding GitHub + Slack weekly activity...");
 
   await sql`
-    TRUNCATE manager_feedback, employee_prompt, analysis_arbiter_decision, analysis_debate_response, analysis_run, employee_analysis_context, employee_quarterly_insights, employee_monthly_insights, slack_weekly_activity, github_weekly_activity, employees
+    TRUNCATE org_reporting_line, team, manager_feedback, employee_prompt, analysis_arbiter_decision, analysis_debate_response, analysis_run, employee_analysis_context, employee_quarterly_insights, employee_monthly_insights, slack_weekly_activity, github_weekly_activity, employees
     RESTART IDENTITY CASCADE
   `;
 
@@ -28,6 +32,32 @@ async function seed() {
     `✅ Seeded ${employeeAnalysisContextData.length} employee analysis context records`
   );
 
+  const teamIdBySlug = new Map<string, number>();
+  for (const teamRow of teamsData) {
+    const [inserted] = await db
+      .insert(team)
+      .values({
+        slug: teamRow.slug,
+        name: teamRow.name,
+        parentTeamId: teamRow.parentSlug
+          ? teamIdBySlug.get(teamRow.parentSlug)
+          : null,
+        leadEmail: teamRow.leadEmail,
+      })
+      .returning({ id: team.id });
+    teamIdBySlug.set(teamRow.slug, inserted.id);
+  }
+  console.log(`✅ Seeded ${teamsData.length} teams`);
+
+  await db.insert(orgReportingLine).values(
+    orgReportingLineData.map((row) => ({
+      employeeEmail: row.employeeEmail,
+      managerEmail: row.managerEmail,
+      teamId: teamIdBySlug.get(row.teamSlug) ?? null,
+    }))
+  );
+  console.log(`✅ Seeded ${orgReportingLineData.length} reporting lines`);
+
   await db.insert(githubWeeklyActivity).values(githubWeeklyData);
   console.log(
     `✅ Seeded ${githubWeeklyData.length} GitHub weekly activity records`
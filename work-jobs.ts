@@ -0,0 +1,69 @@
+// Loads .env.local before the job handlers read their credentials.
+import "./lib/db/config";
+import { hostname } from "node:os";
+
+import {
+  drainJobs,
+  readWorkerPollIntervalMs,
+  runNextJob,
+  type ProcessedJob,
+} from "./lib/services/jobWorker";
+
+function logProcessedJob(job: ProcessedJob) {
+  const icon =
+    job.status === "completed"
+      ? "✅"
+      : job.status === "queued"
+        ? "🔁"
+        : job.status === "lease_lost"
+          ? "⚠️ "
+          : "❌";
+  console.log(
+    `${icon} job ${job.jobId} [${job.kind}] attempt ${job.attempt}: ${job.status}${job.error ? ` (${job.error})` : ""}`
+  );
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function workJobs() {
+  const workerId = `${hostname()}-${process.pid}`;
+  const once = process.argv.includes("--once");
+
+  if (once) {
+    console.log(`⚙️  Draining due jobs as ${workerId}...`);
+    const processed = await drainJobs({ workerId });
+    processed.forEach(logProcessedJob);
+    console.log(`✅ Processed ${processed.length} jobs`);
+    if (processed.some((job) => job.status === "failed")) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+    console.log("🛑 Stopping after the current job...");
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  const pollIntervalMs = readWorkerPollIntervalMs();
+  console.log(`⚙️  Job worker ${workerId} polling every ${pollIntervalMs}ms...`);
+
+  while (!stopping) {
+    const processed = await runNextJob(workerId);
+    if (processed) {
+      logProcessedJob(processed);
+    } else {
+      await sleep(pollIntervalMs);
+    }
+  }
+}
+
+workJobs().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});